@@ -183,8 +183,9 @@ async function runCase(
 }
 
 async function main(): Promise<void> {
-    const apiKey = process.env.OPENAI_API_KEY?.trim();
-    if (!apiKey) {
+    // A local provider needs no key; its server settings have defaults.
+    const usesOpenAI = process.env.LLM_PROVIDER !== 'local';
+    if (usesOpenAI && !process.env.OPENAI_API_KEY?.trim()) {
         evalLogger.error('OPENAI_API_KEY is required. Add it to .env or export it before running npm run eval.');
         process.exitCode = 1;
         return;
@@ -18,13 +18,17 @@ function delay(milliseconds: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, milliseconds));
 }
 
+// Vectors from different embedding models cannot be compared, so switching
+// LLM_PROVIDER or EMBEDDING_MODEL calls for re-embedding every entry.
+const reembedAll = process.argv.slice(2).includes('--all');
+
 async function backfillEmbeddings(): Promise<void> {
     await connectToDatabase();
 
     try {
         const entries = await JournalEntry.find({
             status: JournalEntryStatus.COMPLETED,
-            embedding: { $exists: false }
+            ...(reembedAll ? {} : { embedding: { $exists: false } })
         }).select('+embedding').populate('messages');
 
         for (let index = 0; index < entries.length; index += 1) {
@@ -0,0 +1,76 @@
+import { Types } from 'mongoose';
+import { extractEntryMetadata } from '../src/ai/journal-ai';
+import { LOG_LEVEL } from '../src/config';
+import {
+    connectToDatabase,
+    disconnectFromDatabase,
+    IUser,
+    JournalEntry,
+    JournalEntryStatus,
+    updateJournalEntryMetadata
+} from '../src/database';
+import { createLogger } from '../src/utils/logger';
+
+const backfillLogger = createLogger('BackfillMetadata', LOG_LEVEL);
+const EXTRACTION_DELAY_MS = 100;
+const CURSOR_BATCH_SIZE = 20;
+
+function delay(milliseconds: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, milliseconds));
+}
+
+async function backfillMetadata(): Promise<void> {
+    await connectToDatabase();
+
+    try {
+        // Emotions are only ever set by extraction, so an entry without them has
+        // not been through it; one the model found no mood in still gets them.
+        const query = {
+            status: JournalEntryStatus.COMPLETED,
+            $or: [{ tags: { $exists: false } }, { emotions: { $exists: false } }]
+        };
+        const total = await JournalEntry.countDocuments(query);
+        // A cursor keeps one batch of entries in memory instead of the whole collection.
+        const entries = JournalEntry.find(query)
+            .populate('user')
+            .populate('messages')
+            .cursor({ batchSize: CURSOR_BATCH_SIZE });
+
+        let index = 0;
+        for await (const entry of entries) {
+            index += 1;
+            if (index > 1) {
+                await delay(EXTRACTION_DELAY_MS);
+            }
+
+            try {
+                const metadata = await extractEntryMetadata(entry, entry.user as IUser);
+                if (metadata) {
+                    // Imported entries keep the title, tags, people and places they came with.
+                    await updateJournalEntryMetadata(entry._id as unknown as Types.ObjectId, {
+                        ...metadata,
+                        title: entry.title || metadata.title,
+                        tags: entry.tags?.length ? entry.tags : metadata.tags,
+                        people: entry.people?.length ? entry.people : metadata.people,
+                        places: entry.places?.length ? entry.places : metadata.places,
+                        emotions: metadata.emotions ?? []
+                    });
+                    backfillLogger.info(`Tagged journal entry ${index}/${total}`);
+                } else {
+                    backfillLogger.warn(`No metadata for journal entry ${index}/${total}`);
+                }
+            } catch (error) {
+                backfillLogger.error(`Failed to tag journal entry ${index}/${total}:`, error);
+            }
+        }
+    } finally {
+        await disconnectFromDatabase();
+    }
+}
+
+backfillMetadata()
+    .then(() => process.exit(0))
+    .catch(error => {
+        backfillLogger.error('Metadata backfill failed:', error);
+        process.exit(1);
+    });
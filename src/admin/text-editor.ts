@@ -1,23 +1,25 @@
 import express, { NextFunction, Request, Response } from 'express';
 import * as path from 'path';
-import { timingSafeEqual } from 'crypto';
 import { Language, reloadTexts, updateText, exportTextsToFiles } from '../utils/localization';
-import { getAllLocalizationTexts } from '../database';
+import { getAllLocalizationTexts, getUserById } from '../database';
 import { connectToDatabase } from '../database/connection';
 import { ADMIN_HOST, ADMIN_PASSWORD, ADMIN_PORT } from '../config';
+import { deleteUserAccount } from '../services/account-deletion';
+import { getHttpApp, startHttpServers } from '../server';
+import { safeEquals } from '../utils/safe-equals';
 
-// Create Express app
-const app = express();
+// Admin sub-app; mounted on the HTTP server for ADMIN_HOST:ADMIN_PORT.
 // Bound to loopback by default: this is an operator tool, not a public page.
+const adminApp = express();
 
 // Middleware
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
-app.use(basicAuth);
+adminApp.use(express.json());
+adminApp.use(express.urlencoded({ extended: true }));
+adminApp.use(basicAuth);
 
 // Set up EJS as the view engine
-app.set('view engine', 'ejs');
-app.set('views', path.join(__dirname, 'views'));
+adminApp.set('view engine', 'ejs');
+adminApp.set('views', path.join(__dirname, 'views'));
 
 /** HTTP Basic auth against ADMIN_PASSWORD; every route requires it. */
 function basicAuth(req: Request, res: Response, next: NextFunction): void {
@@ -36,18 +38,9 @@ function basicAuth(req: Request, res: Response, next: NextFunction): void {
     res.status(401).send('Authentication required');
 }
 
-function safeEquals(a: string, b: string): boolean {
-    const bufferA = Buffer.from(a);
-    const bufferB = Buffer.from(b);
-    if (bufferA.length !== bufferB.length) {
-        return false;
-    }
-    return timingSafeEqual(bufferA, bufferB);
-}
-
 
 // Routes
-app.get('/', async (req: Request, res: Response) => {
+adminApp.get('/', async (req: Request, res: Response) => {
   try {
     // Reload texts to ensure we have the latest version
     await reloadTexts();
@@ -80,7 +73,7 @@ app.get('/', async (req: Request, res: Response) => {
 });
 
 // API endpoint to update text
-app.post('/api/update-text', async (req: Request, res: Response) => {
+adminApp.post('/api/update-text', async (req: Request, res: Response) => {
   const { key, language, text } = req.body;
   
   if (!key || !language || text === undefined) {
@@ -113,7 +106,7 @@ app.post('/api/update-text', async (req: Request, res: Response) => {
 });
 
 // API endpoint to export texts to JSON files
-app.post('/api/export-texts', async (req: Request, res: Response) => {
+adminApp.post('/api/export-texts', async (req: Request, res: Response) => {
   try {
     const success = await exportTextsToFiles();
     
@@ -134,21 +127,55 @@ app.post('/api/export-texts', async (req: Request, res: Response) => {
   }
 });
 
-// Start the server (assumes the database connection is already established)
-export async function startAdminServer(): Promise<void> {
+// API endpoint to erase a user and all their data (right-to-be-forgotten requests)
+adminApp.post('/api/delete-user', async (req: Request, res: Response) => {
+  const telegramId = Number(req.body.telegramId);
+  
+  if (!Number.isSafeInteger(telegramId) || telegramId <= 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'A numeric Telegram ID is required'
+    });
+  }
+  
+  try {
+    const user = await getUserById(telegramId);
+    
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: `No user with Telegram ID ${telegramId}`
+      });
+    }
+    
+    const deleted = await deleteUserAccount(user);
+    return res.json({ success: true, deleted });
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
+// Mount the admin panel on its HTTP server (assumes the database connection is already established).
+// It must be mounted after any public routes sharing the server: its basic auth guards every path.
+export function mountAdminServer(): void {
   if (!ADMIN_PASSWORD) {
     throw new Error('ADMIN_PASSWORD must be set to run the admin interface');
   }
 
-  app.listen(ADMIN_PORT, ADMIN_HOST, () => {
-    console.log(`Admin interface running at http://${ADMIN_HOST}:${ADMIN_PORT}`);
-  });
+  getHttpApp(ADMIN_HOST, ADMIN_PORT).use(adminApp);
 }
 
 // If this file is run directly, connect to the database and start the server
 if (require.main === module) {
   connectToDatabase()
-    .then(() => startAdminServer())
+    .then(() => {
+      mountAdminServer();
+      return startHttpServers();
+    })
     .catch(error => {
       console.error('Failed to start admin server:', error);
       process.exit(1);
@@ -0,0 +1,187 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../config', () => ({
+    LOG_LEVEL: 0
+}));
+
+vi.mock('../database', () => ({
+    countUserJournalEntriesBetween: vi.fn(),
+    getUserCompletedJournalEntry: vi.fn(),
+    getUserJournalEntryFactsBetween: vi.fn(),
+    getUserJournalEntryOverviewBetween: vi.fn()
+}));
+
+vi.mock('../services/journal-retrieval', () => ({
+    retrieveRelevantEntries: vi.fn()
+}));
+
+import { Types } from 'mongoose';
+import type { ChatCompletionMessageToolCall } from 'openai/resources/chat/completions';
+import {
+    countUserJournalEntriesBetween,
+    getUserCompletedJournalEntry,
+    getUserJournalEntryFactsBetween,
+    getUserJournalEntryOverviewBetween,
+    IJournalEntry
+} from '../database';
+import { executeToolCall, localDateRange } from './agent-tools';
+
+const userId = new Types.ObjectId('64b7f0c2a1b2c3d4e5f60718');
+const entryId = '64b7f0c2a1b2c3d4e5f60719';
+const timezone = 'Europe/Berlin';
+
+function toolCall(name: string, args: unknown): ChatCompletionMessageToolCall {
+    return {
+        id: 'call-1',
+        type: 'function',
+        function: { name, arguments: JSON.stringify(args) }
+    };
+}
+
+function entry(fields: Partial<IJournalEntry>): IJournalEntry {
+    return { _id: entryId, createdAt: new Date('2026-07-17T08:00:00.000Z'), ...fields } as unknown as IJournalEntry;
+}
+
+async function run(name: string, args: unknown) {
+    const result = await executeToolCall(userId, timezone, toolCall(name, args));
+    return { content: JSON.parse(result.message.content as string), entries: result.entries };
+}
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe('localDateRange', () => {
+    it('covers whole local days, the last one included', () => {
+        expect(localDateRange('2026-07-01', '2026-07-31', timezone)).toEqual({
+            start: new Date('2026-06-30T22:00:00.000Z'),
+            end: new Date('2026-07-31T22:00:00.000Z')
+        });
+    });
+
+    it('follows a DST switch inside the range', () => {
+        expect(localDateRange('2026-03-28', '2026-03-29', timezone)).toEqual({
+            start: new Date('2026-03-27T23:00:00.000Z'),
+            end: new Date('2026-03-29T22:00:00.000Z')
+        });
+    });
+});
+
+describe('list_entries', () => {
+    it('lists the user entries in the range with their ids', async () => {
+        vi.mocked(getUserJournalEntryOverviewBetween).mockResolvedValue([
+            entry({ title: 'Riga', tags: ['travel'], mood: 4, fullText: 'Took the train to Riga.' })
+        ]);
+        vi.mocked(countUserJournalEntriesBetween).mockResolvedValue(1);
+
+        const { content, entries } = await run('list_entries', { from: '2026-07-17', to: '2026-07-17', limit: null });
+
+        expect(getUserJournalEntryOverviewBetween).toHaveBeenCalledWith(
+            userId,
+            new Date('2026-07-16T22:00:00.000Z'),
+            new Date('2026-07-17T22:00:00.000Z'),
+            20
+        );
+        expect(content).toEqual({
+            total: 1,
+            entries: [{
+                id: entryId,
+                date: '2026-07-17 10:00',
+                title: 'Riga',
+                tags: ['travel'],
+                mood: 4,
+                preview: 'Took the train to Riga.'
+            }]
+        });
+        expect(entries).toEqual([{ entryId, createdAt: new Date('2026-07-17T08:00:00.000Z') }]);
+    });
+
+    it('rejects a range that ends before it starts', async () => {
+        const { content } = await run('list_entries', { from: '2026-07-18', to: '2026-07-17', limit: null });
+
+        expect(content.error).toContain('The range must not end before it starts');
+        expect(getUserJournalEntryOverviewBetween).not.toHaveBeenCalled();
+    });
+
+    it('rejects a date that is not on the calendar', async () => {
+        const { content } = await run('list_entries', { from: '2026-02-30', to: '2026-03-01', limit: null });
+
+        expect(content.error).toContain('Not a calendar date');
+    });
+});
+
+describe('get_entry', () => {
+    it('looks the entry up among the user entries only', async () => {
+        vi.mocked(getUserCompletedJournalEntry).mockResolvedValue(
+            entry({ title: 'Riga', people: ['Anna'], selfRatedMood: 5, mood: 3, fullText: 'Took the train to Riga.' })
+        );
+
+        const { content, entries } = await run('get_entry', { id: entryId });
+
+        expect(getUserCompletedJournalEntry).toHaveBeenCalledWith(userId, new Types.ObjectId(entryId));
+        expect(content).toMatchObject({ id: entryId, people: ['Anna'], mood: 5, text: 'Took the train to Riga.' });
+        expect(entries).toHaveLength(1);
+    });
+
+    it('reports an entry of someone else as missing', async () => {
+        vi.mocked(getUserCompletedJournalEntry).mockResolvedValue(null);
+
+        const { content, entries } = await run('get_entry', { id: entryId });
+
+        expect(content).toEqual({ error: `No journal entry with id ${entryId}` });
+        expect(entries).toEqual([]);
+    });
+
+    it('does not query for an id that is not an object id', async () => {
+        const { content } = await run('get_entry', { id: 'entry-1' });
+
+        expect(content.error).toBe('No journal entry with id entry-1');
+        expect(getUserCompletedJournalEntry).not.toHaveBeenCalled();
+    });
+});
+
+describe('journal_stats', () => {
+    it('aggregates mood, tags and emotions per month', async () => {
+        vi.mocked(getUserJournalEntryFactsBetween).mockResolvedValue([
+            entry({ createdAt: new Date('2026-06-30T23:00:00.000Z'), mood: 2, tags: ['work'], emotions: ['tired'] }),
+            entry({ createdAt: new Date('2026-07-10T10:00:00.000Z'), mood: 4, tags: ['work', 'sport'], emotions: ['tired'] }),
+            entry({ createdAt: new Date('2026-08-02T10:00:00.000Z'), tags: ['sport'] })
+        ]);
+
+        const { content, entries } = await run('journal_stats', { from: '2026-07-01', to: '2026-08-31', groupBy: 'month' });
+
+        expect(content).toEqual({
+            from: '2026-07-01',
+            to: '2026-08-31',
+            entryCount: 3,
+            averageMood: 3,
+            topTags: [{ tag: 'work', count: 2 }, { tag: 'sport', count: 2 }],
+            topEmotions: ['tired'],
+            periods: [
+                { start: '2026-07', entryCount: 2, averageMood: 3 },
+                { start: '2026-08', entryCount: 1, averageMood: null }
+            ]
+        });
+        expect(entries).toEqual([]);
+    });
+
+    it('groups weeks by their local Monday', async () => {
+        vi.mocked(getUserJournalEntryFactsBetween).mockResolvedValue([
+            entry({ createdAt: new Date('2026-07-12T21:30:00.000Z'), mood: 3 }),
+            entry({ createdAt: new Date('2026-07-12T22:30:00.000Z'), mood: 4 })
+        ]);
+
+        const { content } = await run('journal_stats', { from: '2026-07-01', to: '2026-07-31', groupBy: 'week' });
+
+        expect(content.periods).toEqual([
+            { start: '2026-07-06', entryCount: 1, averageMood: 3 },
+            { start: '2026-07-13', entryCount: 1, averageMood: 4 }
+        ]);
+    });
+});
+
+it('reports an unknown tool to the model', async () => {
+    const { content } = await run('delete_journal', {});
+
+    expect(content).toEqual({ error: 'Unknown tool: delete_journal' });
+});
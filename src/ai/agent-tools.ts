@@ -0,0 +1,387 @@
+import { Types } from 'mongoose';
+import { z } from 'zod';
+import type {
+    ChatCompletionMessageParam,
+    ChatCompletionMessageToolCall,
+    ChatCompletionTool
+} from 'openai/resources/chat/completions';
+import {
+    IJournalEntry,
+    countUserJournalEntriesBetween,
+    getUserCompletedJournalEntry,
+    getUserJournalEntryFactsBetween,
+    getUserJournalEntryOverviewBetween
+} from '../database';
+import { LOG_LEVEL } from '../config';
+import { retrieveRelevantEntries } from '../services/journal-retrieval';
+import { sampleMood, topEmotions } from '../services/mood-trends';
+import { extractFullText } from '../utils/entry-text';
+import {
+    formatZonedDateTime,
+    startOfZonedWeek,
+    zonedDateKey,
+    zonedTimeToUtc
+} from '../utils/timezone';
+import { createLogger } from '../utils/logger';
+
+const agentToolsLogger = createLogger('JournalAgentTools', LOG_LEVEL);
+const DEFAULT_SEARCH_LIMIT = 6;
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 50;
+const MAX_ENTRY_TEXT_LENGTH = 1500;
+const MAX_FULL_ENTRY_TEXT_LENGTH = 6000;
+const LIST_PREVIEW_LENGTH = 200;
+const TOP_TAG_COUNT = 10;
+const TOP_EMOTION_COUNT = 5;
+
+/** A calendar date on the user's clock; the tools turn it into instants with the user's timezone. */
+const localDateSchema = z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date')
+    .refine(isCalendarDate, 'Not a calendar date');
+
+const dateRangeShape = {
+    from: localDateSchema,
+    to: localDateSchema
+};
+
+// ISO dates compare correctly as strings.
+const isOrderedRange = (range: { from: string; to: string }) => range.from <= range.to;
+const orderedRangeMessage = { message: 'The range must not end before it starts' };
+
+const searchArgumentsSchema = z.object({
+    query: z.string(),
+    limit: z.number().int().positive().nullish()
+});
+
+const listArgumentsSchema = z.object({
+    ...dateRangeShape,
+    limit: z.number().int().positive().max(MAX_LIST_LIMIT).nullish()
+}).refine(isOrderedRange, orderedRangeMessage);
+
+const getEntryArgumentsSchema = z.object({
+    id: z.string()
+});
+
+const statsArgumentsSchema = z.object({
+    ...dateRangeShape,
+    groupBy: z.enum(['week', 'month']).nullish()
+}).refine(isOrderedRange, orderedRangeMessage);
+
+const dateProperty = (description: string) => ({
+    type: 'string',
+    description: `${description}, as YYYY-MM-DD on the user's local clock.`
+});
+
+// Strict mode requires every property to be listed in `required`,
+// so an optional argument is expressed as a nullable one instead.
+export const agentTools: ChatCompletionTool[] = [
+    {
+        type: 'function',
+        function: {
+            name: 'search_journal',
+            description: 'Search the user journal for entries relevant to a focused query.',
+            strict: true,
+            parameters: {
+                type: 'object',
+                properties: {
+                    query: {
+                        type: 'string',
+                        description: 'A focused semantic search query.'
+                    },
+                    limit: {
+                        type: ['integer', 'null'],
+                        description: 'Maximum number of journal entries to return, or null for the default.',
+                        minimum: 1
+                    }
+                },
+                required: ['query', 'limit'],
+                additionalProperties: false
+            }
+        }
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'list_entries',
+            description: 'List the journal entries written between two dates, oldest first, with a short preview of each. Use get_entry for the full text.',
+            strict: true,
+            parameters: {
+                type: 'object',
+                properties: {
+                    from: dateProperty('First day of the range, inclusive'),
+                    to: dateProperty('Last day of the range, inclusive'),
+                    limit: {
+                        type: ['integer', 'null'],
+                        description: `Maximum number of entries to return, at most ${MAX_LIST_LIMIT}, or null for the default.`,
+                        minimum: 1,
+                        maximum: MAX_LIST_LIMIT
+                    }
+                },
+                required: ['from', 'to', 'limit'],
+                additionalProperties: false
+            }
+        }
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'get_entry',
+            description: 'Fetch the full text and details of one journal entry by the id another tool returned.',
+            strict: true,
+            parameters: {
+                type: 'object',
+                properties: {
+                    id: {
+                        type: 'string',
+                        description: 'The entry id.'
+                    }
+                },
+                required: ['id'],
+                additionalProperties: false
+            }
+        }
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'journal_stats',
+            description: 'Count the journal entries between two dates and aggregate their mood (1-5), tags, and emotions, optionally per week or month.',
+            strict: true,
+            parameters: {
+                type: 'object',
+                properties: {
+                    from: dateProperty('First day of the range, inclusive'),
+                    to: dateProperty('Last day of the range, inclusive'),
+                    groupBy: {
+                        type: ['string', 'null'],
+                        enum: ['week', 'month', null],
+                        description: 'Also break the numbers down per week (starting Monday) or per month, or null for totals only.'
+                    }
+                },
+                required: ['from', 'to', 'groupBy'],
+                additionalProperties: false
+            }
+        }
+    }
+];
+
+/** An entry the answer is based on. */
+export interface AgentCitation {
+    entryId: string;
+    createdAt: Date;
+}
+
+export interface ToolExecutionResult {
+    message: ChatCompletionMessageParam;
+    /** Entries the tool showed the model, which its answer may cite. */
+    entries: AgentCitation[];
+}
+
+interface ToolScope {
+    userId: Types.ObjectId;
+    timezone: string;
+}
+
+interface ToolOutput {
+    data: unknown;
+    entries: AgentCitation[];
+}
+
+type ToolHandler = (rawArguments: unknown, scope: ToolScope) => Promise<ToolOutput>;
+
+// Every handler reads the user from the scope, never from the arguments, so
+// the model can only reach the journal of the user it is answering.
+const toolHandlers: Record<string, ToolHandler> = {
+    search_journal: async (rawArguments, { userId, timezone }) => {
+        const { query, limit } = parseArguments('search_journal', searchArgumentsSchema, rawArguments);
+        const found = await retrieveRelevantEntries(userId, query, limit ?? DEFAULT_SEARCH_LIMIT);
+        return {
+            data: found.map(entry => ({
+                id: String(entry._id),
+                date: entryDate(entry, timezone),
+                text: entryText(entry).slice(0, MAX_ENTRY_TEXT_LENGTH)
+            })),
+            entries: found.map(citation)
+        };
+    },
+
+    list_entries: async (rawArguments, { userId, timezone }) => {
+        const { from, to, limit } = parseArguments('list_entries', listArgumentsSchema, rawArguments);
+        const range = localDateRange(from, to, timezone);
+        const [found, total] = await Promise.all([
+            getUserJournalEntryOverviewBetween(userId, range.start, range.end, limit ?? DEFAULT_LIST_LIMIT),
+            countUserJournalEntriesBetween(userId, range.start, range.end)
+        ]);
+        return {
+            data: {
+                total,
+                entries: found.map(entry => ({
+                    id: String(entry._id),
+                    date: entryDate(entry, timezone),
+                    title: entry.title ?? null,
+                    tags: entry.tags ?? [],
+                    mood: sampleMood(entry) ?? null,
+                    preview: (entry.fullText ?? '').slice(0, LIST_PREVIEW_LENGTH)
+                }))
+            },
+            entries: found.map(citation)
+        };
+    },
+
+    get_entry: async (rawArguments, { userId, timezone }) => {
+        const { id } = parseArguments('get_entry', getEntryArgumentsSchema, rawArguments);
+        const entry = Types.ObjectId.isValid(id)
+            ? await getUserCompletedJournalEntry(userId, new Types.ObjectId(id))
+            : null;
+        if (!entry) {
+            throw new Error(`No journal entry with id ${id}`);
+        }
+        return {
+            data: {
+                id: String(entry._id),
+                date: entryDate(entry, timezone),
+                title: entry.title ?? null,
+                tags: entry.tags ?? [],
+                people: entry.people ?? [],
+                places: entry.places ?? [],
+                mood: sampleMood(entry) ?? null,
+                emotions: entry.emotions ?? [],
+                text: entryText(entry).slice(0, MAX_FULL_ENTRY_TEXT_LENGTH)
+            },
+            entries: [citation(entry)]
+        };
+    },
+
+    journal_stats: async (rawArguments, { userId, timezone }) => {
+        const { from, to, groupBy } = parseArguments('journal_stats', statsArgumentsSchema, rawArguments);
+        const range = localDateRange(from, to, timezone);
+        const found = await getUserJournalEntryFactsBetween(userId, range.start, range.end);
+
+        const data: Record<string, unknown> = { from, to, ...summarizeEntries(found) };
+        if (groupBy) {
+            const periods = new Map<string, IJournalEntry[]>();
+            for (const entry of found) {
+                const key = periodKey(new Date(entry.createdAt), groupBy, timezone);
+                periods.set(key, [...(periods.get(key) ?? []), entry]);
+            }
+            data.periods = [...periods.entries()].map(([start, entries]) => ({
+                start,
+                entryCount: entries.length,
+                averageMood: averageMood(entries)
+            }));
+        }
+        // Statistics do not show any single entry, so there is nothing to cite.
+        return { data, entries: [] };
+    }
+};
+
+function parseArguments<T>(toolName: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, rawArguments: unknown): T {
+    const result = schema.safeParse(rawArguments);
+    if (!result.success) {
+        throw new Error(`Invalid ${toolName} arguments: ${result.error.message}`);
+    }
+    return result.data;
+}
+
+function isCalendarDate(value: string): boolean {
+    const [year, month, day] = value.split('-').map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/** The instants that bound the local days `from` through `to`, the end exclusive. */
+export function localDateRange(from: string, to: string, timezone: string): { start: Date; end: Date } {
+    const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+    const [toYear, toMonth, toDay] = to.split('-').map(Number);
+    return {
+        start: zonedTimeToUtc(fromYear, fromMonth, fromDay, 0, 0, timezone),
+        end: zonedTimeToUtc(toYear, toMonth, toDay + 1, 0, 0, timezone)
+    };
+}
+
+function periodKey(date: Date, groupBy: 'week' | 'month', timezone: string): string {
+    return groupBy === 'week'
+        ? zonedDateKey(startOfZonedWeek(date, timezone), timezone)
+        : zonedDateKey(date, timezone).slice(0, 7);
+}
+
+function averageMood(entries: IJournalEntry[]): number | null {
+    const moods = entries.map(sampleMood).filter((mood): mood is number => mood !== undefined);
+    if (moods.length === 0) {
+        return null;
+    }
+    return Math.round((moods.reduce((sum, mood) => sum + mood, 0) / moods.length) * 10) / 10;
+}
+
+function summarizeEntries(entries: IJournalEntry[]) {
+    const tagCounts = new Map<string, number>();
+    for (const tag of entries.flatMap(entry => entry.tags ?? [])) {
+        tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+    }
+    return {
+        entryCount: entries.length,
+        averageMood: averageMood(entries),
+        topTags: [...tagCounts.entries()]
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, TOP_TAG_COUNT)
+            .map(([tag, count]) => ({ tag, count })),
+        topEmotions: topEmotions(entries, TOP_EMOTION_COUNT)
+    };
+}
+
+// Local time, matching the "Local time" in the user info block.
+function entryDate(entry: IJournalEntry, timezone: string): string {
+    return formatZonedDateTime(new Date(entry.createdAt), timezone);
+}
+
+function entryText(entry: IJournalEntry): string {
+    return entry.fullText || extractFullText(entry);
+}
+
+function citation(entry: IJournalEntry): AgentCitation {
+    return { entryId: String(entry._id), createdAt: new Date(entry.createdAt) };
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown journal tool error';
+}
+
+/**
+ * Runs one tool call for the user. Any failure, from malformed arguments to a
+ * missing entry, goes back to the model as `{ error }` so it can try again.
+ */
+export async function executeToolCall(
+    userId: Types.ObjectId,
+    timezone: string,
+    toolCall: ChatCompletionMessageToolCall
+): Promise<ToolExecutionResult> {
+    const toolName = toolCall.function.name;
+    let content: string;
+    let entries: AgentCitation[] = [];
+
+    try {
+        if (!Object.prototype.hasOwnProperty.call(toolHandlers, toolName)) {
+            throw new Error(`Unknown tool: ${toolName}`);
+        }
+        const rawArguments: unknown = JSON.parse(toolCall.function.arguments);
+        const output = await toolHandlers[toolName](rawArguments, { userId, timezone });
+        entries = output.entries;
+        content = JSON.stringify(output.data);
+    } catch (error) {
+        content = JSON.stringify({ error: errorMessage(error) });
+    }
+
+    agentToolsLogger.debug('Journal agent tool call:', {
+        tool: toolName,
+        arguments: toolCall.function.arguments,
+        entryCount: entries.length
+    });
+    return {
+        message: {
+            role: 'tool',
+            tool_call_id: toolCall.id,
+            content
+        },
+        entries
+    };
+}
@@ -1,17 +1,16 @@
 import { Types } from 'mongoose';
 import { z } from 'zod';
-import type {
-    ChatCompletionMessageParam,
-    ChatCompletionMessageToolCall,
-    ChatCompletionTool
-} from 'openai/resources/chat/completions';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
 import { IUser } from '../database';
-import { GPT_VERSION, LOG_LEVEL } from '../config';
-import { retrieveRelevantEntries } from '../services/journal-retrieval';
-import { extractFullText } from '../utils/entry-text';
+import { LOG_LEVEL } from '../config';
+import { userTimezone } from '../utils/timezone';
 import { createLogger } from '../utils/logger';
-import { openai } from './client';
+import { AgentCitation, agentTools, executeToolCall } from './agent-tools';
+import { llm } from './client';
+import { ChatTurn } from './provider';
 import {
+    AGENT_ANSWER_DETAILS_PROMPT,
+    CHAT_SUMMARY_PROMPT,
     JOURNAL_AGENT_PROMPT,
     asData,
     buildUserInfo,
@@ -21,154 +20,197 @@ import { callStructured } from './structured';
 
 const agentLogger = createLogger('JournalAgent', LOG_LEVEL);
 const MAX_ITERATIONS = 4;
-const DEFAULT_SEARCH_LIMIT = 6;
-const MAX_ENTRY_TEXT_LENGTH = 1500;
+const MAX_ANSWER_TOKENS = 500;
+const MAX_CITATIONS = 4;
+// A dictated question can run long; earlier turns only need enough to resolve references.
+const MAX_TURN_TEXT_LENGTH = 1000;
 
-const searchArgumentsSchema = z.object({
-    query: z.string(),
-    limit: z.number().int().positive().nullish()
+const journalAgentResultSchema = z.object({
+    followUpQuestions: z.array(z.string()),
+    citedEntryIds: z.array(z.string())
 });
 
-const journalAgentResultSchema = z.object({
-    answer: z.string(),
-    followUpQuestions: z.array(z.string())
+const chatSummarySchema = z.object({
+    summary: z.string()
 });
 
-const tools: ChatCompletionTool[] = [{
-    type: 'function',
-    function: {
-        name: 'search_journal',
-        description: 'Search the user journal for entries relevant to a focused query.',
-        strict: true,
-        parameters: {
-            type: 'object',
-            properties: {
-                query: {
-                    type: 'string',
-                    description: 'A focused semantic search query.'
-                },
-                // Strict mode requires every property to be listed in `required`,
-                // so an optional argument is expressed as a nullable one instead.
-                limit: {
-                    type: ['integer', 'null'],
-                    description: 'Maximum number of journal entries to return, or null for the default.',
-                    minimum: 1
-                }
-            },
-            required: ['query', 'limit'],
-            additionalProperties: false
-        }
-    }
-}];
+export type { AgentCitation };
 
 export interface JournalAgentResult {
     answer: string;
     followUpQuestions: string[];
+    /** Entries the model cited that a tool actually returned, oldest first. */
+    citations: AgentCitation[];
     toolCallCount: number;
 }
 
-interface ToolExecutionResult {
-    message: ChatCompletionMessageParam;
+/**
+ * Called with the answer written so far, each time the streamed answer grows.
+ * A round that ends in tool calls after some text starts over from ''.
+ */
+export type AnswerProgressHandler = (answerSoFar: string) => void;
+
+/**
+ * Streams one round of the agent loop. Text that turns out to precede tool
+ * calls was thinking aloud, not the answer, so the shown answer starts over.
+ */
+async function streamTurn(
+    messages: ChatCompletionMessageParam[],
+    onAnswerProgress: AnswerProgressHandler | undefined
+): Promise<ChatTurn> {
+    const turn = await llm.streamWithTools(
+        { messages, tools: agentTools, temperature: 0.7, maxTokens: MAX_ANSWER_TOKENS },
+        onAnswerProgress
+    );
+    if (turn.toolCalls.length > 0 && turn.content) {
+        onAnswerProgress?.('');
+    }
+    return turn;
 }
 
-function errorMessage(error: unknown): string {
-    return error instanceof Error ? error.message : 'Unknown journal search error';
+/**
+ * The follow-up questions and cited entries shown under the answer. Only
+ * entries a tool returned in this run can be cited, so an id the model made
+ * up never becomes a button. An answer is still worth sending without either.
+ */
+async function generateAnswerDetails(
+    messages: ChatCompletionMessageParam[],
+    answer: string,
+    retrieved: Map<string, AgentCitation>
+): Promise<Pick<JournalAgentResult, 'followUpQuestions' | 'citations'>> {
+    try {
+        const result = await callStructured({
+            schema: journalAgentResultSchema,
+            schemaName: 'journal_agent_result',
+            messages: [
+                ...messages,
+                { role: 'assistant', content: answer },
+                { role: 'user', content: AGENT_ANSWER_DETAILS_PROMPT }
+            ],
+            temperature: 0.7,
+            maxTokens: 200
+        });
+        const citations = [...new Set(result.citedEntryIds)]
+            .map(entryId => retrieved.get(entryId))
+            .filter((citation): citation is AgentCitation => citation !== undefined)
+            .slice(0, MAX_CITATIONS)
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        return { followUpQuestions: result.followUpQuestions, citations };
+    } catch (error) {
+        agentLogger.warn('Failed to generate follow-up questions and citations:', error);
+        return { followUpQuestions: [], citations: [] };
+    }
 }
 
-async function executeToolCall(
-    userId: Types.ObjectId,
-    toolCall: ChatCompletionMessageToolCall
-): Promise<ToolExecutionResult> {
-    let content: string;
-    let entryCount = 0;
-    let query: string | undefined;
-
-    try {
-        if (toolCall.function.name !== 'search_journal') {
-            throw new Error(`Unknown tool: ${toolCall.function.name}`);
-        }
+/** The earlier turns of a chat the agent sees: a summary of older turns and the recent ones verbatim. */
+export interface ChatHistory {
+    summary?: string;
+    turns: Array<{ question: string; answer: string }>;
+}
 
-        const parsedArguments: unknown = JSON.parse(toolCall.function.arguments);
-        const argumentsResult = searchArgumentsSchema.safeParse(parsedArguments);
-        if (!argumentsResult.success) {
-            throw new Error(`Invalid search_journal arguments: ${argumentsResult.error.message}`);
-        }
+export interface JournalAgentOptions {
+    history?: ChatHistory;
+    onAnswerProgress?: AnswerProgressHandler;
+}
 
-        query = argumentsResult.data.query;
-        const entries = await retrieveRelevantEntries(
-            userId,
-            query,
-            argumentsResult.data.limit ?? DEFAULT_SEARCH_LIMIT
+function historyMessages(history: ChatHistory | undefined): ChatCompletionMessageParam[] {
+    if (!history) {
+        return [];
+    }
+    const messages: ChatCompletionMessageParam[] = [];
+    if (history.summary) {
+        messages.push({
+            role: 'user',
+            content: `Summary of our conversation so far:\n${asData('conversation', history.summary)}`
+        });
+    }
+    for (const turn of history.turns) {
+        messages.push(
+            { role: 'user', content: `Question:\n${asData('question', turn.question.slice(0, MAX_TURN_TEXT_LENGTH))}` },
+            { role: 'assistant', content: turn.answer.slice(0, MAX_TURN_TEXT_LENGTH) }
         );
-        entryCount = entries.length;
-        content = JSON.stringify(entries.map(entry => ({
-            date: new Date(entry.createdAt).toISOString(),
-            text: (entry.fullText || extractFullText(entry)).slice(0, MAX_ENTRY_TEXT_LENGTH)
-        })));
-    } catch (error) {
-        content = JSON.stringify({ error: errorMessage(error) });
     }
-
-    agentLogger.debug('Journal search tool call:', { query, entryCount });
-    return {
-        message: {
-            role: 'tool',
-            tool_call_id: toolCall.id,
-            content
-        }
-    };
+    return messages;
 }
 
-export async function runJournalAgent(user: IUser, question: string): Promise<JournalAgentResult> {
+/**
+ * Answers a question about the user's journal, calling the journal tools as
+ * many times as the model asks for. Every round is streamed, so the answer reaches
+ * `onAnswerProgress` as it is written; the follow-up questions are generated
+ * once it is complete.
+ */
+export async function runJournalAgent(
+    user: IUser,
+    question: string,
+    options: JournalAgentOptions = {}
+): Promise<JournalAgentResult> {
+    const { history, onAnswerProgress } = options;
     const userId = user._id as unknown as Types.ObjectId;
+    const timezone = userTimezone(user);
     const messages: ChatCompletionMessageParam[] = [
         {
             role: 'system',
             content: `${JOURNAL_AGENT_PROMPT}\n\n${languageInstruction(user)}`
         },
+        ...historyMessages(history),
         {
             role: 'user',
             content: `${buildUserInfo(user)}\n\nQuestion:\n${asData('question', question)}`
         }
     ];
     let toolCallCount = 0;
+    const retrieved = new Map<string, AgentCitation>();
 
     for (let iteration = 1; iteration <= MAX_ITERATIONS; iteration += 1) {
-        const response = await openai.chat.completions.create({
-            model: GPT_VERSION,
-            messages,
-            tools,
-            temperature: 0.7
-        });
-        const assistantMessage = response.choices[0]?.message;
-        if (!assistantMessage) {
-            throw new Error('Journal agent response contained no message');
-        }
-
-        const toolCalls = assistantMessage.tool_calls;
-        if (!toolCalls || toolCalls.length === 0) {
-            const result = await callStructured({
-                schema: journalAgentResultSchema,
-                schemaName: 'journal_agent_result',
-                messages,
-                temperature: 0.7,
-                maxTokens: 500
-            });
+        const { content, toolCalls } = await streamTurn(messages, onAnswerProgress);
+
+        if (toolCalls.length === 0) {
+            const answer = content.trim();
+            if (!answer) {
+                throw new Error('Journal agent response contained no answer');
+            }
+            const details = await generateAnswerDetails(messages, answer, retrieved);
             agentLogger.debug('Journal agent completed:', { iteration, toolCallCount });
-            return { ...result, toolCallCount };
+            return { answer, ...details, toolCallCount };
         }
 
         messages.push({
             role: 'assistant',
-            content: assistantMessage.content,
+            content: content || null,
             tool_calls: toolCalls
         });
         toolCallCount += toolCalls.length;
         const toolResults = await Promise.all(
-            toolCalls.map(toolCall => executeToolCall(userId, toolCall))
+            toolCalls.map(toolCall => executeToolCall(userId, timezone, toolCall))
         );
         messages.push(...toolResults.map(result => result.message));
+        for (const entry of toolResults.flatMap(result => result.entries)) {
+            retrieved.set(entry.entryId, entry);
+        }
     }
 
     throw new Error(`Journal agent exceeded the ${MAX_ITERATIONS}-iteration cap`);
 }
+
+/**
+ * Folds chat turns that leave the recent window into the running summary of
+ * the conversation. Failures propagate; the turns are folded on a later try.
+ */
+export async function summarizeChatTurns(
+    previousSummary: string | undefined,
+    turns: ChatHistory['turns'],
+    user: IUser
+): Promise<string> {
+    const transcript = turns
+        .map(turn => `User: ${turn.question.slice(0, MAX_TURN_TEXT_LENGTH)}\nAssistant: ${turn.answer.slice(0, MAX_TURN_TEXT_LENGTH)}`)
+        .join('\n\n');
+    const result = await callStructured({
+        schema: chatSummarySchema,
+        schemaName: 'chat_summary',
+        systemPrompt: `${CHAT_SUMMARY_PROMPT}\n\n${languageInstruction(user)}`,
+        userPrompt: `Summary so far:\n${asData('conversation', previousSummary || '(none)')}\n\nNew turns:\n${asData('conversation', transcript)}`,
+        temperature: 0.3,
+        maxTokens: 300
+    });
+    return result.summary.trim();
+}
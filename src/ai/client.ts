@@ -1,7 +1,35 @@
-import OpenAI from 'openai';
-import { OPENAI_API_KEY } from '../config';
+import {
+    EMBEDDING_MODEL,
+    GPT_VERSION,
+    LLM_PROVIDER,
+    LOCAL_CHAT_MODEL,
+    LOCAL_EMBEDDING_MODEL,
+    LOCAL_LLM_API_KEY,
+    LOCAL_LLM_BASE_URL,
+    LOCAL_TRANSCRIPTION_BASE_URL,
+    LOCAL_TRANSCRIPTION_MODEL,
+    LOCAL_VISION_MODEL,
+    OPENAI_API_KEY,
+    VISION_MODEL
+} from '../config';
+import { LlmProvider } from './provider';
+import { createLocalProvider } from './providers/local';
+import { createOpenAIProvider } from './providers/openai';
 
-/** Single shared OpenAI client for the whole application. */
-export const openai = new OpenAI({
-    apiKey: OPENAI_API_KEY
-});
+/** Single shared model backend for the whole application, chosen by LLM_PROVIDER. */
+export const llm: LlmProvider = LLM_PROVIDER === 'local'
+    ? createLocalProvider({
+        baseURL: LOCAL_LLM_BASE_URL,
+        apiKey: LOCAL_LLM_API_KEY,
+        chatModel: LOCAL_CHAT_MODEL,
+        visionModel: LOCAL_VISION_MODEL,
+        embeddingModel: LOCAL_EMBEDDING_MODEL,
+        transcriptionBaseURL: LOCAL_TRANSCRIPTION_BASE_URL,
+        transcriptionModel: LOCAL_TRANSCRIPTION_MODEL
+    })
+    : createOpenAIProvider({
+        apiKey: OPENAI_API_KEY,
+        chatModel: GPT_VERSION,
+        visionModel: VISION_MODEL,
+        embeddingModel: EMBEDDING_MODEL
+    });
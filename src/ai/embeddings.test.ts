@@ -1,18 +1,12 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
-vi.mock('../config', () => ({
-    EMBEDDING_MODEL: 'test-embedding-model'
-}));
-
 vi.mock('./client', () => ({
-    openai: {
-        embeddings: {
-            create: vi.fn()
-        }
+    llm: {
+        embed: vi.fn()
     }
 }));
 
-import { openai } from './client';
+import { llm } from './client';
 import { cosineSimilarity, embedText } from './embeddings';
 
 describe('cosineSimilarity', () => {
@@ -34,31 +28,25 @@ describe('cosineSimilarity', () => {
 
 describe('embedText', () => {
     beforeEach(() => {
-        vi.mocked(openai.embeddings.create).mockReset();
+        vi.mocked(llm.embed).mockReset();
     });
 
     it('truncates input longer than 8000 characters', async () => {
-        vi.mocked(openai.embeddings.create).mockResolvedValue({
-            data: [{ embedding: [0.25, 0.75], index: 0, object: 'embedding' }],
-            model: 'test-embedding-model',
-            object: 'list',
-            usage: { prompt_tokens: 1, total_tokens: 1 }
-        });
+        vi.mocked(llm.embed).mockResolvedValue([0.25, 0.75]);
 
         await expect(embedText('x'.repeat(9000))).resolves.toEqual([0.25, 0.75]);
 
-        const request = vi.mocked(openai.embeddings.create).mock.calls[0]?.[0];
-        expect(request?.input).toHaveLength(8000);
+        expect(vi.mocked(llm.embed).mock.calls[0]?.[0]).toHaveLength(8000);
     });
 
     it('propagates API failures', async () => {
-        vi.mocked(openai.embeddings.create).mockRejectedValue(new Error('API unavailable'));
+        vi.mocked(llm.embed).mockRejectedValue(new Error('API unavailable'));
 
         await expect(embedText('journal text')).rejects.toThrow('API unavailable');
     });
 
     it('throws before calling the API for empty input', async () => {
         await expect(embedText('   ')).rejects.toThrow('Cannot embed empty text');
-        expect(openai.embeddings.create).not.toHaveBeenCalled();
+        expect(llm.embed).not.toHaveBeenCalled();
     });
 });
@@ -1,5 +1,4 @@
-import { EMBEDDING_MODEL } from '../config';
-import { openai } from './client';
+import { llm } from './client';
 
 const MAX_EMBEDDING_INPUT_LENGTH = 8000;
 
@@ -8,17 +7,7 @@ export async function embedText(text: string): Promise<number[]> {
         throw new Error('Cannot embed empty text');
     }
 
-    const response = await openai.embeddings.create({
-        model: EMBEDDING_MODEL,
-        input: text.slice(0, MAX_EMBEDDING_INPUT_LENGTH)
-    });
-    const embedding = response.data[0]?.embedding;
-
-    if (!embedding) {
-        throw new Error('Embedding response did not contain an embedding');
-    }
-
-    return embedding;
+    return llm.embed(text.slice(0, MAX_EMBEDDING_INPUT_LENGTH));
 }
 
 export function cosineSimilarity(a: number[], b: number[]): number {
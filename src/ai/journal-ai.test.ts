@@ -1,11 +1,15 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 vi.mock('../config', () => ({
-    GPT_VERSION: 'test-gpt-model',
     LOG_LEVEL: 4
 }));
 
 vi.mock('../database', () => ({
+    MIN_MOOD: 1,
+    MAX_MOOD: 5,
     MessageType: {
         TEXT: 'text',
         VOICE: 'voice',
@@ -31,19 +35,18 @@ vi.mock('./structured', () => ({
 }));
 
 vi.mock('./client', () => ({
-    openai: {
-        chat: {
-            completions: {
-                create: vi.fn()
-            }
-        }
+    llm: {
+        complete: vi.fn(),
+        completeVision: vi.fn()
     }
 }));
 
 import type { IJournalEntry, IUser } from '../database';
-import { openai } from './client';
+import { llm } from './client';
 import {
     analyzeJournalEntry,
+    describePhoto,
+    extractEntryMetadata,
     generateEntrySummary,
     generateJournalInsights,
     generateJournalQuestions,
@@ -81,7 +84,7 @@ function userPromptFromStructuredCall(): string {
 }
 
 function userPromptFromCompletionCall(): string {
-    const request = vi.mocked(openai.chat.completions.create).mock.calls[0]?.[0];
+    const request = vi.mocked(llm.complete).mock.calls[0]?.[0];
     const message = request?.messages[1];
     return typeof message?.content === 'string' ? message.content : '';
 }
@@ -128,32 +131,21 @@ describe('analyzeJournalEntry', () => {
     it('returns the empty-entry message without making an API call', async () => {
         await expect(analyzeJournalEntry(entry(), user()))
             .resolves.toBe('Not enough content to analyze.');
-        expect(openai.chat.completions.create).not.toHaveBeenCalled();
+        expect(llm.complete).not.toHaveBeenCalled();
     });
 
     it.each([
         ['model content', '• A useful insight', '• A useful insight'],
-        ['null model content', null, 'Unable to generate analysis.']
+        ['empty model content', '', 'Unable to generate analysis.']
     ])('returns the expected result for %s', async (_case, content, expected) => {
-        vi.mocked(openai.chat.completions.create).mockResolvedValue({
-            id: 'completion-id',
-            choices: [{
-                finish_reason: 'stop',
-                index: 0,
-                logprobs: null,
-                message: { content, refusal: null, role: 'assistant' }
-            }],
-            created: 0,
-            model: 'test-gpt-model',
-            object: 'chat.completion'
-        });
+        vi.mocked(llm.complete).mockResolvedValue(content);
 
         await expect(analyzeJournalEntry(entry('A meaningful day'), user()))
             .resolves.toBe(expected);
     });
 
     it('returns the exact apology when the API fails', async () => {
-        vi.mocked(openai.chat.completions.create).mockRejectedValue(new Error('API unavailable'));
+        vi.mocked(llm.complete).mockRejectedValue(new Error('API unavailable'));
 
         await expect(analyzeJournalEntry(entry('A meaningful day'), user())).resolves.toBe(
             'Sorry, I encountered an error while analyzing your journal entry.'
@@ -166,26 +158,11 @@ describe('generateJournalInsights', () => {
         await expect(generateJournalInsights([], user())).resolves.toBe(
             "Nik, you don't have any journal entries yet. Let's start journaling so I can provide you with insights!"
         );
-        expect(openai.chat.completions.create).not.toHaveBeenCalled();
+        expect(llm.complete).not.toHaveBeenCalled();
     });
 
     it('returns model content and delimits every entry and the question', async () => {
-        vi.mocked(openai.chat.completions.create).mockResolvedValue({
-            id: 'completion-id',
-            choices: [{
-                finish_reason: 'stop',
-                index: 0,
-                logprobs: null,
-                message: {
-                    content: 'You are building a steady pattern.',
-                    refusal: null,
-                    role: 'assistant'
-                }
-            }],
-            created: 0,
-            model: 'test-gpt-model',
-            object: 'chat.completion'
-        });
+        vi.mocked(llm.complete).mockResolvedValue('You are building a steady pattern.');
 
         await expect(generateJournalInsights(
             [entry('First entry'), entry('Second entry')],
@@ -200,7 +177,7 @@ describe('generateJournalInsights', () => {
     });
 
     it('returns a named apology when the API fails', async () => {
-        vi.mocked(openai.chat.completions.create).mockRejectedValue(new Error('API unavailable'));
+        vi.mocked(llm.complete).mockRejectedValue(new Error('API unavailable'));
 
         await expect(generateJournalInsights([entry('A meaningful day')], user())).resolves.toBe(
             'Sorry Nik, I encountered an error while generating insights from your journal entries.'
@@ -225,6 +202,68 @@ describe('generateEntrySummary', () => {
     });
 });
 
+describe('extractEntryMetadata', () => {
+    it('cleans up the title, tags, names, and emotions', async () => {
+        vi.mocked(callStructured).mockResolvedValue({
+            title: ' Long walk with Anna. ',
+            tags: ['Friends', 'walks ', 'friends', 'nature', 'health', 'city', 'spring'],
+            people: ['Anna', ' anna', ''],
+            places: ['Riga'],
+            mood: 4,
+            emotions: ['Calm', 'grateful', 'calm']
+        });
+
+        await expect(extractEntryMetadata(entry('Walked with Anna through Riga'), user())).resolves.toEqual({
+            title: 'Long walk with Anna',
+            tags: ['friends', 'walks', 'nature', 'health', 'city'],
+            people: ['Anna'],
+            places: ['Riga'],
+            mood: 4,
+            emotions: ['calm', 'grateful']
+        });
+        expect(userPromptFromStructuredCall()).toContain('<journal>\nWalked with Anna through Riga\n</journal>');
+    });
+
+    it('reads imported entries from their full text', async () => {
+        vi.mocked(callStructured).mockResolvedValue({
+            title: 'Trip',
+            tags: ['travel'],
+            people: [],
+            places: [],
+            mood: 3,
+            emotions: []
+        });
+        const imported = { messages: [], fullText: 'Flew to Lisbon', createdAt: new Date() } as unknown as IJournalEntry;
+
+        await extractEntryMetadata(imported, user());
+
+        expect(userPromptFromStructuredCall()).toContain('<journal>\nFlew to Lisbon\n</journal>');
+    });
+
+    it.each([[0, 1], [3.6, 4], [9, 5]])('keeps a mood of %s on the scale as %s', async (mood, expected) => {
+        vi.mocked(callStructured).mockResolvedValue({
+            title: 'Day',
+            tags: ['life'],
+            people: [],
+            places: [],
+            mood,
+            emotions: []
+        });
+
+        const metadata = await extractEntryMetadata(entry('A meaningful day'), user());
+
+        expect(metadata?.mood).toBe(expected);
+    });
+
+    it('returns null for an empty entry or a failed call', async () => {
+        await expect(extractEntryMetadata(entry(), user())).resolves.toBeNull();
+        expect(callStructured).not.toHaveBeenCalled();
+
+        vi.mocked(callStructured).mockRejectedValue(new Error('API unavailable'));
+        await expect(extractEntryMetadata(entry('A meaningful day'), user())).resolves.toBeNull();
+    });
+});
+
 describe('parseBioInformation', () => {
     it('returns parsed structured information and delimits the bio', async () => {
         const structuredInfo = {
@@ -257,3 +296,32 @@ describe('parseBioInformation', () => {
         });
     });
 });
+
+describe('describePhoto', () => {
+    let photo: string;
+
+    beforeEach(async () => {
+        const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'journal-ai-test-'));
+        photo = path.join(directory, 'photo.jpg');
+        await fs.writeFile(photo, 'jpeg bytes');
+        return () => fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('shows the photo to the vision model with the delimited caption', async () => {
+        vi.mocked(llm.completeVision).mockResolvedValue('A dog running on a beach at sunset.');
+
+        await expect(describePhoto(photo, 'Rex at the sea', user())).resolves.toBe('A dog running on a beach at sunset.');
+
+        const content = vi.mocked(llm.completeVision).mock.calls[0][0].messages[1].content;
+        expect(content).toEqual([
+            { type: 'text', text: expect.stringContaining('<journal>\nRex at the sea\n</journal>') },
+            { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${Buffer.from('jpeg bytes').toString('base64')}` } }
+        ]);
+    });
+
+    it('throws when the model describes nothing', async () => {
+        vi.mocked(llm.completeVision).mockResolvedValue('');
+
+        await expect(describePhoto(photo, undefined, user())).rejects.toThrow('no description');
+    });
+});
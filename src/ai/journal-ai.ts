@@ -1,16 +1,21 @@
-import { IJournalEntry, IUser } from '../database';
+import { IJournalEntry, IUser, JournalEntryMetadata, MAX_MOOD, MIN_MOOD } from '../database';
+import { promises as fs } from 'fs';
 import { z } from 'zod';
 import { createLogger } from '../utils/logger';
-import { GPT_VERSION, LOG_LEVEL } from '../config';
+import { LOG_LEVEL } from '../config';
 import { extractFullText } from '../utils/entry-text';
-import { openai } from './client';
+import { normalizeTags } from '../utils/tags';
+import { formatZonedDateTime, userTimezone } from '../utils/timezone';
+import { llm } from './client';
 import { callStructured } from './structured';
 import {
     ANALYZE_ENTRY_PROMPT,
+    ENTRY_METADATA_PROMPT,
     ENTRY_SUMMARY_PROMPT,
     GENERATE_QUESTIONS_PROMPT,
     JOURNAL_INSIGHTS_PROMPT,
     PARSE_BIO_PROMPT,
+    PHOTO_DESCRIPTION_PROMPT,
     asData,
     buildUserInfo,
     languageInstruction
@@ -26,8 +31,7 @@ export async function analyzeJournalEntry(entry: IJournalEntry, user: IUser): Pr
             return 'Not enough content to analyze.';
         }
 
-        const response = await openai.chat.completions.create({
-            model: GPT_VERSION,
+        const analysis = await llm.complete({
             messages: [
                 { role: 'system', content: `${ANALYZE_ENTRY_PROMPT}\n\n${languageInstruction(user)}` },
                 {
@@ -36,10 +40,10 @@ export async function analyzeJournalEntry(entry: IJournalEntry, user: IUser): Pr
                 }
             ],
             temperature: 0.7,
-            max_tokens: 300
+            maxTokens: 300
         });
 
-        return response.choices[0]?.message?.content || 'Unable to generate analysis.';
+        return analysis || 'Unable to generate analysis.';
     } catch (error) {
         journalAiLogger.error('Error analyzing journal entry:', error);
         return 'Sorry, I encountered an error while analyzing your journal entry.';
@@ -90,10 +94,11 @@ export async function generateJournalInsights(
             return `${user.name || user.firstName}, you don't have any journal entries yet. Let's start journaling so I can provide you with insights!`;
         }
 
+        const timezone = userTimezone(user);
         const entriesSummary = entries
             .map((entry, index) => {
                 const entryContent = entry.fullText || extractFullText(entry);
-                const date = new Date(entry.createdAt).toLocaleDateString();
+                const date = formatZonedDateTime(new Date(entry.createdAt), timezone);
                 return `Entry ${index + 1} (${date}):\n${asData('journal', entryContent)}`;
             })
             .join('\n\n---\n\n');
@@ -105,17 +110,16 @@ export async function generateJournalInsights(
             userPrompt += 'Please provide a very brief analysis (1-3 sentences) of the most significant patterns or insights from these journal entries.';
         }
 
-        const response = await openai.chat.completions.create({
-            model: GPT_VERSION,
+        const insights = await llm.complete({
             messages: [
                 { role: 'system', content: `${JOURNAL_INSIGHTS_PROMPT}\n\n${languageInstruction(user)}` },
                 { role: 'user', content: userPrompt }
             ],
             temperature: 0.7,
-            max_tokens: 300
+            maxTokens: 300
         });
 
-        return response.choices[0]?.message?.content || 'Unable to generate insights.';
+        return insights || 'Unable to generate insights.';
     } catch (error) {
         journalAiLogger.error('Error generating journal insights:', error);
         return `Sorry ${user.name || user.firstName}, I encountered an error while generating insights from your journal entries.`;
@@ -146,6 +150,75 @@ export async function generateEntrySummary(entry: IJournalEntry, user: IUser): P
     });
 }
 
+// Titles are shown on list buttons; the model is asked for far fewer characters.
+const MAX_GENERATED_TITLE_LENGTH = 80;
+const MAX_ENTRY_TAGS = 5;
+const MAX_NAMED_MENTIONS = 10;
+const MAX_ENTRY_EMOTIONS = 3;
+
+const entryMetadataSchema = z.object({
+    title: z.string(),
+    tags: z.array(z.string()).min(1),
+    people: z.array(z.string()),
+    places: z.array(z.string()),
+    // Range checks are not part of the schema sent to the model; the score is clamped below.
+    mood: z.number(),
+    emotions: z.array(z.string())
+});
+
+/**
+ * Extracts a title, topical tags, the people and places named in an entry,
+ * and the author's mood and emotions.
+ * Returns null when the entry has no content or the call fails: the entry is
+ * complete without them.
+ */
+export async function extractEntryMetadata(entry: IJournalEntry, user: IUser): Promise<JournalEntryMetadata | null> {
+    // Imported entries carry their text on the entry, not in messages.
+    const entryContent = extractFullText(entry) || entry.fullText;
+    if (!entryContent) {
+        return null;
+    }
+
+    try {
+        const metadata = await callStructured({
+            schema: entryMetadataSchema,
+            schemaName: 'entry_metadata',
+            systemPrompt: `${ENTRY_METADATA_PROMPT}\n\n${languageInstruction(user)}`,
+            userPrompt: `Journal Entry:\n${asData('journal', entryContent)}\n\nPlease extract the title, tags, people, places, mood, and emotions.`,
+            temperature: 0.2,
+            maxTokens: 300
+        });
+        const title = metadata.title.trim().replace(/\.+$/, '').slice(0, MAX_GENERATED_TITLE_LENGTH);
+        return {
+            title: title || undefined,
+            tags: normalizeTags(metadata.tags)?.slice(0, MAX_ENTRY_TAGS),
+            people: uniqueNames(metadata.people),
+            places: uniqueNames(metadata.places),
+            mood: Math.min(MAX_MOOD, Math.max(MIN_MOOD, Math.round(metadata.mood))),
+            emotions: normalizeTags(metadata.emotions)?.slice(0, MAX_ENTRY_EMOTIONS)
+        };
+    } catch (error) {
+        journalAiLogger.error('Error extracting journal entry metadata:', error);
+        return null;
+    }
+}
+
+/** Keeps names as written but drops blanks and case-insensitive repeats. */
+function uniqueNames(names: string[]): string[] {
+    const seen = new Set<string>();
+    return names
+        .map(name => name.trim())
+        .filter(name => {
+            const key = name.toLowerCase();
+            if (!name || seen.has(key)) {
+                return false;
+            }
+            seen.add(key);
+            return true;
+        })
+        .slice(0, MAX_NAMED_MENTIONS);
+}
+
 export interface ParsedBio {
     parsedBio: string;
     structuredInfo: Record<string, unknown>;
@@ -180,3 +253,36 @@ export async function parseBioInformation(text: string): Promise<ParsedBio> {
         return { parsedBio: '{}', structuredInfo: {} };
     }
 }
+
+/**
+ * Describes a photo added to an entry in words the summary, metadata and
+ * search can use. Telegram re-encodes every photo as JPEG.
+ * Throws on failure, like transcription: an undescribed photo would leave
+ * nothing of itself in the entry.
+ */
+export async function describePhoto(imagePath: string, caption: string | undefined, user: IUser): Promise<string> {
+    const image = await fs.readFile(imagePath);
+    const description = await llm.completeVision({
+        messages: [
+            { role: 'system', content: `${PHOTO_DESCRIPTION_PROMPT}\n\n${languageInstruction(user)}` },
+            {
+                role: 'user',
+                content: [
+                    {
+                        type: 'text',
+                        text: caption
+                            ? `The user's caption:\n${asData('journal', caption)}\n\nPlease describe the photo.`
+                            : 'Please describe the photo.'
+                    },
+                    { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${image.toString('base64')}` } }
+                ]
+            }
+        ],
+        temperature: 0.3,
+        maxTokens: 300
+    });
+    if (!description) {
+        throw new Error('The vision model returned no description of the photo');
+    }
+    return description;
+}
@@ -0,0 +1,52 @@
+import { ZodType } from 'zod';
+import type {
+    ChatCompletionMessageParam,
+    ChatCompletionMessageToolCall,
+    ChatCompletionTool
+} from 'openai/resources/chat/completions';
+
+// Both backends speak the OpenAI wire format, so its message and tool types
+// serve as the common language instead of a parallel set of our own.
+
+export interface ChatRequest {
+    messages: ChatCompletionMessageParam[];
+    temperature: number;
+    maxTokens: number;
+}
+
+export interface ToolChatRequest extends ChatRequest {
+    tools: ChatCompletionTool[];
+}
+
+export interface StructuredRequest<T> extends ChatRequest {
+    schema: ZodType<T>;
+    schemaName: string;
+}
+
+/** One assistant turn: its text, and the tool calls it ended with, if any. */
+export interface ChatTurn {
+    content: string;
+    toolCalls: ChatCompletionMessageToolCall[];
+}
+
+/** Called with the text written so far, each time a streamed turn grows. */
+export type ContentProgressHandler = (contentSoFar: string) => void;
+
+/**
+ * Everything the bot asks of a model backend. Implementations throw on
+ * transport errors and malformed responses; callers own their fallbacks.
+ */
+export interface LlmProvider {
+    readonly name: 'openai' | 'local';
+    /** A plain chat completion; empty when the model wrote nothing. */
+    complete(request: ChatRequest): Promise<string>;
+    /** `complete` by a model that also reads the images among the messages' content parts. */
+    completeVision(request: ChatRequest): Promise<string>;
+    /** A streamed chat completion that may end in tool calls, assembled from their fragments. */
+    streamWithTools(request: ToolChatRequest, onContent?: ContentProgressHandler): Promise<ChatTurn>;
+    /** A completion constrained to the schema, validated against it. */
+    completeStructured<T>(request: StructuredRequest<T>): Promise<T>;
+    embed(text: string): Promise<number[]>;
+    /** The raw transcription of an audio or video file; empty when no speech was found. See `Transcriber`. */
+    transcribe(filePath: string, prompt?: string): Promise<string>;
+}
@@ -0,0 +1,75 @@
+import OpenAI from 'openai';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { LlmProvider, StructuredRequest } from '../provider';
+import { completeText, embedWith, streamToolTurn, transcribeWith } from './openai-compatible';
+
+export interface LocalProviderSettings {
+    /** The server's OpenAI-compatible root, e.g. `http://localhost:11434/v1` for Ollama. */
+    baseURL: string;
+    /** Only needed when the server was started with one, e.g. llama.cpp's `--api-key`. */
+    apiKey?: string;
+    chatModel: string;
+    /** A model that takes images, e.g. `llama3.2-vision`; chat models often do not. */
+    visionModel: string;
+    embeddingModel: string;
+    /** A server exposing `/audio/transcriptions`; defaults to `baseURL`. */
+    transcriptionBaseURL?: string;
+    transcriptionModel: string;
+}
+
+// The SDK refuses to start without a key, and servers without auth ignore it.
+const PLACEHOLDER_API_KEY = 'local';
+
+/**
+ * A self-hosted OpenAI-compatible server (Ollama, llama.cpp), so journal text
+ * never leaves our infrastructure. These servers enforce a JSON schema through
+ * `response_format` but have no notion of a refusal, so structured output is
+ * parsed and validated here rather than by the SDK.
+ */
+export function createLocalProvider(settings: LocalProviderSettings): LlmProvider {
+    const apiKey = settings.apiKey || PLACEHOLDER_API_KEY;
+    const client = new OpenAI({ apiKey, baseURL: settings.baseURL });
+    const transcriptionClient = settings.transcriptionBaseURL && settings.transcriptionBaseURL !== settings.baseURL
+        ? new OpenAI({ apiKey, baseURL: settings.transcriptionBaseURL })
+        : client;
+
+    return {
+        name: 'local',
+
+        complete: request => completeText(client, settings.chatModel, request),
+
+        completeVision: request => completeText(client, settings.visionModel, request),
+
+        streamWithTools: (request, onContent) => streamToolTurn(client, settings.chatModel, request, onContent),
+
+        async completeStructured<T>(request: StructuredRequest<T>): Promise<T> {
+            const response = await client.chat.completions.create({
+                model: settings.chatModel,
+                messages: request.messages,
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+                response_format: zodResponseFormat(request.schema, request.schemaName)
+            });
+
+            const content = response.choices[0]?.message?.content;
+            if (!content) {
+                throw new Error(`Structured response '${request.schemaName}' contained no message`);
+            }
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(content);
+            } catch {
+                throw new Error(`Structured response '${request.schemaName}' was not valid JSON`);
+            }
+            const result = request.schema.safeParse(parsed);
+            if (!result.success) {
+                throw new Error(`Structured response '${request.schemaName}' did not match the schema: ${result.error.message}`);
+            }
+            return result.data;
+        },
+
+        embed: text => embedWith(client, settings.embeddingModel, text),
+
+        transcribe: (filePath, prompt) => transcribeWith(transcriptionClient, settings.transcriptionModel, filePath, prompt)
+    };
+}
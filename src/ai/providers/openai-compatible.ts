@@ -0,0 +1,88 @@
+import { createReadStream } from 'fs';
+import OpenAI from 'openai';
+import type { ChatCompletionMessageToolCall } from 'openai/resources/chat/completions';
+import { ChatRequest, ChatTurn, ContentProgressHandler, ToolChatRequest } from '../provider';
+
+// Requests every OpenAI-compatible server understands the same way. The
+// providers differ in where they send them, which models they name, and how
+// they get structured output.
+
+export async function completeText(client: OpenAI, model: string, request: ChatRequest): Promise<string> {
+    const response = await client.chat.completions.create({
+        model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens
+    });
+    return response.choices[0]?.message?.content ?? '';
+}
+
+/**
+ * Reads one streamed completion, passing its text on as it arrives and
+ * assembling tool calls from their fragments. Some local servers send each
+ * call whole without an index or an id, so both are filled in when missing.
+ */
+export async function streamToolTurn(
+    client: OpenAI,
+    model: string,
+    request: ToolChatRequest,
+    onContent: ContentProgressHandler | undefined
+): Promise<ChatTurn> {
+    const stream = await client.chat.completions.create({
+        model,
+        messages: request.messages,
+        tools: request.tools,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true
+    });
+
+    let content = '';
+    const toolCalls: ChatCompletionMessageToolCall[] = [];
+    for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta;
+        if (!delta) {
+            continue;
+        }
+        if (delta.content) {
+            content += delta.content;
+            onContent?.(content);
+        }
+        for (const fragment of delta.tool_calls ?? []) {
+            const index = fragment.index ?? toolCalls.length;
+            const toolCall = toolCalls[index] ??= {
+                id: '',
+                type: 'function',
+                function: { name: '', arguments: '' }
+            };
+            toolCall.id += fragment.id ?? '';
+            toolCall.function.name += fragment.function?.name ?? '';
+            toolCall.function.arguments += fragment.function?.arguments ?? '';
+        }
+    }
+
+    return {
+        content,
+        toolCalls: toolCalls
+            .filter(Boolean)
+            .map((toolCall, index) => ({ ...toolCall, id: toolCall.id || `call_${index}` }))
+    };
+}
+
+export async function embedWith(client: OpenAI, model: string, text: string): Promise<number[]> {
+    const response = await client.embeddings.create({ model, input: text });
+    const embedding = response.data[0]?.embedding;
+    if (!embedding) {
+        throw new Error('Embedding response did not contain an embedding');
+    }
+    return embedding;
+}
+
+export async function transcribeWith(client: OpenAI, model: string, filePath: string, prompt?: string): Promise<string> {
+    const response = await client.audio.transcriptions.create({
+        file: createReadStream(filePath),
+        model,
+        ...(prompt ? { prompt } : {})
+    });
+    return response.text.trim();
+}
@@ -0,0 +1,61 @@
+import OpenAI from 'openai';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { LlmProvider, StructuredRequest } from '../provider';
+import { completeText, embedWith, streamToolTurn, transcribeWith } from './openai-compatible';
+
+// Note: openai@4 only supports zod v3 (peer dependency ^3.23.8). With zod v4
+// zodResponseFormat silently emits a malformed schema instead of failing;
+// upgrading zod requires openai >= 6.7.0 first.
+
+export interface OpenAIProviderSettings {
+    apiKey: string;
+    /** Overrides the API address, for proxies and tests. */
+    baseURL?: string;
+    chatModel: string;
+    /** Reads photos; may be the chat model when that one sees images. */
+    visionModel: string;
+    embeddingModel: string;
+}
+
+const TRANSCRIPTION_MODEL = 'whisper-1';
+
+/** The hosted OpenAI API, with structured output through the SDK's `parse`. */
+export function createOpenAIProvider(settings: OpenAIProviderSettings): LlmProvider {
+    const client = new OpenAI({ apiKey: settings.apiKey, baseURL: settings.baseURL });
+
+    return {
+        name: 'openai',
+
+        complete: request => completeText(client, settings.chatModel, request),
+
+        completeVision: request => completeText(client, settings.visionModel, request),
+
+        streamWithTools: (request, onContent) => streamToolTurn(client, settings.chatModel, request, onContent),
+
+        async completeStructured<T>(request: StructuredRequest<T>): Promise<T> {
+            const response = await client.beta.chat.completions.parse({
+                model: settings.chatModel,
+                messages: request.messages,
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+                response_format: zodResponseFormat(request.schema, request.schemaName)
+            });
+
+            const message = response.choices[0]?.message;
+            if (!message) {
+                throw new Error(`Structured response '${request.schemaName}' contained no message`);
+            }
+            if (message.refusal) {
+                throw new Error(`Structured response '${request.schemaName}' was refused: ${message.refusal}`);
+            }
+            if (message.parsed == null) {
+                throw new Error(`Structured response '${request.schemaName}' contained no parsed result`);
+            }
+            return message.parsed;
+        },
+
+        embed: text => embedWith(client, settings.embeddingModel, text),
+
+        transcribe: (filePath, prompt) => transcribeWith(client, TRANSCRIPTION_MODEL, filePath, prompt)
+    };
+}
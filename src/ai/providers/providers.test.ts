@@ -0,0 +1,295 @@
+import { promises as fs } from 'fs';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createLocalProvider } from './local';
+import { createOpenAIProvider } from './openai';
+
+interface RecordedRequest {
+    path: string;
+    headers: IncomingMessage['headers'];
+    body: string;
+}
+
+type Reply = { json: unknown } | { events: unknown[] };
+
+// A stand-in for an OpenAI-compatible server: it records every request and
+// answers with whatever the test queued for that path.
+let server: Server;
+let baseURL: string;
+let requests: RecordedRequest[];
+let replies: Map<string, Reply>;
+
+function reply(urlPath: string, response: Reply): void {
+    replies.set(urlPath, response);
+}
+
+function requestTo(urlPath: string): RecordedRequest {
+    const request = requests.find(recorded => recorded.path === urlPath);
+    if (!request) {
+        throw new Error(`No request to ${urlPath}`);
+    }
+    return request;
+}
+
+function jsonBody(urlPath: string) {
+    return JSON.parse(requestTo(urlPath).body);
+}
+
+async function handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+        chunks.push(chunk as Buffer);
+    }
+    const urlPath = request.url ?? '';
+    requests.push({ path: urlPath, headers: request.headers, body: Buffer.concat(chunks).toString('utf8') });
+
+    const queued = replies.get(urlPath);
+    if (!queued) {
+        response.writeHead(404, { 'content-type': 'application/json' });
+        response.end(JSON.stringify({ error: { message: `Nothing queued for ${urlPath}` } }));
+        return;
+    }
+    if ('json' in queued) {
+        response.writeHead(200, { 'content-type': 'application/json' });
+        response.end(JSON.stringify(queued.json));
+        return;
+    }
+    response.writeHead(200, { 'content-type': 'text/event-stream' });
+    for (const event of queued.events) {
+        response.write(`data: ${JSON.stringify(event)}\n\n`);
+    }
+    response.end('data: [DONE]\n\n');
+}
+
+function completion(message: Record<string, unknown>) {
+    return {
+        json: {
+            id: 'completion-id',
+            object: 'chat.completion',
+            created: 0,
+            model: 'test-model',
+            choices: [{ index: 0, finish_reason: 'stop', logprobs: null, message: { role: 'assistant', refusal: null, ...message } }]
+        }
+    };
+}
+
+function chunk(delta: Record<string, unknown>) {
+    return {
+        id: 'completion-id',
+        object: 'chat.completion.chunk',
+        created: 0,
+        model: 'test-model',
+        choices: [{ index: 0, finish_reason: null, delta }]
+    };
+}
+
+const chatRequest = {
+    messages: [{ role: 'user' as const, content: 'How was my week?' }],
+    temperature: 0.7,
+    maxTokens: 300
+};
+
+const schema = z.object({ mood: z.number() });
+
+beforeAll(async () => {
+    server = createServer((request, response) => {
+        void handle(request, response);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+    requests = [];
+    replies = new Map();
+});
+
+describe('createOpenAIProvider', () => {
+    const provider = () => createOpenAIProvider({
+        apiKey: 'test-key',
+        baseURL,
+        chatModel: 'gpt-test',
+        visionModel: 'vision-test',
+        embeddingModel: 'embedding-test'
+    });
+
+    it('completes a chat with the configured model', async () => {
+        reply('/v1/chat/completions', completion({ content: 'A calm week.' }));
+
+        await expect(provider().complete(chatRequest)).resolves.toBe('A calm week.');
+        expect(jsonBody('/v1/chat/completions')).toMatchObject({
+            model: 'gpt-test',
+            messages: chatRequest.messages,
+            temperature: 0.7,
+            max_tokens: 300
+        });
+        expect(requestTo('/v1/chat/completions').headers.authorization).toBe('Bearer test-key');
+    });
+
+    it('returns the parsed structured result', async () => {
+        reply('/v1/chat/completions', completion({ content: '{"mood":4}' }));
+
+        await expect(provider().completeStructured({ ...chatRequest, schema, schemaName: 'mood' }))
+            .resolves.toEqual({ mood: 4 });
+        expect(jsonBody('/v1/chat/completions').response_format).toMatchObject({
+            type: 'json_schema',
+            json_schema: { name: 'mood', strict: true }
+        });
+    });
+
+    it('throws an error containing the schema name and refusal', async () => {
+        reply('/v1/chat/completions', completion({ content: null, refusal: 'I cannot' }));
+
+        await expect(provider().completeStructured({ ...chatRequest, schema, schemaName: 'mood' }))
+            .rejects.toThrow(/mood.*I cannot/u);
+    });
+
+    it('assembles streamed text and tool calls from their fragments', async () => {
+        reply('/v1/chat/completions', {
+            events: [
+                chunk({ role: 'assistant', content: 'Let me ' }),
+                chunk({ content: 'look.' }),
+                chunk({ tool_calls: [{ index: 0, id: 'call-a', type: 'function', function: { name: 'search_journal', arguments: '{"query":' } }] }),
+                chunk({ tool_calls: [{ index: 0, function: { arguments: '"work"}' } }] }),
+                chunk({ tool_calls: [{ index: 1, id: 'call-b', type: 'function', function: { name: 'get_entry', arguments: '{"id":"1"}' } }] })
+            ]
+        });
+        const progress: string[] = [];
+
+        const turn = await provider().streamWithTools({ ...chatRequest, tools: [] }, text => progress.push(text));
+
+        expect(progress).toEqual(['Let me ', 'Let me look.']);
+        expect(turn).toEqual({
+            content: 'Let me look.',
+            toolCalls: [
+                { id: 'call-a', type: 'function', function: { name: 'search_journal', arguments: '{"query":"work"}' } },
+                { id: 'call-b', type: 'function', function: { name: 'get_entry', arguments: '{"id":"1"}' } }
+            ]
+        });
+        expect(jsonBody('/v1/chat/completions')).toMatchObject({ stream: true, model: 'gpt-test' });
+    });
+
+    it('embeds text with the embedding model', async () => {
+        reply('/v1/embeddings', {
+            json: { object: 'list', model: 'embedding-test', data: [{ object: 'embedding', index: 0, embedding: [0.25, 0.75] }] }
+        });
+
+        await expect(provider().embed('A calm week.')).resolves.toEqual([0.25, 0.75]);
+        expect(jsonBody('/v1/embeddings')).toMatchObject({ model: 'embedding-test', input: 'A calm week.' });
+    });
+
+    it('throws when the embedding response has no embedding', async () => {
+        reply('/v1/embeddings', { json: { object: 'list', model: 'embedding-test', data: [] } });
+
+        await expect(provider().embed('A calm week.')).rejects.toThrow('did not contain an embedding');
+    });
+});
+
+describe('createLocalProvider', () => {
+    let audioFile: string;
+
+    beforeAll(async () => {
+        const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'provider-test-'));
+        audioFile = path.join(directory, 'voice.ogg');
+        await fs.writeFile(audioFile, Buffer.from('not really audio'));
+    });
+
+    afterAll(async () => {
+        await fs.rm(path.dirname(audioFile), { recursive: true, force: true });
+    });
+
+    const provider = (overrides: { transcriptionBaseURL?: string } = {}) => createLocalProvider({
+        baseURL,
+        chatModel: 'llama-test',
+        visionModel: 'llava-test',
+        embeddingModel: 'nomic-test',
+        transcriptionModel: 'whisper-test',
+        ...overrides
+    });
+
+    it('talks to the local server with the local models and no configured key', async () => {
+        reply('/v1/chat/completions', completion({ content: 'A calm week.' }));
+
+        await expect(provider().complete(chatRequest)).resolves.toBe('A calm week.');
+        expect(jsonBody('/v1/chat/completions').model).toBe('llama-test');
+    });
+
+    it('sends images to the vision model', async () => {
+        reply('/v1/chat/completions', completion({ content: 'A dog on a beach.' }));
+        const request = {
+            ...chatRequest,
+            messages: [{
+                role: 'user' as const,
+                content: [{ type: 'image_url' as const, image_url: { url: 'data:image/jpeg;base64,AAAA' } }]
+            }]
+        };
+
+        await expect(provider().completeVision(request)).resolves.toBe('A dog on a beach.');
+        expect(jsonBody('/v1/chat/completions')).toMatchObject({ model: 'llava-test', messages: request.messages });
+    });
+
+    it('requests the schema and validates the answer itself', async () => {
+        reply('/v1/chat/completions', completion({ content: '{"mood":4}' }));
+
+        await expect(provider().completeStructured({ ...chatRequest, schema, schemaName: 'mood' }))
+            .resolves.toEqual({ mood: 4 });
+        expect(jsonBody('/v1/chat/completions').response_format).toMatchObject({
+            type: 'json_schema',
+            json_schema: { name: 'mood' }
+        });
+    });
+
+    it.each([
+        ['invalid JSON', 'Mood: 4', /mood.*not valid JSON/u],
+        ['JSON off the schema', '{"mood":"good"}', /mood.*did not match the schema/u],
+        ['no content', null, /mood.*contained no message/u]
+    ])('throws an error containing the schema name for %s', async (_case, content, expected) => {
+        reply('/v1/chat/completions', completion({ content }));
+
+        await expect(provider().completeStructured({ ...chatRequest, schema, schemaName: 'mood' }))
+            .rejects.toThrow(expected);
+    });
+
+    it('fills in the tool call index and id a local server leaves out', async () => {
+        reply('/v1/chat/completions', {
+            events: [
+                chunk({ tool_calls: [{ type: 'function', function: { name: 'search_journal', arguments: '{"query":"work"}' } }] }),
+                chunk({ tool_calls: [{ type: 'function', function: { name: 'journal_stats', arguments: '{}' } }] })
+            ]
+        });
+
+        const turn = await provider().streamWithTools({ ...chatRequest, tools: [] });
+
+        expect(turn.toolCalls).toEqual([
+            { id: 'call_0', type: 'function', function: { name: 'search_journal', arguments: '{"query":"work"}' } },
+            { id: 'call_1', type: 'function', function: { name: 'journal_stats', arguments: '{}' } }
+        ]);
+    });
+
+    it('embeds text with the local embedding model', async () => {
+        reply('/v1/embeddings', {
+            json: { object: 'list', model: 'nomic-test', data: [{ object: 'embedding', index: 0, embedding: [1, 0] }] }
+        });
+
+        await expect(provider().embed('A calm week.')).resolves.toEqual([1, 0]);
+        expect(jsonBody('/v1/embeddings').model).toBe('nomic-test');
+    });
+
+    it('sends audio to the transcription server with the local model', async () => {
+        reply('/stt/v1/audio/transcriptions', { json: { text: ' A calm week. ' } });
+
+        await expect(provider({ transcriptionBaseURL: baseURL.replace('/v1', '/stt/v1') }).transcribe(audioFile))
+            .resolves.toBe('A calm week.');
+        const body = requestTo('/stt/v1/audio/transcriptions').body;
+        expect(body).toMatch(/name="model"\r\n\r\nwhisper-test/u);
+        expect(body).toContain('not really audio');
+    });
+});
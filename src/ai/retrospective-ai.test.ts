@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../config', () => ({
+    GPT_VERSION: 'test-gpt-model',
+    LOG_LEVEL: 4
+}));
+
+vi.mock('../database', () => ({
+    MessageType: {
+        TEXT: 'text',
+        VOICE: 'voice',
+        VIDEO: 'video'
+    }
+}));
+
+vi.mock('../utils/localization', () => ({
+    Language: {
+        ENGLISH: 'en',
+        RUSSIAN: 'ru'
+    }
+}));
+
+vi.mock('../utils/logger', () => ({
+    createLogger: () => ({
+        debug: vi.fn(),
+        error: vi.fn()
+    })
+}));
+
+vi.mock('./structured', () => ({
+    callStructured: vi.fn()
+}));
+
+import type { IUser } from '../database';
+import { generateRetrospectiveReport, packBatches } from './retrospective-ai';
+import { callStructured } from './structured';
+
+const user = { name: 'Alex', language: 'en' } as unknown as IUser;
+
+const report = {
+    overview: ' A calm week. ',
+    themes: ['work', 'rest'],
+    people: ['Anna: long walks'],
+    moodShift: 'Steady.',
+    openLoops: ['call the landlord']
+};
+
+beforeEach(() => {
+    vi.mocked(callStructured).mockReset();
+});
+
+describe('packBatches', () => {
+    it('keeps consecutive sections together up to the limit', () => {
+        expect(packBatches(['aaaa', 'bbbb', 'cc', 'dddd'], 10)).toEqual([['aaaa', 'bbbb', 'cc'], ['dddd']]);
+    });
+
+    it('gives a section longer than the limit a batch of its own', () => {
+        expect(packBatches(['aa', 'b'.repeat(20), 'cc'], 10)).toEqual([['aa'], ['b'.repeat(20)], ['cc']]);
+    });
+
+    it('returns no batches for no sections', () => {
+        expect(packBatches([], 10)).toEqual([]);
+    });
+});
+
+describe('generateRetrospectiveReport', () => {
+    it('writes a short period in one call', async () => {
+        vi.mocked(callStructured).mockResolvedValue(report);
+
+        expect(await generateRetrospectiveReport(['Monday: worked late', 'Friday: a walk with Anna'], 'Week of 4 March', user)).toEqual({
+            ...report,
+            overview: 'A calm week.'
+        });
+        expect(callStructured).toHaveBeenCalledTimes(1);
+        const request = vi.mocked(callStructured).mock.calls[0][0];
+        expect(request.schemaName).toBe('retrospective');
+        expect(request.userPrompt).toContain('Week of 4 March');
+        expect(request.userPrompt).toContain('a walk with Anna');
+    });
+
+    it('condenses a long period into notes before writing', async () => {
+        vi.mocked(callStructured).mockImplementation(async request =>
+            request.schemaName === 'journal_notes' ? { notes: 'condensed notes' } : report
+        );
+        const sections = Array.from({ length: 6 }, (_, index) => `Day ${index}: ${'x'.repeat(10000)}`);
+
+        await generateRetrospectiveReport(sections, 'March 2024', user);
+
+        const calls = vi.mocked(callStructured).mock.calls.map(([request]) => request);
+        // 60,000 characters in 24,000-character batches: three notes calls, then the retrospective.
+        expect(calls.map(request => request.schemaName)).toEqual(['journal_notes', 'journal_notes', 'journal_notes', 'retrospective']);
+        expect(calls[3].userPrompt).toContain('condensed notes');
+        expect(calls[3].userPrompt).not.toContain('x'.repeat(100));
+    });
+
+    it('caps the lists it returns', async () => {
+        vi.mocked(callStructured).mockResolvedValue({
+            ...report,
+            themes: Array.from({ length: 9 }, (_, index) => `theme ${index}`),
+            openLoops: Array.from({ length: 9 }, (_, index) => `loop ${index}`)
+        });
+
+        const result = await generateRetrospectiveReport(['Monday: worked late'], 'Week of 4 March', user);
+
+        expect(result.themes).toHaveLength(5);
+        expect(result.openLoops).toHaveLength(5);
+    });
+});
@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { IUser } from '../database';
+import { LOG_LEVEL } from '../config';
+import { createLogger } from '../utils/logger';
+import { callStructured } from './structured';
+import {
+    RETROSPECTIVE_NOTES_PROMPT,
+    RETROSPECTIVE_PROMPT,
+    asData,
+    buildUserInfo,
+    languageInstruction
+} from './prompts';
+
+const retrospectiveAiLogger = createLogger('RetrospectiveAI', LOG_LEVEL);
+
+// Characters of journal text sent in one call; longer periods are condensed first.
+const MAX_INPUT_LENGTH = 24000;
+// Each round shrinks the text several times over, so a month of long entries needs two.
+const MAX_CONDENSE_ROUNDS = 3;
+const MAX_THEMES = 5;
+const MAX_PEOPLE = 8;
+const MAX_OPEN_LOOPS = 5;
+
+export interface RetrospectiveReport {
+    overview: string;
+    themes: string[];
+    people: string[];
+    moodShift: string;
+    openLoops: string[];
+}
+
+const retrospectiveSchema = z.object({
+    overview: z.string(),
+    themes: z.array(z.string()),
+    people: z.array(z.string()),
+    moodShift: z.string(),
+    openLoops: z.array(z.string())
+});
+
+const notesSchema = z.object({
+    notes: z.string()
+});
+
+/**
+ * Writes a retrospective from one section per entry, oldest first. When the
+ * sections do not fit one prompt they are condensed batch by batch into dated
+ * notes (and those notes again, if still too long), and the retrospective is
+ * written from the notes. Failures propagate; callers own their fallbacks.
+ */
+export async function generateRetrospectiveReport(
+    sections: string[],
+    periodLabel: string,
+    user: IUser
+): Promise<RetrospectiveReport> {
+    let input = sections;
+    for (let round = 0; round < MAX_CONDENSE_ROUNDS && totalLength(input) > MAX_INPUT_LENGTH; round += 1) {
+        input = await condenseSections(input, user);
+        retrospectiveAiLogger.debug(`Condensed ${periodLabel} into ${input.length} notes (round ${round + 1})`);
+    }
+
+    const report = await callStructured({
+        schema: retrospectiveSchema,
+        schemaName: 'retrospective',
+        systemPrompt: `${RETROSPECTIVE_PROMPT}\n\n${languageInstruction(user)}`,
+        userPrompt: `${buildUserInfo(user)}\n\nPeriod: ${periodLabel}\n\n${input.map(section => asData('journal', section)).join('\n\n')}\n\nPlease write the retrospective of this period.`,
+        temperature: 0.7,
+        maxTokens: 1200
+    });
+    return {
+        overview: report.overview.trim(),
+        themes: report.themes.slice(0, MAX_THEMES),
+        people: report.people.slice(0, MAX_PEOPLE),
+        moodShift: report.moodShift.trim(),
+        openLoops: report.openLoops.slice(0, MAX_OPEN_LOOPS)
+    };
+}
+
+async function condenseSections(sections: string[], user: IUser): Promise<string[]> {
+    const notes: string[] = [];
+    // One batch at a time: a month can hold dozens, and they would all hit the rate limit together.
+    for (const batch of packBatches(sections, MAX_INPUT_LENGTH)) {
+        const result = await callStructured({
+            schema: notesSchema,
+            schemaName: 'journal_notes',
+            systemPrompt: `${RETROSPECTIVE_NOTES_PROMPT}\n\n${languageInstruction(user)}`,
+            userPrompt: `${batch.map(section => asData('journal', section)).join('\n\n')}\n\nPlease condense these entries into dated notes.`,
+            temperature: 0.3,
+            maxTokens: 800
+        });
+        notes.push(result.notes);
+    }
+    return notes;
+}
+
+/** Groups consecutive sections into batches of at most maxLength characters; a longer section gets a batch of its own. */
+export function packBatches(sections: string[], maxLength: number): string[][] {
+    const batches: string[][] = [];
+    let current: string[] = [];
+    let currentLength = 0;
+    for (const section of sections) {
+        if (current.length > 0 && currentLength + section.length > maxLength) {
+            batches.push(current);
+            current = [];
+            currentLength = 0;
+        }
+        current.push(section);
+        currentLength += section.length;
+    }
+    if (current.length > 0) {
+        batches.push(current);
+    }
+    return batches;
+}
+
+function totalLength(sections: string[]): number {
+    return sections.reduce((sum, section) => sum + section.length, 0);
+}
@@ -1,50 +1,24 @@
 import { z } from 'zod';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
-vi.mock('../config', () => ({
-    GPT_VERSION: 'test-gpt-model'
-}));
-
 vi.mock('./client', () => ({
-    openai: {
-        beta: {
-            chat: {
-                completions: {
-                    parse: vi.fn()
-                }
-            }
-        }
+    llm: {
+        completeStructured: vi.fn()
     }
 }));
 
-import { openai } from './client';
+import { llm } from './client';
 import { callStructured } from './structured';
 
 const schema = z.object({ a: z.number() });
 
 beforeEach(() => {
-    vi.mocked(openai.beta.chat.completions.parse).mockReset();
+    vi.mocked(llm.completeStructured).mockReset();
 });
 
 describe('callStructured', () => {
-    it('returns the parsed result', async () => {
-        vi.mocked(openai.beta.chat.completions.parse).mockResolvedValue({
-            id: 'completion-id',
-            choices: [{
-                finish_reason: 'stop',
-                index: 0,
-                logprobs: null,
-                message: {
-                    content: null,
-                    parsed: { a: 1 },
-                    refusal: null,
-                    role: 'assistant'
-                }
-            }],
-            created: 0,
-            model: 'test-gpt-model',
-            object: 'chat.completion'
-        });
+    it('returns the result of the provider', async () => {
+        vi.mocked(llm.completeStructured).mockResolvedValue({ a: 1 });
 
         await expect(callStructured({
             schema,
@@ -54,24 +28,10 @@ describe('callStructured', () => {
         })).resolves.toEqual({ a: 1 });
     });
 
-    it('throws an error containing the schema name and refusal', async () => {
-        vi.mocked(openai.beta.chat.completions.parse).mockResolvedValue({
-            id: 'completion-id',
-            choices: [{
-                finish_reason: 'stop',
-                index: 0,
-                logprobs: null,
-                message: {
-                    content: null,
-                    parsed: null,
-                    refusal: 'I cannot',
-                    role: 'assistant'
-                }
-            }],
-            created: 0,
-            model: 'test-gpt-model',
-            object: 'chat.completion'
-        });
+    it('propagates provider failures', async () => {
+        vi.mocked(llm.completeStructured).mockRejectedValue(
+            new Error("Structured response 'test_schema' was refused: I cannot")
+        );
 
         await expect(callStructured({
             schema,
@@ -81,42 +41,6 @@ describe('callStructured', () => {
         })).rejects.toThrow(/test_schema.*I cannot/u);
     });
 
-    it.each([
-        ['a null parsed result', {
-            id: 'completion-id',
-            choices: [{
-                finish_reason: 'stop' as const,
-                index: 0,
-                logprobs: null,
-                message: {
-                    content: null,
-                    parsed: null,
-                    refusal: null,
-                    role: 'assistant' as const
-                }
-            }],
-            created: 0,
-            model: 'test-gpt-model',
-            object: 'chat.completion' as const
-        }],
-        ['no choices', {
-            id: 'completion-id',
-            choices: [],
-            created: 0,
-            model: 'test-gpt-model',
-            object: 'chat.completion' as const
-        }]
-    ])('throws an error containing the schema name for %s', async (_case, response) => {
-        vi.mocked(openai.beta.chat.completions.parse).mockResolvedValue(response);
-
-        await expect(callStructured({
-            schema,
-            schemaName: 'test_schema',
-            systemPrompt: 'System instructions',
-            userPrompt: 'User data'
-        })).rejects.toThrow('test_schema');
-    });
-
     it.each([
         ['defaults', undefined, undefined, 0.7, 500],
         ['overrides', 0.2, 900, 0.2, 900]
@@ -127,23 +51,7 @@ describe('callStructured', () => {
         expectedTemperature,
         expectedMaxTokens
     ) => {
-        vi.mocked(openai.beta.chat.completions.parse).mockResolvedValue({
-            id: 'completion-id',
-            choices: [{
-                finish_reason: 'stop',
-                index: 0,
-                logprobs: null,
-                message: {
-                    content: null,
-                    parsed: { a: 1 },
-                    refusal: null,
-                    role: 'assistant'
-                }
-            }],
-            created: 0,
-            model: 'test-gpt-model',
-            object: 'chat.completion'
-        });
+        vi.mocked(llm.completeStructured).mockResolvedValue({ a: 1 });
 
         await callStructured({
             schema,
@@ -154,15 +62,27 @@ describe('callStructured', () => {
             maxTokens
         });
 
-        const request = vi.mocked(openai.beta.chat.completions.parse).mock.calls[0]?.[0];
-        expect(request).toMatchObject({
-            model: 'test-gpt-model',
+        expect(llm.completeStructured).toHaveBeenCalledWith({
+            schema,
+            schemaName: 'test_schema',
             messages: [
                 { role: 'system', content: 'System instructions' },
                 { role: 'user', content: 'User data' }
             ],
             temperature: expectedTemperature,
-            max_tokens: expectedMaxTokens
+            maxTokens: expectedMaxTokens
         });
     });
+
+    it('passes a conversation through unchanged', async () => {
+        vi.mocked(llm.completeStructured).mockResolvedValue({ a: 1 });
+        const messages = [
+            { role: 'user' as const, content: 'Question' },
+            { role: 'assistant' as const, content: 'Answer' }
+        ];
+
+        await callStructured({ schema, schemaName: 'test_schema', messages });
+
+        expect(vi.mocked(llm.completeStructured).mock.calls[0]?.[0].messages).toBe(messages);
+    });
 });
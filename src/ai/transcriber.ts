@@ -0,0 +1,12 @@
+/** A speech-to-text engine behind `transcribeAudio`, chosen by TRANSCRIPTION_BACKEND. */
+export interface Transcriber {
+    readonly name: string;
+    /** The largest file the engine accepts, checked before anything is uploaded or converted. */
+    readonly maxFileSizeBytes: number;
+    /**
+     * The raw transcription of an audio or video file; empty when no speech was
+     * found. The prompt is text the recording likely contains, such as names,
+     * which steers the engine towards their spelling.
+     */
+    transcribe(filePath: string, prompt?: string): Promise<string>;
+}
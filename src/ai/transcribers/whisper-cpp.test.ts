@@ -0,0 +1,195 @@
+import { promises as fs } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+    cleanWhisperCppText,
+    createWhisperCppCliTranscriber,
+    createWhisperCppServerTranscriber
+} from './whisper-cpp';
+
+// Stand-ins for the real programs: "ffmpeg" copies its input to its output, so
+// the text in an input file reaches "whisper-cli", which writes it out as the
+// transcript and records its arguments.
+const FAKE_FFMPEG = `#!/bin/sh
+while [ $# -gt 1 ]; do
+    if [ "$1" = "-i" ]; then input="$2"; fi
+    shift
+done
+cp "$input" "$1"
+`;
+
+const FAKE_WHISPER_CLI = `#!/bin/sh
+echo "$@" > "$(dirname "$0")/whisper-args"
+while [ $# -gt 0 ]; do
+    case "$1" in
+        -f) input="$2" ;;
+        -of) output="$2" ;;
+    esac
+    shift
+done
+cp "$input" "$output.txt"
+`;
+
+const FAILING_PROGRAM = `#!/bin/sh
+echo "error: failed to load model" >&2
+exit 1
+`;
+
+let directory: string;
+
+async function writeProgram(name: string, script: string): Promise<string> {
+    const programPath = path.join(directory, name);
+    await fs.writeFile(programPath, script, { mode: 0o755 });
+    return programPath;
+}
+
+async function audioFile(text: string): Promise<string> {
+    const filePath = path.join(directory, 'voice.oga');
+    await fs.writeFile(filePath, text);
+    return filePath;
+}
+
+beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'whisper-cpp-test-'));
+});
+
+afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe('cleanWhisperCppText', () => {
+    it('drops non-speech markers and joins the segments', () => {
+        expect(cleanWhisperCppText('[BLANK_AUDIO]\n Went to Riga.\n [Music]\n Came back tired.\n')).toBe(
+            'Went to Riga. Came back tired.'
+        );
+    });
+
+    it('leaves nothing of a recording without speech', () => {
+        expect(cleanWhisperCppText('\n [BLANK_AUDIO]\n')).toBe('');
+    });
+});
+
+describe('createWhisperCppCliTranscriber', () => {
+    let settings: Parameters<typeof createWhisperCppCliTranscriber>[0];
+
+    beforeAll(async () => {
+        settings = {
+            ffmpegPath: await writeProgram('ffmpeg', FAKE_FFMPEG),
+            cliPath: await writeProgram('whisper-cli', FAKE_WHISPER_CLI),
+            modelPath: '/models/ggml-base.bin',
+            language: 'auto',
+            timeoutMs: 10000
+        };
+    });
+
+    it('transcribes a WAV copy of the file with the configured model', async () => {
+        const transcriber = createWhisperCppCliTranscriber(settings);
+
+        await expect(transcriber.transcribe(await audioFile(' Went to Riga.\n'))).resolves.toBe('Went to Riga.');
+
+        const args = await fs.readFile(path.join(directory, 'whisper-args'), 'utf8');
+        expect(args).toContain('-m /models/ggml-base.bin');
+        expect(args).toContain('-l auto');
+        expect(args).toMatch(/-f \S+\/audio\.wav/u);
+        expect(args).not.toContain('--prompt');
+    });
+
+    it('passes the prompt on', async () => {
+        const transcriber = createWhisperCppCliTranscriber(settings);
+
+        await transcriber.transcribe(await audioFile('Went to Riga.'), 'Glossary: Riga.');
+
+        const args = await fs.readFile(path.join(directory, 'whisper-args'), 'utf8');
+        expect(args).toContain('--prompt Glossary: Riga.');
+    });
+
+    it('reports what the program printed when it fails', async () => {
+        const transcriber = createWhisperCppCliTranscriber({
+            ...settings,
+            cliPath: await writeProgram('broken-whisper-cli', FAILING_PROGRAM)
+        });
+
+        await expect(transcriber.transcribe(await audioFile('Went to Riga.')))
+            .rejects.toThrow('broken-whisper-cli failed: error: failed to load model');
+    });
+
+    it('reports a missing program', async () => {
+        const transcriber = createWhisperCppCliTranscriber({ ...settings, cliPath: path.join(directory, 'missing') });
+
+        await expect(transcriber.transcribe(await audioFile('Went to Riga.'))).rejects.toThrow(/missing failed/u);
+    });
+});
+
+describe('createWhisperCppServerTranscriber', () => {
+    let server: Server;
+    let serverURL: string;
+    let received: { path: string; body: string } | undefined;
+    let status: number;
+    let answer: unknown;
+
+    beforeAll(async () => {
+        server = createServer((request, response) => {
+            const chunks: Buffer[] = [];
+            request.on('data', (chunk: Buffer) => chunks.push(chunk));
+            request.on('end', () => {
+                received = { path: request.url ?? '', body: Buffer.concat(chunks).toString('utf8') };
+                response.writeHead(status, { 'content-type': 'application/json' });
+                response.end(JSON.stringify(answer));
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        serverURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        received = undefined;
+        status = 200;
+        answer = { text: ' Went to Riga.\n [BLANK_AUDIO]\n' };
+    });
+
+    const transcriber = () => createWhisperCppServerTranscriber({
+        ffmpegPath: path.join(directory, 'ffmpeg'),
+        serverURL,
+        language: 'ru',
+        timeoutMs: 10000
+    });
+
+    it('posts the WAV copy to the inference endpoint', async () => {
+        await expect(transcriber().transcribe(await audioFile('fake wav bytes'))).resolves.toBe('Went to Riga.');
+
+        expect(received?.path).toBe('/inference');
+        expect(received?.body).toContain('filename="audio.wav"');
+        expect(received?.body).toContain('fake wav bytes');
+        expect(received?.body).toMatch(/name="language"\r\n\r\nru/u);
+        expect(received?.body).toMatch(/name="response_format"\r\n\r\njson/u);
+        expect(received?.body).not.toContain('name="prompt"');
+    });
+
+    it('sends the prompt as a form field', async () => {
+        await transcriber().transcribe(await audioFile('fake wav bytes'), 'Glossary: Riga.');
+
+        expect(received?.body).toMatch(/name="prompt"\r\n\r\nGlossary: Riga\./u);
+    });
+
+    it('throws on an error status', async () => {
+        status = 500;
+        answer = { error: 'failed to read WAV file' };
+
+        await expect(transcriber().transcribe(await audioFile('fake wav bytes')))
+            .rejects.toThrow('whisper.cpp server answered HTTP 500');
+    });
+
+    it('throws when the answer has no text', async () => {
+        answer = { error: 'no model loaded' };
+
+        await expect(transcriber().transcribe(await audioFile('fake wav bytes')))
+            .rejects.toThrow('whisper.cpp server returned no text: no model loaded');
+    });
+});
@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { convertToSpeechWav } from '../../utils/ffmpeg';
+import { runCommand } from '../../utils/process';
+import { Transcriber } from '../transcriber';
+
+export interface WhisperCppSettings {
+    ffmpegPath: string;
+    /** A language code such as `en`, or `auto` to detect it. */
+    language: string;
+    /** Applies to the conversion and to the transcription separately. */
+    timeoutMs: number;
+}
+
+export interface WhisperCppCliSettings extends WhisperCppSettings {
+    cliPath: string;
+    modelPath: string;
+}
+
+export interface WhisperCppServerSettings extends WhisperCppSettings {
+    /** Root of a whisper.cpp `whisper-server`, which answers on `/inference`. */
+    serverURL: string;
+}
+
+// whisper.cpp writes markers like [BLANK_AUDIO] for stretches without speech
+// instead of leaving them empty.
+const NON_SPEECH_MARKERS = /\[(?:BLANK_AUDIO|MUSIC|NOISE|SILENCE)\]/giu;
+
+/** The text without non-speech markers, its segments joined into one line. */
+export function cleanWhisperCppText(text: string): string {
+    return text.replace(NON_SPEECH_MARKERS, ' ').replace(/\s+/gu, ' ').trim();
+}
+
+/** Runs `task` on a WAV copy of the file in a temp directory that is always removed. */
+async function withSpeechWav<T>(
+    settings: WhisperCppSettings,
+    filePath: string,
+    task: (wavPath: string, directory: string) => Promise<T>
+): Promise<T> {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'whisper-cpp-'));
+    try {
+        const wavPath = path.join(directory, 'audio.wav');
+        await convertToSpeechWav(settings.ffmpegPath, filePath, wavPath, settings.timeoutMs);
+        return await task(wavPath, directory);
+    } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+    }
+}
+
+/** whisper.cpp's command-line tool, run once per file with a model on local disk. */
+export function createWhisperCppCliTranscriber(settings: WhisperCppCliSettings): Transcriber {
+    return {
+        name: 'whisper-cpp-cli',
+        // Nothing is uploaded, so only Telegram's download limit applies.
+        maxFileSizeBytes: Number.POSITIVE_INFINITY,
+
+        transcribe: (filePath, prompt) => withSpeechWav(settings, filePath, async (wavPath, directory) => {
+            const outputBase = path.join(directory, 'transcript');
+            await runCommand(
+                settings.cliPath,
+                [
+                    '-m', settings.modelPath, '-f', wavPath, '-l', settings.language, '-otxt', '-of', outputBase, '-np',
+                    ...(prompt ? ['--prompt', prompt] : [])
+                ],
+                settings.timeoutMs
+            );
+            return cleanWhisperCppText(await fs.readFile(`${outputBase}.txt`, 'utf8'));
+        })
+    };
+}
+
+/** A whisper.cpp `whisper-server` on our own network, which keeps the model loaded between requests. */
+export function createWhisperCppServerTranscriber(settings: WhisperCppServerSettings): Transcriber {
+    const inferenceURL = new URL('inference', settings.serverURL.endsWith('/') ? settings.serverURL : `${settings.serverURL}/`);
+
+    return {
+        name: 'whisper-cpp-server',
+        maxFileSizeBytes: Number.POSITIVE_INFINITY,
+
+        transcribe: (filePath, prompt) => withSpeechWav(settings, filePath, async wavPath => {
+            const form = new FormData();
+            form.append('file', new Blob([await fs.readFile(wavPath)], { type: 'audio/wav' }), 'audio.wav');
+            form.append('response_format', 'json');
+            form.append('language', settings.language);
+            if (prompt) {
+                form.append('prompt', prompt);
+            }
+
+            const response = await fetch(inferenceURL, {
+                method: 'POST',
+                body: form,
+                signal: AbortSignal.timeout(settings.timeoutMs)
+            });
+            if (!response.ok) {
+                throw new Error(`whisper.cpp server answered HTTP ${response.status}`);
+            }
+            const result = await response.json() as { text?: unknown; error?: unknown };
+            if (typeof result.text !== 'string') {
+                throw new Error(`whisper.cpp server returned no text${result.error ? `: ${String(result.error)}` : ''}`);
+            }
+            return cleanWhisperCppText(result.text);
+        })
+    };
+}
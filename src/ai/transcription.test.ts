@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../config', () => ({
+    LOG_LEVEL: 0,
+    TRANSCRIPTION_BACKEND: 'provider',
+    FFMPEG_PATH: 'ffmpeg',
+    WHISPER_CPP_CLI_PATH: 'whisper-cli',
+    WHISPER_CPP_LANGUAGE: 'auto',
+    WHISPER_CPP_MODEL_PATH: '',
+    WHISPER_CPP_SERVER_URL: '',
+    WHISPER_CPP_TIMEOUT_MS: 1000
+}));
+
+vi.mock('./client', () => ({
+    llm: {
+        name: 'openai',
+        transcribe: vi.fn()
+    }
+}));
+
+import { llm } from './client';
+import { transcribeAudio, vocabularyPrompt } from './transcription';
+
+let directory: string;
+
+async function file(name: string, contents: string): Promise<string> {
+    const filePath = path.join(directory, name);
+    await fs.writeFile(filePath, contents);
+    return filePath;
+}
+
+beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'transcription-test-'));
+});
+
+afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe('transcribeAudio', () => {
+    it('returns the transcription of the configured backend', async () => {
+        vi.mocked(llm.transcribe).mockResolvedValue('Went to Riga.');
+        const voice = await file('voice.oga', 'audio');
+
+        await expect(transcribeAudio(voice)).resolves.toBe('Went to Riga.');
+        expect(llm.transcribe).toHaveBeenCalledWith(voice, undefined);
+    });
+
+    it('passes the vocabulary to the backend as a prompt', async () => {
+        vi.mocked(llm.transcribe).mockResolvedValue('Went to Jūrmala with Ilze.');
+        const voice = await file('voice.oga', 'audio');
+
+        await transcribeAudio(voice, ['Jūrmala', 'Ilze']);
+        expect(llm.transcribe).toHaveBeenCalledWith(voice, 'Glossary: Jūrmala, Ilze.');
+    });
+
+    it('throws for an empty file without calling the backend', async () => {
+        await expect(transcribeAudio(await file('empty.oga', ''))).rejects.toThrow('Cannot transcribe empty file');
+        expect(llm.transcribe).not.toHaveBeenCalled();
+    });
+
+    it('throws instead of returning an empty transcription', async () => {
+        vi.mocked(llm.transcribe).mockResolvedValue('');
+
+        await expect(transcribeAudio(await file('silence.oga', 'audio'))).rejects.toThrow('no speech detected');
+    });
+});
+
+describe('vocabularyPrompt', () => {
+    it('leaves out the prompt without a vocabulary', () => {
+        expect(vocabularyPrompt(undefined)).toBeUndefined();
+        expect(vocabularyPrompt([])).toBeUndefined();
+    });
+});
@@ -1,37 +1,87 @@
-import { createReadStream, promises as fs } from 'fs';
+import { promises as fs } from 'fs';
 import { createLogger } from '../utils/logger';
-import { LOG_LEVEL } from '../config';
-import { openai } from './client';
+import {
+    FFMPEG_PATH,
+    LOG_LEVEL,
+    TRANSCRIPTION_BACKEND,
+    WHISPER_CPP_CLI_PATH,
+    WHISPER_CPP_LANGUAGE,
+    WHISPER_CPP_MODEL_PATH,
+    WHISPER_CPP_SERVER_URL,
+    WHISPER_CPP_TIMEOUT_MS
+} from '../config';
+import { llm } from './client';
+import { Transcriber } from './transcriber';
+import { createWhisperCppCliTranscriber, createWhisperCppServerTranscriber } from './transcribers/whisper-cpp';
 
 const transcriptionLogger = createLogger('Transcription', LOG_LEVEL);
 
-const MAX_FILE_SIZE_BYTES = 25 * 1024 * 1024; // Whisper API limit
+const WHISPER_API_MAX_FILE_SIZE_BYTES = 25 * 1024 * 1024;
+
+function createTranscriber(): Transcriber {
+    const whisperCpp = {
+        ffmpegPath: FFMPEG_PATH,
+        language: WHISPER_CPP_LANGUAGE,
+        timeoutMs: WHISPER_CPP_TIMEOUT_MS
+    };
+    switch (TRANSCRIPTION_BACKEND) {
+        case 'whisper-cpp-cli':
+            return createWhisperCppCliTranscriber({
+                ...whisperCpp,
+                cliPath: WHISPER_CPP_CLI_PATH,
+                modelPath: WHISPER_CPP_MODEL_PATH
+            });
+        case 'whisper-cpp-server':
+            return createWhisperCppServerTranscriber({ ...whisperCpp, serverURL: WHISPER_CPP_SERVER_URL });
+        case 'provider':
+            return {
+                name: `${llm.name} provider`,
+                // The Whisper API limit, which local OpenAI-compatible servers mirror.
+                maxFileSizeBytes: WHISPER_API_MAX_FILE_SIZE_BYTES,
+                transcribe: (filePath, prompt) => llm.transcribe(filePath, prompt)
+            };
+    }
+}
+
+const transcriber = createTranscriber();
+
+/** The recording was transcribed, but nothing in it was speech. */
+export class NoSpeechError extends Error {
+    constructor(message = 'Transcription returned empty text (no speech detected)') {
+        super(message);
+        this.name = 'NoSpeechError';
+    }
+}
+
+/**
+ * Whisper treats its prompt as text that came before the recording, so a
+ * sentence naming the terms makes it spell them that way when it hears them.
+ */
+export function vocabularyPrompt(vocabulary: string[] | undefined): string | undefined {
+    return vocabulary?.length ? `Glossary: ${vocabulary.join(', ')}.` : undefined;
+}
 
 /**
- * Transcribes an audio or video file with Whisper.
+ * Transcribes an audio or video file with the configured backend, steered
+ * towards the spelling of the user's vocabulary.
  * Throws on failure; callers decide how to surface errors to the user.
  * Never returns error prose as if it were a transcription.
  */
-export async function transcribeAudio(filePath: string): Promise<string> {
+export async function transcribeAudio(filePath: string, vocabulary?: string[]): Promise<string> {
     const stats = await fs.stat(filePath);
 
     if (stats.size === 0) {
         throw new Error(`Cannot transcribe empty file: ${filePath}`);
     }
-    if (stats.size > MAX_FILE_SIZE_BYTES) {
-        throw new Error(`File exceeds Whisper 25MB limit (${stats.size} bytes): ${filePath}`);
+    if (stats.size > transcriber.maxFileSizeBytes) {
+        throw new Error(`File exceeds the ${transcriber.name} limit of ${transcriber.maxFileSizeBytes} bytes (${stats.size} bytes): ${filePath}`);
     }
 
-    transcriptionLogger.debug(`Transcribing ${filePath} (${stats.size} bytes)`);
-
-    const response = await openai.audio.transcriptions.create({
-        file: createReadStream(filePath),
-        model: 'whisper-1'
-    });
+    transcriptionLogger.debug(`Transcribing ${filePath} (${stats.size} bytes) with ${transcriber.name}`);
 
-    const transcription = response.text.trim();
+    const transcription = await transcriber.transcribe(filePath, vocabularyPrompt(vocabulary));
     if (!transcription) {
-        throw new Error('Transcription returned empty text (no speech detected)');
+        throw new NoSpeechError();
     }
 
     transcriptionLogger.debug(`Transcription successful (${transcription.length} chars)`);
@@ -1,19 +1,53 @@
 import { Context, SessionFlavor } from 'grammy';
 import { IUser } from '../database';
 
-export type OnboardingStep = 'language' | 'name' | 'age' | 'gender' | 'occupation' | 'bio';
+// The steps are listed as values too, so the session schema validates against the same ones.
+export const ONBOARDING_STEPS = ['language', 'name', 'age', 'gender', 'occupation', 'bio'] as const;
+export type OnboardingStep = (typeof ONBOARDING_STEPS)[number];
+
+/** A settings question waiting for the user's reply; absent on the settings menu itself. */
+export const SETTINGS_STEPS = ['timezone', 'reminder_time', 'reminder_timezone', 'vocabulary'] as const;
+export type SettingsStep = (typeof SETTINGS_STEPS)[number];
+
+/** What the user is changing on a completed entry: adding content or renaming it. */
+export const ENTRY_EDIT_STEPS = ['append', 'title'] as const;
+export type EntryEditStep = (typeof ENTRY_EDIT_STEPS)[number];
+
+/** The mode a transcription fix leads back to: the entry being written or edited, or the menu. */
+export type TranscriptionFixReturn =
+    | { kind: 'idle' }
+    | { kind: 'journal_entry'; entryId: string }
+    | { kind: 'entry_edit'; entryId: string; step: EntryEditStep };
+
+/** The last search, kept so its result pages can be browsed while the mode lasts. */
+export interface SearchResults {
+    query: string;
+    entryIds: string[];
+}
 
 /**
  * The bot is always in exactly one mode. Modeling this as a discriminated
  * union (instead of independent boolean flags) makes stale-state bugs
  * unrepresentable: entering a mode always replaces the previous one.
+ * Sessions are persisted, so a new mode must also be added to the schema
+ * in `session-storage.ts` or stored sessions in it will reset to idle.
  */
 export type SessionMode =
     | { kind: 'idle' }
     | { kind: 'onboarding'; step: OnboardingStep }
     | { kind: 'journal_entry'; entryId: string }
-    | { kind: 'journal_chat' }
-    | { kind: 'settings' };
+    | { kind: 'entry_edit'; entryId: string; step: EntryEditStep }
+    | {
+          kind: 'transcription_fix';
+          entryId: string;
+          messageId: string;
+          returnTo: TranscriptionFixReturn;
+          transcriptionReplyId?: number;
+      }
+    | { kind: 'journal_chat'; conversationId?: string }
+    | { kind: 'journal_import' }
+    | { kind: 'journal_search'; results?: SearchResults }
+    | { kind: 'settings'; step?: SettingsStep };
 
 export interface JournalBotSession {
     mode: SessionMode;
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../config', () => ({
+    LOG_LEVEL: 0
+}));
+
+vi.mock('../database', () => ({
+    getAllLocalizationTexts: vi.fn(),
+    upsertLocalizationText: vi.fn(),
+    updateTranslation: vi.fn()
+}));
+
+import { Context, InlineKeyboard } from 'grammy';
+import { IUser } from '../database';
+import { Language } from '../utils/localization';
+import { sendTranscriptionReply } from './helpers';
+
+const user = { firstName: 'Nik', language: Language.ENGLISH } as unknown as IUser;
+
+function fakeContext() {
+    const reply = vi.fn().mockResolvedValue({ chat: { id: 7 }, message_id: 100 });
+    const ctx = { reply } as unknown as Context;
+    return { ctx, reply };
+}
+
+describe('sendTranscriptionReply', () => {
+    it('replies once with the fix button for a short transcription', async () => {
+        const { ctx, reply } = fakeContext();
+
+        await sendTranscriptionReply(ctx, 42, 'Hello there', user, 'message-1');
+
+        expect(reply).toHaveBeenCalledTimes(1);
+        const [text, options] = reply.mock.calls[0];
+        expect(text).toContain('<code>Hello there</code>');
+        expect(options.reply_to_message_id).toBe(42);
+        expect(options.reply_markup).toBeInstanceOf(InlineKeyboard);
+    });
+
+    it('splits a transcription longer than one Telegram message', async () => {
+        const { ctx, reply } = fakeContext();
+        const transcription = Array.from({ length: 1500 }, (_, index) => `word${index}`).join(' ');
+        expect(transcription.length).toBeGreaterThan(4096);
+
+        await sendTranscriptionReply(ctx, 42, transcription, user, 'message-1');
+
+        expect(reply.mock.calls.length).toBeGreaterThan(1);
+        for (const [text, options] of reply.mock.calls) {
+            expect(text.length).toBeLessThanOrEqual(4096);
+            expect(options.reply_to_message_id).toBe(42);
+        }
+        const markups = reply.mock.calls.map(([, options]) => options.reply_markup);
+        expect(markups.slice(0, -1).every(markup => markup === undefined)).toBe(true);
+        expect(markups.at(-1)).toBeInstanceOf(InlineKeyboard);
+        const words = reply.mock.calls
+            .map(([text]) => text.replace(/<[^>]+>/g, '').replace('Text:', ''))
+            .join(' ')
+            .split(/\s+/)
+            .filter(Boolean);
+        expect(words).toEqual(transcription.split(' '));
+    });
+});
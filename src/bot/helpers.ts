@@ -1,12 +1,17 @@
-import { Context, Keyboard } from 'grammy';
+import { Context, GrammyError, InlineKeyboard, Keyboard } from 'grammy';
 import { IUser } from '../database';
 import { Language, getText, getTextForUser } from '../utils/localization';
 import { createLogger } from '../utils/logger';
+import { splitText } from '../utils/split-text';
 import { LOG_LEVEL } from '../config';
+import { TranscriptionOptions } from '../services/telegram-media';
 import { JournalBotContext } from './context';
 
 const helpersLogger = createLogger('BotHelpers', LOG_LEVEL);
 
+// Under Telegram's 4096-character limit with room for the label around a piece.
+const MAX_TRANSCRIPTION_PIECE_LENGTH = 4000;
+
 /**
  * Matches a message text against the current localized labels of a button,
  * so handlers stay in sync with texts even when they are edited at runtime.
@@ -25,12 +30,25 @@ export function buttonFilter(key: string): (ctx: JournalBotContext) => boolean {
 
 /**
  * Shows a "⏳" placeholder while a slow task runs and always removes it
- * afterwards, so failed tasks don't leave a dangling wait message.
+ * afterwards, so failed tasks don't leave a dangling wait message. The task
+ * may replace the placeholder text to report progress; a failed edit only
+ * costs the user that update.
  */
-export async function withWaitMessage<T>(ctx: Context, task: () => Promise<T>): Promise<T> {
+export async function withWaitMessage<T>(
+    ctx: Context,
+    task: (updateWaitMessage: (text: string) => Promise<void>) => Promise<T>
+): Promise<T> {
     const waitMessage = await ctx.reply('⏳');
+    const updateWaitMessage = async (text: string): Promise<void> => {
+        if (!ctx.chat) {
+            return;
+        }
+        await ctx.api
+            .editMessageText(ctx.chat.id, waitMessage.message_id, text)
+            .catch(error => helpersLogger.warn('Failed to update wait message:', error));
+    };
     try {
-        return await task();
+        return await task(updateWaitMessage);
     } finally {
         if (ctx.chat) {
             await ctx.api
@@ -40,17 +58,65 @@ export async function withWaitMessage<T>(ctx: Context, task: () => Promise<T>):
     }
 }
 
-/** Replies to the original voice/video message with its transcription. */
+/**
+ * `withWaitMessage` for a transcription in the user's vocabulary, which
+ * reports each chunk of a long recording.
+ */
+export async function withTranscriptionWaitMessage(
+    ctx: Context,
+    user: IUser,
+    transcribe: (options: TranscriptionOptions) => Promise<string>
+): Promise<string> {
+    return withWaitMessage(ctx, updateWaitMessage => transcribe({
+        vocabulary: user.transcriptionVocabulary,
+        onProgress: (part, total) =>
+            updateWaitMessage(getTextForUser('transcribingPart', user, { part: String(part), total: String(total) }))
+    }));
+}
+
+/**
+ * Replaces the message whose inline button was tapped, as list navigation does.
+ * Telegram rejects an edit that changes nothing (e.g. re-picking the current
+ * filter); that is not an error here.
+ */
+export async function editCallbackMessage(ctx: Context, text: string, keyboard: InlineKeyboard): Promise<void> {
+    try {
+        await ctx.editMessageText(text, { reply_markup: keyboard, parse_mode: 'HTML' });
+    } catch (error) {
+        if (error instanceof GrammyError && error.description.includes('message is not modified')) {
+            return;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Replies to the original voice/video message with its transcription, over
+ * several messages when it is too long for one. Given the id of the saved
+ * `Message`, the last of them offers to fix what was misheard.
+ */
 export async function sendTranscriptionReply(
     ctx: Context,
     messageId: number,
     transcription: string,
-    user: IUser
+    user: IUser,
+    savedMessageId?: string
 ): Promise<void> {
-    await ctx.reply(getTextForUser('transcriptionText', user, { transcription }), {
-        reply_to_message_id: messageId,
-        parse_mode: 'HTML'
-    });
+    const keyboard = savedMessageId ? transcriptionFixKeyboard(user, savedMessageId) : undefined;
+    const pieces = splitText(transcription, MAX_TRANSCRIPTION_PIECE_LENGTH);
+    for (const [index, piece] of pieces.entries()) {
+        const textKey = index === 0 ? 'transcriptionText' : 'transcriptionTextContinued';
+        await ctx.reply(getTextForUser(textKey, user, { transcription: piece }), {
+            reply_to_message_id: messageId,
+            reply_markup: index === pieces.length - 1 ? keyboard : undefined,
+            parse_mode: 'HTML'
+        });
+    }
+}
+
+/** The button under a transcription that offers to fix what was misheard in the saved `Message`. */
+export function transcriptionFixKeyboard(user: IUser, savedMessageId: string): InlineKeyboard {
+    return new InlineKeyboard().text(getTextForUser('fixTranscription', user), `fix_transcription:${savedMessageId}`);
 }
 
 /** Shows the main menu keyboard. */
@@ -59,6 +125,7 @@ export async function showMainMenu(ctx: Context, user: IUser): Promise<void> {
         .text(getTextForUser('createNewEntry', user))
         .row()
         .text(getTextForUser('viewJournalHistory', user))
+        .text(getTextForUser('searchJournal', user))
         .row()
         .text(getTextForUser('chatAboutJournal', user))
         .row()
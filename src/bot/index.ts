@@ -2,21 +2,33 @@ import { Bot, session } from 'grammy';
 import { TELEGRAM_API_TOKEN, LOG_LEVEL } from '../config';
 import { createLogger } from '../utils/logger';
 import { initialSession, JournalBotContext } from './context';
+import { trackUpdate } from './middleware/in-flight';
 import { attachUser } from './middleware/user';
+import { createSessionStorage } from './session-storage';
 import { registerAdminRoutes } from './routes/admin';
 import { registerOnboardingRoutes } from './routes/onboarding';
 import { registerMenuRoutes } from './routes/menu';
 import { registerJournalEntryRoutes } from './routes/journal-entry';
 import { registerJournalHistoryRoutes } from './routes/journal-history';
+import { registerJournalEntryEditRoutes } from './routes/journal-entry-edit';
+import { registerTranscriptionFixRoutes } from './routes/transcription-fix';
+import { registerSearchRoutes } from './routes/search';
+import { registerMoodRoutes } from './routes/mood';
+import { registerRetrospectiveRoutes } from './routes/retrospectives';
 import { registerJournalChatRoutes } from './routes/journal-chat';
 import { registerSettingsRoutes } from './routes/settings';
+import { registerReminderRoutes } from './routes/reminders';
+import { registerExportRoutes } from './routes/export';
+import { registerImportRoutes } from './routes/import';
+import { registerAccountRoutes } from './routes/account';
 import { registerMessageRouter } from './routes/router';
 
 const botLogger = createLogger('JournalBot', LOG_LEVEL);
 
 export const journalBot = new Bot<JournalBotContext>(TELEGRAM_API_TOKEN);
 
-journalBot.use(session({ initial: initialSession }));
+journalBot.use(trackUpdate);
+journalBot.use(session({ initial: initialSession, storage: createSessionStorage() }));
 journalBot.use(attachUser);
 
 registerAdminRoutes(journalBot);
@@ -24,8 +36,17 @@ registerOnboardingRoutes(journalBot);
 registerMenuRoutes(journalBot);
 registerJournalEntryRoutes(journalBot);
 registerJournalHistoryRoutes(journalBot);
+registerJournalEntryEditRoutes(journalBot);
+registerTranscriptionFixRoutes(journalBot);
+registerSearchRoutes(journalBot);
+registerMoodRoutes(journalBot);
+registerRetrospectiveRoutes(journalBot);
 registerJournalChatRoutes(journalBot);
 registerSettingsRoutes(journalBot);
+registerReminderRoutes(journalBot);
+registerExportRoutes(journalBot);
+registerImportRoutes(journalBot);
+registerAccountRoutes(journalBot);
 registerMessageRouter(journalBot);
 
 // Without a global error handler a single failing update stops long polling.
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../config', () => ({
+    LOG_LEVEL: 0
+}));
+
+import { Context, InlineKeyboard } from 'grammy';
+import { startLiveMessage } from './live-message';
+
+function fakeContext() {
+    const reply = vi.fn().mockResolvedValue({ chat: { id: 7 }, message_id: 100 });
+    const editMessageText = vi.fn().mockResolvedValue(true);
+    const ctx = { reply, api: { editMessageText } } as unknown as Context;
+    return { ctx, reply, editMessageText };
+}
+
+// Lets the promise chains started by update() settle.
+async function settle(): Promise<void> {
+    await vi.advanceTimersByTimeAsync(0);
+}
+
+beforeEach(() => {
+    vi.useFakeTimers();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('startLiveMessage', () => {
+    it('sends the first draft at once and edits it at most once a second', async () => {
+        const { ctx, reply, editMessageText } = fakeContext();
+        const message = startLiveMessage(ctx);
+
+        message.update('Hello');
+        await settle();
+        message.update('Hello there');
+        await settle();
+        expect(reply).toHaveBeenCalledWith('Hello ▍', { parse_mode: 'HTML' });
+        expect(editMessageText).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(1000);
+        message.update('Hello there, friend');
+        await settle();
+        expect(editMessageText).toHaveBeenCalledWith(7, 100, 'Hello there, friend ▍', { parse_mode: 'HTML' });
+    });
+
+    it('escapes the whole draft, so a chunk cannot end inside markup', async () => {
+        const { ctx, reply } = fakeContext();
+        const message = startLiveMessage(ctx, { bold: true });
+
+        message.update('Tom & <Jerry');
+        await settle();
+
+        expect(reply).toHaveBeenCalledWith('<b>Tom &amp; &lt;Jerry ▍</b>', { parse_mode: 'HTML' });
+    });
+
+    it('replaces the draft with the final text', async () => {
+        const { ctx, editMessageText } = fakeContext();
+        const message = startLiveMessage(ctx);
+
+        message.update('Draft');
+        await message.finish('<b>Final</b>');
+
+        expect(editMessageText).toHaveBeenLastCalledWith(7, 100, '<b>Final</b>', { parse_mode: 'HTML' });
+    });
+
+    it('attaches the keyboard to the final text', async () => {
+        const { ctx, editMessageText } = fakeContext();
+        const message = startLiveMessage(ctx);
+        const keyboard = new InlineKeyboard().text('What shifted?', 'chat_ask:1');
+
+        message.update('Final');
+        await settle();
+        await message.finish('Final', keyboard);
+
+        expect(editMessageText).toHaveBeenLastCalledWith(7, 100, 'Final', { parse_mode: 'HTML', reply_markup: keyboard });
+    });
+
+    it('sends the final text when no draft was shown', async () => {
+        const { ctx, reply, editMessageText } = fakeContext();
+        const message = startLiveMessage(ctx);
+
+        message.update('   ');
+        await message.finish('Final');
+
+        expect(reply).toHaveBeenCalledTimes(1);
+        expect(reply).toHaveBeenCalledWith('Final', { parse_mode: 'HTML' });
+        expect(editMessageText).not.toHaveBeenCalled();
+    });
+
+    it('clears a withdrawn draft once the edit interval allows', async () => {
+        const { ctx, editMessageText } = fakeContext();
+        const message = startLiveMessage(ctx);
+
+        message.update('Let me look that up');
+        await settle();
+        message.update('');
+        await settle();
+        expect(editMessageText).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(editMessageText).toHaveBeenCalledWith(7, 100, '▍', { parse_mode: 'HTML' });
+    });
+
+    it('does not clear a draft that new text has replaced', async () => {
+        const { ctx, editMessageText } = fakeContext();
+        const message = startLiveMessage(ctx);
+
+        message.update('Let me look that up');
+        await settle();
+        message.update('');
+        message.update('In March you wrote');
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(editMessageText).not.toHaveBeenCalledWith(7, 100, '▍', { parse_mode: 'HTML' });
+    });
+
+    it('keeps going when a draft edit fails', async () => {
+        const { ctx, editMessageText } = fakeContext();
+        editMessageText.mockRejectedValueOnce(new Error('network'));
+        const message = startLiveMessage(ctx);
+
+        message.update('One');
+        await settle();
+        vi.advanceTimersByTime(1000);
+        message.update('One two');
+        await settle();
+        await message.finish('One two three');
+
+        expect(editMessageText).toHaveBeenLastCalledWith(7, 100, 'One two three', { parse_mode: 'HTML' });
+    });
+});
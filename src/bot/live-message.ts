@@ -0,0 +1,128 @@
+import { Context, GrammyError, InlineKeyboard } from 'grammy';
+import { LOG_LEVEL } from '../config';
+import { escapeHtml } from '../utils/html';
+import { createLogger } from '../utils/logger';
+
+const liveMessageLogger = createLogger('LiveMessage', LOG_LEVEL);
+
+// Telegram allows about one edit per second in a private chat before it answers 429.
+const EDIT_INTERVAL_MS = 1000;
+// Under Telegram's 4096-character limit with room for the cursor; a longer draft
+// is cut until the final text replaces it.
+const MAX_MESSAGE_LENGTH = 4000;
+const CURSOR = ' ▍';
+
+/** A message that shows text while it is being written, then its final form. */
+export interface LiveMessage {
+    /**
+     * Shows the text written so far, unless the last edit was too recent; the
+     * next update catches up. Empty text withdraws what was shown.
+     */
+    update(text: string): void;
+    /** Replaces the draft with the final HTML, or sends it if no draft was shown. */
+    finish(html: string, keyboard?: InlineKeyboard): Promise<void>;
+}
+
+/**
+ * Starts a live reply. Drafts are plain text, escaped as a whole on every edit,
+ * so a chunk that ends halfway through `&` or `<` never reaches Telegram as
+ * broken markup. Failed draft edits are only logged: the final text still
+ * lands.
+ */
+export function startLiveMessage(ctx: Context, options: { bold?: boolean } = {}): LiveMessage {
+    let chatId: number | undefined;
+    let messageId: number | undefined;
+    let shownHtml = '';
+    let latestText = '';
+    let nextEditAt = 0;
+    let inFlight: Promise<void> | undefined;
+
+    const render = (text: string): string => {
+        const draft = (escapeHtml(text.slice(0, MAX_MESSAGE_LENGTH).trimEnd()) + CURSOR).trimStart();
+        return options.bold ? `<b>${draft}</b>` : draft;
+    };
+
+    const show = async (html: string, keyboard?: InlineKeyboard): Promise<void> => {
+        if (chatId === undefined || messageId === undefined) {
+            const message = await ctx.reply(html, { parse_mode: 'HTML', reply_markup: keyboard });
+            chatId = message.chat.id;
+            messageId = message.message_id;
+        } else {
+            await ctx.api.editMessageText(chatId, messageId, html, { parse_mode: 'HTML', reply_markup: keyboard });
+        }
+        shownHtml = html;
+    };
+
+    const trackDraft = (draft: Promise<void>): void => {
+        const tracked: Promise<void> = draft
+            .catch(error => {
+                if (error instanceof GrammyError && error.parameters.retry_after) {
+                    nextEditAt = Date.now() + error.parameters.retry_after * 1000;
+                }
+                liveMessageLogger.warn('Failed to show the draft of a live message:', error);
+            })
+            .finally(() => {
+                // A clear may have been queued behind this draft in the meantime.
+                if (inFlight === tracked) {
+                    inFlight = undefined;
+                }
+            });
+        inFlight = tracked;
+    };
+
+    /**
+     * Takes the shown draft back to just the cursor. Unlike a growing draft it
+     * is never skipped: it waits for the edit in flight and the edit interval,
+     * since no later text may come to replace what was withdrawn.
+     */
+    const clearDraft = (): void => {
+        const previous = inFlight ?? Promise.resolve();
+        trackDraft(previous.then(async () => {
+            await new Promise(resolve => setTimeout(resolve, Math.max(nextEditAt - Date.now(), 0)));
+            const html = render('');
+            // New text may have arrived while waiting; the next update shows it.
+            if (messageId === undefined || latestText.trim() || html === shownHtml) {
+                return;
+            }
+            nextEditAt = Date.now() + EDIT_INTERVAL_MS;
+            await show(html);
+        }));
+    };
+
+    return {
+        update(text: string): void {
+            latestText = text;
+            if (!latestText.trim()) {
+                if (shownHtml || inFlight) {
+                    clearDraft();
+                }
+                return;
+            }
+            if (inFlight || Date.now() < nextEditAt) {
+                return;
+            }
+            const html = render(latestText);
+            if (html === shownHtml) {
+                return;
+            }
+
+            nextEditAt = Date.now() + EDIT_INTERVAL_MS;
+            trackDraft(show(html));
+        },
+
+        async finish(html: string, keyboard?: InlineKeyboard): Promise<void> {
+            await inFlight;
+            if (html === shownHtml && !keyboard) {
+                return;
+            }
+            try {
+                await show(html, keyboard);
+            } catch (error) {
+                if (error instanceof GrammyError && error.description.includes('message is not modified')) {
+                    return;
+                }
+                throw error;
+            }
+        }
+    };
+}
@@ -0,0 +1,12 @@
+import { NextFunction } from 'grammy';
+import { trackInFlight } from '../../lifecycle';
+import { JournalBotContext } from '../context';
+
+/**
+ * Tracks every update from the first middleware to the last, so shutdown
+ * waits for wait-message tasks, transcriptions and AI calls it started.
+ * Registered before the session so the session write is covered too.
+ */
+export async function trackUpdate(_ctx: JournalBotContext, next: NextFunction): Promise<void> {
+    await trackInFlight(next());
+}
@@ -0,0 +1,84 @@
+import { Bot, InlineKeyboard } from 'grammy';
+import { deleteUserAccount } from '../../services/account-deletion';
+import { withCommandLogging } from '../../utils/command-logger';
+import { getTextForUser } from '../../utils/localization';
+import { createLogger } from '../../utils/logger';
+import { LOG_LEVEL } from '../../config';
+import { JournalBotContext } from '../context';
+import { showMainMenu, withWaitMessage } from '../helpers';
+import { sendJournalExport } from './export';
+
+const accountLogger = createLogger('Account', LOG_LEVEL);
+
+// The final button carries the time it was shown; an old confirmation found
+// further up the chat must not delete an account months later.
+const CONFIRMATION_TTL_MS = 10 * 60 * 1000;
+
+/** `/deleteme`: erases the account after a warning and a final confirmation. */
+export function registerAccountRoutes(bot: Bot<JournalBotContext>): void {
+    bot.command('deleteme', withCommandLogging('deleteme', askAccountDeletion));
+
+    bot.callbackQuery('delete_account_export', async ctx => {
+        await ctx.answerCallbackQuery();
+        await sendJournalExport(ctx);
+    });
+
+    bot.callbackQuery('delete_account_continue', async ctx => {
+        await ctx.answerCallbackQuery();
+        await ctx.editMessageText(getTextForUser('deleteAccountConfirm', ctx.user), {
+            reply_markup: new InlineKeyboard()
+                .text(getTextForUser('deleteAccountConfirmButton', ctx.user), `delete_account_confirm:${Date.now()}`)
+                .row()
+                .text(getTextForUser('deleteAccountCancel', ctx.user), 'delete_account_cancel'),
+            parse_mode: 'HTML'
+        });
+    });
+
+    bot.callbackQuery(/^delete_account_confirm:(\d+)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        if (Date.now() - Number(ctx.match[1]) > CONFIRMATION_TTL_MS) {
+            await ctx.editMessageText(getTextForUser('deleteAccountExpired', ctx.user), { parse_mode: 'HTML' });
+            return;
+        }
+        await deleteAccount(ctx);
+    });
+
+    bot.callbackQuery('delete_account_cancel', async ctx => {
+        await ctx.answerCallbackQuery();
+        await ctx.editMessageText(getTextForUser('deleteAccountCancelled', ctx.user), { parse_mode: 'HTML' });
+        await showMainMenu(ctx, ctx.user);
+    });
+}
+
+/** First step: explains what will be lost and offers an export before going on. */
+export async function askAccountDeletion(ctx: JournalBotContext): Promise<void> {
+    await ctx.reply(getTextForUser('deleteAccountWarning', ctx.user), {
+        reply_markup: new InlineKeyboard()
+            .text(getTextForUser('deleteAccountExportFirst', ctx.user), 'delete_account_export')
+            .row()
+            .text(getTextForUser('deleteAccountContinue', ctx.user), 'delete_account_continue')
+            .row()
+            .text(getTextForUser('deleteAccountCancel', ctx.user), 'delete_account_cancel'),
+        parse_mode: 'HTML'
+    });
+}
+
+async function deleteAccount(ctx: JournalBotContext): Promise<void> {
+    try {
+        await withWaitMessage(ctx, () => deleteUserAccount(ctx.user));
+    } catch (error) {
+        accountLogger.error(`Failed to delete account of user ${ctx.user.telegramId}:`, error);
+        await ctx.reply(getTextForUser('deleteAccountFailed', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+
+    // Without this the session middleware would save the session again after the handler.
+    ctx.session = null;
+    await ctx
+        .editMessageReplyMarkup({ reply_markup: undefined })
+        .catch(error => accountLogger.warn('Failed to remove deletion buttons:', error));
+    await ctx.reply(getTextForUser('deleteAccountDone', ctx.user), {
+        reply_markup: { remove_keyboard: true },
+        parse_mode: 'HTML'
+    });
+}
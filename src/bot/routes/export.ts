@@ -0,0 +1,54 @@
+import { Bot, InputFile } from 'grammy';
+import { withJournalExport } from '../../services/journal-export';
+import { withCommandLogging } from '../../utils/command-logger';
+import { getTextForUser } from '../../utils/localization';
+import { createLogger } from '../../utils/logger';
+import { LOG_LEVEL } from '../../config';
+import { JournalBotContext } from '../context';
+import { buttonFilter, withWaitMessage } from '../helpers';
+
+const exportLogger = createLogger('Export', LOG_LEVEL);
+
+// Bots can upload documents of up to 50 MB.
+const MAX_DOCUMENT_SIZE = 50 * 1024 * 1024;
+
+// An export reads the whole journal; a second tap while one runs would only repeat it.
+const exportsInProgress = new Set<number>();
+
+export function registerExportRoutes(bot: Bot<JournalBotContext>): void {
+    bot.command('export', withCommandLogging('export', sendJournalExport));
+    bot.filter(buttonFilter('exportJournal'), sendJournalExport);
+}
+
+/** Sends the user's whole journal as a zip document. */
+export async function sendJournalExport(ctx: JournalBotContext): Promise<void> {
+    const telegramId = ctx.user.telegramId;
+    if (exportsInProgress.has(telegramId)) {
+        await ctx.reply(getTextForUser('exportInProgress', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+
+    exportsInProgress.add(telegramId);
+    try {
+        const sent = await withWaitMessage(ctx, () =>
+            withJournalExport(ctx.user, async file => {
+                if (file.size > MAX_DOCUMENT_SIZE) {
+                    await ctx.reply(getTextForUser('exportTooLarge', ctx.user), { parse_mode: 'HTML' });
+                    return;
+                }
+                await ctx.replyWithDocument(new InputFile(file.path, file.fileName), {
+                    caption: getTextForUser('exportReady', ctx.user, { count: String(file.entryCount) }),
+                    parse_mode: 'HTML'
+                });
+            })
+        );
+        if (sent === null) {
+            await ctx.reply(getTextForUser('exportNoEntries', ctx.user), { parse_mode: 'HTML' });
+        }
+    } catch (error) {
+        exportLogger.error(`Failed to export journal for user ${telegramId}:`, error);
+        await ctx.reply(getTextForUser('exportFailed', ctx.user), { parse_mode: 'HTML' });
+    } finally {
+        exportsInProgress.delete(telegramId);
+    }
+}
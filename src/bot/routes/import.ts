@@ -0,0 +1,83 @@
+import * as path from 'path';
+import { Bot, Keyboard } from 'grammy';
+import { ImportError, importJournalFile } from '../../services/journal-import';
+import { MAX_DOWNLOAD_SIZE, withDownloadedFile } from '../../services/telegram-media';
+import { withCommandLogging } from '../../utils/command-logger';
+import { getTextForUser } from '../../utils/localization';
+import { createLogger } from '../../utils/logger';
+import { LOG_LEVEL } from '../../config';
+import { JournalBotContext } from '../context';
+import { buttonFilter, matchesButton, showMainMenu, withWaitMessage } from '../helpers';
+
+const importLogger = createLogger('Import', LOG_LEVEL);
+
+const FAILURE_TEXT_KEYS = {
+    unsupported: 'importUnsupported',
+    too_large: 'importTooLarge',
+    empty: 'importNoDatedEntries'
+} as const;
+
+export function registerImportRoutes(bot: Bot<JournalBotContext>): void {
+    bot.command('import', withCommandLogging('import', enterImport));
+    bot.filter(buttonFilter('importJournal'), enterImport);
+}
+
+/** Asks for an export file from another journaling app. */
+export async function enterImport(ctx: JournalBotContext): Promise<void> {
+    ctx.session.mode = { kind: 'journal_import' };
+    await ctx.reply(getTextForUser('importIntro', ctx.user), {
+        reply_markup: new Keyboard().text(getTextForUser('backToMainMenu', ctx.user)).resized(),
+        parse_mode: 'HTML'
+    });
+}
+
+/** Handles the uploaded file; the message router calls this while mode is 'journal_import'. */
+export async function handleImportMessage(ctx: JournalBotContext): Promise<void> {
+    if (!ctx.message) {
+        return;
+    }
+
+    if (matchesButton('backToMainMenu', ctx.message.text)) {
+        ctx.session.mode = { kind: 'idle' };
+        await showMainMenu(ctx, ctx.user);
+        return;
+    }
+
+    const document = ctx.message.document;
+    if (!document) {
+        await ctx.reply(getTextForUser('importSendFile', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+    if (document.file_size !== undefined && document.file_size > MAX_DOWNLOAD_SIZE) {
+        await ctx.reply(getTextForUser('importTooLarge', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+
+    const fileName = document.file_name || 'import.zip';
+    try {
+        const result = await withWaitMessage(ctx, () =>
+            withDownloadedFile(ctx, document.file_id, path.extname(fileName), localFilePath =>
+                importJournalFile(ctx.user, localFilePath, fileName)
+            )
+        );
+
+        ctx.session.mode = { kind: 'idle' };
+        await ctx.reply(
+            getTextForUser('importDone', ctx.user, {
+                imported: String(result.imported),
+                duplicates: String(result.duplicates),
+                invalid: String(result.invalid)
+            }),
+            { parse_mode: 'HTML' }
+        );
+        await showMainMenu(ctx, ctx.user);
+    } catch (error) {
+        // The user stays in import mode and can send a different file.
+        if (error instanceof ImportError) {
+            await ctx.reply(getTextForUser(FAILURE_TEXT_KEYS[error.reason], ctx.user), { parse_mode: 'HTML' });
+            return;
+        }
+        importLogger.error(`Failed to import ${fileName} for user ${ctx.user.telegramId}:`, error);
+        await ctx.reply(getTextForUser('importFailed', ctx.user), { parse_mode: 'HTML' });
+    }
+}
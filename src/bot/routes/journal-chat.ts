@@ -1,25 +1,73 @@
-import { Bot, Keyboard } from 'grammy';
+import { Bot, InlineKeyboard, Keyboard } from 'grammy';
 import { Types } from 'mongoose';
-import { countUserJournalEntries, getUserJournalEntries } from '../../database';
-import { getTextForUser } from '../../utils/localization';
+import {
+    countUserJournalEntries,
+    getFollowUpQuestion,
+    getUserJournalEntries,
+    saveFollowUpQuestions
+} from '../../database';
+import { Language, getTextForUser } from '../../utils/localization';
 import { escapeHtml } from '../../utils/html';
 import { createLogger } from '../../utils/logger';
 import { LOG_LEVEL } from '../../config';
+import { endOfZonedDay, formatZonedShortDate, startOfZonedDay, userTimezone } from '../../utils/timezone';
 import { runJournalAgent, JournalAgentResult } from '../../ai/agent';
 import { generateJournalInsights } from '../../ai/journal-ai';
-import { getVideoFileId, transcribeVideoMessage, transcribeVoiceMessage } from '../../services/telegram-media';
+import {
+    getVideoFileId,
+    TranscriptionOptions,
+    transcribeVideoMessage,
+    transcribeVoiceMessage
+} from '../../services/telegram-media';
 import { JournalBotContext } from '../context';
-import { buttonFilter, sendTranscriptionReply, showMainMenu, withWaitMessage } from '../helpers';
+import { startLiveMessage } from '../live-message';
+import { buttonFilter, sendTranscriptionReply, showMainMenu, withTranscriptionWaitMessage, withWaitMessage } from '../helpers';
 import { retrieveRelevantEntries } from '../../services/journal-retrieval';
+import { endChatConversation, loadChatHistory, recordChatTurn, startChatConversation } from '../../services/chat-memory';
 
 const chatLogger = createLogger('JournalChat', LOG_LEVEL);
 
+const MAX_FOLLOW_UP_BUTTONS = 2;
+// Callback data cannot hold a question, so the buttons point at stored ones; a day is plenty to tap one.
+const FOLLOW_UP_TTL_MS = 24 * 60 * 60 * 1000;
+
 export function registerJournalChatRoutes(bot: Bot<JournalBotContext>): void {
     bot.filter(buttonFilter('exitChatMode'), async ctx => {
+        if (ctx.session.mode.kind === 'journal_chat' && ctx.session.mode.conversationId) {
+            await endChatConversation(ctx.session.mode.conversationId);
+        }
         ctx.session.mode = { kind: 'idle' };
         await ctx.reply(getTextForUser('exitedChatMode', ctx.user), { parse_mode: 'HTML' });
         await showMainMenu(ctx, ctx.user);
     });
+
+    // A follow-up button asks its question as if it were typed, entering chat mode if needed.
+    bot.callbackQuery(/^chat_ask:(.+)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        // Chat mode replaces the current one, which would abandon an entry being written.
+        if (isWritingEntry(ctx)) {
+            await ctx.reply(getTextForUser('followUpEntryInProgress', ctx.user), { parse_mode: 'HTML' });
+            return;
+        }
+        const followUp = Types.ObjectId.isValid(ctx.match[1])
+            ? await getFollowUpQuestion(new Types.ObjectId(ctx.match[1]), ctx.user._id as unknown as Types.ObjectId)
+            : null;
+        if (!followUp) {
+            await ctx.reply(getTextForUser('followUpExpired', ctx.user), { parse_mode: 'HTML' });
+            return;
+        }
+
+        await ctx.reply(getTextForUser('followUpAsked', ctx.user, { question: followUp.question }), {
+            reply_markup: exitChatKeyboard(ctx),
+            parse_mode: 'HTML'
+        });
+        await answerTextQuestion(ctx, followUp.question);
+    });
+}
+
+function isWritingEntry(ctx: JournalBotContext): boolean {
+    const { kind } = ctx.session.mode;
+    return kind === 'journal_entry' || kind === 'entry_edit' || kind === 'transcription_fix';
 }
 
 function exitChatKeyboard(ctx: JournalBotContext): Keyboard {
@@ -36,7 +84,8 @@ export async function enterChatMode(ctx: JournalBotContext): Promise<void> {
         return;
     }
 
-    ctx.session.mode = { kind: 'journal_chat' };
+    const conversationId = await startChatConversation(ctx.user._id as unknown as Types.ObjectId);
+    ctx.session.mode = { kind: 'journal_chat', conversationId };
     await ctx.reply(getTextForUser('chatIntro', ctx.user), {
         reply_markup: exitChatKeyboard(ctx),
         parse_mode: 'HTML'
@@ -45,10 +94,10 @@ export async function enterChatMode(ctx: JournalBotContext): Promise<void> {
 
 /** Analyzes today's entries, then drops the user into chat mode. */
 export async function handleAnalyzeToday(ctx: JournalBotContext): Promise<void> {
-    const dayStart = new Date();
-    dayStart.setHours(0, 0, 0, 0);
-    const dayEnd = new Date(dayStart);
-    dayEnd.setDate(dayEnd.getDate() + 1);
+    const now = new Date();
+    const timezone = userTimezone(ctx.user);
+    const dayStart = startOfZonedDay(now, timezone);
+    const dayEnd = endOfZonedDay(now, timezone);
 
     const allEntries = await getUserJournalEntries(ctx.user._id as unknown as Types.ObjectId);
     const todayEntries = allEntries.filter(entry => {
@@ -63,15 +112,13 @@ export async function handleAnalyzeToday(ctx: JournalBotContext): Promise<void>
     }
 
     try {
-        const analysis = await withWaitMessage(ctx, () =>
-            generateJournalInsights(
-                todayEntries,
-                ctx.user,
-                'Analyze my entries from today and provide insights about my day, mood, and experiences.'
-            )
-        );
-
-        ctx.session.mode = { kind: 'journal_chat' };
+        const question = 'Analyze my entries from today and provide insights about my day, mood, and experiences.';
+        const analysis = await withWaitMessage(ctx, () => generateJournalInsights(todayEntries, ctx.user, question));
+
+        // The analysis opens the conversation, so questions about it can refer back to it.
+        const conversationId = await startChatConversation(ctx.user._id as unknown as Types.ObjectId);
+        await recordChatTurn(conversationId, question, analysis, ctx.user);
+        ctx.session.mode = { kind: 'journal_chat', conversationId };
         await ctx.reply(getTextForUser('todayAnalysis', ctx.user, { analysis }), {
             reply_markup: exitChatKeyboard(ctx),
             parse_mode: 'HTML'
@@ -103,13 +150,13 @@ export async function handleChatMessage(ctx: JournalBotContext): Promise<void> {
     }
 
     if (ctx.message.voice) {
-        await answerMediaQuestion(ctx, () => transcribeVoiceMessage(ctx, ctx.message!.voice!.file_id), 'errorProcessingVoice');
+        await answerMediaQuestion(ctx, options => transcribeVoiceMessage(ctx, ctx.message!.voice!.file_id, options), 'errorProcessingVoice');
         return;
     }
 
     const videoFileId = getVideoFileId(ctx.message);
     if (videoFileId) {
-        await answerMediaQuestion(ctx, () => transcribeVideoMessage(ctx, videoFileId), 'errorProcessingVideo');
+        await answerMediaQuestion(ctx, options => transcribeVideoMessage(ctx, videoFileId, options), 'errorProcessingVideo');
         return;
     }
 
@@ -120,25 +167,8 @@ async function answerTextQuestion(
     ctx: JournalBotContext,
     question: string
 ): Promise<void> {
-    if (ctx.chat) {
-        await ctx.api.sendChatAction(ctx.chat.id, 'typing');
-    }
-
     try {
-        try {
-            const result = await runJournalAgent(ctx.user, question);
-            await ctx.reply(formatAgentResponse(
-                result,
-                'Or maybe you wanna know something else? 😏'
-            ), { parse_mode: 'HTML' });
-        } catch (error) {
-            chatLogger.error('Journal agent failed; using fixed retrieval fallback:', error);
-            const response = await generateFallbackAnswer(ctx, question);
-            await ctx.reply(
-                `${escapeHtml(response)}\n\nOr maybe you wanna know something else? 😏`,
-                { parse_mode: 'HTML' }
-            );
-        }
+        await streamAnswer(ctx, question, 'Or maybe you wanna know something else? 😏');
     } catch (error) {
         chatLogger.error('Error in journal chat:', error);
         await ctx.reply("I encountered an error while processing your question. Let's try again!");
@@ -147,44 +177,119 @@ async function answerTextQuestion(
 
 async function answerMediaQuestion(
     ctx: JournalBotContext,
-    transcribe: () => Promise<string>,
+    transcribe: (options: TranscriptionOptions) => Promise<string>,
     errorTextKey: 'errorProcessingVoice' | 'errorProcessingVideo'
 ): Promise<void> {
     try {
         await ctx.react('👍');
 
-        const insights = await withWaitMessage(ctx, async () => {
-            const transcription = await transcribe();
-            await sendTranscriptionReply(ctx, ctx.message!.message_id, transcription, ctx.user);
-            try {
-                return await runJournalAgent(ctx.user, transcription);
-            } catch (error) {
-                chatLogger.error('Journal agent failed; using fixed retrieval fallback:', error);
-                const answer = await generateFallbackAnswer(ctx, transcription);
-                return { answer, followUpQuestions: [], toolCallCount: 0 };
-            }
-        });
-
-        await ctx.reply(formatAgentResponse(
-            insights,
-            getTextForUser('anyOtherQuestions', ctx.user),
-            true
-        ), { parse_mode: 'HTML' });
+        const transcription = await withTranscriptionWaitMessage(ctx, ctx.user, transcribe);
+        await sendTranscriptionReply(ctx, ctx.message!.message_id, transcription, ctx.user);
+        await streamAnswer(ctx, transcription, getTextForUser('anyOtherQuestions', ctx.user), true);
     } catch (error) {
         chatLogger.error('Error processing media message in chat mode:', error);
         await ctx.reply(getTextForUser(errorTextKey, ctx.user), { parse_mode: 'HTML' });
     }
 }
 
+/**
+ * Answers with the journal agent, showing the answer in one message that is
+ * edited as it streams in; the follow-up questions are added when it is done.
+ * If the agent fails, the fixed retrieval answer takes the message over.
+ * The agent sees the earlier turns of the conversation, and the new turn is
+ * added to it once the answer is out.
+ */
+async function streamAnswer(
+    ctx: JournalBotContext,
+    question: string,
+    closingLine: string,
+    boldAnswer = false
+): Promise<void> {
+    if (ctx.chat) {
+        await ctx.api.sendChatAction(ctx.chat.id, 'typing');
+    }
+
+    const conversationId = await currentConversationId(ctx);
+    const history = await loadChatHistory(conversationId);
+    const reply = startLiveMessage(ctx, { bold: boldAnswer });
+    let result: JournalAgentResult;
+    try {
+        result = await runJournalAgent(ctx.user, question, {
+            history,
+            onAnswerProgress: answerSoFar => reply.update(answerSoFar)
+        });
+    } catch (error) {
+        chatLogger.error('Journal agent failed; using fixed retrieval fallback:', error);
+        const answer = await generateFallbackAnswer(ctx, question);
+        result = { answer, followUpQuestions: [], citations: [], toolCallCount: 0 };
+    }
+    await reply.finish(
+        formatAgentResponse(ctx, result, closingLine, boldAnswer),
+        await answerKeyboard(ctx, result)
+    );
+    await recordChatTurn(conversationId, question, result.answer, ctx.user);
+}
+
+/** The conversation of the chat mode; sessions saved before conversations were kept get one now. */
+async function currentConversationId(ctx: JournalBotContext): Promise<string> {
+    if (ctx.session.mode.kind === 'journal_chat' && ctx.session.mode.conversationId) {
+        return ctx.session.mode.conversationId;
+    }
+    const conversationId = await startChatConversation(ctx.user._id as unknown as Types.ObjectId);
+    ctx.session.mode = { kind: 'journal_chat', conversationId };
+    return conversationId;
+}
+
 function formatAgentResponse(
+    ctx: JournalBotContext,
     result: JournalAgentResult,
     closingLine: string,
     boldAnswer = false
 ): string {
     const escapedAnswer = escapeHtml(result.answer);
     const answer = boldAnswer ? `<b>${escapedAnswer}</b>` : escapedAnswer;
-    const questions = result.followUpQuestions.slice(0, 2).map(escapeHtml).join('\n');
-    return [answer, questions, closingLine].filter(Boolean).join('\n\n');
+    const sources = result.citations.length > 0 ? `\n\n${getTextForUser('chatBasedOn', ctx.user)}` : '';
+    return `${answer}${sources}\n\n${closingLine}`;
+}
+
+/**
+ * The entries the answer is based on, in one row that opens them, then one
+ * button per follow-up question. Without either the answer goes out bare.
+ */
+async function answerKeyboard(ctx: JournalBotContext, result: JournalAgentResult): Promise<InlineKeyboard | undefined> {
+    const keyboard = new InlineKeyboard();
+    const timezone = userTimezone(ctx.user);
+    const locale = ctx.user.language || Language.ENGLISH;
+    if (result.citations.length > 0) {
+        for (const citation of result.citations) {
+            keyboard.text(
+                `📎 ${formatZonedShortDate(citation.createdAt, timezone, locale)}`,
+                `view_entry:${citation.entryId}`
+            );
+        }
+        keyboard.row();
+    }
+
+    const offered = result.followUpQuestions
+        .map(question => question.trim())
+        .filter(Boolean)
+        .slice(0, MAX_FOLLOW_UP_BUTTONS);
+    if (offered.length > 0) {
+        try {
+            const stored = await saveFollowUpQuestions(
+                ctx.user._id as unknown as Types.ObjectId,
+                offered,
+                new Date(Date.now() + FOLLOW_UP_TTL_MS)
+            );
+            for (const followUp of stored) {
+                keyboard.text(followUp.question, `chat_ask:${followUp._id}`).row();
+            }
+        } catch (error) {
+            chatLogger.warn('Failed to store follow-up questions:', error);
+        }
+    }
+
+    return keyboard.inline_keyboard.some(row => row.length > 0) ? keyboard : undefined;
 }
 
 async function generateFallbackAnswer(
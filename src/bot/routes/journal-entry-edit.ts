@@ -0,0 +1,168 @@
+import { Bot, InlineKeyboard, Keyboard } from 'grammy';
+import { Types } from 'mongoose';
+import {
+    DELETED_ENTRY_RETENTION_DAYS,
+    JournalEntryStatus,
+    updateJournalEntryAnalysis,
+    updateJournalEntryInsights,
+    updateJournalEntryMetadata,
+    updateJournalEntryTitle
+} from '../../database';
+import { extractEntryMetadata, generateEntrySummary } from '../../ai/journal-ai';
+import { deleteJournalEntry, restoreJournalEntry } from '../../services/journal-entry.service';
+import { getTextForUser } from '../../utils/localization';
+import { createLogger } from '../../utils/logger';
+import { LOG_LEVEL } from '../../config';
+import { EntryEditStep, JournalBotContext } from '../context';
+import { matchesButton, showMainMenu, withWaitMessage } from '../helpers';
+import { saveEntryMessage } from './journal-entry';
+import { findUserEntry, showJournalEntry } from './journal-history';
+
+const entryEditLogger = createLogger('JournalEntryEdit', LOG_LEVEL);
+
+const MAX_TITLE_LENGTH = 100;
+
+/** Inline actions under an entry opened from the journal history. */
+export function registerJournalEntryEditRoutes(bot: Bot<JournalBotContext>): void {
+    bot.callbackQuery(/^entry_append:(.+)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        await startEntryEdit(ctx, ctx.match[1], 'append');
+    });
+
+    bot.callbackQuery(/^entry_title:(.+)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        await startEntryEdit(ctx, ctx.match[1], 'title');
+    });
+
+    bot.callbackQuery(/^entry_summary:(.+)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        await regenerateSummary(ctx, ctx.match[1]);
+    });
+
+    bot.callbackQuery(/^entry_delete:(.+)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        await deleteEntry(ctx, ctx.match[1]);
+    });
+
+    bot.callbackQuery(/^entry_restore:(.+)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        await restoreEntry(ctx, ctx.match[1]);
+    });
+}
+
+async function startEntryEdit(ctx: JournalBotContext, entryId: string, step: EntryEditStep): Promise<void> {
+    const entry = await findUserEntry(ctx, entryId);
+    if (!entry) {
+        await ctx.reply(getTextForUser('entryNotFound', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+
+    ctx.session.mode = { kind: 'entry_edit', entryId, step };
+    const [textKey, buttonKey] = step === 'append' ? ['entryAppendIntro', 'entryEditDone'] : ['entryTitleAsk', 'entryEditCancel'];
+    await ctx.reply(getTextForUser(textKey, ctx.user), {
+        reply_markup: new Keyboard().text(getTextForUser(buttonKey, ctx.user)).resized(),
+        parse_mode: 'HTML'
+    });
+}
+
+/** Handles content or a new title; the message router calls this while mode is 'entry_edit'. */
+export async function handleEntryEditMessage(ctx: JournalBotContext): Promise<void> {
+    if (!ctx.message || ctx.session.mode.kind !== 'entry_edit') {
+        return;
+    }
+    const { entryId, step } = ctx.session.mode;
+
+    if (matchesButton('entryEditDone', ctx.message.text) || matchesButton('entryEditCancel', ctx.message.text)) {
+        await finishEntryEdit(ctx, entryId, step === 'append' ? 'entryAppendDone' : 'entryTitleUnchanged');
+        return;
+    }
+
+    // The entry may have been deleted from another message in the meantime.
+    const entry = await findUserEntry(ctx, entryId);
+    if (!entry) {
+        ctx.session.mode = { kind: 'idle' };
+        await ctx.reply(getTextForUser('entryNotFound', ctx.user), { parse_mode: 'HTML' });
+        await showMainMenu(ctx, ctx.user);
+        return;
+    }
+
+    if (step === 'append') {
+        await saveEntryMessage(ctx, entry._id as Types.ObjectId);
+        return;
+    }
+
+    const title = ctx.message.text?.trim();
+    if (!title || title.length > MAX_TITLE_LENGTH) {
+        await ctx.reply(getTextForUser('entryTitleInvalid', ctx.user, { max: String(MAX_TITLE_LENGTH) }), {
+            parse_mode: 'HTML'
+        });
+        return;
+    }
+    await updateJournalEntryTitle(entry._id as Types.ObjectId, title);
+    await finishEntryEdit(ctx, entryId, 'entryTitleChanged');
+}
+
+async function finishEntryEdit(ctx: JournalBotContext, entryId: string, textKey: string): Promise<void> {
+    ctx.session.mode = { kind: 'idle' };
+    await ctx.reply(getTextForUser(textKey, ctx.user), {
+        reply_markup: { remove_keyboard: true },
+        parse_mode: 'HTML'
+    });
+    await showJournalEntry(ctx, entryId);
+}
+
+/**
+ * Replaces the summary and reflection question, e.g. after content was added,
+ * and refreshes the tags, people and places. An existing title is kept: the
+ * user may have chosen it.
+ */
+async function regenerateSummary(ctx: JournalBotContext, entryId: string): Promise<void> {
+    const entry = await findUserEntry(ctx, entryId);
+    if (!entry) {
+        await ctx.reply(getTextForUser('entryNotFound', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+
+    try {
+        const [{ summary, question }, metadata] = await withWaitMessage(ctx, () =>
+            Promise.all([generateEntrySummary(entry, ctx.user), extractEntryMetadata(entry, ctx.user)])
+        );
+        await updateJournalEntryAnalysis(entry._id as Types.ObjectId, summary);
+        await updateJournalEntryInsights(entry._id as Types.ObjectId, question);
+        if (metadata) {
+            await updateJournalEntryMetadata(entry._id as Types.ObjectId, { ...metadata, title: entry.title || metadata.title });
+        }
+    } catch (error) {
+        entryEditLogger.error(`Failed to regenerate summary of entry ${entryId}:`, error);
+        await ctx.reply(getTextForUser('entrySummaryFailed', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+    await showJournalEntry(ctx, entryId);
+}
+
+async function deleteEntry(ctx: JournalBotContext, entryId: string): Promise<void> {
+    const entry = await findUserEntry(ctx, entryId);
+    if (!entry || !(await deleteJournalEntry(entry._id as Types.ObjectId))) {
+        await ctx.reply(getTextForUser('entryNotFound', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+
+    await ctx.editMessageText(getTextForUser('entryDeleted', ctx.user, { days: String(DELETED_ENTRY_RETENTION_DAYS) }), {
+        reply_markup: new InlineKeyboard()
+            .text(getTextForUser('entryUndoDelete', ctx.user), `entry_restore:${entryId}`)
+            .row()
+            .text('Back to Journal History', 'view_history'),
+        parse_mode: 'HTML'
+    });
+}
+
+async function restoreEntry(ctx: JournalBotContext, entryId: string): Promise<void> {
+    const entry = await findUserEntry(ctx, entryId, JournalEntryStatus.DELETED);
+    if (!entry || !(await restoreJournalEntry(entry._id as Types.ObjectId))) {
+        await ctx.reply(getTextForUser('entryNotFound', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+
+    await ctx.editMessageText(getTextForUser('entryRestored', ctx.user), { parse_mode: 'HTML' });
+    await showJournalEntry(ctx, entryId);
+}
@@ -5,14 +5,19 @@ import {
     createJournalEntry,
     getActiveJournalEntry,
     getJournalEntryById,
+    IMessageFileMetadata,
     IUser,
     JournalEntryStatus,
     MessageRole,
+    MessageType,
+    saveAudioMessage,
+    savePhotoMessage,
     saveTextMessage,
     saveVideoMessage,
     saveVoiceMessage,
     updateJournalEntryAnalysis,
     updateJournalEntryEmbedding,
+    updateJournalEntryMetadata,
     updateJournalEntryQuestions,
     updateJournalEntryStatus
 } from '../../database';
@@ -20,13 +25,29 @@ import { getTextForUser } from '../../utils/localization';
 import { escapeHtml } from '../../utils/html';
 import { createLogger } from '../../utils/logger';
 import { LOG_LEVEL } from '../../config';
-import { analyzeJournalEntry, generateEntrySummary, generateJournalQuestions } from '../../ai/journal-ai';
+import {
+    analyzeJournalEntry,
+    extractEntryMetadata,
+    generateEntrySummary,
+    generateJournalQuestions
+} from '../../ai/journal-ai';
 import { embedText } from '../../ai/embeddings';
-import { getVideoFileId, transcribeVideoMessage, transcribeVoiceMessage } from '../../services/telegram-media';
+import {
+    describePhotoMessage,
+    getAudioAttachment,
+    getLargestPhoto,
+    getVideoFileId,
+    MAX_DOWNLOAD_SIZE,
+    TranscriptionOptions,
+    transcribeAudioMessage,
+    transcribeVideoMessage
+} from '../../services/telegram-media';
 import { appendMessageToEntry } from '../../services/journal-entry.service';
 import { JournalBotContext } from '../context';
-import { buttonFilter, sendTranscriptionReply, showMainMenu, withWaitMessage } from '../helpers';
+import { buttonFilter, sendTranscriptionReply, showMainMenu, withTranscriptionWaitMessage, withWaitMessage } from '../helpers';
+import { moodRatingKeyboard } from './mood';
 import { extractFullText } from '../../utils/entry-text';
+import { formatTags } from '../../utils/tags';
 
 const entryLogger = createLogger('JournalEntry', LOG_LEVEL);
 
@@ -69,7 +90,8 @@ function formatQuestionsHtml(questions: string[]): string {
     return questions.map((q, i) => `<i>${i + 1}. ${escapeHtml(q)}</i>`).join('\n\n');
 }
 
-function entryActionKeyboard(user: IUser): Keyboard {
+/** The reply keyboard shown while an entry is being written. */
+export function entryActionKeyboard(user: IUser): Keyboard {
     return new Keyboard()
         .text(getTextForUser('finishEntry', user))
         .row()
@@ -107,6 +129,15 @@ export async function handleJournalEntryMessage(ctx: JournalBotContext): Promise
         return;
     }
 
+    await saveEntryMessage(ctx, entryId);
+}
+
+/** Saves a text, photo, voice, audio, or video message into the entry; also used to add to completed entries. */
+export async function saveEntryMessage(ctx: JournalBotContext, entryId: Types.ObjectId): Promise<void> {
+    if (!ctx.message) {
+        return;
+    }
+
     if (ctx.message.text !== undefined) {
         const message = await saveTextMessage(
             ctx.user._id as unknown as Types.ObjectId,
@@ -120,12 +151,26 @@ export async function handleJournalEntryMessage(ctx: JournalBotContext): Promise
         return;
     }
 
-    if (ctx.message.voice) {
+    if (ctx.message.photo) {
+        await saveEntryPhoto(ctx, entryId, getLargestPhoto(ctx.message.photo).file_id);
+        return;
+    }
+
+    const audio = getAudioAttachment(ctx.message);
+    if (audio) {
+        if (audio.metadata.fileSize !== undefined && audio.metadata.fileSize > MAX_DOWNLOAD_SIZE) {
+            await ctx.reply(getTextForUser('errorFileTooLarge', ctx.user), { parse_mode: 'HTML' });
+            return;
+        }
+        const isVoice = audio.type === MessageType.VOICE;
         await saveMediaMessage(ctx, entryId, {
-            transcribe: () => transcribeVoiceMessage(ctx, ctx.message!.voice!.file_id),
-            fileId: ctx.message.voice.file_id,
-            save: saveVoiceMessage,
-            errorText: 'Sorry, I had trouble processing your voice message. Please try again or send a text message instead.'
+            transcribe: options => transcribeAudioMessage(ctx, audio, options),
+            fileId: audio.fileId,
+            fileMetadata: audio.metadata,
+            save: isVoice ? saveVoiceMessage : saveAudioMessage,
+            errorText: isVoice
+                ? 'Sorry, I had trouble processing your voice message. Please try again or send a text message instead.'
+                : 'Sorry, I had trouble processing your audio file. Please try again or send a text message instead.'
         });
         return;
     }
@@ -133,7 +178,7 @@ export async function handleJournalEntryMessage(ctx: JournalBotContext): Promise
     const videoFileId = getVideoFileId(ctx.message);
     if (videoFileId) {
         await saveMediaMessage(ctx, entryId, {
-            transcribe: () => transcribeVideoMessage(ctx, videoFileId),
+            transcribe: options => transcribeVideoMessage(ctx, videoFileId, options),
             fileId: videoFileId,
             save: saveVideoMessage,
             errorText: 'Sorry, I had trouble processing your video. Please try again or send a text message instead.'
@@ -141,19 +186,48 @@ export async function handleJournalEntryMessage(ctx: JournalBotContext): Promise
         return;
     }
 
-    await ctx.reply('I can only accept text, voice messages, and videos for your journal entries.');
+    await ctx.reply('I can only accept text, photos, voice messages, audio files, and videos for your journal entries.');
+}
+
+/** Saves a photo with its caption and what the vision model sees on it, which is what summaries and search read. */
+async function saveEntryPhoto(ctx: JournalBotContext, entryId: Types.ObjectId, fileId: string): Promise<void> {
+    const caption = ctx.message!.caption;
+    try {
+        await ctx.react('👍');
+        const description = await withWaitMessage(ctx, () => describePhotoMessage(ctx, fileId, caption, ctx.user));
+
+        const message = await savePhotoMessage(
+            ctx.user._id as unknown as Types.ObjectId,
+            entryId,
+            ctx.message!.message_id,
+            fileId,
+            description,
+            caption
+        );
+        await appendMessageToEntry(entryId, message._id as Types.ObjectId);
+
+        await ctx.reply(getTextForUser('photoDescriptionText', ctx.user, { description }), {
+            reply_to_message_id: ctx.message!.message_id,
+            parse_mode: 'HTML'
+        });
+    } catch (error) {
+        entryLogger.error('Error processing photo message:', error);
+        await ctx.reply('Sorry, I had trouble looking at your photo. Please try again or describe it in a text message instead.');
+    }
 }
 
 interface MediaMessageOptions {
-    transcribe: () => Promise<string>;
+    transcribe: (options: TranscriptionOptions) => Promise<string>;
     fileId: string;
+    fileMetadata?: IMessageFileMetadata;
     save: (
         userId: Types.ObjectId,
         conversationId: Types.ObjectId,
         telegramMessageId: number,
         fileId: string,
         transcription: string,
-        role?: MessageRole
+        role?: MessageRole,
+        fileMetadata?: IMessageFileMetadata
     ) => Promise<{ _id?: unknown }>;
     errorText: string;
 }
@@ -165,7 +239,7 @@ async function saveMediaMessage(
 ): Promise<void> {
     try {
         await ctx.react('👍');
-        const transcription = await withWaitMessage(ctx, options.transcribe);
+        const transcription = await withTranscriptionWaitMessage(ctx, ctx.user, options.transcribe);
 
         const message = await options.save(
             ctx.user._id as unknown as Types.ObjectId,
@@ -173,11 +247,12 @@ async function saveMediaMessage(
             ctx.message!.message_id,
             options.fileId,
             transcription,
-            MessageRole.USER
+            MessageRole.USER,
+            options.fileMetadata
         );
         await appendMessageToEntry(entryId, message._id as Types.ObjectId);
 
-        await sendTranscriptionReply(ctx, ctx.message!.message_id, transcription, ctx.user);
+        await sendTranscriptionReply(ctx, ctx.message!.message_id, transcription, ctx.user, String(message._id));
     } catch (error) {
         entryLogger.error('Error processing media message:', error);
         await ctx.reply(options.errorText);
@@ -194,8 +269,13 @@ async function finishJournalEntry(ctx: JournalBotContext, entryId: Types.ObjectI
         return;
     }
 
+    // Never rejects, so the entry gets its title and tags even when the summary fails.
+    const metadataPromise = extractEntryMetadata(entry, ctx.user);
+
     try {
-        const { summary, question } = await withWaitMessage(ctx, () => generateEntrySummary(entry, ctx.user));
+        const [{ summary, question }, metadata] = await withWaitMessage(ctx, () =>
+            Promise.all([generateEntrySummary(entry, ctx.user), metadataPromise])
+        );
         await completeJournalEntry(entryId, summary, question);
 
         try {
@@ -205,8 +285,11 @@ async function finishJournalEntry(ctx: JournalBotContext, entryId: Types.ObjectI
             entryLogger.error('Error embedding completed journal entry:', error);
         }
 
-        const formattedMessage = `<b>Good job, ${escapeHtml(ctx.user.name || ctx.user.firstName)}! ✨ Entry saved.</b>\n\n<b>📝 Summary:</b>\n${escapeHtml(summary)}\n\n<b>💭 Something to reflect on:</b>\n<i>${escapeHtml(question)}</i>`;
-        await ctx.reply(formattedMessage, { parse_mode: 'HTML' });
+        const tagsLine = metadata?.tags
+            ? `\n\n${getTextForUser('entryTags', ctx.user, { tags: formatTags(metadata.tags) })}`
+            : '';
+        const formattedMessage = `<b>Good job, ${escapeHtml(ctx.user.name || ctx.user.firstName)}! ✨ Entry saved.</b>\n\n<b>📝 Summary:</b>\n${escapeHtml(summary)}\n\n<b>💭 Something to reflect on:</b>\n<i>${escapeHtml(question)}</i>${tagsLine}\n\n${getTextForUser('moodAskRating', ctx.user)}`;
+        await ctx.reply(formattedMessage, { reply_markup: moodRatingKeyboard(String(entryId)), parse_mode: 'HTML' });
     } catch (error) {
         entryLogger.error('Error finishing journal entry:', error);
         await ctx.reply(
@@ -219,6 +302,11 @@ async function finishJournalEntry(ctx: JournalBotContext, entryId: Types.ObjectI
         );
     }
 
+    const metadata = await metadataPromise;
+    if (metadata) {
+        await updateJournalEntryMetadata(entryId, metadata);
+    }
+
     ctx.session.mode = { kind: 'idle' };
     await showMainMenu(ctx, ctx.user);
 }
@@ -1,16 +1,55 @@
 import { Bot, InlineKeyboard } from 'grammy';
 import { Types } from 'mongoose';
-import { getJournalEntryById, getUserJournalEntries, IJournalEntry, IMessage, MessageType } from '../../database';
-import { getTextForUser } from '../../utils/localization';
+import {
+    countUserJournalEntriesMatching,
+    getJournalEntryById,
+    getUserJournalEntriesPage,
+    getUserJournalEntryMonths,
+    getUserJournalTags,
+    IJournalEntry,
+    IMessage,
+    JournalEntryFilter,
+    JournalEntryStatus,
+    MessageRole,
+    MessageType
+} from '../../database';
+import { Language, getTextForUser } from '../../utils/localization';
 import { escapeHtml } from '../../utils/html';
 import { createLogger } from '../../utils/logger';
 import { LOG_LEVEL } from '../../config';
+import { formatTimeOfDay, getZonedParts, userTimezone, zonedTimeToUtc } from '../../utils/timezone';
 import { JournalBotContext } from '../context';
-import { showMainMenu } from '../helpers';
+import { editCallbackMessage, showMainMenu } from '../helpers';
 
 const historyLogger = createLogger('JournalHistory', LOG_LEVEL);
 
 const HISTORY_PAGE_SIZE = 10;
+const MAX_MONTH_BUTTONS = 48;
+const MAX_TAG_BUTTONS = 30;
+// A title is written to be read whole; untitled entries only get their opening words.
+const MAX_TITLE_LABEL_LENGTH = 40;
+const MAX_SNIPPET_LENGTH = 15;
+
+// Callback data is limited to 64 bytes and the longest one carrying a filter is
+// `history_month:YYYY-MM:<filter>`; longer tags are left out of the filter menu.
+const MAX_FILTER_BYTES = 40;
+
+/**
+ * The history list is narrowed by a filter code carried in callback data:
+ * `all`, one of these media kinds, or `#<tag>`.
+ */
+const MEDIA_FILTERS: Record<string, { type: MessageType; textKey: string }> = {
+    text: { type: MessageType.TEXT, textKey: 'historyFilterText' },
+    voice: { type: MessageType.VOICE, textKey: 'historyFilterVoice' },
+    video: { type: MessageType.VIDEO, textKey: 'historyFilterVideo' },
+    audio: { type: MessageType.AUDIO, textKey: 'historyFilterAudio' },
+    photo: { type: MessageType.IMAGE, textKey: 'historyFilterPhoto' }
+};
+
+interface HistoryView {
+    text: string;
+    keyboard: InlineKeyboard;
+}
 
 export function registerJournalHistoryRoutes(bot: Bot<JournalBotContext>): void {
     bot.callbackQuery('main_menu', async ctx => {
@@ -24,39 +63,180 @@ export function registerJournalHistoryRoutes(bot: Bot<JournalBotContext>): void
         await showJournalHistory(ctx);
     });
 
+    bot.callbackQuery(/^history:(\d+):(.+)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        await editHistoryMessage(ctx, await buildHistoryPage(ctx, Number(ctx.match[1]), ctx.match[2]));
+    });
+
+    bot.callbackQuery(/^history_months:(.+)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        await editHistoryMessage(ctx, await buildMonthPicker(ctx, ctx.match[1]));
+    });
+
+    bot.callbackQuery(/^history_month:(\d{4})-(\d{2}):(.+)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        const page = await pageOfMonth(ctx, Number(ctx.match[1]), Number(ctx.match[2]), ctx.match[3]);
+        await editHistoryMessage(ctx, await buildHistoryPage(ctx, page, ctx.match[3]));
+    });
+
+    bot.callbackQuery(/^history_filters:(.+)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        await editHistoryMessage(ctx, await buildFilterPicker(ctx, ctx.match[1]));
+    });
+
     bot.callbackQuery(/^view_entry:(.+)$/, async ctx => {
         await ctx.answerCallbackQuery();
         await showJournalEntry(ctx, ctx.match[1]);
     });
+
+    bot.callbackQuery(/^entry_photos:(.+)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        await sendEntryPhotos(ctx, ctx.match[1]);
+    });
 }
 
-/** Lists the user's most recent completed entries as inline buttons. */
+/** Sends the first page of the user's completed entries; navigating it edits that message. */
 export async function showJournalHistory(ctx: JournalBotContext): Promise<void> {
-    const entries = await getUserJournalEntries(ctx.user._id as unknown as Types.ObjectId);
-
-    if (entries.length === 0) {
+    const total = await countUserJournalEntriesMatching(ctx.user._id as unknown as Types.ObjectId, {});
+    if (total === 0) {
         await ctx.reply(getTextForUser('noEntries', ctx.user), { parse_mode: 'HTML' });
         await showMainMenu(ctx, ctx.user);
         return;
     }
 
+    const view = await buildHistoryPage(ctx, 0, 'all');
+    await ctx.reply(view.text, { reply_markup: view.keyboard, parse_mode: 'HTML' });
+}
+
+async function editHistoryMessage(ctx: JournalBotContext, view: HistoryView): Promise<void> {
+    await editCallbackMessage(ctx, view.text, view.keyboard);
+}
+
+function toEntryFilter(filter: string): JournalEntryFilter {
+    const media = MEDIA_FILTERS[filter];
+    if (media) {
+        // Only what the user sent: the bot's own messages in an entry don't make it a voice or photo entry.
+        return { message: { type: media.type, role: MessageRole.USER } };
+    }
+    if (filter.startsWith('#')) {
+        return { tag: filter.slice(1) };
+    }
+    return {};
+}
+
+function filterLabel(ctx: JournalBotContext, filter: string): string {
+    const media = MEDIA_FILTERS[filter];
+    if (media) {
+        return getTextForUser(media.textKey, ctx.user);
+    }
+    return filter.startsWith('#') ? filter : getTextForUser('historyFilterAll', ctx.user);
+}
+
+async function buildHistoryPage(ctx: JournalBotContext, requestedPage: number, filter: string): Promise<HistoryView> {
+    const userId = ctx.user._id as unknown as Types.ObjectId;
+    const entryFilter = toEntryFilter(filter);
+    const total = await countUserJournalEntriesMatching(userId, entryFilter);
+    const pageCount = Math.max(Math.ceil(total / HISTORY_PAGE_SIZE), 1);
+    // Entries may have been deleted since the buttons were drawn.
+    const page = Math.min(requestedPage, pageCount - 1);
+
+    const timezone = userTimezone(ctx.user);
+    const entries = await getUserJournalEntriesPage(userId, entryFilter, page * HISTORY_PAGE_SIZE, HISTORY_PAGE_SIZE);
     const keyboard = new InlineKeyboard();
-    entries.slice(0, HISTORY_PAGE_SIZE).forEach(entry => {
-        keyboard.text(`${formatEntryDate(entry.createdAt)} ${entrySnippet(entry)}`, `view_entry:${entry._id}`).row();
+    entries.forEach(entry => {
+        keyboard.text(entryButtonLabel(entry, timezone), `view_entry:${entry._id}`).row();
+    });
+
+    if (page > 0) {
+        keyboard.text('◀️', `history:${page - 1}:${filter}`);
+    }
+    if (page < pageCount - 1) {
+        keyboard.text('▶️', `history:${page + 1}:${filter}`);
+    }
+    keyboard
+        .row()
+        .text(getTextForUser('historyJumpToMonth', ctx.user), `history_months:${filter}`)
+        .text(getTextForUser('historyFilter', ctx.user), `history_filters:${filter}`)
+        .row()
+        .text(getTextForUser('historyRetrospectives', ctx.user), 'retros:0')
+        .row()
+        .text('Back to Main Menu', 'main_menu');
+
+    const heading = getTextForUser(total > 0 ? 'journalHistory' : 'historyNoMatches', ctx.user);
+    const pageInfo = getTextForUser('historyPageInfo', ctx.user, {
+        page: String(page + 1),
+        pages: String(pageCount),
+        filter: filterLabel(ctx, filter)
+    });
+    return { text: `${heading}\n\n${pageInfo}`, keyboard };
+}
+
+async function buildMonthPicker(ctx: JournalBotContext, filter: string): Promise<HistoryView> {
+    const timezone = userTimezone(ctx.user);
+    const locale = ctx.user.language || Language.ENGLISH;
+    const months = await getUserJournalEntryMonths(
+        ctx.user._id as unknown as Types.ObjectId,
+        toEntryFilter(filter),
+        timezone
+    );
+
+    const keyboard = new InlineKeyboard();
+    months.slice(0, MAX_MONTH_BUTTONS).forEach((month, index) => {
+        const [year, monthNumber] = month.split('-').map(Number);
+        const label = new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleDateString(locale, {
+            timeZone: 'UTC',
+            month: 'short',
+            year: 'numeric'
+        });
+        keyboard.text(label, `history_month:${month}:${filter}`);
+        if (index % 3 === 2) {
+            keyboard.row();
+        }
     });
-    keyboard.text('Back to Main Menu', 'main_menu');
+    keyboard.row().text(getTextForUser('historyBackToList', ctx.user), `history:0:${filter}`);
 
-    await ctx.reply(getTextForUser('journalHistory', ctx.user), {
-        reply_markup: keyboard,
-        parse_mode: 'HTML'
+    return { text: getTextForUser('historyPickMonth', ctx.user), keyboard };
+}
+
+/** The page on which the month's newest entry appears: everything newer comes before it. */
+async function pageOfMonth(ctx: JournalBotContext, year: number, month: number, filter: string): Promise<number> {
+    const monthEnd = zonedTimeToUtc(year, month + 1, 1, 0, 0, userTimezone(ctx.user));
+    const newer = await countUserJournalEntriesMatching(ctx.user._id as unknown as Types.ObjectId, {
+        ...toEntryFilter(filter),
+        since: monthEnd
     });
+    return Math.floor(newer / HISTORY_PAGE_SIZE);
 }
 
-async function showJournalEntry(ctx: JournalBotContext, entryId: string): Promise<void> {
+async function buildFilterPicker(ctx: JournalBotContext, currentFilter: string): Promise<HistoryView> {
+    const tags = await getUserJournalTags(ctx.user._id as unknown as Types.ObjectId);
+    const filters = [
+        'all',
+        ...Object.keys(MEDIA_FILTERS),
+        ...tags
+            .map(tag => `#${tag}`)
+            .filter(filter => Buffer.byteLength(filter) <= MAX_FILTER_BYTES)
+            .slice(0, MAX_TAG_BUTTONS)
+    ];
+
+    const keyboard = new InlineKeyboard();
+    filters.forEach((filter, index) => {
+        const label = filterLabel(ctx, filter);
+        keyboard.text(filter === currentFilter ? `✓ ${label}` : label, `history:0:${filter}`);
+        if (index % 2 === 1) {
+            keyboard.row();
+        }
+    });
+    keyboard.row().text(getTextForUser('historyBackToList', ctx.user), `history:0:${currentFilter}`);
+
+    return { text: getTextForUser('historyPickFilter', ctx.user), keyboard };
+}
+
+/** Shows one entry with its content, analysis, and the actions available on it. */
+export async function showJournalEntry(ctx: JournalBotContext, entryId: string): Promise<void> {
     try {
-        const entry = await getJournalEntryById(new Types.ObjectId(entryId));
-        // Ownership check: callback data arrives from the client and can be forged.
-        if (!entry || !isOwnedBy(entry, ctx.user._id)) {
+        const entry = await findUserEntry(ctx, entryId);
+        if (!entry) {
             await ctx.reply('Entry not found.');
             return;
         }
@@ -79,22 +259,57 @@ async function showJournalEntry(ctx: JournalBotContext, entryId: string): Promis
                         transcription: message.transcription || 'No transcription available'
                     });
                 }
+                if (isUserPhoto(message)) {
+                    const description = message.imageDescription
+                        ? getTextForUser('photoDescription', ctx.user, { description: message.imageDescription })
+                        : '';
+                    return [escapeHtml(message.text || ''), description].filter(Boolean).join('\n');
+                }
+                if (message.type === MessageType.AUDIO) {
+                    return getTextForUser('audioTranscription', ctx.user, {
+                        // Tagged music has a title; other files at least a name.
+                        audioName: message.fileMetadata?.title
+                            || message.fileMetadata?.fileName
+                            || getTextForUser('exportAudio', ctx.user),
+                        transcription: message.transcription || 'No transcription available'
+                    });
+                }
                 return '';
             })
             .filter(content => content.length > 0)
             .join('\n\n');
 
         const createdAt = new Date(entry.createdAt);
-        const keyboard = new InlineKeyboard()
+        const dateOptions = { timeZone: userTimezone(ctx.user) };
+        const locale = ctx.user.language || Language.ENGLISH;
+        const keyboard = new InlineKeyboard();
+        // Each tag opens the history narrowed to it, the same as picking it in the filter menu.
+        const tagFilters = (entry.tags ?? [])
+            .map(tag => `#${tag}`)
+            .filter(filter => Buffer.byteLength(filter) <= MAX_FILTER_BYTES);
+        tagFilters.forEach(filter => keyboard.text(filter, `history:0:${filter}`));
+        if (tagFilters.length > 0) {
+            keyboard.row();
+        }
+        if (messages.some(isUserPhoto)) {
+            keyboard.text(getTextForUser('entryShowPhotos', ctx.user), `entry_photos:${entryId}`).row();
+        }
+        keyboard
+            .text(getTextForUser('entryAppend', ctx.user), `entry_append:${entryId}`)
+            .text(getTextForUser('entryEditTitle', ctx.user), `entry_title:${entryId}`)
+            .row()
+            .text(getTextForUser('entryRegenerateSummary', ctx.user), `entry_summary:${entryId}`)
+            .text(getTextForUser('entryDelete', ctx.user), `entry_delete:${entryId}`)
+            .row()
             .text('Back to Journal History', 'view_history')
             .row()
             .text('Back to Main Menu', 'main_menu');
 
         await ctx.reply(
             getTextForUser('journalEntry', ctx.user, {
-                date: createdAt.toLocaleDateString(),
-                time: createdAt.toLocaleTimeString(),
-                content: { raw: entryContent },
+                date: createdAt.toLocaleDateString(locale, dateOptions),
+                time: createdAt.toLocaleTimeString(locale, { ...dateOptions, hour: '2-digit', minute: '2-digit' }),
+                content: { raw: [entryHeading(ctx, entry), entryContent].filter(Boolean).join('\n\n') },
                 analysis: entry.analysis || 'No analysis available'
             }),
             { reply_markup: keyboard, parse_mode: 'HTML' }
@@ -105,26 +320,92 @@ async function showJournalEntry(ctx: JournalBotContext, entryId: string): Promis
     }
 }
 
+/** A photo the user sent, as opposed to an image the bot generated in the past. */
+function isUserPhoto(message: IMessage): boolean {
+    return message.role === MessageRole.USER && message.type === MessageType.IMAGE && Boolean(message.fileId);
+}
+
+/** Sends the photos of an entry again; Telegram keeps them under their file ids. */
+async function sendEntryPhotos(ctx: JournalBotContext, entryId: string): Promise<void> {
+    try {
+        const entry = await findUserEntry(ctx, entryId);
+        if (!entry) {
+            await ctx.reply('Entry not found.');
+            return;
+        }
+        for (const message of (entry.messages as IMessage[]).filter(isUserPhoto)) {
+            await ctx.replyWithPhoto(message.fileId!, message.text ? { caption: message.text } : {});
+        }
+    } catch (error) {
+        historyLogger.error('Error sending entry photos:', error);
+        await ctx.reply('Sorry, I encountered an error while retrieving your photos.');
+    }
+}
+
+/** The title in bold, then the people and places the entry names. */
+function entryHeading(ctx: JournalBotContext, entry: IJournalEntry): string {
+    const lines: string[] = [];
+    if (entry.title) {
+        lines.push(`<b>${escapeHtml(entry.title)}</b>`);
+    }
+    if (entry.people?.length) {
+        lines.push(getTextForUser('entryPeople', ctx.user, { people: entry.people.join(', ') }));
+    }
+    if (entry.places?.length) {
+        lines.push(getTextForUser('entryPlaces', ctx.user, { places: entry.places.join(', ') }));
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Loads one of the current user's entries in the given status. Callback data
+ * arrives from the client and can be forged, so anything else (a malformed id,
+ * another user's entry) comes back as null.
+ */
+export async function findUserEntry(
+    ctx: JournalBotContext,
+    entryId: string,
+    status = JournalEntryStatus.COMPLETED
+): Promise<IJournalEntry | null> {
+    if (!Types.ObjectId.isValid(entryId)) {
+        return null;
+    }
+    const entry = await getJournalEntryById(new Types.ObjectId(entryId));
+    if (!entry || entry.status !== status || !isOwnedBy(entry, ctx.user._id)) {
+        return null;
+    }
+    return entry;
+}
+
 function isOwnedBy(entry: IJournalEntry, userId: unknown): boolean {
     const owner = entry.user;
     const ownerId = typeof owner === 'object' && owner !== null && '_id' in owner ? owner._id : owner;
     return String(ownerId) === String(userId);
 }
 
-/** Formats an entry timestamp as [DD/MM/YY HH:MM]. */
-function formatEntryDate(createdAt: Date): string {
-    const date = new Date(createdAt);
+/** An entry as one line of a list: local date and time, then title or opening words. */
+export function entryButtonLabel(entry: IJournalEntry, timezone: string): string {
+    return `${formatEntryDate(entry.createdAt, timezone)} ${entrySnippet(entry)}`;
+}
+
+/** Formats an entry timestamp as [DD/MM/YY HH:MM] on the user's local clock. */
+function formatEntryDate(createdAt: Date, timezone: string): string {
+    const { year, month, day, hour, minute } = getZonedParts(new Date(createdAt), timezone);
     const pad = (value: number) => value.toString().padStart(2, '0');
-    return `[${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear().toString().slice(-2)} ${pad(date.getHours())}:${pad(date.getMinutes())}]`;
+    return `[${pad(day)}/${pad(month)}/${year.toString().slice(-2)} ${formatTimeOfDay(hour, minute)}]`;
 }
 
 function entrySnippet(entry: IJournalEntry): string {
+    if (entry.title) {
+        return truncate(entry.title, MAX_TITLE_LABEL_LENGTH);
+    }
     const source =
         entry.fullText ||
         (entry.messages as IMessage[]).find(msg => msg.type === MessageType.TEXT && msg.text)?.text ||
         '';
-    if (!source) {
-        return 'Entry';
-    }
-    return source.substring(0, 15) + (source.length > 15 ? '...' : '');
+    return source ? truncate(source, MAX_SNIPPET_LENGTH) : 'Entry';
+}
+
+function truncate(text: string, length: number): string {
+    return text.substring(0, length) + (text.length > length ? '...' : '');
 }
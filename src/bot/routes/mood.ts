@@ -0,0 +1,104 @@
+import { Bot, InlineKeyboard, InputFile } from 'grammy';
+import { Types } from 'mongoose';
+import { getUserMoodEntries, MAX_MOOD, MIN_MOOD, updateJournalEntrySelfRatedMood } from '../../database';
+import { renderMoodChart } from '../../services/mood-chart';
+import { monthlyMoodTrend, moodTrendStart, MoodBucket, topEmotions, weeklyMoodTrend } from '../../services/mood-trends';
+import { withCommandLogging } from '../../utils/command-logger';
+import { getTextForUser } from '../../utils/localization';
+import { createLogger } from '../../utils/logger';
+import { userTimezone } from '../../utils/timezone';
+import { LOG_LEVEL } from '../../config';
+import { JournalBotContext } from '../context';
+import { findUserEntry } from './journal-history';
+
+const moodLogger = createLogger('Mood', LOG_LEVEL);
+
+const RATING_EMOJI = ['😞', '🙁', '😐', '🙂', '😄'];
+const TOP_EMOTIONS = 3;
+const RECENT_EMOTIONS_DAYS = 30;
+
+export function registerMoodRoutes(bot: Bot<JournalBotContext>): void {
+    bot.command('mood', withCommandLogging('mood', sendMoodChart));
+
+    bot.callbackQuery(/^mood_rate:(.+):(\d+)$/, async ctx => {
+        const rating = Number(ctx.match[2]);
+        // A stale or forged rating off the scale is still answered, so its button stops spinning.
+        if (rating < MIN_MOOD || rating > MAX_MOOD) {
+            await ctx.answerCallbackQuery();
+            return;
+        }
+        const entry = await findUserEntry(ctx, ctx.match[1]);
+        if (!entry) {
+            await ctx.answerCallbackQuery();
+            await ctx.reply(getTextForUser('entryNotFound', ctx.user), { parse_mode: 'HTML' });
+            return;
+        }
+
+        await updateJournalEntrySelfRatedMood(entry._id as Types.ObjectId, rating);
+        await ctx.answerCallbackQuery({
+            text: getTextForUser('moodRated', ctx.user, { rating: String(rating), max: String(MAX_MOOD) })
+        });
+        // One rating per entry: the buttons go once it is saved.
+        await ctx.editMessageReplyMarkup({ reply_markup: undefined }).catch(error =>
+            moodLogger.warn('Failed to remove the mood rating buttons:', error)
+        );
+    });
+}
+
+/** One button per point of the mood scale, attached to the "entry saved" message. */
+export function moodRatingKeyboard(entryId: string): InlineKeyboard {
+    const keyboard = new InlineKeyboard();
+    for (let rating = MIN_MOOD; rating <= MAX_MOOD; rating += 1) {
+        keyboard.text(`${rating} ${RATING_EMOJI[rating - MIN_MOOD]}`, `mood_rate:${entryId}:${rating}`);
+    }
+    return keyboard;
+}
+
+/** Sends the weekly and monthly mood trends as a chart, with this week and month in the caption. */
+async function sendMoodChart(ctx: JournalBotContext): Promise<void> {
+    const now = new Date();
+    const timezone = userTimezone(ctx.user);
+
+    try {
+        const entries = await getUserMoodEntries(
+            ctx.user._id as unknown as Types.ObjectId,
+            moodTrendStart(now, timezone)
+        );
+        if (entries.length === 0) {
+            await ctx.reply(getTextForUser('moodNoData', ctx.user), { parse_mode: 'HTML' });
+            return;
+        }
+
+        const weekly = weeklyMoodTrend(entries, timezone, now);
+        const monthly = monthlyMoodTrend(entries, timezone, now);
+        const recentSince = now.getTime() - RECENT_EMOTIONS_DAYS * 24 * 60 * 60 * 1000;
+        const emotions = topEmotions(
+            entries.filter(entry => entry.createdAt.getTime() >= recentSince),
+            TOP_EMOTIONS
+        );
+
+        let caption = getTextForUser('moodChartCaption', ctx.user, {
+            week: formatAverage(weekly[weekly.length - 1]),
+            month: formatAverage(monthly[monthly.length - 1]),
+            max: String(MAX_MOOD)
+        });
+        if (emotions.length > 0) {
+            caption += `\n\n${getTextForUser('moodTopEmotions', ctx.user, {
+                days: String(RECENT_EMOTIONS_DAYS),
+                emotions: emotions.join(', ')
+            })}`;
+        }
+
+        await ctx.replyWithPhoto(new InputFile(renderMoodChart(weekly, monthly), 'mood.png'), {
+            caption,
+            parse_mode: 'HTML'
+        });
+    } catch (error) {
+        moodLogger.error(`Failed to send the mood chart to user ${ctx.user.telegramId}:`, error);
+        await ctx.reply(getTextForUser('moodChartFailed', ctx.user), { parse_mode: 'HTML' });
+    }
+}
+
+function formatAverage(bucket: MoodBucket | undefined): string {
+    return bucket && bucket.average !== null ? bucket.average.toFixed(1) : '—';
+}
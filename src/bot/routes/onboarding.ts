@@ -5,9 +5,14 @@ import { withCommandLogging } from '../../utils/command-logger';
 import { createLogger } from '../../utils/logger';
 import { LOG_LEVEL } from '../../config';
 import { parseBioInformation } from '../../ai/journal-ai';
-import { getVideoFileId, transcribeVideoMessage, transcribeVoiceMessage } from '../../services/telegram-media';
+import {
+    getVideoFileId,
+    TranscriptionOptions,
+    transcribeVideoMessage,
+    transcribeVoiceMessage
+} from '../../services/telegram-media';
 import { JournalBotContext, OnboardingStep } from '../context';
-import { buildLanguageKeyboard, LANGUAGE_PROMPT, sendTranscriptionReply, showMainMenu, withWaitMessage } from '../helpers';
+import { buildLanguageKeyboard, LANGUAGE_PROMPT, sendTranscriptionReply, showMainMenu, withTranscriptionWaitMessage } from '../helpers';
 
 const onboardingLogger = createLogger('Onboarding', LOG_LEVEL);
 
@@ -122,12 +127,12 @@ export async function handleOnboardingMessage(ctx: JournalBotContext): Promise<v
 
     if (step === 'bio') {
         if (ctx.message.voice) {
-            await handleMediaBio(ctx, () => transcribeVoiceMessage(ctx, ctx.message!.voice!.file_id), 'errorProcessingVoice');
+            await handleMediaBio(ctx, options => transcribeVoiceMessage(ctx, ctx.message!.voice!.file_id, options), 'errorProcessingVoice');
             return;
         }
         const videoFileId = getVideoFileId(ctx.message);
         if (videoFileId) {
-            await handleMediaBio(ctx, () => transcribeVideoMessage(ctx, videoFileId), 'errorProcessingVideo');
+            await handleMediaBio(ctx, options => transcribeVideoMessage(ctx, videoFileId, options), 'errorProcessingVideo');
             return;
         }
     }
@@ -213,12 +218,12 @@ function parseAgeAnswer(text: string): number | null {
 
 async function handleMediaBio(
     ctx: JournalBotContext,
-    transcribe: () => Promise<string>,
+    transcribe: (options: TranscriptionOptions) => Promise<string>,
     errorTextKey: 'errorProcessingVoice' | 'errorProcessingVideo'
 ): Promise<void> {
     try {
         await ctx.react('👍');
-        const transcription = await withWaitMessage(ctx, transcribe);
+        const transcription = await withTranscriptionWaitMessage(ctx, ctx.user, transcribe);
         await sendTranscriptionReply(ctx, ctx.message!.message_id, transcription, ctx.user);
 
         const { parsedBio, structuredInfo } = await parseBioInformation(transcription);
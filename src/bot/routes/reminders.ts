@@ -0,0 +1,34 @@
+import { Bot } from 'grammy';
+import { createLogger } from '../../utils/logger';
+import { LOG_LEVEL } from '../../config';
+import { scheduleReminderLater } from '../../services/reminder.service';
+import { getTextForUser } from '../../utils/localization';
+import { JournalBotContext } from '../context';
+import { enterJournalEntry } from './journal-entry';
+
+const remindersLogger = createLogger('Reminders', LOG_LEVEL);
+
+const REMIND_LATER_DELAY_MS = 60 * 60 * 1000;
+
+/** Buttons under the reminder nudge sent by the reminder scheduler. */
+export function registerReminderRoutes(bot: Bot<JournalBotContext>): void {
+    bot.callbackQuery('reminder_start_entry', async ctx => {
+        await ctx.answerCallbackQuery();
+        await removeNudgeButtons(ctx);
+        await enterJournalEntry(ctx);
+    });
+
+    bot.callbackQuery('reminder_later', async ctx => {
+        await ctx.answerCallbackQuery();
+        await scheduleReminderLater(ctx.user, REMIND_LATER_DELAY_MS);
+        await removeNudgeButtons(ctx);
+        await ctx.reply(getTextForUser('reminderLaterConfirmed', ctx.user), { parse_mode: 'HTML' });
+    });
+}
+
+// A nudge is answered once; leaving its buttons would invite a second "later".
+async function removeNudgeButtons(ctx: JournalBotContext): Promise<void> {
+    await ctx
+        .editMessageReplyMarkup({ reply_markup: undefined })
+        .catch(error => remindersLogger.warn('Failed to remove reminder buttons:', error));
+}
@@ -0,0 +1,165 @@
+import { Bot, InlineKeyboard } from 'grammy';
+import { Types } from 'mongoose';
+import {
+    countUserRetrospectives,
+    getRetrospectiveById,
+    getUserRetrospectives,
+    IUser,
+    RetrospectivePeriod,
+    updateUserRetrospectives
+} from '../../database';
+import {
+    createRetrospective,
+    formatRetrospective,
+    formatRetrospectivePeriod,
+    retrospectiveRange
+} from '../../services/retrospective.service';
+import { withCommandLogging } from '../../utils/command-logger';
+import { getTextForUser } from '../../utils/localization';
+import { createLogger } from '../../utils/logger';
+import { userTimezone } from '../../utils/timezone';
+import { LOG_LEVEL } from '../../config';
+import { JournalBotContext } from '../context';
+import { editCallbackMessage, withWaitMessage } from '../helpers';
+
+const retrospectivesLogger = createLogger('Retrospectives', LOG_LEVEL);
+
+const RETROSPECTIVES_PAGE_SIZE = 8;
+
+// Writing one takes several model calls; a second tap while it runs would only repeat them.
+const retrospectivesInProgress = new Set<number>();
+
+const GENERATE_BUTTONS: { period: RetrospectivePeriod; periodsBack: number; textKey: string }[] = [
+    { period: RetrospectivePeriod.WEEK, periodsBack: 0, textKey: 'retrospectiveThisWeek' },
+    { period: RetrospectivePeriod.WEEK, periodsBack: 1, textKey: 'retrospectiveLastWeek' },
+    { period: RetrospectivePeriod.MONTH, periodsBack: 0, textKey: 'retrospectiveThisMonth' },
+    { period: RetrospectivePeriod.MONTH, periodsBack: 1, textKey: 'retrospectiveLastMonth' }
+];
+
+interface RetrospectivesView {
+    text: string;
+    keyboard: InlineKeyboard;
+}
+
+export function registerRetrospectiveRoutes(bot: Bot<JournalBotContext>): void {
+    bot.command('retro', withCommandLogging('retro', async ctx => {
+        const view = await buildRetrospectivesPage(ctx.user, 0);
+        await ctx.reply(view.text, { reply_markup: view.keyboard, parse_mode: 'HTML' });
+    }));
+
+    bot.callbackQuery(/^retros:(\d+)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        const view = await buildRetrospectivesPage(ctx.user, Number(ctx.match[1]));
+        await editCallbackMessage(ctx, view.text, view.keyboard);
+    });
+
+    bot.callbackQuery(/^retro:(.+)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        await showRetrospective(ctx, ctx.match[1]);
+    });
+
+    bot.callbackQuery(/^retro_new:(week|month):(\d)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        await writeRetrospective(ctx, ctx.match[1] as RetrospectivePeriod, Number(ctx.match[2]));
+    });
+
+    bot.callbackQuery(/^retro_auto:(week|month)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        const settings = ctx.user.retrospectives;
+        const updates = ctx.match[1] === RetrospectivePeriod.WEEK
+            ? { weekly: settings?.weekly !== true }
+            : { monthly: settings?.monthly !== true };
+        const updatedUser = (await updateUserRetrospectives(ctx.from.id, updates)) || ctx.user;
+        const view = await buildRetrospectivesPage(updatedUser, 0);
+        await editCallbackMessage(ctx, view.text, view.keyboard);
+    });
+}
+
+/** The stored retrospectives, latest first, with buttons to write one now and to turn scheduled ones on or off. */
+async function buildRetrospectivesPage(user: IUser, requestedPage: number): Promise<RetrospectivesView> {
+    const userId = user._id as unknown as Types.ObjectId;
+    const total = await countUserRetrospectives(userId);
+    const pageCount = Math.max(Math.ceil(total / RETROSPECTIVES_PAGE_SIZE), 1);
+    const page = Math.min(requestedPage, pageCount - 1);
+    const retrospectives = await getUserRetrospectives(userId, page * RETROSPECTIVES_PAGE_SIZE, RETROSPECTIVES_PAGE_SIZE);
+
+    const keyboard = new InlineKeyboard();
+    for (const retrospective of retrospectives) {
+        keyboard
+            .text(`🗓 ${formatRetrospectivePeriod(retrospective.period, retrospective.periodStart, user)}`, `retro:${retrospective._id}`)
+            .row();
+    }
+    if (page > 0) {
+        keyboard.text('◀️', `retros:${page - 1}`);
+    }
+    if (page < pageCount - 1) {
+        keyboard.text('▶️', `retros:${page + 1}`);
+    }
+
+    keyboard.row();
+    GENERATE_BUTTONS.forEach((button, index) => {
+        keyboard.text(getTextForUser(button.textKey, user), `retro_new:${button.period}:${button.periodsBack}`);
+        if (index % 2 === 1) {
+            keyboard.row();
+        }
+    });
+
+    const weekly = user.retrospectives?.weekly === true;
+    const monthly = user.retrospectives?.monthly === true;
+    keyboard
+        .text(getTextForUser(weekly ? 'retrospectiveWeeklyOn' : 'retrospectiveWeeklyOff', user), 'retro_auto:week')
+        .text(getTextForUser(monthly ? 'retrospectiveMonthlyOn' : 'retrospectiveMonthlyOff', user), 'retro_auto:month')
+        .row()
+        .text(getTextForUser('historyBackToList', user), 'view_history');
+
+    let text = getTextForUser('retrospectivesTitle', user);
+    if (total === 0) {
+        text += `\n\n${getTextForUser('retrospectivesEmpty', user)}`;
+    } else if (pageCount > 1) {
+        text += `\n\n${getTextForUser('retrospectivesPage', user, { page: String(page + 1), pages: String(pageCount) })}`;
+    }
+    return { text, keyboard };
+}
+
+async function showRetrospective(ctx: JournalBotContext, retrospectiveId: string): Promise<void> {
+    const retrospective = Types.ObjectId.isValid(retrospectiveId)
+        ? await getRetrospectiveById(new Types.ObjectId(retrospectiveId))
+        : null;
+    if (!retrospective || String(retrospective.user) !== String(ctx.user._id)) {
+        await ctx.reply(getTextForUser('retrospectiveNotFound', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+
+    await ctx.reply(formatRetrospective(retrospective, ctx.user), {
+        parse_mode: 'HTML',
+        reply_markup: new InlineKeyboard().text(getTextForUser('retrospectivesAll', ctx.user), 'retros:0')
+    });
+}
+
+/** Writes the retrospective of this or the previous week or month now, replacing a stored one for the same period. */
+async function writeRetrospective(ctx: JournalBotContext, period: RetrospectivePeriod, periodsBack: number): Promise<void> {
+    const telegramId = ctx.user.telegramId;
+    if (retrospectivesInProgress.has(telegramId)) {
+        await ctx.reply(getTextForUser('retrospectiveInProgress', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+
+    retrospectivesInProgress.add(telegramId);
+    try {
+        const range = retrospectiveRange(period, userTimezone(ctx.user), new Date(), periodsBack);
+        const retrospective = await withWaitMessage(ctx, () => createRetrospective(ctx.user, range));
+        if (!retrospective) {
+            await ctx.reply(getTextForUser('retrospectiveNoEntries', ctx.user), { parse_mode: 'HTML' });
+            return;
+        }
+        await ctx.reply(formatRetrospective(retrospective, ctx.user), {
+            parse_mode: 'HTML',
+            reply_markup: new InlineKeyboard().text(getTextForUser('retrospectivesAll', ctx.user), 'retros:0')
+        });
+    } catch (error) {
+        retrospectivesLogger.error(`Failed to write the ${period} retrospective for user ${telegramId}:`, error);
+        await ctx.reply(getTextForUser('retrospectiveFailed', ctx.user), { parse_mode: 'HTML' });
+    } finally {
+        retrospectivesInProgress.delete(telegramId);
+    }
+}
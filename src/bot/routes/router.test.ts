@@ -15,27 +15,51 @@ vi.mock('./journal-entry', () => ({
     handleJournalEntryMessage: vi.fn()
 }));
 
+vi.mock('./journal-entry-edit', () => ({
+    handleEntryEditMessage: vi.fn()
+}));
+
+vi.mock('./transcription-fix', () => ({
+    handleTranscriptionFixMessage: vi.fn()
+}));
+
 vi.mock('./journal-chat', () => ({
     handleChatMessage: vi.fn()
 }));
 
+vi.mock('./import', () => ({
+    handleImportMessage: vi.fn()
+}));
+
+vi.mock('./search', () => ({
+    handleSearchMessage: vi.fn()
+}));
+
 vi.mock('./settings', () => ({
     handleSettingsMessage: vi.fn()
 }));
 
 import { showMainMenu } from '../helpers';
+import { handleImportMessage } from './import';
 import { handleChatMessage } from './journal-chat';
 import { handleJournalEntryMessage } from './journal-entry';
+import { handleEntryEditMessage } from './journal-entry-edit';
 import { handleOnboardingMessage, resumeOnboarding } from './onboarding';
 import { registerMessageRouter } from './router';
+import { handleSearchMessage } from './search';
 import { handleSettingsMessage } from './settings';
+import { handleTranscriptionFixMessage } from './transcription-fix';
 
 type MessageHandler = (ctx: JournalBotContext) => Promise<void>;
 
 const handlers = [
     handleOnboardingMessage,
     handleJournalEntryMessage,
+    handleEntryEditMessage,
+    handleTranscriptionFixMessage,
     handleChatMessage,
+    handleImportMessage,
+    handleSearchMessage,
     handleSettingsMessage,
     resumeOnboarding,
     showMainMenu
@@ -59,7 +83,19 @@ describe('registerMessageRouter', () => {
     it.each([
         [{ kind: 'onboarding', step: 'name' } as const, handleOnboardingMessage],
         [{ kind: 'journal_entry', entryId: 'entry-id' } as const, handleJournalEntryMessage],
+        [{ kind: 'entry_edit', entryId: 'entry-id', step: 'append' } as const, handleEntryEditMessage],
+        [
+            {
+                kind: 'transcription_fix',
+                entryId: 'entry-id',
+                messageId: 'message-id',
+                returnTo: { kind: 'idle' }
+            } as const,
+            handleTranscriptionFixMessage
+        ],
         [{ kind: 'journal_chat' } as const, handleChatMessage],
+        [{ kind: 'journal_import' } as const, handleImportMessage],
+        [{ kind: 'journal_search' } as const, handleSearchMessage],
         [{ kind: 'settings' } as const, handleSettingsMessage]
     ])('routes $mode.kind mode to only its handler', async (mode, expectedHandler) => {
         const bot = {
@@ -95,8 +131,8 @@ describe('registerMessageRouter', () => {
         }
     });
 
-    // A restart wipes the in-memory session, so an un-onboarded user lands in
-    // 'idle' and must be sent back into the wizard, not into the main menu.
+    // An expired session drops an un-onboarded user into 'idle', and they
+    // must be sent back into the wizard, not into the main menu.
     it('resumes onboarding for an idle user who never completed it', async () => {
         const bot = {
             on: vi.fn((_event: string, callback: MessageHandler) => {
@@ -3,7 +3,11 @@ import { JournalBotContext } from '../context';
 import { showMainMenu } from '../helpers';
 import { handleOnboardingMessage, resumeOnboarding } from './onboarding';
 import { handleJournalEntryMessage } from './journal-entry';
+import { handleEntryEditMessage } from './journal-entry-edit';
+import { handleTranscriptionFixMessage } from './transcription-fix';
 import { handleChatMessage } from './journal-chat';
+import { handleImportMessage } from './import';
+import { handleSearchMessage } from './search';
 import { handleSettingsMessage } from './settings';
 
 /**
@@ -19,15 +23,27 @@ export function registerMessageRouter(bot: Bot<JournalBotContext>): void {
             case 'journal_entry':
                 await handleJournalEntryMessage(ctx);
                 return;
+            case 'entry_edit':
+                await handleEntryEditMessage(ctx);
+                return;
+            case 'transcription_fix':
+                await handleTranscriptionFixMessage(ctx);
+                return;
             case 'journal_chat':
                 await handleChatMessage(ctx);
                 return;
+            case 'journal_import':
+                await handleImportMessage(ctx);
+                return;
+            case 'journal_search':
+                await handleSearchMessage(ctx);
+                return;
             case 'settings':
                 await handleSettingsMessage(ctx);
                 return;
             case 'idle':
-                // Sessions live in memory, so a restart drops users mid-onboarding
-                // into 'idle'. The durable flag decides where they actually belong.
+                // An expired or unreadable session drops users mid-onboarding into
+                // 'idle'. The durable flag decides where they actually belong.
                 if (!ctx.user.onboardingCompleted) {
                     await resumeOnboarding(ctx);
                     return;
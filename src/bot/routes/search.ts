@@ -0,0 +1,137 @@
+import { Bot, InlineKeyboard, Keyboard } from 'grammy';
+import { Types } from 'mongoose';
+import { getUserJournalEntriesByIds } from '../../database';
+import { parseSearchQuery, searchJournal } from '../../services/journal-search';
+import { withCommandLogging } from '../../utils/command-logger';
+import { getTextForUser } from '../../utils/localization';
+import { createLogger } from '../../utils/logger';
+import { userTimezone } from '../../utils/timezone';
+import { LOG_LEVEL } from '../../config';
+import { JournalBotContext, SearchResults } from '../context';
+import { buttonFilter, editCallbackMessage, matchesButton, showMainMenu, withWaitMessage } from '../helpers';
+import { entryButtonLabel } from './journal-history';
+
+const searchLogger = createLogger('Search', LOG_LEVEL);
+
+const SEARCH_PAGE_SIZE = 8;
+
+export function registerSearchRoutes(bot: Bot<JournalBotContext>): void {
+    bot.command('search', withCommandLogging('search', async ctx => {
+        const query = typeof ctx.match === 'string' ? ctx.match.trim() : '';
+        if (query) {
+            ctx.session.mode = { kind: 'journal_search' };
+            await runSearch(ctx, query);
+            return;
+        }
+        await enterSearch(ctx);
+    }));
+    bot.filter(buttonFilter('searchJournal'), enterSearch);
+
+    bot.callbackQuery(/^search:(\d+)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        const mode = ctx.session.mode;
+        // Results live in search mode; after leaving it the old pages are gone.
+        if (mode.kind !== 'journal_search' || !mode.results) {
+            await ctx.reply(getTextForUser('searchExpired', ctx.user), { parse_mode: 'HTML' });
+            return;
+        }
+
+        const view = await buildResultsPage(ctx, mode.results, Number(ctx.match[1]));
+        await editCallbackMessage(ctx, view.text, view.keyboard);
+    });
+}
+
+/** Asks what to look for; every message in search mode is a new search. */
+export async function enterSearch(ctx: JournalBotContext): Promise<void> {
+    ctx.session.mode = { kind: 'journal_search' };
+    await ctx.reply(getTextForUser('searchIntro', ctx.user), {
+        reply_markup: new Keyboard().text(getTextForUser('backToMainMenu', ctx.user)).resized(),
+        parse_mode: 'HTML'
+    });
+}
+
+/** Handles a search query; the message router calls this while mode is 'journal_search'. */
+export async function handleSearchMessage(ctx: JournalBotContext): Promise<void> {
+    if (!ctx.message) {
+        return;
+    }
+
+    if (matchesButton('backToMainMenu', ctx.message.text)) {
+        ctx.session.mode = { kind: 'idle' };
+        await showMainMenu(ctx, ctx.user);
+        return;
+    }
+
+    if (!ctx.message.text) {
+        await ctx.reply(getTextForUser('searchIntro', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+    await runSearch(ctx, ctx.message.text);
+}
+
+async function runSearch(ctx: JournalBotContext, input: string): Promise<void> {
+    const query = parseSearchQuery(input, userTimezone(ctx.user));
+    if (!query.text && !query.from && !query.to) {
+        await ctx.reply(getTextForUser('searchIntro', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+
+    let entryIds: Types.ObjectId[];
+    try {
+        entryIds = await withWaitMessage(ctx, () => searchJournal(ctx.user._id as unknown as Types.ObjectId, query));
+    } catch (error) {
+        searchLogger.error(`Search failed for user ${ctx.user.telegramId}:`, error);
+        await ctx.reply(getTextForUser('searchFailed', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+
+    if (entryIds.length === 0) {
+        await ctx.reply(getTextForUser('searchNoResults', ctx.user, { query: input }), { parse_mode: 'HTML' });
+        return;
+    }
+
+    const results: SearchResults = { query: input, entryIds: entryIds.map(String) };
+    ctx.session.mode = { kind: 'journal_search', results };
+    const view = await buildResultsPage(ctx, results, 0);
+    await ctx.reply(view.text, { reply_markup: view.keyboard, parse_mode: 'HTML' });
+}
+
+async function buildResultsPage(
+    ctx: JournalBotContext,
+    results: SearchResults,
+    requestedPage: number
+): Promise<{ text: string; keyboard: InlineKeyboard }> {
+    const pageCount = Math.ceil(results.entryIds.length / SEARCH_PAGE_SIZE);
+    const page = Math.min(requestedPage, pageCount - 1);
+    const pageIds = results.entryIds.slice(page * SEARCH_PAGE_SIZE, (page + 1) * SEARCH_PAGE_SIZE);
+
+    // Fetched by id, so restore the ranking; entries deleted since the search drop out.
+    const entries = await getUserJournalEntriesByIds(
+        ctx.user._id as unknown as Types.ObjectId,
+        pageIds.map(id => new Types.ObjectId(id))
+    );
+    const entriesById = new Map(entries.map(entry => [String(entry._id), entry]));
+
+    const timezone = userTimezone(ctx.user);
+    const keyboard = new InlineKeyboard();
+    for (const id of pageIds) {
+        const entry = entriesById.get(id);
+        if (entry) {
+            keyboard.text(entryButtonLabel(entry, timezone), `view_entry:${id}`).row();
+        }
+    }
+    if (page > 0) {
+        keyboard.text('◀️', `search:${page - 1}`);
+    }
+    if (page < pageCount - 1) {
+        keyboard.text('▶️', `search:${page + 1}`);
+    }
+
+    const text = getTextForUser('searchResults', ctx.user, {
+        query: results.query,
+        count: String(results.entryIds.length),
+        page: String(page + 1),
+        pages: String(pageCount)
+    });
+    return { text, keyboard };
+}
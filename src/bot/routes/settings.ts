@@ -1,9 +1,41 @@
-import { Bot, Keyboard } from 'grammy';
-import { updateUserLanguage } from '../../database';
+import { Bot, InlineKeyboard, Keyboard } from 'grammy';
+import {
+    IUser,
+    updateUserLanguage,
+    updateUserReminder,
+    updateUserTimezone,
+    updateUserTranscriptionVocabulary
+} from '../../database';
+import { rescheduleReminders } from '../../services/reminder.service';
 import { Language, getTextForUser } from '../../utils/localization';
-import { JournalBotContext } from '../context';
+import {
+    canonicalTimezone,
+    formatTimeOfDay,
+    formatZonedDate,
+    formatZonedDateTime,
+    parseTimeOfDay,
+    timezoneFromLocation,
+    userTimezone
+} from '../../utils/timezone';
+import { MAX_VOCABULARY_TERM_LENGTH, MAX_VOCABULARY_TERMS, parseVocabulary } from '../../utils/vocabulary';
+import { JournalBotContext, SettingsStep } from '../context';
 import { buildLanguageKeyboard, LANGUAGE_PROMPT, matchesButton, showMainMenu } from '../helpers';
 
+const SNOOZE_DURATION_MS = 7 * 24 * 60 * 60 * 1000;
+const REMINDER_TIME_PRESETS = ['08:00', '12:00', '20:00', '22:00'];
+
+type TimezoneStep = Extract<SettingsStep, 'timezone' | 'reminder_timezone'>;
+
+// Offered as buttons next to location sharing; any other IANA name can be typed.
+const COMMON_TIMEZONES = [
+    'Europe/London', 'Europe/Berlin',
+    'Europe/Kyiv', 'Europe/Moscow',
+    'Asia/Dubai', 'Asia/Yekaterinburg',
+    'Asia/Almaty', 'Asia/Bangkok',
+    'Asia/Tokyo', 'Australia/Sydney',
+    'America/New_York', 'America/Los_Angeles'
+];
+
 export function registerSettingsRoutes(bot: Bot<JournalBotContext>): void {
     bot.callbackQuery('change_language', async ctx => {
         await ctx.answerCallbackQuery();
@@ -12,6 +44,19 @@ export function registerSettingsRoutes(bot: Bot<JournalBotContext>): void {
             reply_markup: buildLanguageKeyboard(getTextForUser('backToMainMenu', ctx.user))
         });
     });
+
+    bot.callbackQuery('reminder_set_time', async ctx => {
+        await ctx.answerCallbackQuery();
+        await askReminderTime(ctx);
+    });
+    bot.callbackQuery('reminder_snooze_week', async ctx => {
+        await ctx.answerCallbackQuery();
+        await snoozeReminders(ctx);
+    });
+    bot.callbackQuery('reminder_disable', async ctx => {
+        await ctx.answerCallbackQuery();
+        await disableReminders(ctx);
+    });
 }
 
 /** Enters the settings menu. */
@@ -24,6 +69,15 @@ async function showSettings(ctx: JournalBotContext): Promise<void> {
     const keyboard = new Keyboard()
         .text(getTextForUser('changeLanguage', ctx.user))
         .row()
+        .text(getTextForUser('reminders', ctx.user))
+        .row()
+        .text(getTextForUser('timezone', ctx.user))
+        .row()
+        .text(getTextForUser('vocabulary', ctx.user))
+        .row()
+        .text(getTextForUser('exportJournal', ctx.user))
+        .text(getTextForUser('importJournal', ctx.user))
+        .row()
         .text(getTextForUser('backToMainMenu', ctx.user))
         .resized();
 
@@ -35,10 +89,34 @@ async function showSettings(ctx: JournalBotContext): Promise<void> {
 
 /** Handles settings replies; the message router calls this while mode is 'settings'. */
 export async function handleSettingsMessage(ctx: JournalBotContext): Promise<void> {
-    if (!ctx.message || ctx.message.text === undefined) {
+    if (!ctx.message || ctx.session.mode.kind !== 'settings') {
         return;
     }
     const text = ctx.message.text;
+    const step = ctx.session.mode.step;
+
+    if (matchesButton('backToMainMenu', text)) {
+        ctx.session.mode = { kind: 'idle' };
+        await showMainMenu(ctx, ctx.user);
+        return;
+    }
+
+    // The timezone steps also accept a shared location, which has no text.
+    if (step === 'timezone' || step === 'reminder_timezone') {
+        await handleTimezoneReply(ctx, step);
+        return;
+    }
+    if (text === undefined) {
+        return;
+    }
+    if (step === 'reminder_time') {
+        await handleReminderTime(ctx, text);
+        return;
+    }
+    if (step === 'vocabulary') {
+        await handleVocabulary(ctx, text);
+        return;
+    }
 
     if (matchesButton('changeLanguage', text)) {
         await ctx.reply(LANGUAGE_PROMPT, {
@@ -47,6 +125,21 @@ export async function handleSettingsMessage(ctx: JournalBotContext): Promise<voi
         return;
     }
 
+    if (matchesButton('reminders', text)) {
+        await showReminderSettings(ctx);
+        return;
+    }
+
+    if (matchesButton('timezone', text)) {
+        await askTimezone(ctx, 'timezone');
+        return;
+    }
+
+    if (matchesButton('vocabulary', text)) {
+        await askVocabulary(ctx);
+        return;
+    }
+
     if (text === 'English 🇬🇧' || text === 'Русский 🇷🇺') {
         const language = text === 'Русский 🇷🇺' ? Language.RUSSIAN : Language.ENGLISH;
         const updatedUser = (await updateUserLanguage(ctx.from!.id, language)) || ctx.user;
@@ -57,11 +150,190 @@ export async function handleSettingsMessage(ctx: JournalBotContext): Promise<voi
         return;
     }
 
-    if (matchesButton('backToMainMenu', text)) {
-        ctx.session.mode = { kind: 'idle' };
-        await showMainMenu(ctx, ctx.user);
+    await showSettings(ctx);
+}
+
+/** Current reminder state with the actions that make sense for it. */
+async function showReminderSettings(ctx: JournalBotContext): Promise<void> {
+    const user = ctx.user;
+    const reminder = user.reminder;
+    const keyboard = new InlineKeyboard().text(getTextForUser('reminderSetTime', user), 'reminder_set_time');
+
+    let status: string;
+    if (reminder?.enabled && reminder.time) {
+        const vars = { time: reminder.time, timezone: userTimezone(user) };
+        if (reminder.snoozedUntil && reminder.snoozedUntil > new Date()) {
+            status = getTextForUser('reminderStatusSnoozed', user, { ...vars, date: formatSnoozeDate(user) });
+        } else {
+            status = getTextForUser('reminderStatusOn', user, vars);
+            keyboard.row().text(getTextForUser('reminderSnoozeWeek', user), 'reminder_snooze_week');
+        }
+        keyboard.row().text(getTextForUser('reminderDisable', user), 'reminder_disable');
+    } else {
+        status = getTextForUser('reminderStatusOff', user);
+    }
+
+    await ctx.reply(status, { reply_markup: keyboard, parse_mode: 'HTML' });
+}
+
+async function askReminderTime(ctx: JournalBotContext): Promise<void> {
+    ctx.session.mode = { kind: 'settings', step: 'reminder_time' };
+
+    const keyboard = new Keyboard();
+    for (const preset of REMINDER_TIME_PRESETS) {
+        keyboard.text(preset);
+    }
+    keyboard.row().text(getTextForUser('backToMainMenu', ctx.user)).resized();
+
+    await ctx.reply(getTextForUser('reminderAskTime', ctx.user), {
+        reply_markup: keyboard,
+        parse_mode: 'HTML'
+    });
+}
+
+async function handleReminderTime(ctx: JournalBotContext, text: string): Promise<void> {
+    const parsed = parseTimeOfDay(text);
+    if (!parsed) {
+        await ctx.reply(getTextForUser('reminderInvalidTime', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+
+    // Picking a time also ends a snooze: it is the way to turn reminders back on.
+    const time = formatTimeOfDay(parsed.hour, parsed.minute);
+    const updatedUser = (await updateUserReminder(ctx.from!.id, { time, snoozedUntil: undefined })) || ctx.user;
+
+    if (!updatedUser.timezone) {
+        await askTimezone(ctx, 'reminder_timezone');
+        return;
+    }
+
+    await enableReminders(ctx);
+}
+
+/** Asks for a timezone: by shared location, from the list, or typed as an IANA name. */
+async function askTimezone(ctx: JournalBotContext, step: TimezoneStep): Promise<void> {
+    ctx.session.mode = { kind: 'settings', step };
+
+    const keyboard = new Keyboard().requestLocation(getTextForUser('timezoneShareLocation', ctx.user)).row();
+    COMMON_TIMEZONES.forEach((timezone, index) => {
+        keyboard.text(timezone);
+        if (index % 2 === 1) {
+            keyboard.row();
+        }
+    });
+    keyboard.text(getTextForUser('backToMainMenu', ctx.user)).resized();
+
+    const prompt = step === 'reminder_timezone' ? 'reminderAskTimezone' : 'timezoneAsk';
+    await ctx.reply(getTextForUser(prompt, ctx.user, { timezone: userTimezone(ctx.user) }), {
+        reply_markup: keyboard,
+        parse_mode: 'HTML'
+    });
+}
+
+async function handleTimezoneReply(ctx: JournalBotContext, step: TimezoneStep): Promise<void> {
+    const location = ctx.message?.location;
+    const timezone = location
+        ? timezoneFromLocation(location.latitude, location.longitude)
+        : canonicalTimezone(ctx.message?.text?.trim() ?? '');
+    if (!timezone) {
+        await ctx.reply(getTextForUser(location ? 'timezoneLocationUnknown' : 'timezoneInvalid', ctx.user), {
+            parse_mode: 'HTML'
+        });
+        return;
+    }
+
+    const updatedUser = (await updateUserTimezone(ctx.from!.id, timezone)) || ctx.user;
+    if (step === 'reminder_timezone') {
+        await enableReminders(ctx);
+        return;
+    }
+
+    // Reminders follow the local clock, so a pending one moves with the zone.
+    await rescheduleReminders(updatedUser);
+
+    ctx.session.mode = { kind: 'settings' };
+    await ctx.reply(
+        getTextForUser('timezoneChanged', updatedUser, {
+            timezone,
+            now: formatZonedDateTime(new Date(), timezone)
+        }),
+        { parse_mode: 'HTML' }
+    );
+    await showSettings(ctx);
+}
+
+/** Asks for the names and words the transcriber should spell as the user does. */
+async function askVocabulary(ctx: JournalBotContext): Promise<void> {
+    ctx.session.mode = { kind: 'settings', step: 'vocabulary' };
+
+    const vocabulary = ctx.user.transcriptionVocabulary;
+    const terms = vocabulary?.length ? vocabulary.join(', ') : getTextForUser('vocabularyEmpty', ctx.user);
+    await ctx.reply(getTextForUser('vocabularyAsk', ctx.user, { terms, max: String(MAX_VOCABULARY_TERMS) }), {
+        reply_markup: new Keyboard().text(getTextForUser('backToMainMenu', ctx.user)).resized(),
+        parse_mode: 'HTML'
+    });
+}
+
+async function handleVocabulary(ctx: JournalBotContext, text: string): Promise<void> {
+    const terms = text.trim() === '-' ? [] : parseVocabulary(text);
+    if (!terms) {
+        await ctx.reply(
+            getTextForUser('vocabularyInvalid', ctx.user, {
+                max: String(MAX_VOCABULARY_TERMS),
+                length: String(MAX_VOCABULARY_TERM_LENGTH)
+            }),
+            { parse_mode: 'HTML' }
+        );
         return;
     }
 
+    const updatedUser = (await updateUserTranscriptionVocabulary(ctx.from!.id, terms)) || ctx.user;
+
+    ctx.session.mode = { kind: 'settings' };
+    await ctx.reply(
+        terms.length
+            ? getTextForUser('vocabularySaved', updatedUser, { terms: terms.join(', ') })
+            : getTextForUser('vocabularyCleared', updatedUser),
+        { parse_mode: 'HTML' }
+    );
     await showSettings(ctx);
 }
+
+async function enableReminders(ctx: JournalBotContext): Promise<void> {
+    const updatedUser = (await updateUserReminder(ctx.from!.id, { enabled: true })) || ctx.user;
+    await rescheduleReminders(updatedUser);
+
+    ctx.session.mode = { kind: 'settings' };
+    await ctx.reply(
+        getTextForUser('reminderEnabled', updatedUser, {
+            time: updatedUser.reminder?.time || '',
+            timezone: userTimezone(updatedUser)
+        }),
+        { parse_mode: 'HTML' }
+    );
+    await showSettings(ctx);
+}
+
+async function snoozeReminders(ctx: JournalBotContext): Promise<void> {
+    const snoozedUntil = new Date(Date.now() + SNOOZE_DURATION_MS);
+    const updatedUser = (await updateUserReminder(ctx.from!.id, { snoozedUntil })) || ctx.user;
+    await rescheduleReminders(updatedUser);
+
+    await ctx.reply(getTextForUser('reminderSnoozed', updatedUser, { date: formatSnoozeDate(updatedUser) }), {
+        parse_mode: 'HTML'
+    });
+}
+
+async function disableReminders(ctx: JournalBotContext): Promise<void> {
+    const updatedUser =
+        (await updateUserReminder(ctx.from!.id, { enabled: false, snoozedUntil: undefined })) || ctx.user;
+    // Nothing is scheduled for a disabled reminder, so this only cancels the pending job.
+    await rescheduleReminders(updatedUser);
+
+    await ctx.reply(getTextForUser('reminderDisabled', updatedUser), { parse_mode: 'HTML' });
+}
+
+function formatSnoozeDate(user: IUser): string {
+    const snoozedUntil = user.reminder?.snoozedUntil ?? new Date();
+    return formatZonedDate(snoozedUntil, userTimezone(user), user.language || Language.ENGLISH);
+}
@@ -0,0 +1,188 @@
+import { Bot } from 'grammy';
+import { Types } from 'mongoose';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { JournalBotContext, SessionMode } from '../context';
+
+vi.mock('../../config', () => ({
+    LOG_LEVEL: 0
+}));
+
+vi.mock('../../database', () => ({
+    getUserMessage: vi.fn(),
+    updateMessageTranscription: vi.fn()
+}));
+
+vi.mock('../../services/journal-entry.service', () => ({
+    appendMessageToEntry: vi.fn()
+}));
+
+vi.mock('../../utils/localization', () => ({
+    getTextForUser: (key: string) => key
+}));
+
+vi.mock('../helpers', () => ({
+    matchesButton: (key: string, text: string | undefined) => key === text,
+    showMainMenu: vi.fn(),
+    transcriptionFixKeyboard: () => 'fix-keyboard'
+}));
+
+vi.mock('./journal-entry', () => ({
+    entryActionKeyboard: () => 'entry-keyboard'
+}));
+
+import { getUserMessage, IMessage, updateMessageTranscription } from '../../database';
+import { appendMessageToEntry } from '../../services/journal-entry.service';
+import { handleTranscriptionFixMessage, registerTranscriptionFixRoutes } from './transcription-fix';
+
+type CallbackHandler = (ctx: JournalBotContext) => Promise<void>;
+
+const entryId = new Types.ObjectId().toString();
+const messageId = new Types.ObjectId().toString();
+const otherEntryId = new Types.ObjectId().toString();
+
+function savedMessage(transcription: string): IMessage {
+    return {
+        _id: new Types.ObjectId(messageId),
+        conversation: new Types.ObjectId(entryId),
+        transcription
+    } as unknown as IMessage;
+}
+
+function context(mode: SessionMode, text?: string): JournalBotContext {
+    return {
+        match: ['', messageId],
+        callbackQuery: { message: { message_id: 55 } },
+        chat: { id: 7 },
+        message: text === undefined ? undefined : { text },
+        session: { mode },
+        user: { _id: new Types.ObjectId(), firstName: 'Nik' },
+        api: { editMessageText: vi.fn().mockResolvedValue(true) },
+        answerCallbackQuery: vi.fn(),
+        reply: vi.fn().mockResolvedValue({})
+    } as unknown as JournalBotContext;
+}
+
+async function tapFixButton(ctx: JournalBotContext): Promise<void> {
+    let captured: CallbackHandler | undefined;
+    const bot = {
+        callbackQuery: vi.fn((_pattern: RegExp, callback: CallbackHandler) => {
+            captured = callback;
+        })
+    } as unknown as Bot<JournalBotContext>;
+    registerTranscriptionFixRoutes(bot);
+    await captured?.(ctx);
+}
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe('the fix transcription button', () => {
+    it('asks for the corrected text and then enters fix mode', async () => {
+        vi.mocked(getUserMessage).mockResolvedValue(savedMessage('I red a book'));
+        const ctx = context({ kind: 'journal_entry', entryId });
+
+        await tapFixButton(ctx);
+
+        expect(ctx.reply).toHaveBeenCalledWith('transcriptionFixAsk', expect.anything());
+        expect(ctx.session.mode).toEqual({
+            kind: 'transcription_fix',
+            entryId,
+            messageId,
+            returnTo: { kind: 'journal_entry', entryId },
+            transcriptionReplyId: 55
+        });
+    });
+
+    it('comes back to another entry being written afterwards', async () => {
+        vi.mocked(getUserMessage).mockResolvedValue(savedMessage('I red a book'));
+        const ctx = context({ kind: 'entry_edit', entryId: otherEntryId, step: 'title' });
+
+        await tapFixButton(ctx);
+
+        expect(ctx.session.mode).toMatchObject({
+            kind: 'transcription_fix',
+            entryId,
+            returnTo: { kind: 'entry_edit', entryId: otherEntryId, step: 'title' }
+        });
+    });
+
+    it('keeps the current mode when the question cannot be sent', async () => {
+        vi.mocked(getUserMessage).mockResolvedValue(savedMessage('I red a book'));
+        const ctx = context({ kind: 'journal_entry', entryId });
+        vi.mocked(ctx.reply).mockRejectedValue(new Error('Bad Request: message is too long'));
+
+        await expect(tapFixButton(ctx)).rejects.toThrow('message is too long');
+
+        expect(ctx.session.mode).toEqual({ kind: 'journal_entry', entryId });
+    });
+
+    it('explains the limit instead of offering to fix a transcription too long for one message', async () => {
+        vi.mocked(getUserMessage).mockResolvedValue(savedMessage('word '.repeat(1000)));
+        const ctx = context({ kind: 'idle' });
+
+        await tapFixButton(ctx);
+
+        expect(ctx.reply).toHaveBeenCalledTimes(1);
+        expect(ctx.reply).toHaveBeenCalledWith('transcriptionFixTooLong', expect.anything());
+        expect(ctx.session.mode).toEqual({ kind: 'idle' });
+    });
+});
+
+describe('handleTranscriptionFixMessage', () => {
+    it('saves the corrected text, shows it in the transcription reply and goes back to the entry', async () => {
+        vi.mocked(getUserMessage).mockResolvedValue(savedMessage('I red a book'));
+        const ctx = context(
+            {
+                kind: 'transcription_fix',
+                entryId,
+                messageId,
+                returnTo: { kind: 'journal_entry', entryId: otherEntryId },
+                transcriptionReplyId: 55
+            },
+            'I read a book'
+        );
+
+        await handleTranscriptionFixMessage(ctx);
+
+        expect(updateMessageTranscription).toHaveBeenCalledWith(new Types.ObjectId(messageId), 'I read a book');
+        expect(appendMessageToEntry).toHaveBeenCalledWith(new Types.ObjectId(entryId), new Types.ObjectId(messageId));
+        expect(ctx.api.editMessageText).toHaveBeenCalledWith(
+            7,
+            55,
+            'transcriptionText',
+            expect.objectContaining({ reply_markup: 'fix-keyboard' })
+        );
+        expect(ctx.session.mode).toEqual({ kind: 'journal_entry', entryId: otherEntryId });
+        expect(ctx.reply).toHaveBeenCalledWith(
+            'transcriptionFixed',
+            expect.objectContaining({ reply_markup: 'entry-keyboard' })
+        );
+    });
+
+    it('still reports the fix when the transcription reply can no longer be edited', async () => {
+        vi.mocked(getUserMessage).mockResolvedValue(savedMessage('I red a book'));
+        const ctx = context(
+            { kind: 'transcription_fix', entryId, messageId, returnTo: { kind: 'idle' }, transcriptionReplyId: 55 },
+            'I read a book'
+        );
+        vi.mocked(ctx.api.editMessageText).mockRejectedValue(new Error('Bad Request: message to edit not found'));
+
+        await handleTranscriptionFixMessage(ctx);
+
+        expect(ctx.session.mode).toEqual({ kind: 'idle' });
+        expect(ctx.reply).toHaveBeenCalledWith('transcriptionFixed', expect.anything());
+    });
+
+    it('leaves the transcription alone when the user keeps it', async () => {
+        const ctx = context(
+            { kind: 'transcription_fix', entryId, messageId, returnTo: { kind: 'journal_entry', entryId } },
+            'transcriptionFixCancel'
+        );
+
+        await handleTranscriptionFixMessage(ctx);
+
+        expect(updateMessageTranscription).not.toHaveBeenCalled();
+        expect(ctx.session.mode).toEqual({ kind: 'journal_entry', entryId });
+    });
+});
@@ -0,0 +1,147 @@
+import { Bot, Keyboard } from 'grammy';
+import { Types } from 'mongoose';
+import { getUserMessage, updateMessageTranscription } from '../../database';
+import { appendMessageToEntry } from '../../services/journal-entry.service';
+import { getTextForUser } from '../../utils/localization';
+import { createLogger } from '../../utils/logger';
+import { LOG_LEVEL } from '../../config';
+import { JournalBotContext, TranscriptionFixReturn } from '../context';
+import { matchesButton, showMainMenu, transcriptionFixKeyboard } from '../helpers';
+import { entryActionKeyboard } from './journal-entry';
+
+const transcriptionFixLogger = createLogger('TranscriptionFix', LOG_LEVEL);
+
+// The transcription is shown in one message to copy, and the correction comes
+// back in one: both have to fit Telegram's 4096 characters.
+const MAX_FIXABLE_TRANSCRIPTION_LENGTH = 3500;
+
+/** The "✏️ Fix transcription" button under the transcription of a saved voice, video or audio message. */
+export function registerTranscriptionFixRoutes(bot: Bot<JournalBotContext>): void {
+    bot.callbackQuery(/^fix_transcription:(.+)$/, async ctx => {
+        await ctx.answerCallbackQuery();
+        await startTranscriptionFix(ctx, ctx.match[1], ctx.callbackQuery.message?.message_id);
+    });
+}
+
+async function startTranscriptionFix(
+    ctx: JournalBotContext,
+    messageId: string,
+    transcriptionReplyId: number | undefined
+): Promise<void> {
+    const message = await getUserMessage(ctx.user._id as unknown as Types.ObjectId, messageId);
+    if (!message?.transcription) {
+        await ctx.reply(getTextForUser('transcriptionFixUnavailable', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+    if (message.transcription.length > MAX_FIXABLE_TRANSCRIPTION_LENGTH) {
+        await ctx.reply(getTextForUser('transcriptionFixTooLong', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+
+    // The fix is a detour: afterwards the user carries on with the entry they
+    // were writing or editing, whether or not the fixed message belongs to it.
+    const entryId = String(message.conversation);
+    const mode = ctx.session.mode;
+    let returnTo: TranscriptionFixReturn = { kind: 'idle' };
+    if (mode.kind === 'journal_entry' || mode.kind === 'entry_edit') {
+        returnTo = mode;
+    } else if (mode.kind === 'transcription_fix') {
+        returnTo = mode.returnTo;
+    }
+
+    // Only entered once the user has the text to copy and a way out.
+    await ctx.reply(getTextForUser('transcriptionFixAsk', ctx.user, { transcription: message.transcription }), {
+        reply_markup: new Keyboard().text(getTextForUser('transcriptionFixCancel', ctx.user)).resized(),
+        parse_mode: 'HTML'
+    });
+    ctx.session.mode = { kind: 'transcription_fix', entryId, messageId, returnTo, transcriptionReplyId };
+}
+
+/** Handles the corrected text; the message router calls this while mode is 'transcription_fix'. */
+export async function handleTranscriptionFixMessage(ctx: JournalBotContext): Promise<void> {
+    if (!ctx.message || ctx.session.mode.kind !== 'transcription_fix') {
+        return;
+    }
+    const { entryId, messageId, returnTo, transcriptionReplyId } = ctx.session.mode;
+
+    if (matchesButton('transcriptionFixCancel', ctx.message.text)) {
+        await finishTranscriptionFix(ctx, returnTo, 'transcriptionFixCanceled');
+        return;
+    }
+
+    const transcription = ctx.message.text?.trim();
+    if (!transcription) {
+        await ctx.reply(getTextForUser('transcriptionFixTextOnly', ctx.user), { parse_mode: 'HTML' });
+        return;
+    }
+
+    try {
+        // The message may have been deleted with its entry in the meantime.
+        const message = await getUserMessage(ctx.user._id as unknown as Types.ObjectId, messageId);
+        if (!message) {
+            // Its entry is gone too, so there is nothing to return to if that is the one being edited.
+            const stillThere = returnTo.kind === 'idle' || returnTo.entryId !== entryId;
+            await finishTranscriptionFix(ctx, stillThere ? returnTo : { kind: 'idle' }, 'transcriptionFixUnavailable');
+            return;
+        }
+        await updateMessageTranscription(message._id as Types.ObjectId, transcription);
+        // The message is already in the entry, so this only refreshes its full text.
+        await appendMessageToEntry(new Types.ObjectId(entryId), message._id as Types.ObjectId);
+    } catch (error) {
+        transcriptionFixLogger.error(`Failed to fix the transcription of message ${messageId}:`, error);
+        await finishTranscriptionFix(ctx, returnTo, 'transcriptionFixFailed');
+        return;
+    }
+    await updateTranscriptionReply(ctx, transcriptionReplyId, messageId, transcription);
+    await finishTranscriptionFix(ctx, returnTo, 'transcriptionFixed');
+}
+
+/** Shows the corrected text in the reply that had the misheard one, keeping its fix button. */
+async function updateTranscriptionReply(
+    ctx: JournalBotContext,
+    transcriptionReplyId: number | undefined,
+    messageId: string,
+    transcription: string
+): Promise<void> {
+    if (!transcriptionReplyId || !ctx.chat) {
+        return;
+    }
+    try {
+        await ctx.api.editMessageText(
+            ctx.chat.id,
+            transcriptionReplyId,
+            getTextForUser('transcriptionText', ctx.user, { transcription }),
+            { reply_markup: transcriptionFixKeyboard(ctx.user, messageId), parse_mode: 'HTML' }
+        );
+    } catch (error) {
+        // The fix is saved either way; the reply may have been deleted in the meantime.
+        transcriptionFixLogger.warn(`Could not update the transcription reply ${transcriptionReplyId}:`, error);
+    }
+}
+
+async function finishTranscriptionFix(
+    ctx: JournalBotContext,
+    returnTo: TranscriptionFixReturn,
+    textKey: string
+): Promise<void> {
+    ctx.session.mode = returnTo;
+    const text = getTextForUser(textKey, ctx.user);
+    switch (returnTo.kind) {
+        case 'journal_entry':
+            await ctx.reply(text, { reply_markup: entryActionKeyboard(ctx.user), parse_mode: 'HTML' });
+            return;
+        case 'entry_edit': {
+            // The same button the edit offered before the detour.
+            const buttonKey = returnTo.step === 'append' ? 'entryEditDone' : 'entryEditCancel';
+            await ctx.reply(text, {
+                reply_markup: new Keyboard().text(getTextForUser(buttonKey, ctx.user)).resized(),
+                parse_mode: 'HTML'
+            });
+            return;
+        }
+        case 'idle':
+            await ctx.reply(text, { parse_mode: 'HTML' });
+            await showMainMenu(ctx, ctx.user);
+            return;
+    }
+}
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../config', () => ({
+    LOG_LEVEL: 0,
+    SESSION_TTL_DAYS: 30
+}));
+
+vi.mock('../database', () => ({
+    deleteBotSession: vi.fn(),
+    getBotSession: vi.fn(),
+    saveBotSession: vi.fn()
+}));
+
+import { deleteBotSession, getBotSession, IBotSession, saveBotSession } from '../database';
+import { createSessionStorage, migrateSession, SESSION_VERSION } from './session-storage';
+
+function stored(data: unknown, version = SESSION_VERSION): IBotSession {
+    return { key: '42', data, version } as unknown as IBotSession;
+}
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe('migrateSession', () => {
+    it('keeps a current session unchanged', () => {
+        const session = { mode: { kind: 'journal_entry', entryId: 'entry-id' } };
+
+        expect(migrateSession(session, SESSION_VERSION)).toEqual(session);
+    });
+
+    it('keeps the conversation of a chat session', () => {
+        const session = { mode: { kind: 'journal_chat', conversationId: 'conversation-id' } };
+
+        expect(migrateSession(session, SESSION_VERSION)).toEqual(session);
+    });
+
+    it('keeps where a transcription fix returns to', () => {
+        const session = {
+            mode: {
+                kind: 'transcription_fix',
+                entryId: 'entry-id',
+                messageId: 'message-id',
+                returnTo: { kind: 'entry_edit', entryId: 'other-entry-id', step: 'title' },
+                transcriptionReplyId: 7
+            }
+        };
+
+        expect(migrateSession(session, SESSION_VERSION)).toEqual(session);
+    });
+
+    it.each([
+        ['journal_entry', { kind: 'journal_entry', entryId: 'entry-id' }],
+        ['entry_edit', { kind: 'entry_edit', entryId: 'entry-id', step: 'append' }],
+        ['idle', { kind: 'idle' }]
+    ])('turns the version-0 return target %s into a mode', (returnTo, mode) => {
+        const fix = { kind: 'transcription_fix', entryId: 'entry-id', messageId: 'message-id' };
+
+        expect(migrateSession({ mode: { ...fix, returnTo } }, 0)).toEqual({ mode: { ...fix, returnTo: mode } });
+    });
+
+    it.each([
+        [{ mode: { kind: 'unknown' } }],
+        [{ mode: { kind: 'onboarding', step: 'favourite-colour' } }],
+        [{ mode: { kind: 'journal_entry', entryId: '' } }],
+        ['not an object']
+    ])('resets the unreadable session %j to idle', data => {
+        expect(migrateSession(data, SESSION_VERSION)).toEqual({ mode: { kind: 'idle' } });
+    });
+});
+
+describe('createSessionStorage', () => {
+    it('returns undefined when nothing is stored', async () => {
+        vi.mocked(getBotSession).mockResolvedValue(null);
+
+        await expect(createSessionStorage().read('42')).resolves.toBeUndefined();
+    });
+
+    it('migrates what it reads', async () => {
+        const fix = { kind: 'transcription_fix', entryId: 'entry-id', messageId: 'message-id' };
+        vi.mocked(getBotSession).mockResolvedValue(stored({ mode: { ...fix, returnTo: 'idle' } }, 0));
+
+        await expect(createSessionStorage().read('42')).resolves.toEqual({
+            mode: { ...fix, returnTo: { kind: 'idle' } }
+        });
+    });
+
+    it('writes the current version with an expiry ttlDays ahead', async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-07-17T00:00:00.000Z'));
+        const session = { mode: { kind: 'idle' } as const };
+
+        await createSessionStorage(2).write('42', session);
+
+        expect(saveBotSession).toHaveBeenCalledWith(
+            '42',
+            session,
+            SESSION_VERSION,
+            new Date('2026-07-19T00:00:00.000Z')
+        );
+        vi.useRealTimers();
+    });
+
+    it('deletes by key', async () => {
+        await createSessionStorage().delete('42');
+
+        expect(deleteBotSession).toHaveBeenCalledWith('42');
+    });
+});
@@ -0,0 +1,127 @@
+import { StorageAdapter } from 'grammy';
+import { z } from 'zod';
+import { deleteBotSession, getBotSession, saveBotSession } from '../database';
+import { LOG_LEVEL, SESSION_TTL_DAYS } from '../config';
+import { createLogger } from '../utils/logger';
+import {
+    ENTRY_EDIT_STEPS,
+    initialSession,
+    JournalBotSession,
+    ONBOARDING_STEPS,
+    SessionMode,
+    SETTINGS_STEPS
+} from './context';
+
+const sessionLogger = createLogger('SessionStorage', LOG_LEVEL);
+
+/** Bump this and add a migration whenever the stored session shape changes. */
+export const SESSION_VERSION = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const idleModeSchema = z.object({ kind: z.literal('idle') });
+const journalEntryModeSchema = z.object({ kind: z.literal('journal_entry'), entryId: z.string().min(1) });
+const entryEditModeSchema = z.object({
+    kind: z.literal('entry_edit'),
+    entryId: z.string().min(1),
+    step: z.enum(ENTRY_EDIT_STEPS)
+});
+
+const sessionModeSchema: z.ZodType<SessionMode> = z.discriminatedUnion('kind', [
+    idleModeSchema,
+    z.object({ kind: z.literal('onboarding'), step: z.enum(ONBOARDING_STEPS) }),
+    journalEntryModeSchema,
+    entryEditModeSchema,
+    z.object({
+        kind: z.literal('transcription_fix'),
+        entryId: z.string().min(1),
+        messageId: z.string().min(1),
+        returnTo: z.discriminatedUnion('kind', [idleModeSchema, journalEntryModeSchema, entryEditModeSchema]),
+        transcriptionReplyId: z.number().int().optional()
+    }),
+    z.object({ kind: z.literal('journal_chat'), conversationId: z.string().optional() }),
+    z.object({ kind: z.literal('journal_import') }),
+    z.object({
+        kind: z.literal('journal_search'),
+        results: z.object({ query: z.string(), entryIds: z.array(z.string()) }).optional()
+    }),
+    z.object({ kind: z.literal('settings'), step: z.enum(SETTINGS_STEPS).optional() })
+]);
+
+const sessionSchema = z.object({
+    mode: sessionModeSchema
+});
+
+/** A version-0 transcription fix, which named only the kind of mode to return to. */
+const kindReturnTranscriptionFixSchema = z.object({
+    mode: z.object({
+        kind: z.literal('transcription_fix'),
+        entryId: z.string().min(1),
+        messageId: z.string().min(1),
+        returnTo: z.enum(['journal_entry', 'entry_edit', 'idle'])
+    })
+});
+
+type SessionMigration = (data: unknown) => unknown;
+
+/** Migration at index `n` upgrades a version-`n` document to version `n + 1`. */
+const migrations: SessionMigration[] = [
+    function toReturnModes(data) {
+        const stored = kindReturnTranscriptionFixSchema.safeParse(data);
+        if (!stored.success) {
+            return data;
+        }
+        // A kind-only return target could only point back at the fixed message's own entry.
+        const { entryId, returnTo } = stored.data.mode;
+        const modes = {
+            journal_entry: { kind: 'journal_entry', entryId },
+            entry_edit: { kind: 'entry_edit', entryId, step: 'append' },
+            idle: { kind: 'idle' }
+        };
+        return { mode: { ...stored.data.mode, returnTo: modes[returnTo] } };
+    }
+];
+
+/**
+ * Upgrades a stored session to the current shape. Anything that still does
+ * not validate afterwards resets to idle: a wrong mode is worse than none,
+ * and the router recovers onboarding from the user profile anyway.
+ */
+export function migrateSession(data: unknown, version: number): JournalBotSession {
+    let migrated = data;
+    for (let index = Math.max(version, 0); index < migrations.length; index += 1) {
+        migrated = migrations[index](migrated);
+    }
+
+    const result = sessionSchema.safeParse(migrated);
+    if (!result.success) {
+        sessionLogger.warn(`Discarding unreadable session (version ${version}):`, result.error.issues);
+        return initialSession();
+    }
+    return result.data;
+}
+
+/**
+ * grammY storage adapter that keeps sessions in MongoDB, so the current mode
+ * survives restarts and is shared between replicas. Every write pushes the
+ * expiry forward; idle sessions disappear after SESSION_TTL_DAYS.
+ */
+export function createSessionStorage(ttlDays = SESSION_TTL_DAYS): StorageAdapter<JournalBotSession> {
+    return {
+        async read(key) {
+            const stored = await getBotSession(key);
+            if (!stored) {
+                return undefined;
+            }
+            return migrateSession(stored.data, stored.version);
+        },
+
+        async write(key, value) {
+            await saveBotSession(key, value, SESSION_VERSION, new Date(Date.now() + ttlDays * DAY_MS));
+        },
+
+        async delete(key) {
+            await deleteBotSession(key);
+        }
+    };
+}
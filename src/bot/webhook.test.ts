@@ -0,0 +1,68 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../config', () => ({
+    LOG_LEVEL: 0,
+    WEBHOOK_PATH: '/telegram/webhook',
+    WEBHOOK_SECRET_TOKEN: 'secret-token',
+    WEBHOOK_URL: 'https://bot.example.com/base/'
+}));
+
+vi.mock('grammy', () => ({
+    webhookCallback: vi.fn(() => (_req: express.Request, res: express.Response) => {
+        res.status(200).send('handled');
+    })
+}));
+
+import { Bot } from 'grammy';
+import { JournalBotContext } from './context';
+import { createWebhookRouter, webhookUrl } from './webhook';
+
+let server: Server;
+let baseUrl: string;
+
+beforeEach(async () => {
+    const app = express().use(createWebhookRouter({} as Bot<JournalBotContext>));
+    server = await new Promise<Server>(resolve => {
+        const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+});
+
+function post(headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(`${baseUrl}/telegram/webhook`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({ update_id: 1 })
+    });
+}
+
+describe('createWebhookRouter', () => {
+    it('passes updates with the secret token to the bot', async () => {
+        const response = await post({ 'X-Telegram-Bot-Api-Secret-Token': 'secret-token' });
+
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe('handled');
+    });
+
+    it.each([
+        ['a missing', {}],
+        ['a wrong', { 'X-Telegram-Bot-Api-Secret-Token': 'wrong-token!' }]
+    ])('rejects requests with %s secret token', async (_case, headers) => {
+        const response = await post(headers);
+
+        expect(response.status).toBe(401);
+    });
+});
+
+describe('webhookUrl', () => {
+    it('appends the path to the base URL without doubling slashes', () => {
+        expect(webhookUrl()).toBe('https://bot.example.com/base/telegram/webhook');
+    });
+});
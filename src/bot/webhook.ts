@@ -0,0 +1,53 @@
+import express, { NextFunction, Request, Response, Router } from 'express';
+import { Bot, webhookCallback } from 'grammy';
+import { LOG_LEVEL, WEBHOOK_PATH, WEBHOOK_SECRET_TOKEN, WEBHOOK_URL } from '../config';
+import { createLogger } from '../utils/logger';
+import { safeEquals } from '../utils/safe-equals';
+import { JournalBotContext } from './context';
+
+const webhookLogger = createLogger('Webhook', LOG_LEVEL);
+
+const SECRET_TOKEN_HEADER = 'X-Telegram-Bot-Api-Secret-Token';
+
+/** Full URL Telegram posts updates to: the public base URL plus the webhook path. */
+export function webhookUrl(): string {
+    return `${WEBHOOK_URL.replace(/\/+$/, '')}${WEBHOOK_PATH}`;
+}
+
+/**
+ * Rejects requests that do not carry the secret token registered with
+ * setWebhook, so only Telegram can inject updates into the bot.
+ */
+function verifySecretToken(req: Request, res: Response, next: NextFunction): void {
+    if (safeEquals(req.header(SECRET_TOKEN_HEADER) || '', WEBHOOK_SECRET_TOKEN)) {
+        next();
+        return;
+    }
+    webhookLogger.warn(`Rejected webhook request without a valid secret token from ${req.ip}`);
+    res.status(401).send('Unauthorized');
+}
+
+/** Express routes that feed webhook updates into the bot. */
+export function createWebhookRouter(bot: Bot<JournalBotContext>): Router {
+    const router = express.Router();
+    router.post(
+        WEBHOOK_PATH,
+        verifySecretToken,
+        express.json(),
+        // Entry finishing and transcription easily outlast Telegram's patience.
+        // Acknowledging after the timeout lets the update finish in the
+        // background instead of Telegram retrying it as a duplicate.
+        webhookCallback(bot, 'express', { secretToken: WEBHOOK_SECRET_TOKEN, onTimeout: 'return' })
+    );
+    return router;
+}
+
+export async function registerWebhook(bot: Bot<JournalBotContext>): Promise<void> {
+    await bot.api.setWebhook(webhookUrl(), { secret_token: WEBHOOK_SECRET_TOKEN });
+    webhookLogger.info(`Webhook registered at ${webhookUrl()}`);
+}
+
+export async function unregisterWebhook(bot: Bot<JournalBotContext>): Promise<void> {
+    await bot.api.deleteWebhook();
+    webhookLogger.info('Webhook unregistered');
+}
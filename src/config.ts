@@ -12,8 +12,24 @@ const environmentSchema = z.object({
     MONGODB_PASSWORD: z.string().default('password'),
     MONGODB_DATABASE: z.string().default('euphoria'),
     TELEGRAM_API_TOKEN: z.string().min(1),
-    OPENAI_API_KEY: z.string().min(1),
+    LLM_PROVIDER: z.enum(['openai', 'local']).default('openai'),
+    OPENAI_API_KEY: z.string().min(1).optional(),
     GPT_VERSION: z.string().default('gpt-4o'),
+    VISION_MODEL: z.string().default('gpt-4o'),
+    LOCAL_LLM_BASE_URL: z.string().url().default('http://localhost:11434/v1'),
+    LOCAL_LLM_API_KEY: z.string().optional(),
+    LOCAL_CHAT_MODEL: z.string().default('llama3.1:8b'),
+    LOCAL_VISION_MODEL: z.string().default('llama3.2-vision'),
+    LOCAL_EMBEDDING_MODEL: z.string().default('nomic-embed-text'),
+    LOCAL_TRANSCRIPTION_BASE_URL: z.string().url().optional(),
+    LOCAL_TRANSCRIPTION_MODEL: z.string().default('Systran/faster-whisper-small'),
+    TRANSCRIPTION_BACKEND: z.enum(['provider', 'whisper-cpp-cli', 'whisper-cpp-server']).default('provider'),
+    WHISPER_CPP_CLI_PATH: z.string().default('whisper-cli'),
+    WHISPER_CPP_MODEL_PATH: z.string().optional(),
+    WHISPER_CPP_SERVER_URL: z.string().url().optional(),
+    WHISPER_CPP_LANGUAGE: z.string().default('auto'),
+    WHISPER_CPP_TIMEOUT_MS: z.coerce.number().int().min(1000).default(600000),
+    FFMPEG_PATH: z.string().default('ffmpeg'),
     LOG_LEVEL: z.coerce.number().int().min(0).max(5).default(LogLevel.INFO),
     ADMIN_TELEGRAM_IDS: z.string().default('').transform(value => value
         .split(',')
@@ -23,7 +39,59 @@ const environmentSchema = z.object({
     ADMIN_PORT: z.coerce.number().int().min(1).max(65535).default(3000),
     ADMIN_HOST: z.string().default('127.0.0.1'),
     ADMIN_PASSWORD: z.string().optional(),
-    EMBEDDING_MODEL: z.string().default('text-embedding-3-small')
+    EMBEDDING_MODEL: z.string().default('text-embedding-3-small'),
+    SESSION_TTL_DAYS: z.coerce.number().int().min(1).default(30),
+    BOT_MODE: z.enum(['polling', 'webhook']).default('polling'),
+    WEBHOOK_URL: z.string().url().optional(),
+    WEBHOOK_PATH: z.string().startsWith('/').default('/telegram/webhook'),
+    // Telegram accepts 1-256 characters from this set for the secret token.
+    WEBHOOK_SECRET_TOKEN: z.string().regex(/^[A-Za-z0-9_-]{1,256}$/).optional(),
+    WEBHOOK_HOST: z.string().default('0.0.0.0'),
+    WEBHOOK_PORT: z.coerce.number().int().min(1).max(65535).default(8080),
+    WEBHOOK_UNREGISTER_ON_SHUTDOWN: z.string().default('true').transform(value => value === 'true'),
+    // Unset or empty follows BOT_MODE: polling mode has no server that needs them.
+    ENABLE_HEALTH_ENDPOINTS: z.string().optional().transform(value => (value ? value === 'true' : undefined)),
+    HEALTH_HOST: z.string().default('0.0.0.0'),
+    HEALTH_PORT: z.coerce.number().int().min(1).max(65535).default(8080),
+    SHUTDOWN_TIMEOUT_MS: z.coerce.number().int().min(0).default(25000),
+    ENABLE_REMINDERS: z.string().default('true').transform(value => value === 'true'),
+    REMINDER_POLL_INTERVAL_MS: z.coerce.number().int().min(1000).default(60000),
+    ENABLE_RETROSPECTIVES: z.string().default('true').transform(value => value === 'true'),
+    RETROSPECTIVE_CHECK_INTERVAL_MS: z.coerce.number().int().min(60000).default(3600000)
+}).superRefine((environment, context) => {
+    if (environment.LLM_PROVIDER === 'openai' && !environment.OPENAI_API_KEY) {
+        context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['OPENAI_API_KEY'],
+            message: 'Required when LLM_PROVIDER is openai'
+        });
+    }
+    const whisperCppRequirement = {
+        'whisper-cpp-cli': 'WHISPER_CPP_MODEL_PATH',
+        'whisper-cpp-server': 'WHISPER_CPP_SERVER_URL'
+    } as const;
+    if (environment.TRANSCRIPTION_BACKEND !== 'provider') {
+        const key = whisperCppRequirement[environment.TRANSCRIPTION_BACKEND];
+        if (!environment[key]) {
+            context.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: [key],
+                message: `Required when TRANSCRIPTION_BACKEND is ${environment.TRANSCRIPTION_BACKEND}`
+            });
+        }
+    }
+    if (environment.BOT_MODE !== 'webhook') {
+        return;
+    }
+    for (const key of ['WEBHOOK_URL', 'WEBHOOK_SECRET_TOKEN'] as const) {
+        if (!environment[key]) {
+            context.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: [key],
+                message: 'Required when BOT_MODE is webhook'
+            });
+        }
+    }
 });
 
 function parseEnvironment(): z.infer<typeof environmentSchema> {
@@ -44,8 +112,29 @@ const environment = parseEnvironment();
 export const MONGODB_URI: string = environment.MONGODB_URI ||
     `mongodb://${environment.MONGODB_USER}:${environment.MONGODB_PASSWORD}@${environment.MONGODB_HOST}:${environment.MONGODB_PORT}/${environment.MONGODB_DATABASE}?authSource=admin`;
 export const TELEGRAM_API_TOKEN: string = environment.TELEGRAM_API_TOKEN;
-export const OPENAI_API_KEY: string = environment.OPENAI_API_KEY;
+/** Which backend serves chat, structured output, image descriptions, embeddings and transcription. */
+export const LLM_PROVIDER: 'openai' | 'local' = environment.LLM_PROVIDER;
+export const OPENAI_API_KEY: string = environment.OPENAI_API_KEY ?? '';
 export const GPT_VERSION: string = environment.GPT_VERSION;
+/** Describes photos added to entries when LLM_PROVIDER is openai. */
+export const VISION_MODEL: string = environment.VISION_MODEL;
+/** OpenAI-compatible endpoint of a self-hosted server (Ollama, llama.cpp), used when LLM_PROVIDER is local. */
+export const LOCAL_LLM_BASE_URL: string = environment.LOCAL_LLM_BASE_URL;
+export const LOCAL_LLM_API_KEY: string = environment.LOCAL_LLM_API_KEY ?? '';
+export const LOCAL_CHAT_MODEL: string = environment.LOCAL_CHAT_MODEL;
+export const LOCAL_VISION_MODEL: string = environment.LOCAL_VISION_MODEL;
+export const LOCAL_EMBEDDING_MODEL: string = environment.LOCAL_EMBEDDING_MODEL;
+/** Ollama and llama.cpp do not transcribe, so audio may go to a separate OpenAI-compatible server. */
+export const LOCAL_TRANSCRIPTION_BASE_URL: string = environment.LOCAL_TRANSCRIPTION_BASE_URL ?? environment.LOCAL_LLM_BASE_URL;
+export const LOCAL_TRANSCRIPTION_MODEL: string = environment.LOCAL_TRANSCRIPTION_MODEL;
+/** 'provider' transcribes with LLM_PROVIDER; the whisper.cpp backends keep audio on our own machines. */
+export const TRANSCRIPTION_BACKEND: 'provider' | 'whisper-cpp-cli' | 'whisper-cpp-server' = environment.TRANSCRIPTION_BACKEND;
+export const WHISPER_CPP_CLI_PATH: string = environment.WHISPER_CPP_CLI_PATH;
+export const WHISPER_CPP_MODEL_PATH: string = environment.WHISPER_CPP_MODEL_PATH ?? '';
+export const WHISPER_CPP_SERVER_URL: string = environment.WHISPER_CPP_SERVER_URL ?? '';
+export const WHISPER_CPP_LANGUAGE: string = environment.WHISPER_CPP_LANGUAGE;
+export const WHISPER_CPP_TIMEOUT_MS: number = environment.WHISPER_CPP_TIMEOUT_MS;
+export const FFMPEG_PATH: string = environment.FFMPEG_PATH;
 export const LOG_LEVEL: LogLevel = environment.LOG_LEVEL as LogLevel;
 /** Telegram user ids allowed to run admin commands (comma-separated env var). */
 export const ADMIN_TELEGRAM_IDS: number[] = environment.ADMIN_TELEGRAM_IDS;
@@ -54,3 +143,29 @@ export const ADMIN_PORT: number = environment.ADMIN_PORT;
 export const ADMIN_HOST: string = environment.ADMIN_HOST;
 export const ADMIN_PASSWORD: string | undefined = environment.ADMIN_PASSWORD;
 export const EMBEDDING_MODEL: string = environment.EMBEDDING_MODEL;
+/** Days of inactivity after which a persisted bot session expires. */
+export const SESSION_TTL_DAYS: number = environment.SESSION_TTL_DAYS;
+/** 'polling' pulls updates with getUpdates; 'webhook' receives them over HTTP. */
+export const BOT_MODE: 'polling' | 'webhook' = environment.BOT_MODE;
+/** Public base URL that Telegram posts updates to (webhook mode only). */
+export const WEBHOOK_URL: string = environment.WEBHOOK_URL ?? '';
+export const WEBHOOK_PATH: string = environment.WEBHOOK_PATH;
+export const WEBHOOK_SECRET_TOKEN: string = environment.WEBHOOK_SECRET_TOKEN ?? '';
+export const WEBHOOK_HOST: string = environment.WEBHOOK_HOST;
+export const WEBHOOK_PORT: number = environment.WEBHOOK_PORT;
+export const WEBHOOK_UNREGISTER_ON_SHUTDOWN: boolean = environment.WEBHOOK_UNREGISTER_ON_SHUTDOWN;
+/**
+ * Serve /healthz and /readyz; on by default in webhook mode only, where the
+ * default address shares the webhook server.
+ */
+export const ENABLE_HEALTH_ENDPOINTS: boolean = environment.ENABLE_HEALTH_ENDPOINTS ?? environment.BOT_MODE === 'webhook';
+export const HEALTH_HOST: string = environment.HEALTH_HOST;
+export const HEALTH_PORT: number = environment.HEALTH_PORT;
+/** How long shutdown waits for in-flight updates before closing connections anyway. */
+export const SHUTDOWN_TIMEOUT_MS: number = environment.SHUTDOWN_TIMEOUT_MS;
+/** Run the daily reminder scheduler; safe on every replica, jobs are claimed atomically. */
+export const ENABLE_REMINDERS: boolean = environment.ENABLE_REMINDERS;
+export const REMINDER_POLL_INTERVAL_MS: number = environment.REMINDER_POLL_INTERVAL_MS;
+
+export const ENABLE_RETROSPECTIVES: boolean = environment.ENABLE_RETROSPECTIVES;
+export const RETROSPECTIVE_CHECK_INTERVAL_MS: number = environment.RETROSPECTIVE_CHECK_INTERVAL_MS;
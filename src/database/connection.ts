@@ -21,14 +21,3 @@ export async function disconnectFromDatabase(): Promise<void> {
         console.error('Failed to disconnect from MongoDB:', error);
     }
 }
-
-// Handle application termination
-process.on('SIGINT', async () => {
-    await disconnectFromDatabase();
-    process.exit(0);
-});
-
-process.on('SIGTERM', async () => {
-    await disconnectFromDatabase();
-    process.exit(0);
-}); 
\ No newline at end of file
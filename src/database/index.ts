@@ -6,4 +6,8 @@ export * from './models/user.model';
 export * from './models/message.model';
 export * from './models/conversation.model';
 export * from './models/journal.model';
-export * from './models/localization.model'; 
\ No newline at end of file
+export * from './models/localization.model';
+export * from './models/session.model';
+export * from './models/reminder-job.model';
+export * from './models/retrospective.model';
+export * from './models/follow-up-question.model';
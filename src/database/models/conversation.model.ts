@@ -1,14 +1,48 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
 import { IUser } from './user.model';
 
+/** One question and answer in journal chat. */
+export interface ConversationTurn {
+    question: string;
+    answer: string;
+    createdAt: Date;
+}
+
 // Conversation interface
 export interface IConversation extends Document {
     user: Types.ObjectId | IUser;
     isActive: boolean;
+    /** Journal chat turns not yet dropped, oldest first; `turns[0]` is turn number `droppedTurns`. */
+    turns: ConversationTurn[];
+    /** What the turns before `summarizedTurns` were about, written as they leave the recent window. */
+    summary?: string;
+    summarizedTurns: number;
+    /** Summarized turns removed from the front of `turns`, so the document stays small. */
+    droppedTurns: number;
     createdAt: Date;
     updatedAt: Date;
 }
 
+const conversationTurnSchema = new Schema<ConversationTurn>(
+    {
+        question: {
+            type: String,
+            required: true
+        },
+        answer: {
+            type: String,
+            required: true
+        },
+        createdAt: {
+            type: Date,
+            default: Date.now
+        }
+    },
+    {
+        _id: false
+    }
+);
+
 // Conversation schema
 const conversationSchema = new Schema<IConversation>(
     {
@@ -21,6 +55,22 @@ const conversationSchema = new Schema<IConversation>(
         isActive: {
             type: Boolean,
             default: true
+        },
+        turns: {
+            type: [conversationTurnSchema],
+            default: []
+        },
+        summary: {
+            type: String,
+            required: false
+        },
+        summarizedTurns: {
+            type: Number,
+            default: 0
+        },
+        droppedTurns: {
+            type: Number,
+            default: 0
         }
     },
     {
@@ -51,6 +101,55 @@ export async function endConversation(conversationId: Types.ObjectId): Promise<I
     );
 }
 
+export async function getConversationById(conversationId: Types.ObjectId): Promise<IConversation | null> {
+    return Conversation.findById(conversationId);
+}
+
+/** Adds a turn to an active conversation; an ended one is left as it was. */
+export async function appendConversationTurn(
+    conversationId: Types.ObjectId,
+    question: string,
+    answer: string
+): Promise<IConversation | null> {
+    return Conversation.findOneAndUpdate(
+        { _id: conversationId, isActive: true },
+        { $push: { turns: { question, answer, createdAt: new Date() } } },
+        { new: true }
+    );
+}
+
+/**
+ * Stores the summary of the first `summarizedTurns` turns and drops those
+ * turns, which are only ever read through the summary from then on. Nothing
+ * changes if another update already summarized as many; two answers finishing
+ * together must not roll the summary back.
+ */
+export async function updateConversationSummary(
+    conversationId: Types.ObjectId,
+    summary: string,
+    summarizedTurns: number
+): Promise<void> {
+    // An update pipeline, so the turns are cut from what is stored now, including
+    // a turn appended since the conversation was read.
+    await Conversation.updateOne(
+        { _id: conversationId, summarizedTurns: { $lt: summarizedTurns } },
+        [{
+            $set: {
+                summary: { $literal: summary },
+                summarizedTurns,
+                droppedTurns: summarizedTurns,
+                turns: {
+                    $slice: [
+                        '$turns',
+                        { $subtract: [summarizedTurns, { $ifNull: ['$droppedTurns', 0] }] },
+                        { $max: [{ $size: '$turns' }, 1] }
+                    ]
+                }
+            }
+        }]
+    );
+}
+
 export async function endAllUserConversations(userId: Types.ObjectId): Promise<void> {
     await Conversation.updateMany(
         { user: userId, isActive: true },
@@ -58,6 +157,11 @@ export async function endAllUserConversations(userId: Types.ObjectId): Promise<v
     );
 }
 
+export async function deleteConversationsByUser(userId: Types.ObjectId): Promise<number> {
+    const result = await Conversation.deleteMany({ user: userId });
+    return result.deletedCount;
+}
+
 export async function getConversationsByUser(userId: Types.ObjectId): Promise<IConversation[]> {
     return Conversation.find({ user: userId }).sort({ createdAt: -1 });
 } 
\ No newline at end of file
@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IUser } from './user.model';
+
+// Follow-up question interface
+export interface IFollowUpQuestion extends Document {
+    user: Types.ObjectId | IUser;
+    /** Offered as a button under a chat answer; the button carries only this document's id. */
+    question: string;
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Follow-up question schema
+const followUpQuestionSchema = new Schema<IFollowUpQuestion>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        question: {
+            type: String,
+            required: true
+        },
+        expiresAt: {
+            type: Date,
+            required: true
+        }
+    },
+    {
+        timestamps: true
+    }
+);
+
+// MongoDB removes a question once its expiry date has passed.
+followUpQuestionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Follow-up question model
+export const FollowUpQuestion = mongoose.model<IFollowUpQuestion>('FollowUpQuestion', followUpQuestionSchema);
+
+// Follow-up question service functions
+export async function saveFollowUpQuestions(
+    userId: Types.ObjectId,
+    questions: string[],
+    expiresAt: Date
+): Promise<IFollowUpQuestion[]> {
+    return FollowUpQuestion.insertMany(questions.map(question => ({ user: userId, question, expiresAt })));
+}
+
+export async function getFollowUpQuestion(
+    questionId: Types.ObjectId,
+    userId: Types.ObjectId
+): Promise<IFollowUpQuestion | null> {
+    // The TTL monitor only runs about once a minute, so expiry is checked here too.
+    return FollowUpQuestion.findOne({ _id: questionId, user: userId, expiresAt: { $gt: new Date() } });
+}
+
+export async function deleteUserFollowUpQuestions(userId: Types.ObjectId): Promise<number> {
+    const result = await FollowUpQuestion.deleteMany({ user: userId });
+    return result.deletedCount;
+}
@@ -1,6 +1,6 @@
-import mongoose, { Document, Schema, Types } from 'mongoose';
+import mongoose, { Document, PipelineStage, Schema, Types } from 'mongoose';
 import { IUser } from './user.model';
-import { IMessage } from './message.model';
+import { IMessage, MessageRole, MessageType } from './message.model';
 
 // Journal entry status enum
 export enum JournalEntryStatus {
@@ -8,13 +8,30 @@ export enum JournalEntryStatus {
     ANALYZING = 'analyzing',
     ASKING_QUESTIONS = 'asking_questions',
     COMPLETED = 'completed',
-    CANCELLED = 'cancelled'
+    CANCELLED = 'cancelled',
+    /** Deleted by the user; restorable until MongoDB purges it after the retention period. */
+    DELETED = 'deleted'
 }
 
+export const MIN_MOOD = 1;
+export const MAX_MOOD = 5;
+
+/** How long a deleted entry and its messages can still be restored. */
+export const DELETED_ENTRY_RETENTION_DAYS = 30;
+
 // Journal entry interface
 export interface IJournalEntry extends Document {
     user: Types.ObjectId | IUser;
     title?: string;
+    tags?: string[];
+    /** People the entry mentions by name, as written; filled in when the entry is completed. */
+    people?: string[];
+    places?: string[];
+    /** Mood inferred from the entry, MIN_MOOD (low) to MAX_MOOD (high). */
+    mood?: number;
+    emotions?: string[];
+    /** The user's own rating on the same scale; preferred over the inferred mood where both exist. */
+    selfRatedMood?: number;
     messages: Types.ObjectId[] | IMessage[];
     status: JournalEntryStatus;
     analysis?: string;
@@ -22,6 +39,9 @@ export interface IJournalEntry extends Document {
     aiInsights?: string;
     fullText?: string; // Full text of all messages
     embedding?: number[];
+    /** Set on entries brought in by a journal import, e.g. `dayone:<uuid>`; re-imports skip them. */
+    importKey?: string;
+    deletedAt?: Date;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -39,6 +59,34 @@ const journalEntrySchema = new Schema<IJournalEntry>(
             type: String,
             required: false
         },
+        tags: {
+            type: [String],
+            default: undefined
+        },
+        people: {
+            type: [String],
+            default: undefined
+        },
+        places: {
+            type: [String],
+            default: undefined
+        },
+        mood: {
+            type: Number,
+            min: MIN_MOOD,
+            max: MAX_MOOD,
+            required: false
+        },
+        emotions: {
+            type: [String],
+            default: undefined
+        },
+        selfRatedMood: {
+            type: Number,
+            min: MIN_MOOD,
+            max: MAX_MOOD,
+            required: false
+        },
         messages: [{
             type: Schema.Types.ObjectId,
             ref: 'Message'
@@ -70,6 +118,14 @@ const journalEntrySchema = new Schema<IJournalEntry>(
             required: false,
             select: false,
             default: undefined
+        },
+        importKey: {
+            type: String,
+            required: false
+        },
+        deletedAt: {
+            type: Date,
+            required: false
         }
     },
     {
@@ -77,6 +133,24 @@ const journalEntrySchema = new Schema<IJournalEntry>(
     }
 );
 
+journalEntrySchema.index(
+    { user: 1, importKey: 1 },
+    { unique: true, partialFilterExpression: { importKey: { $exists: true } } }
+);
+
+journalEntrySchema.index({ user: 1, status: 1, createdAt: -1 });
+journalEntrySchema.index({ user: 1, tags: 1 });
+journalEntrySchema.index({ user: 1, people: 1 });
+journalEntrySchema.index({ user: 1, places: 1 });
+// No stemming or stop words: entries are written in English and Russian alike.
+journalEntrySchema.index(
+    { title: 'text', tags: 'text', people: 'text', places: 'text', fullText: 'text' },
+    { default_language: 'none', weights: { title: 3, tags: 2, people: 2, places: 2, fullText: 1 } }
+);
+
+// Only documents with deletedAt set expire.
+journalEntrySchema.index({ deletedAt: 1 }, { expireAfterSeconds: DELETED_ENTRY_RETENTION_DAYS * 24 * 60 * 60 });
+
 // Journal entry model
 export const JournalEntry = mongoose.model<IJournalEntry>('JournalEntry', journalEntrySchema);
 
@@ -89,10 +163,52 @@ export async function createJournalEntry(userId: Types.ObjectId): Promise<IJourn
     });
 }
 
+/**
+ * Creates a completed entry from imported data with its original timestamp.
+ * Returns null when the user already has an entry with this import key.
+ */
+export async function createImportedJournalEntry(
+    userId: Types.ObjectId,
+    data: { importKey: string; createdAt: Date; title?: string; tags?: string[]; fullText: string }
+): Promise<IJournalEntry | null> {
+    try {
+        return await JournalEntry.create({
+            user: userId,
+            status: JournalEntryStatus.COMPLETED,
+            messages: [],
+            ...data
+        });
+    } catch (error) {
+        if ((error as { code?: number }).code === 11000) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+/** Loads the user's completed entries among the given ids, in no particular order. */
+export async function getUserJournalEntriesByIds(
+    userId: Types.ObjectId,
+    entryIds: Types.ObjectId[]
+): Promise<IJournalEntry[]> {
+    return JournalEntry.find({ _id: { $in: entryIds }, user: userId, status: JournalEntryStatus.COMPLETED })
+        .select('title fullText messages createdAt')
+        .populate('messages', 'type text');
+}
+
 export async function getJournalEntryById(entryId: Types.ObjectId): Promise<IJournalEntry | null> {
     return JournalEntry.findById(entryId).populate('user').populate('messages');
 }
 
+/** One of the user's completed entries, or null when it is missing, unfinished, or someone else's. */
+export async function getUserCompletedJournalEntry(
+    userId: Types.ObjectId,
+    entryId: Types.ObjectId
+): Promise<IJournalEntry | null> {
+    return JournalEntry.findOne({ _id: entryId, user: userId, status: JournalEntryStatus.COMPLETED })
+        .populate('messages', 'type text');
+}
+
 export async function getActiveJournalEntry(userId: Types.ObjectId): Promise<IJournalEntry | null> {
     return JournalEntry.findOne({ 
         user: userId, 
@@ -100,13 +216,14 @@ export async function getActiveJournalEntry(userId: Types.ObjectId): Promise<IJo
     }).sort({ createdAt: -1 }).populate('messages');
 }
 
+/** Appends a message to an entry; a message it already holds stays where it is. */
 export async function addMessageToJournalEntry(
     entryId: Types.ObjectId,
     messageId: Types.ObjectId
 ): Promise<IJournalEntry | null> {
     return JournalEntry.findByIdAndUpdate(
         entryId,
-        { $push: { messages: messageId } },
+        { $addToSet: { messages: messageId } },
         { new: true }
     );
 }
@@ -155,6 +272,71 @@ export async function updateJournalEntryInsights(
     );
 }
 
+export async function updateJournalEntryTitle(
+    entryId: Types.ObjectId,
+    title: string
+): Promise<IJournalEntry | null> {
+    return JournalEntry.findByIdAndUpdate(
+        entryId,
+        { $set: { title } },
+        { new: true }
+    );
+}
+
+/** What the AI extracts from a finished entry; fields left undefined are not touched. */
+export interface JournalEntryMetadata {
+    title?: string;
+    tags?: string[];
+    people?: string[];
+    places?: string[];
+    mood?: number;
+    emotions?: string[];
+}
+
+export async function updateJournalEntryMetadata(
+    entryId: Types.ObjectId,
+    metadata: JournalEntryMetadata
+): Promise<IJournalEntry | null> {
+    const update = Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined));
+    return JournalEntry.findByIdAndUpdate(
+        entryId,
+        { $set: update },
+        { new: true }
+    );
+}
+
+export async function updateJournalEntrySelfRatedMood(
+    entryId: Types.ObjectId,
+    selfRatedMood: number
+): Promise<IJournalEntry | null> {
+    return JournalEntry.findByIdAndUpdate(
+        entryId,
+        { $set: { selfRatedMood } },
+        { new: true }
+    );
+}
+
+/** Moves a completed entry to DELETED; returns null if it was not completed. */
+export async function markJournalEntryDeleted(
+    entryId: Types.ObjectId,
+    deletedAt: Date
+): Promise<IJournalEntry | null> {
+    return JournalEntry.findOneAndUpdate(
+        { _id: entryId, status: JournalEntryStatus.COMPLETED },
+        { $set: { status: JournalEntryStatus.DELETED, deletedAt } },
+        { new: true }
+    );
+}
+
+/** Brings a deleted entry back as completed; returns null if it was not deleted. */
+export async function restoreDeletedJournalEntry(entryId: Types.ObjectId): Promise<IJournalEntry | null> {
+    return JournalEntry.findOneAndUpdate(
+        { _id: entryId, status: JournalEntryStatus.DELETED },
+        { $set: { status: JournalEntryStatus.COMPLETED }, $unset: { deletedAt: '' } },
+        { new: true }
+    );
+}
+
 export async function completeJournalEntry(
     entryId: Types.ObjectId,
     analysis: string,
@@ -180,6 +362,153 @@ export async function getUserJournalEntries(userId: Types.ObjectId): Promise<IJo
     }).sort({ createdAt: -1 }).populate('messages');
 }
 
+/** Narrows a user's completed entries, e.g. for browsing the history; every field is optional. */
+export interface JournalEntryFilter {
+    tag?: string;
+    /** Only entries holding a message of this type from this author, e.g. the user's voice notes. */
+    message?: { type: MessageType; role: MessageRole };
+    since?: Date;
+}
+
+function completedEntriesPipeline(userId: Types.ObjectId, filter: JournalEntryFilter): PipelineStage[] {
+    const query: Record<string, unknown> = { user: userId, status: JournalEntryStatus.COMPLETED };
+    if (filter.tag !== undefined) {
+        query.tags = filter.tag;
+    }
+    if (filter.since !== undefined) {
+        query.createdAt = { $gte: filter.since };
+    }
+    const pipeline: PipelineStage[] = [{ $match: query }];
+    if (filter.message !== undefined) {
+        // Looks up each entry's own messages by id, so the cost follows the
+        // user's entries rather than the size of the messages collection.
+        pipeline.push(
+            {
+                $lookup: {
+                    from: mongoose.model<IMessage>('Message').collection.name,
+                    localField: 'messages',
+                    foreignField: '_id',
+                    pipeline: [{ $match: filter.message }, { $limit: 1 }, { $project: { _id: 1 } }],
+                    as: 'matchingMessages'
+                }
+            },
+            { $match: { 'matchingMessages.0': { $exists: true } } },
+            { $unset: 'matchingMessages' }
+        );
+    }
+    return pipeline;
+}
+
+/** One page of completed entries, newest first, with just enough loaded to list them. */
+export async function getUserJournalEntriesPage(
+    userId: Types.ObjectId,
+    filter: JournalEntryFilter,
+    skip: number,
+    limit: number
+): Promise<IJournalEntry[]> {
+    const entries = await JournalEntry.aggregate<IJournalEntry>([
+        ...completedEntriesPipeline(userId, filter),
+        { $sort: { createdAt: -1 } },
+        { $skip: skip },
+        { $limit: limit },
+        { $project: { title: 1, fullText: 1, messages: 1, createdAt: 1 } }
+    ]);
+    return JournalEntry.populate(
+        entries.map(entry => JournalEntry.hydrate(entry)),
+        { path: 'messages', select: 'type text' }
+    );
+}
+
+export async function countUserJournalEntriesMatching(
+    userId: Types.ObjectId,
+    filter: JournalEntryFilter
+): Promise<number> {
+    const [result] = await JournalEntry.aggregate<{ total: number }>([
+        ...completedEntriesPipeline(userId, filter),
+        { $count: 'total' }
+    ]);
+    return result?.total ?? 0;
+}
+
+/** The months holding matching entries as `YYYY-MM` on the user's clock, newest first. */
+export async function getUserJournalEntryMonths(
+    userId: Types.ObjectId,
+    filter: JournalEntryFilter,
+    timezone: string
+): Promise<string[]> {
+    const months = await JournalEntry.aggregate<{ _id: string }>([
+        ...completedEntriesPipeline(userId, filter),
+        { $group: { _id: { $dateToString: { format: '%Y-%m', date: '$createdAt', timezone } } } },
+        { $sort: { _id: -1 } }
+    ]);
+    return months.map(month => month._id);
+}
+
+/** Completed entries since a date that carry a mood, oldest first, with only the mood fields loaded. */
+export async function getUserMoodEntries(userId: Types.ObjectId, since: Date): Promise<IJournalEntry[]> {
+    return JournalEntry.find({
+        user: userId,
+        status: JournalEntryStatus.COMPLETED,
+        createdAt: { $gte: since },
+        $or: [{ mood: { $exists: true } }, { selfRatedMood: { $exists: true } }]
+    })
+        .select('createdAt mood selfRatedMood emotions')
+        .sort({ createdAt: 1 });
+}
+
+/** Every tag on the user's completed entries, alphabetically. */
+export async function getUserJournalTags(userId: Types.ObjectId): Promise<string[]> {
+    const tags: string[] = await JournalEntry.distinct('tags', { user: userId, status: JournalEntryStatus.COMPLETED });
+    return tags.sort((a, b) => a.localeCompare(b));
+}
+
+/** A candidate from `searchUserJournalEntries`; textScore is 0 when no text was searched. */
+export interface JournalSearchHit {
+    _id: Types.ObjectId;
+    title?: string;
+    fullText?: string;
+    embedding?: number[];
+    createdAt: Date;
+    textScore: number;
+}
+
+/**
+ * Full-text search over the user's completed entries within an optional
+ * [from, to) range: best text matches first, or newest first without text.
+ */
+export async function searchUserJournalEntries(
+    userId: Types.ObjectId,
+    query: { text?: string; from?: Date; to?: Date },
+    limit: number
+): Promise<JournalSearchHit[]> {
+    const match: Record<string, unknown> = { user: userId, status: JournalEntryStatus.COMPLETED };
+    if (query.text) {
+        match.$text = { $search: query.text };
+    }
+    if (query.from || query.to) {
+        match.createdAt = { ...(query.from && { $gte: query.from }), ...(query.to && { $lt: query.to }) };
+    }
+
+    return JournalEntry.aggregate<JournalSearchHit>([
+        { $match: match },
+        { $addFields: { textScore: query.text ? { $meta: 'textScore' } : { $literal: 0 } } },
+        { $sort: query.text ? { textScore: -1 } : { createdAt: -1 } },
+        { $limit: limit },
+        { $project: { title: 1, fullText: 1, embedding: 1, createdAt: 1, textScore: 1 } }
+    ]);
+}
+
+/**
+ * Iterates the user's completed entries oldest first without loading them all
+ * at once; used where a whole journal is processed (e.g. export).
+ */
+export function streamUserJournalEntries(userId: Types.ObjectId): AsyncIterable<IJournalEntry> {
+    return JournalEntry.find({
+        user: userId,
+        status: JournalEntryStatus.COMPLETED
+    }).sort({ createdAt: 1 }).populate('messages').cursor();
+}
+
 export async function countUserJournalEntries(userId: Types.ObjectId): Promise<number> {
     return JournalEntry.countDocuments({
         user: userId,
@@ -187,6 +516,76 @@ export async function countUserJournalEntries(userId: Types.ObjectId): Promise<n
     });
 }
 
+export async function countUserJournalEntriesSince(userId: Types.ObjectId, since: Date): Promise<number> {
+    return JournalEntry.countDocuments({
+        user: userId,
+        status: JournalEntryStatus.COMPLETED,
+        createdAt: { $gte: since }
+    });
+}
+
+/** Completed entries in [from, to), oldest first. */
+export async function getUserJournalEntriesBetween(
+    userId: Types.ObjectId,
+    from: Date,
+    to: Date
+): Promise<IJournalEntry[]> {
+    return JournalEntry.find({
+        user: userId,
+        status: JournalEntryStatus.COMPLETED,
+        createdAt: { $gte: from, $lt: to }
+    }).sort({ createdAt: 1 }).populate('messages');
+}
+
+/** One page of completed entries in [from, to), oldest first, without their messages or embedding. */
+export async function getUserJournalEntryOverviewBetween(
+    userId: Types.ObjectId,
+    from: Date,
+    to: Date,
+    limit: number
+): Promise<IJournalEntry[]> {
+    return JournalEntry.find({
+        user: userId,
+        status: JournalEntryStatus.COMPLETED,
+        createdAt: { $gte: from, $lt: to }
+    })
+        .select('createdAt title tags mood selfRatedMood fullText')
+        .sort({ createdAt: 1 })
+        .limit(limit);
+}
+
+/** Completed entries in [from, to) with only the fields statistics are drawn from, oldest first. */
+export async function getUserJournalEntryFactsBetween(
+    userId: Types.ObjectId,
+    from: Date,
+    to: Date
+): Promise<IJournalEntry[]> {
+    return JournalEntry.find({
+        user: userId,
+        status: JournalEntryStatus.COMPLETED,
+        createdAt: { $gte: from, $lt: to }
+    })
+        .select('createdAt tags mood selfRatedMood emotions')
+        .sort({ createdAt: 1 });
+}
+
+export async function countUserJournalEntriesBetween(userId: Types.ObjectId, from: Date, to: Date): Promise<number> {
+    return JournalEntry.countDocuments({
+        user: userId,
+        status: JournalEntryStatus.COMPLETED,
+        createdAt: { $gte: from, $lt: to }
+    });
+}
+
+/** Users with a completed entry since the given date. */
+export async function getUserIdsWithEntriesSince(since: Date): Promise<Types.ObjectId[]> {
+    const userIds = await JournalEntry.distinct('user', {
+        status: JournalEntryStatus.COMPLETED,
+        createdAt: { $gte: since }
+    });
+    return userIds as Types.ObjectId[];
+}
+
 export async function getUserJournalEntriesWithEmbeddings(userId: Types.ObjectId): Promise<IJournalEntry[]> {
     return JournalEntry.find({
         user: userId,
@@ -194,6 +593,12 @@ export async function getUserJournalEntriesWithEmbeddings(userId: Types.ObjectId
     }).select('+embedding').sort({ createdAt: -1 }).populate('messages');
 }
 
+/** Removes every entry of the user, drafts included; embeddings live on the entry and go with it. */
+export async function deleteUserJournalEntries(userId: Types.ObjectId): Promise<number> {
+    const result = await JournalEntry.deleteMany({ user: userId });
+    return result.deletedCount;
+}
+
 export async function getAllJournalEntries(): Promise<IJournalEntry[]> {
     return JournalEntry.find().sort({ createdAt: -1 }).populate('user');
 }
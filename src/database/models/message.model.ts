@@ -1,13 +1,16 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
 import { IUser } from './user.model';
 import { IConversation } from './conversation.model';
+import { DELETED_ENTRY_RETENTION_DAYS } from './journal.model';
 
 // Message type enum
 export enum MessageType {
     TEXT = 'text',
     VOICE = 'voice',
     IMAGE = 'image',
-    VIDEO = 'video'
+    VIDEO = 'video',
+    /** An audio file, sent as music or as a document with an audio MIME type. */
+    AUDIO = 'audio'
 }
 
 // Message role enum
@@ -16,6 +19,21 @@ export enum MessageRole {
     ASSISTANT = 'assistant'
 }
 
+/** What Telegram told us about a media file, kept as it was sent. */
+export interface IMessageFileMetadata {
+    fileName?: string;
+    mimeType?: string;
+    fileSize?: number;
+    durationSeconds?: number;
+    /** Tags of an audio file. */
+    title?: string;
+    performer?: string;
+    /** Who the message was forwarded from, when it was forwarded. */
+    forwardedFrom?: string;
+    /** When the original message was sent. */
+    forwardedDate?: Date;
+}
+
 // Message interface
 export interface IMessage extends Document {
     user: Types.ObjectId | IUser;
@@ -27,9 +45,14 @@ export interface IMessage extends Document {
     transcription?: string;
     imageUrl?: string;
     imagePrompt?: string;
+    /** What a vision model saw on a photo the user sent; its caption is `text`. */
+    imageDescription?: string;
     fileId?: string;
+    fileMetadata?: IMessageFileMetadata;
     /** @deprecated Legacy field: temp files are no longer persisted. Kept for old documents. */
     filePath?: string;
+    /** Set while the journal entry holding the message is deleted. */
+    deletedAt?: Date;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -79,13 +102,37 @@ const messageSchema = new Schema<IMessage>(
             type: String,
             required: false
         },
+        imageDescription: {
+            type: String,
+            required: false
+        },
         fileId: {
             type: String,
             required: false
         },
+        fileMetadata: {
+            type: new Schema<IMessageFileMetadata>(
+                {
+                    fileName: String,
+                    mimeType: String,
+                    fileSize: Number,
+                    durationSeconds: Number,
+                    title: String,
+                    performer: String,
+                    forwardedFrom: String,
+                    forwardedDate: Date
+                },
+                { _id: false }
+            ),
+            required: false
+        },
         filePath: {
             type: String,
             required: false
+        },
+        deletedAt: {
+            type: Date,
+            required: false
         }
     },
     {
@@ -96,6 +143,9 @@ const messageSchema = new Schema<IMessage>(
 // Create a compound index for user and telegramMessageId
 messageSchema.index({ user: 1, telegramMessageId: 1 }, { unique: true });
 
+// Messages of a deleted entry are purged together with it.
+messageSchema.index({ deletedAt: 1 }, { expireAfterSeconds: DELETED_ENTRY_RETENTION_DAYS * 24 * 60 * 60 });
+
 // Message model
 export const Message = mongoose.model<IMessage>('Message', messageSchema);
 
@@ -117,13 +167,33 @@ export async function saveTextMessage(
     });
 }
 
+/** Saves a text message brought in by a journal import, keeping its original timestamp. */
+export async function saveImportedTextMessage(
+    userId: Types.ObjectId,
+    conversationId: Types.ObjectId,
+    telegramMessageId: number,
+    text: string,
+    createdAt: Date
+): Promise<IMessage> {
+    return Message.create({
+        user: userId,
+        conversation: conversationId,
+        telegramMessageId,
+        type: MessageType.TEXT,
+        role: MessageRole.USER,
+        text,
+        createdAt
+    });
+}
+
 export async function saveVoiceMessage(
     userId: Types.ObjectId,
     conversationId: Types.ObjectId,
     telegramMessageId: number,
     fileId: string,
     transcription: string,
-    role: MessageRole = MessageRole.USER
+    role: MessageRole = MessageRole.USER,
+    fileMetadata?: IMessageFileMetadata
 ): Promise<IMessage> {
     return Message.create({
         user: userId,
@@ -132,6 +202,7 @@ export async function saveVoiceMessage(
         type: MessageType.VOICE,
         role,
         fileId,
+        fileMetadata,
         transcription
     });
 }
@@ -155,13 +226,36 @@ export async function saveImageMessage(
     });
 }
 
+/** Saves a photo the user sent, with its caption if it had one. */
+export async function savePhotoMessage(
+    userId: Types.ObjectId,
+    conversationId: Types.ObjectId,
+    telegramMessageId: number,
+    fileId: string,
+    imageDescription: string,
+    caption?: string,
+    role: MessageRole = MessageRole.USER
+): Promise<IMessage> {
+    return Message.create({
+        user: userId,
+        conversation: conversationId,
+        telegramMessageId,
+        type: MessageType.IMAGE,
+        role,
+        fileId,
+        text: caption,
+        imageDescription
+    });
+}
+
 export async function saveVideoMessage(
     userId: Types.ObjectId,
     conversationId: Types.ObjectId,
     telegramMessageId: number,
     fileId: string,
     transcription: string,
-    role: MessageRole = MessageRole.USER
+    role: MessageRole = MessageRole.USER,
+    fileMetadata?: IMessageFileMetadata
 ): Promise<IMessage> {
     return Message.create({
         user: userId,
@@ -170,6 +264,28 @@ export async function saveVideoMessage(
         type: MessageType.VIDEO,
         role,
         fileId,
+        fileMetadata,
+        transcription
+    });
+}
+
+export async function saveAudioMessage(
+    userId: Types.ObjectId,
+    conversationId: Types.ObjectId,
+    telegramMessageId: number,
+    fileId: string,
+    transcription: string,
+    role: MessageRole = MessageRole.USER,
+    fileMetadata?: IMessageFileMetadata
+): Promise<IMessage> {
+    return Message.create({
+        user: userId,
+        conversation: conversationId,
+        telegramMessageId,
+        type: MessageType.AUDIO,
+        role,
+        fileId,
+        fileMetadata,
         transcription
     });
 }
@@ -178,6 +294,22 @@ export async function getMessagesByUser(userId: Types.ObjectId): Promise<IMessag
     return Message.find({ user: userId }).sort({ createdAt: -1 }).populate('user');
 }
 
+export async function deleteMessagesByUser(userId: Types.ObjectId): Promise<number> {
+    const result = await Message.deleteMany({ user: userId });
+    return result.deletedCount;
+}
+
+export async function markConversationMessagesDeleted(
+    conversationId: Types.ObjectId,
+    deletedAt: Date
+): Promise<void> {
+    await Message.updateMany({ conversation: conversationId }, { $set: { deletedAt } });
+}
+
+export async function restoreConversationMessages(conversationId: Types.ObjectId): Promise<void> {
+    await Message.updateMany({ conversation: conversationId }, { $unset: { deletedAt: '' } });
+}
+
 export async function getMessagesByConversation(conversationId: Types.ObjectId): Promise<IMessage[]> {
     return Message.find({ conversation: conversationId }).sort({ createdAt: 1 });
 }
@@ -189,6 +321,24 @@ export async function getLastImageMessageByConversation(conversationId: Types.Ob
     }).sort({ createdAt: -1 });
 }
 
+/**
+ * One of the user's messages that is not deleted. Callback data can be forged,
+ * so a malformed id or another user's message comes back as null.
+ */
+export async function getUserMessage(userId: Types.ObjectId, messageId: string): Promise<IMessage | null> {
+    if (!Types.ObjectId.isValid(messageId)) {
+        return null;
+    }
+    return Message.findOne({ _id: messageId, user: userId, deletedAt: { $exists: false } });
+}
+
+export async function updateMessageTranscription(
+    messageId: Types.ObjectId,
+    transcription: string
+): Promise<IMessage | null> {
+    return Message.findByIdAndUpdate(messageId, { $set: { transcription } }, { new: true });
+}
+
 export async function getMessageById(messageId: string): Promise<IMessage | null> {
     return Message.findById(messageId).populate('user');
 }
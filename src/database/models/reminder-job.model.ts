@@ -0,0 +1,118 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IUser } from './user.model';
+
+// Reminder job status enum
+export enum ReminderJobStatus {
+    PENDING = 'pending',
+    SENDING = 'sending',
+    SENT = 'sent',
+    SKIPPED = 'skipped',
+    FAILED = 'failed'
+}
+
+// Reminder job interface
+export interface IReminderJob extends Document {
+    user: Types.ObjectId | IUser;
+    dueAt: Date;
+    /**
+     * One job per user and occurrence (e.g. `<userId>:2026-07-17`). Scheduling
+     * the same occurrence twice is a no-op, so restarts never duplicate a reminder.
+     */
+    dedupeKey: string;
+    status: ReminderJobStatus;
+    sentAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Jobs are never scheduled more than a week ahead, and a finished job only
+// matters for deduplicating its own occurrence, so a month is plenty.
+const JOB_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Reminder job schema
+const reminderJobSchema = new Schema<IReminderJob>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        dueAt: {
+            type: Date,
+            required: true
+        },
+        dedupeKey: {
+            type: String,
+            required: true,
+            unique: true
+        },
+        status: {
+            type: String,
+            enum: Object.values(ReminderJobStatus),
+            default: ReminderJobStatus.PENDING,
+            required: true
+        },
+        sentAt: {
+            type: Date,
+            required: false
+        }
+    },
+    {
+        timestamps: true
+    }
+);
+
+reminderJobSchema.index({ status: 1, dueAt: 1 });
+reminderJobSchema.index({ createdAt: 1 }, { expireAfterSeconds: JOB_TTL_SECONDS });
+
+// Reminder job model
+export const ReminderJob = mongoose.model<IReminderJob>('ReminderJob', reminderJobSchema);
+
+// Reminder job service functions
+
+/** Creates the job unless one with the same key exists; returns whichever is stored. */
+export async function scheduleReminderJob(
+    userId: Types.ObjectId,
+    dueAt: Date,
+    dedupeKey: string
+): Promise<IReminderJob> {
+    return ReminderJob.findOneAndUpdate(
+        { dedupeKey },
+        { $setOnInsert: { user: userId, dueAt, dedupeKey, status: ReminderJobStatus.PENDING } },
+        { new: true, upsert: true }
+    );
+}
+
+export async function cancelPendingReminderJobs(userId: Types.ObjectId): Promise<void> {
+    await ReminderJob.deleteMany({ user: userId, status: ReminderJobStatus.PENDING });
+}
+
+/** Removes all of the user's jobs, including the history of sent ones. */
+export async function deleteReminderJobsByUser(userId: Types.ObjectId): Promise<number> {
+    const result = await ReminderJob.deleteMany({ user: userId });
+    return result.deletedCount;
+}
+
+/**
+ * Atomically moves one due job from pending to sending. Only the replica that
+ * wins this update sends the reminder; a crash after it loses the reminder
+ * rather than sending it twice.
+ */
+export async function claimDueReminderJob(now: Date): Promise<IReminderJob | null> {
+    return ReminderJob.findOneAndUpdate(
+        { status: ReminderJobStatus.PENDING, dueAt: { $lte: now } },
+        { $set: { status: ReminderJobStatus.SENDING } },
+        { new: true, sort: { dueAt: 1 } }
+    ).populate('user');
+}
+
+export async function finishReminderJob(
+    jobId: Types.ObjectId,
+    status: ReminderJobStatus.SENT | ReminderJobStatus.SKIPPED | ReminderJobStatus.FAILED
+): Promise<void> {
+    await ReminderJob.updateOne(
+        { _id: jobId },
+        { $set: status === ReminderJobStatus.SENT ? { status, sentAt: new Date() } : { status } }
+    );
+}
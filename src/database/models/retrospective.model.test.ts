@@ -0,0 +1,51 @@
+import { Types } from 'mongoose';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    claimRetrospective,
+    releaseRetrospectiveClaim,
+    Retrospective,
+    RetrospectivePeriod,
+    RetrospectiveStatus
+} from './retrospective.model';
+
+const userId = new Types.ObjectId();
+const periodStart = new Date('2025-07-07T00:00:00Z');
+const periodEnd = new Date('2025-07-14T00:00:00Z');
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('an on-demand READY retrospective survives a failed scheduled pass', () => {
+    it('is claimed without changing its status or its updatedAt', async () => {
+        const onDemand = { status: RetrospectiveStatus.READY, updatedAt: new Date('2025-07-10T00:00:00Z') };
+        const findOneAndUpdate = vi
+            .spyOn(Retrospective, 'findOneAndUpdate')
+            .mockResolvedValueOnce(onDemand as never);
+
+        const now = new Date('2025-07-15T09:00:00Z');
+        await expect(
+            claimRetrospective(userId, RetrospectivePeriod.WEEK, periodStart, periodEnd, now)
+        ).resolves.toBe(true);
+
+        const [, update, options] = findOneAndUpdate.mock.calls[0];
+        expect(update).toEqual({ $set: { claimedAt: now } });
+        expect(options).toEqual({ timestamps: false });
+    });
+
+    it('is kept, unclaimed, when the claim is released', async () => {
+        const deleteOne = vi.spyOn(Retrospective, 'deleteOne').mockResolvedValue({} as never);
+        const updateOne = vi.spyOn(Retrospective, 'updateOne').mockResolvedValue({} as never);
+
+        await releaseRetrospectiveClaim(userId, RetrospectivePeriod.WEEK, periodStart);
+
+        expect(deleteOne).toHaveBeenCalledWith(
+            expect.objectContaining({ status: RetrospectiveStatus.GENERATING })
+        );
+        expect(updateOne).toHaveBeenCalledWith(
+            expect.objectContaining({ status: RetrospectiveStatus.READY }),
+            { $unset: { claimedAt: '' } },
+            { timestamps: false }
+        );
+    });
+});
@@ -0,0 +1,234 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IUser } from './user.model';
+
+// Retrospective period enum
+export enum RetrospectivePeriod {
+    WEEK = 'week',
+    MONTH = 'month'
+}
+
+// Retrospective status enum
+export enum RetrospectiveStatus {
+    /** Claimed by the scheduler and being written; not shown to the user. */
+    GENERATING = 'generating',
+    READY = 'ready'
+}
+
+/**
+ * A claim older than this is taken to be abandoned, e.g. by a replica that
+ * crashed or was stopped while writing, and may be taken over.
+ */
+export const RETROSPECTIVE_CLAIM_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Retrospective interface
+export interface IRetrospective extends Document {
+    user: Types.ObjectId | IUser;
+    period: RetrospectivePeriod;
+    /** First instant of the week or month on the user's clock; unique per user and period. */
+    periodStart: Date;
+    /** Exclusive end; for the current week or month, the end it will have. */
+    periodEnd: Date;
+    status: RetrospectiveStatus;
+    /**
+     * When the scheduler claimed it; set while it is being written. A ready
+     * one keeps its status while claimed, so it stays in the user's history.
+     */
+    claimedAt?: Date;
+    entryCount: number;
+    overview?: string;
+    themes?: string[];
+    /** Recurring people, each with a short note, e.g. "Anna: long walks, a move to Riga". */
+    people?: string[];
+    moodShift?: string;
+    openLoops?: string[];
+    averageMood?: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/** The written part of a retrospective. */
+export interface RetrospectiveContent {
+    entryCount: number;
+    overview: string;
+    themes: string[];
+    people: string[];
+    moodShift: string;
+    openLoops: string[];
+    averageMood?: number;
+}
+
+// Retrospective schema
+const retrospectiveSchema = new Schema<IRetrospective>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        period: {
+            type: String,
+            enum: Object.values(RetrospectivePeriod),
+            required: true
+        },
+        periodStart: {
+            type: Date,
+            required: true
+        },
+        periodEnd: {
+            type: Date,
+            required: true
+        },
+        status: {
+            type: String,
+            enum: Object.values(RetrospectiveStatus),
+            default: RetrospectiveStatus.READY,
+            required: true
+        },
+        claimedAt: {
+            type: Date,
+            required: false
+        },
+        entryCount: {
+            type: Number,
+            default: 0
+        },
+        overview: {
+            type: String,
+            required: false
+        },
+        themes: {
+            type: [String],
+            default: undefined
+        },
+        people: {
+            type: [String],
+            default: undefined
+        },
+        moodShift: {
+            type: String,
+            required: false
+        },
+        openLoops: {
+            type: [String],
+            default: undefined
+        },
+        averageMood: {
+            type: Number,
+            required: false
+        }
+    },
+    {
+        timestamps: true
+    }
+);
+
+retrospectiveSchema.index({ user: 1, period: 1, periodStart: 1 }, { unique: true });
+retrospectiveSchema.index({ user: 1, status: 1, periodStart: -1 });
+
+// Retrospective model
+export const Retrospective = mongoose.model<IRetrospective>('Retrospective', retrospectiveSchema);
+
+// Retrospective service functions
+
+/**
+ * Reserves a period's retrospective for the scheduler. Only the replica whose
+ * update creates the document, claims one the user asked for before the
+ * period was over, or takes over a claim abandoned for longer than
+ * RETROSPECTIVE_CLAIM_TIMEOUT_MS writes it; a period with a complete one,
+ * ready or in the works, is left alone.
+ */
+export async function claimRetrospective(
+    userId: Types.ObjectId,
+    period: RetrospectivePeriod,
+    periodStart: Date,
+    periodEnd: Date,
+    now = new Date()
+): Promise<boolean> {
+    const staleBefore = new Date(now.getTime() - RETROSPECTIVE_CLAIM_TIMEOUT_MS);
+    const takenOver = await Retrospective.findOneAndUpdate(
+        {
+            user: userId,
+            period,
+            periodStart,
+            $or: [
+                { status: RetrospectiveStatus.READY, updatedAt: { $lt: periodEnd } },
+                { status: RetrospectiveStatus.GENERATING }
+            ],
+            // Unclaimed, or claimed so long ago that the claim was abandoned; claims
+            // made before claimedAt was recorded count as abandoned too.
+            claimedAt: { $not: { $gte: staleBefore } }
+        },
+        // The status stays: a ready one remains viewable until it is replaced.
+        // Without timestamps, updatedAt still tells whether it was made mid-period.
+        { $set: { claimedAt: now } },
+        { timestamps: false }
+    );
+    if (takenOver) {
+        return true;
+    }
+
+    const existing = await Retrospective.findOneAndUpdate(
+        { user: userId, period, periodStart },
+        { $setOnInsert: { periodEnd, status: RetrospectiveStatus.GENERATING, claimedAt: now } },
+        { upsert: true }
+    );
+    return existing === null;
+}
+
+/**
+ * Gives up a claim that could not be written, so a later pass can try again.
+ * A placeholder is removed; a ready retrospective is kept as it was.
+ */
+export async function releaseRetrospectiveClaim(
+    userId: Types.ObjectId,
+    period: RetrospectivePeriod,
+    periodStart: Date
+): Promise<void> {
+    await Retrospective.deleteOne({ user: userId, period, periodStart, status: RetrospectiveStatus.GENERATING });
+    await Retrospective.updateOne(
+        { user: userId, period, periodStart, status: RetrospectiveStatus.READY },
+        { $unset: { claimedAt: '' } },
+        { timestamps: false }
+    );
+}
+
+/** Stores a written retrospective, replacing an earlier one for the same period. */
+export async function saveRetrospective(
+    userId: Types.ObjectId,
+    period: RetrospectivePeriod,
+    periodStart: Date,
+    periodEnd: Date,
+    content: RetrospectiveContent
+): Promise<IRetrospective> {
+    return Retrospective.findOneAndUpdate(
+        { user: userId, period, periodStart },
+        { $set: { periodEnd, status: RetrospectiveStatus.READY, ...content }, $unset: { claimedAt: '' } },
+        { new: true, upsert: true }
+    );
+}
+
+export async function getRetrospectiveById(retrospectiveId: Types.ObjectId): Promise<IRetrospective | null> {
+    return Retrospective.findOne({ _id: retrospectiveId, status: RetrospectiveStatus.READY });
+}
+
+/** One page of the user's retrospectives, latest period first; weeks and months mixed. */
+export async function getUserRetrospectives(
+    userId: Types.ObjectId,
+    skip: number,
+    limit: number
+): Promise<IRetrospective[]> {
+    return Retrospective.find({ user: userId, status: RetrospectiveStatus.READY })
+        .select('period periodStart periodEnd')
+        .sort({ periodStart: -1, period: 1 })
+        .skip(skip)
+        .limit(limit);
+}
+
+export async function countUserRetrospectives(userId: Types.ObjectId): Promise<number> {
+    return Retrospective.countDocuments({ user: userId, status: RetrospectiveStatus.READY });
+}
+
+export async function deleteUserRetrospectives(userId: Types.ObjectId): Promise<number> {
+    const result = await Retrospective.deleteMany({ user: userId });
+    return result.deletedCount;
+}
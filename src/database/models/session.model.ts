@@ -0,0 +1,68 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Bot session interface
+export interface IBotSession extends Document {
+    key: string;
+    data: unknown;
+    version: number;
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Bot session schema
+const botSessionSchema = new Schema<IBotSession>(
+    {
+        key: {
+            type: String,
+            required: true,
+            unique: true,
+            index: true
+        },
+        data: {
+            type: Schema.Types.Mixed,
+            required: true
+        },
+        version: {
+            type: Number,
+            required: true,
+            default: 0
+        },
+        expiresAt: {
+            type: Date,
+            required: true
+        }
+    },
+    {
+        timestamps: true
+    }
+);
+
+// MongoDB removes a session once its expiry date has passed.
+botSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Bot session model
+export const BotSession = mongoose.model<IBotSession>('BotSession', botSessionSchema);
+
+// Bot session service functions
+export async function getBotSession(key: string): Promise<IBotSession | null> {
+    // The TTL monitor only runs about once a minute, so expiry is checked here too.
+    return BotSession.findOne({ key, expiresAt: { $gt: new Date() } });
+}
+
+export async function saveBotSession(
+    key: string,
+    data: unknown,
+    version: number,
+    expiresAt: Date
+): Promise<void> {
+    await BotSession.updateOne(
+        { key },
+        { $set: { data, version, expiresAt } },
+        { upsert: true }
+    );
+}
+
+export async function deleteBotSession(key: string): Promise<void> {
+    await BotSession.deleteOne({ key });
+}
@@ -1,6 +1,19 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Schema, Types } from 'mongoose';
 import { Language } from '../../utils/localization';
 
+// Daily journaling reminder settings
+export interface IReminderSettings {
+    enabled: boolean;
+    time?: string; // Local time of day as HH:MM, in the user's timezone
+    snoozedUntil?: Date; // No reminders are sent before this instant
+}
+
+// Which retrospectives are sent without being asked for; none until the user switches them on
+export interface IRetrospectiveSettings {
+    weekly: boolean;
+    monthly: boolean;
+}
+
 // User interface
 export interface IUser extends Document {
     telegramId: number;
@@ -16,6 +29,11 @@ export interface IUser extends Document {
     bio?: string; // User's detailed bio information
     parsedBio?: string; // Structured bio information in JSON format
     language?: Language; // User's preferred language
+    timezone?: string; // IANA timezone name, e.g. "Europe/Berlin"
+    reminder?: IReminderSettings;
+    retrospectives?: IRetrospectiveSettings;
+    /** Names and words to spell as written in transcriptions. */
+    transcriptionVocabulary?: string[];
     onboardingCompleted?: boolean;
     createdAt: Date;
     updatedAt: Date;
@@ -76,6 +94,38 @@ const userSchema = new Schema<IUser>(
             enum: Object.values(Language),
             default: Language.ENGLISH
         },
+        timezone: {
+            type: String,
+            required: false
+        },
+        reminder: {
+            enabled: {
+                type: Boolean,
+                default: false
+            },
+            time: {
+                type: String,
+                required: false
+            },
+            snoozedUntil: {
+                type: Date,
+                required: false
+            }
+        },
+        retrospectives: {
+            weekly: {
+                type: Boolean,
+                default: false
+            },
+            monthly: {
+                type: Boolean,
+                default: false
+            }
+        },
+        transcriptionVocabulary: {
+            type: [String],
+            default: undefined
+        },
         onboardingCompleted: {
             type: Boolean,
             default: false
@@ -138,6 +188,11 @@ export async function getAllUsers(): Promise<IUser[]> {
     return User.find();
 }
 
+export async function deleteUser(userId: Types.ObjectId): Promise<boolean> {
+    const result = await User.deleteOne({ _id: userId });
+    return result.deletedCount > 0;
+}
+
 // Journal application specific functions
 export async function updateUserProfile(
     telegramId: number,
@@ -179,4 +234,67 @@ export async function completeUserOnboarding(
         { $set: { onboardingCompleted: true } },
         { new: true }
     );
-} 
\ No newline at end of file
+}
+
+export async function updateUserTimezone(
+    telegramId: number,
+    timezone: string
+): Promise<IUser | null> {
+    return User.findOneAndUpdate(
+        { telegramId },
+        { $set: { timezone } },
+        { new: true }
+    );
+}
+
+export async function updateUserTranscriptionVocabulary(
+    telegramId: number,
+    transcriptionVocabulary: string[]
+): Promise<IUser | null> {
+    return User.findOneAndUpdate(
+        { telegramId },
+        { $set: { transcriptionVocabulary } },
+        { new: true }
+    );
+}
+
+/** Updates the given reminder fields; a field explicitly set to undefined is cleared. */
+export async function updateUserReminder(
+    telegramId: number,
+    updates: Partial<IReminderSettings>
+): Promise<IUser | null> {
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, ''> = {};
+    for (const [field, value] of Object.entries(updates)) {
+        if (value === undefined) {
+            $unset[`reminder.${field}`] = '';
+        } else {
+            $set[`reminder.${field}`] = value;
+        }
+    }
+    return User.findOneAndUpdate(
+        { telegramId },
+        { $set, $unset },
+        { new: true }
+    );
+}
+
+export async function getUsersWithRemindersEnabled(): Promise<IUser[]> {
+    return User.find({ 'reminder.enabled': true });
+}
+
+export async function updateUserRetrospectives(
+    telegramId: number,
+    updates: Partial<IRetrospectiveSettings>
+): Promise<IUser | null> {
+    const $set = Object.fromEntries(Object.entries(updates).map(([field, value]) => [`retrospectives.${field}`, value]));
+    return User.findOneAndUpdate(
+        { telegramId },
+        { $set },
+        { new: true }
+    );
+}
+
+export async function getUsersByIds(userIds: Types.ObjectId[]): Promise<IUser[]> {
+    return User.find({ _id: { $in: userIds } });
+}
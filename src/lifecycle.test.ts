@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('./config', () => ({
+    LOG_LEVEL: 0
+}));
+
+vi.mock('mongoose', () => ({
+    default: {
+        connection: { readyState: 1 },
+        ConnectionStates: { connected: 1 }
+    }
+}));
+
+import mongoose from 'mongoose';
+import { addReadinessCheck, drainInFlight, getHealthReport, inFlightCount, trackInFlight } from './lifecycle';
+
+const connection = mongoose.connection as { readyState: number };
+
+function deferred(): { promise: Promise<void>; resolve: () => void; reject: (error: Error) => void } {
+    let resolve!: () => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<void>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+}
+
+describe('trackInFlight', () => {
+    it('counts a task until it settles, whether it resolves or rejects', async () => {
+        const succeeding = deferred();
+        const failing = deferred();
+        trackInFlight(succeeding.promise);
+        trackInFlight(failing.promise).catch(() => undefined);
+
+        expect(inFlightCount()).toBe(2);
+
+        succeeding.resolve();
+        failing.reject(new Error('failed'));
+        await drainInFlight(100);
+
+        expect(inFlightCount()).toBe(0);
+    });
+});
+
+describe('drainInFlight', () => {
+    it('also waits for work that starts while draining', async () => {
+        const first = deferred();
+        const second = deferred();
+        trackInFlight(first.promise.then(() => {
+            trackInFlight(second.promise);
+        }));
+
+        const drained = drainInFlight(1000);
+        first.resolve();
+        await Promise.resolve();
+        second.resolve();
+
+        await expect(drained).resolves.toBe(true);
+    });
+
+    it('gives up after the timeout', async () => {
+        const stuck = deferred();
+        trackInFlight(stuck.promise);
+
+        await expect(drainInFlight(10)).resolves.toBe(false);
+
+        stuck.resolve();
+        await drainInFlight(100);
+    });
+});
+
+describe('getHealthReport', () => {
+    beforeEach(() => {
+        connection.readyState = 1;
+        addReadinessCheck('bot', () => true);
+    });
+
+    it('is ok when MongoDB is connected and every check passes', () => {
+        expect(getHealthReport()).toEqual({
+            status: 'ok',
+            shuttingDown: false,
+            inFlight: 0,
+            checks: { mongodb: true, bot: true }
+        });
+    });
+
+    it('is unavailable while MongoDB is disconnected', () => {
+        connection.readyState = 0;
+
+        expect(getHealthReport()).toMatchObject({ status: 'unavailable', checks: { mongodb: false } });
+    });
+
+    it('is unavailable when a readiness check fails', () => {
+        addReadinessCheck('bot', () => false);
+
+        expect(getHealthReport()).toMatchObject({ status: 'unavailable', checks: { bot: false } });
+    });
+});
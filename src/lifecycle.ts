@@ -0,0 +1,140 @@
+import express, { Router } from 'express';
+import mongoose from 'mongoose';
+import { LOG_LEVEL } from './config';
+import { createLogger } from './utils/logger';
+
+const lifecycleLogger = createLogger('Lifecycle', LOG_LEVEL);
+
+// Extra time on top of the drain timeout before a stuck shutdown is forced.
+const FORCED_EXIT_GRACE_MS = 5000;
+
+const inFlight = new Set<Promise<unknown>>();
+const shutdownSteps: Array<{ name: string; run: () => Promise<void> }> = [];
+const readinessChecks = new Map<string, () => boolean>();
+let shuttingDown = false;
+
+/**
+ * Registers work that shutdown must wait for (an update being handled,
+ * a transcription, ...) and returns the task unchanged.
+ */
+export function trackInFlight<T>(task: Promise<T>): Promise<T> {
+    inFlight.add(task);
+    const untrack = () => {
+        inFlight.delete(task);
+    };
+    task.then(untrack, untrack);
+    return task;
+}
+
+export function inFlightCount(): number {
+    return inFlight.size;
+}
+
+/**
+ * Waits until all tracked work has settled, including work that started
+ * while waiting. Resolves to false if the timeout elapsed first.
+ */
+export async function drainInFlight(timeoutMs: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<false>(resolve => {
+        timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    const drained = (async () => {
+        while (inFlight.size > 0) {
+            await Promise.allSettled([...inFlight]);
+        }
+        return true as const;
+    })();
+
+    try {
+        return await Promise.race([drained, timedOut]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+export function isShuttingDown(): boolean {
+    return shuttingDown;
+}
+
+/** Adds a step to the shutdown sequence; steps run one at a time, in registration order. */
+export function onShutdown(name: string, run: () => Promise<void>): void {
+    shutdownSteps.push({ name, run });
+}
+
+/**
+ * Runs every shutdown step and exits. A failing step is logged and does not
+ * stop the ones after it: the database must be closed even if the bot is not.
+ */
+export async function shutdown(reason: string, drainTimeoutMs: number, exitCode = 0): Promise<void> {
+    if (shuttingDown) {
+        return;
+    }
+    shuttingDown = true;
+    lifecycleLogger.info(`Received ${reason}, shutting down...`);
+
+    setTimeout(() => {
+        lifecycleLogger.error('Shutdown did not finish in time; exiting anyway');
+        process.exit(1);
+    }, drainTimeoutMs + FORCED_EXIT_GRACE_MS).unref();
+
+    for (const step of shutdownSteps) {
+        try {
+            lifecycleLogger.debug(`Shutdown step: ${step.name}`);
+            await step.run();
+        } catch (error) {
+            lifecycleLogger.error(`Shutdown step "${step.name}" failed:`, error);
+        }
+    }
+
+    lifecycleLogger.info('Shutdown complete');
+    process.exit(exitCode);
+}
+
+/** Adds a named condition that must hold for the process to report ready. */
+export function addReadinessCheck(name: string, check: () => boolean): void {
+    readinessChecks.set(name, check);
+}
+
+export interface HealthReport {
+    status: 'ok' | 'unavailable';
+    shuttingDown: boolean;
+    inFlight: number;
+    checks: Record<string, boolean>;
+}
+
+/** Mongo connectivity, every registered check, and the shutdown flag. */
+export function getHealthReport(): HealthReport {
+    const checks: Record<string, boolean> = {
+        mongodb: mongoose.connection.readyState === mongoose.ConnectionStates.connected
+    };
+    for (const [name, check] of readinessChecks) {
+        checks[name] = check();
+    }
+    const ready = !shuttingDown && Object.values(checks).every(Boolean);
+
+    return {
+        status: ready ? 'ok' : 'unavailable',
+        shuttingDown,
+        inFlight: inFlight.size,
+        checks
+    };
+}
+
+/**
+ * Liveness (`/healthz`) only says the process can still answer; restarting it
+ * would not fix a database outage. Readiness (`/readyz`) turns 503 while any
+ * check fails or shutdown is in progress, so traffic drains before exit.
+ */
+export function createHealthRouter(): Router {
+    const router = express.Router();
+    router.get('/healthz', (_req, res) => {
+        res.json(getHealthReport());
+    });
+    router.get('/readyz', (_req, res) => {
+        const report = getHealthReport();
+        res.status(report.status === 'ok' ? 200 : 503).json(report);
+    });
+    return router;
+}
@@ -1,36 +1,87 @@
-import { connectToDatabase } from './database'
+import { connectToDatabase, disconnectFromDatabase } from './database'
 import { createLogger } from './utils/logger'
-import { ENABLE_ADMIN_INTERFACE, LOG_LEVEL } from './config'
+import {
+    BOT_MODE,
+    ENABLE_ADMIN_INTERFACE,
+    ENABLE_HEALTH_ENDPOINTS,
+    ENABLE_REMINDERS,
+    ENABLE_RETROSPECTIVES,
+    HEALTH_HOST,
+    HEALTH_PORT,
+    LOG_LEVEL,
+    SHUTDOWN_TIMEOUT_MS,
+    WEBHOOK_HOST,
+    WEBHOOK_PORT,
+    WEBHOOK_UNREGISTER_ON_SHUTDOWN
+} from './config'
 import { journalBot } from './bot'
-import { startAdminServer } from './admin/text-editor'
+import { createWebhookRouter, registerWebhook, unregisterWebhook } from './bot/webhook'
+import { mountAdminServer } from './admin/text-editor'
+import { getHttpApp, startHttpServers, stopHttpServers } from './server'
+import {
+    addReadinessCheck,
+    createHealthRouter,
+    drainInFlight,
+    inFlightCount,
+    onShutdown,
+    shutdown
+} from './lifecycle'
 import { initializeTexts } from './utils/localization'
+import { startReminderScheduler, stopReminderScheduler } from './services/reminder-scheduler'
+import { startRetrospectiveScheduler, stopRetrospectiveScheduler } from './services/retrospective-scheduler'
+import { stopEmbeddingQueue } from './services/embedding-queue'
 
 // Create a logger for the main application
 const mainLogger = createLogger('Main', LOG_LEVEL);
 
+let webhookRegistered = false;
+
 // Main function to start the application
 async function startApp() {
     try {
         // Connect to MongoDB
         await connectToDatabase();
-        
+
         // Initialize localization texts from database
         await initializeTexts();
-        
+
         // Log bot startup
-        mainLogger.info('Starting Journal Bot...');
-        
-        // Start the bot
-        journalBot.start({
-            onStart: () => {
-                mainLogger.info('Journal Bot started successfully!');
-            }
-        });
-        
-        // Start admin server if ENABLE_ADMIN_INTERFACE is set
+        mainLogger.info(`Starting Journal Bot in ${BOT_MODE} mode...`);
+
+        // Public routes go first: when they share a server with the admin
+        // panel, the panel's basic auth would otherwise intercept them.
+        if (ENABLE_HEALTH_ENDPOINTS) {
+            getHttpApp(HEALTH_HOST, HEALTH_PORT).use(createHealthRouter());
+        }
+        if (BOT_MODE === 'webhook') {
+            getHttpApp(WEBHOOK_HOST, WEBHOOK_PORT).use(createWebhookRouter(journalBot));
+        }
+
+        // Mount the admin panel if ENABLE_ADMIN_INTERFACE is set
         if (ENABLE_ADMIN_INTERFACE) {
-            await startAdminServer();
-            mainLogger.info('Admin interface started');
+            mountAdminServer();
+        }
+
+        await startHttpServers();
+
+        // Start the bot
+        if (BOT_MODE === 'webhook') {
+            await registerWebhook(journalBot);
+            webhookRegistered = true;
+            mainLogger.info('Journal Bot started successfully!');
+        } else {
+            journalBot.start({
+                onStart: () => {
+                    mainLogger.info('Journal Bot started successfully!');
+                }
+            });
+        }
+
+        if (ENABLE_REMINDERS) {
+            startReminderScheduler(journalBot.api);
+        }
+        if (ENABLE_RETROSPECTIVES) {
+            startRetrospectiveScheduler(journalBot.api);
         }
     } catch (error) {
         mainLogger.error('Failed to start application:', error);
@@ -38,12 +89,44 @@ async function startApp() {
     }
 }
 
+// Readiness: the bot is receiving updates, through either delivery mode
+addReadinessCheck('bot', () => (BOT_MODE === 'webhook' ? webhookRegistered : journalBot.isRunning()));
+
+// Shutdown: stop taking updates, let the ones in progress finish, then release resources
+onShutdown('stop receiving updates', async () => {
+    if (BOT_MODE === 'polling') {
+        await journalBot.stop();
+        return;
+    }
+    webhookRegistered = false;
+    // Replicas behind a load balancer share one webhook: only the last
+    // one to go away should remove it, so this can be switched off.
+    if (WEBHOOK_UNREGISTER_ON_SHUTDOWN) {
+        await unregisterWebhook(journalBot);
+    }
+});
+onShutdown('stop reminder scheduler', stopReminderScheduler);
+onShutdown('stop retrospective scheduler', stopRetrospectiveScheduler);
+onShutdown('wait for in-flight updates', async () => {
+    if (!(await drainInFlight(SHUTDOWN_TIMEOUT_MS))) {
+        mainLogger.warn(`Gave up waiting for ${inFlightCount()} in-flight update(s) after ${SHUTDOWN_TIMEOUT_MS}ms`);
+    }
+});
+onShutdown('stop embedding queue', stopEmbeddingQueue);
+onShutdown('stop HTTP servers', stopHttpServers);
+onShutdown('disconnect from MongoDB', disconnectFromDatabase);
+
 // Start the application
 startApp();
 
-// Handle errors
+process.once('SIGINT', () => void shutdown('SIGINT', SHUTDOWN_TIMEOUT_MS));
+process.once('SIGTERM', () => void shutdown('SIGTERM', SHUTDOWN_TIMEOUT_MS));
+
+// Handle errors: after an uncaught exception the process state is unknown,
+// so finish what can be finished and let the orchestrator restart it
 process.on('uncaughtException', (error) => {
     mainLogger.error('Uncaught exception:', error);
+    void shutdown('uncaughtException', SHUTDOWN_TIMEOUT_MS, 1);
 });
 
 process.on('unhandledRejection', (reason, promise) => {
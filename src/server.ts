@@ -0,0 +1,60 @@
+import express, { Express } from 'express';
+import { Server } from 'http';
+import { LOG_LEVEL } from './config';
+import { createLogger } from './utils/logger';
+
+const serverLogger = createLogger('HttpServer', LOG_LEVEL);
+
+interface HttpListener {
+    host: string;
+    port: number;
+    app: Express;
+    server?: Server;
+}
+
+const listeners = new Map<string, HttpListener>();
+
+/**
+ * Returns the Express app for an address, creating it on first use.
+ * Features configured with the same host and port share one server, so the
+ * webhook can live next to the admin panel or run on its own.
+ */
+export function getHttpApp(host: string, port: number): Express {
+    const address = `${host}:${port}`;
+    let listener = listeners.get(address);
+    if (!listener) {
+        listener = { host, port, app: express() };
+        listeners.set(address, listener);
+    }
+    return listener.app;
+}
+
+/** Starts every server that has been requested through `getHttpApp`. */
+export async function startHttpServers(): Promise<void> {
+    for (const listener of listeners.values()) {
+        if (listener.server) {
+            continue;
+        }
+        listener.server = await new Promise<Server>((resolve, reject) => {
+            const server = listener.app.listen(listener.port, listener.host, () => resolve(server));
+            server.once('error', reject);
+        });
+        serverLogger.info(`HTTP server listening on http://${listener.host}:${listener.port}`);
+    }
+}
+
+/** Stops accepting connections and waits for open requests to finish. */
+export async function stopHttpServers(): Promise<void> {
+    await Promise.all([...listeners.values()].map(async listener => {
+        const server = listener.server;
+        if (!server) {
+            return;
+        }
+        listener.server = undefined;
+        await new Promise<void>((resolve, reject) => {
+            server.close(error => (error ? reject(error) : resolve()));
+            // Keep-alive sockets would otherwise hold close() open until they time out.
+            server.closeIdleConnections();
+        });
+    }));
+}
@@ -0,0 +1,77 @@
+import { Types } from 'mongoose';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../config', () => ({
+    LOG_LEVEL: 0
+}));
+
+vi.mock('../database', () => ({
+    deleteBotSession: vi.fn(),
+    deleteConversationsByUser: vi.fn(),
+    deleteMessagesByUser: vi.fn(),
+    deleteReminderJobsByUser: vi.fn(),
+    deleteUser: vi.fn(),
+    deleteUserFollowUpQuestions: vi.fn(),
+    deleteUserJournalEntries: vi.fn(),
+    deleteUserRetrospectives: vi.fn()
+}));
+
+import {
+    deleteBotSession,
+    deleteConversationsByUser,
+    deleteMessagesByUser,
+    deleteReminderJobsByUser,
+    deleteUser,
+    deleteUserFollowUpQuestions,
+    deleteUserJournalEntries,
+    deleteUserRetrospectives,
+    IUser
+} from '../database';
+import { deleteUserAccount } from './account-deletion';
+
+const userId = new Types.ObjectId();
+const user = { _id: userId, telegramId: 42 } as unknown as IUser;
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(deleteReminderJobsByUser).mockResolvedValue(3);
+    vi.mocked(deleteUserJournalEntries).mockResolvedValue(5);
+    vi.mocked(deleteMessagesByUser).mockResolvedValue(12);
+    vi.mocked(deleteConversationsByUser).mockResolvedValue(2);
+    vi.mocked(deleteUserRetrospectives).mockResolvedValue(4);
+    vi.mocked(deleteUserFollowUpQuestions).mockResolvedValue(6);
+});
+
+describe('deleteUserAccount', () => {
+    it('removes everything the user owns and reports the counts', async () => {
+        expect(await deleteUserAccount(user)).toEqual({
+            journalEntries: 5,
+            messages: 12,
+            conversations: 2,
+            reminderJobs: 3,
+            retrospectives: 4,
+            followUpQuestions: 6
+        });
+
+        for (const deleteByUser of [deleteReminderJobsByUser, deleteUserJournalEntries, deleteMessagesByUser, deleteConversationsByUser, deleteUserRetrospectives, deleteUserFollowUpQuestions, deleteUser]) {
+            expect(deleteByUser).toHaveBeenCalledWith(userId);
+        }
+        expect(deleteBotSession).toHaveBeenCalledWith('42');
+    });
+
+    it('deletes the user record last, so a failed run can be repeated', async () => {
+        await deleteUserAccount(user);
+
+        const userDeletedAt = vi.mocked(deleteUser).mock.invocationCallOrder[0];
+        for (const other of [deleteReminderJobsByUser, deleteUserJournalEntries, deleteMessagesByUser, deleteConversationsByUser, deleteUserRetrospectives, deleteUserFollowUpQuestions, deleteBotSession]) {
+            expect(vi.mocked(other).mock.invocationCallOrder[0]).toBeLessThan(userDeletedAt);
+        }
+    });
+
+    it('keeps the user when removing their data fails', async () => {
+        vi.mocked(deleteMessagesByUser).mockRejectedValue(new Error('connection lost'));
+
+        await expect(deleteUserAccount(user)).rejects.toThrow('connection lost');
+        expect(deleteUser).not.toHaveBeenCalled();
+    });
+});
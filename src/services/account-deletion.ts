@@ -0,0 +1,58 @@
+import { Types } from 'mongoose';
+import {
+    deleteBotSession,
+    deleteConversationsByUser,
+    deleteMessagesByUser,
+    deleteReminderJobsByUser,
+    deleteUser,
+    deleteUserFollowUpQuestions,
+    deleteUserJournalEntries,
+    deleteUserRetrospectives,
+    IUser
+} from '../database';
+import { LOG_LEVEL } from '../config';
+import { createLogger } from '../utils/logger';
+
+const deletionLogger = createLogger('AccountDeletion', LOG_LEVEL);
+
+export interface AccountDeletionResult {
+    journalEntries: number;
+    messages: number;
+    conversations: number;
+    reminderJobs: number;
+    retrospectives: number;
+    followUpQuestions: number;
+}
+
+/**
+ * Erases the user and everything they own: entries (with their embeddings),
+ * messages, conversations, follow-up questions, reminder jobs, retrospectives,
+ * and the bot session. The user record goes last, so a deletion that fails
+ * halfway can simply be run again.
+ *
+ * The bot session is keyed by chat id, which equals the user id in the private
+ * chats the bot serves. A handler deleting the account of the user it is
+ * serving must also set `ctx.session = null`, or grammY writes it back.
+ */
+export async function deleteUserAccount(user: IUser): Promise<AccountDeletionResult> {
+    const userId = user._id as unknown as Types.ObjectId;
+
+    // Reminders first, so none can go out while the rest is being removed.
+    const reminderJobs = await deleteReminderJobsByUser(userId);
+    const journalEntries = await deleteUserJournalEntries(userId);
+    const messages = await deleteMessagesByUser(userId);
+    const conversations = await deleteConversationsByUser(userId);
+    const retrospectives = await deleteUserRetrospectives(userId);
+    const followUpQuestions = await deleteUserFollowUpQuestions(userId);
+    await deleteBotSession(String(user.telegramId));
+    await deleteUser(userId);
+
+    const result = { journalEntries, messages, conversations, reminderJobs, retrospectives, followUpQuestions };
+    // Counts only: the log must not keep what the user asked to be forgotten.
+    deletionLogger.info(
+        `Deleted account ${userId}: ${journalEntries} entries, ${messages} messages, ` +
+            `${conversations} conversations, ${reminderJobs} reminder jobs, ${retrospectives} retrospectives, ` +
+            `${followUpQuestions} follow-up questions`
+    );
+    return result;
+}
@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../config', () => ({
+    LOG_LEVEL: 0
+}));
+
+vi.mock('../database', () => ({
+    appendConversationTurn: vi.fn(),
+    createConversation: vi.fn(),
+    endConversation: vi.fn(),
+    endAllUserConversations: vi.fn(),
+    getConversationById: vi.fn(),
+    updateConversationSummary: vi.fn()
+}));
+
+vi.mock('../ai/agent', () => ({
+    summarizeChatTurns: vi.fn()
+}));
+
+import { summarizeChatTurns } from '../ai/agent';
+import {
+    appendConversationTurn,
+    getConversationById,
+    IConversation,
+    IUser,
+    updateConversationSummary
+} from '../database';
+import { loadChatHistory, recentTurns, recordChatTurn } from './chat-memory';
+
+const conversationId = '64b7f0c2a1b2c3d4e5f60718';
+const user = { telegramId: 42 } as IUser;
+
+function turns(count: number) {
+    return Array.from({ length: count }, (_, index) => ({
+        question: `question ${index}`,
+        answer: `answer ${index}`,
+        createdAt: new Date(0)
+    }));
+}
+
+function conversation(fields: Partial<IConversation>): IConversation {
+    return { isActive: true, turns: [], summarizedTurns: 0, droppedTurns: 0, ...fields } as unknown as IConversation;
+}
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe('recentTurns', () => {
+    it('keeps at most the last four turns', () => {
+        expect(recentTurns([1, 2, 3, 4, 5, 6], 0)).toEqual([3, 4, 5, 6]);
+    });
+
+    it('leaves out the turns already in the summary', () => {
+        expect(recentTurns([1, 2, 3, 4, 5], 3)).toEqual([4, 5]);
+    });
+});
+
+describe('loadChatHistory', () => {
+    it('has no history for an ended conversation', async () => {
+        vi.mocked(getConversationById).mockResolvedValue(conversation({ isActive: false, turns: turns(2) }));
+
+        await expect(loadChatHistory(conversationId)).resolves.toEqual({ turns: [] });
+    });
+
+    it('returns the summary with the recent turns', async () => {
+        vi.mocked(getConversationById).mockResolvedValue(
+            conversation({ summary: 'Earlier: Riga.', turns: turns(6), summarizedTurns: 2 })
+        );
+
+        const history = await loadChatHistory(conversationId);
+
+        expect(history.summary).toBe('Earlier: Riga.');
+        expect(history.turns.map(turn => turn.question)).toEqual(['question 2', 'question 3', 'question 4', 'question 5']);
+    });
+
+    it('reads the recent turns past the dropped ones', async () => {
+        vi.mocked(getConversationById).mockResolvedValue(
+            conversation({ summary: 'Earlier: Riga.', turns: turns(5), summarizedTurns: 4, droppedTurns: 3 })
+        );
+
+        const history = await loadChatHistory(conversationId);
+
+        expect(history.turns.map(turn => turn.question)).toEqual(['question 1', 'question 2', 'question 3', 'question 4']);
+    });
+});
+
+describe('recordChatTurn', () => {
+    it('does not summarize while every turn fits the window', async () => {
+        vi.mocked(appendConversationTurn).mockResolvedValue(conversation({ turns: turns(4) }));
+
+        await recordChatTurn(conversationId, 'question 3', 'answer 3', user);
+
+        expect(summarizeChatTurns).not.toHaveBeenCalled();
+    });
+
+    it('folds the turns leaving the window into the summary', async () => {
+        vi.mocked(appendConversationTurn).mockResolvedValue(
+            conversation({ summary: 'Earlier: Riga.', turns: turns(6), summarizedTurns: 1 })
+        );
+        vi.mocked(summarizeChatTurns).mockResolvedValue('Riga, then work.');
+
+        await recordChatTurn(conversationId, 'question 5', 'answer 5', user);
+
+        expect(summarizeChatTurns).toHaveBeenCalledWith('Earlier: Riga.', turns(6).slice(1, 2), user);
+        expect(updateConversationSummary).toHaveBeenCalledWith(expect.anything(), 'Riga, then work.', 2);
+    });
+
+    it('counts the turns already dropped from the conversation', async () => {
+        vi.mocked(appendConversationTurn).mockResolvedValue(
+            conversation({ summary: 'Earlier: Riga.', turns: turns(5), summarizedTurns: 3, droppedTurns: 3 })
+        );
+        vi.mocked(summarizeChatTurns).mockResolvedValue('Riga, then work.');
+
+        await recordChatTurn(conversationId, 'question 4', 'answer 4', user);
+
+        expect(summarizeChatTurns).toHaveBeenCalledWith('Earlier: Riga.', turns(5).slice(0, 1), user);
+        expect(updateConversationSummary).toHaveBeenCalledWith(expect.anything(), 'Riga, then work.', 4);
+    });
+
+    it('keeps the turn when the summary fails', async () => {
+        vi.mocked(appendConversationTurn).mockResolvedValue(conversation({ turns: turns(5) }));
+        vi.mocked(summarizeChatTurns).mockRejectedValue(new Error('rate limited'));
+
+        await expect(recordChatTurn(conversationId, 'question 4', 'answer 4', user)).resolves.toBeUndefined();
+        expect(updateConversationSummary).not.toHaveBeenCalled();
+    });
+});
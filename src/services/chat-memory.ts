@@ -0,0 +1,94 @@
+import { Types } from 'mongoose';
+import { ChatHistory, summarizeChatTurns } from '../ai/agent';
+import {
+    appendConversationTurn,
+    createConversation,
+    endConversation,
+    endAllUserConversations,
+    getConversationById,
+    IUser,
+    updateConversationSummary
+} from '../database';
+import { LOG_LEVEL } from '../config';
+import { createLogger } from '../utils/logger';
+
+const chatMemoryLogger = createLogger('ChatMemory', LOG_LEVEL);
+
+// Turns the agent sees verbatim; older ones reach it only through the summary.
+export const MAX_RECENT_TURNS = 4;
+
+/** Starts a fresh chat conversation for the user, ending any left open. */
+export async function startChatConversation(userId: Types.ObjectId): Promise<string> {
+    await endAllUserConversations(userId);
+    const conversation = await createConversation(userId);
+    return String(conversation._id);
+}
+
+export async function endChatConversation(conversationId: string): Promise<void> {
+    if (Types.ObjectId.isValid(conversationId)) {
+        await endConversation(new Types.ObjectId(conversationId));
+    }
+}
+
+/** The summary and recent turns of a conversation; an unknown or ended one has no history. */
+export async function loadChatHistory(conversationId: string): Promise<ChatHistory> {
+    const conversation = Types.ObjectId.isValid(conversationId)
+        ? await getConversationById(new Types.ObjectId(conversationId))
+        : null;
+    if (!conversation || !conversation.isActive) {
+        return { turns: [] };
+    }
+    return {
+        summary: conversation.summary,
+        turns: recentTurns(conversation.turns, conversation.summarizedTurns - conversation.droppedTurns)
+    };
+}
+
+/**
+ * The turns after the first `summarizedTurns`, which the summary covers, at
+ * most MAX_RECENT_TURNS. When
+ * summarizing has fallen behind, the turns in between are left out until it
+ * catches up, so the prompt stays bounded either way.
+ */
+export function recentTurns<T>(turns: T[], summarizedTurns: number): T[] {
+    return turns.slice(Math.max(summarizedTurns, turns.length - MAX_RECENT_TURNS));
+}
+
+/**
+ * Stores a finished turn and folds the turns leaving the recent window into
+ * the summary. The answer has already been sent, so failures are only logged;
+ * the next turn tries the summary again.
+ */
+export async function recordChatTurn(
+    conversationId: string,
+    question: string,
+    answer: string,
+    user: IUser
+): Promise<void> {
+    if (!Types.ObjectId.isValid(conversationId)) {
+        return;
+    }
+    const id = new Types.ObjectId(conversationId);
+
+    try {
+        const conversation = await appendConversationTurn(id, question, answer);
+        if (!conversation) {
+            return;
+        }
+
+        // Turn numbers count the dropped turns too; `turns` starts at droppedTurns.
+        const { droppedTurns, summarizedTurns } = conversation;
+        const summarizeUpTo = droppedTurns + conversation.turns.length - MAX_RECENT_TURNS;
+        if (summarizeUpTo <= summarizedTurns) {
+            return;
+        }
+        const summary = await summarizeChatTurns(
+            conversation.summary,
+            conversation.turns.slice(summarizedTurns - droppedTurns, summarizeUpTo - droppedTurns),
+            user
+        );
+        await updateConversationSummary(id, summary, summarizeUpTo);
+    } catch (error) {
+        chatMemoryLogger.error(`Failed to record a chat turn for user ${user.telegramId}:`, error);
+    }
+}
@@ -0,0 +1,60 @@
+import { Types } from 'mongoose';
+import { embedText } from '../ai/embeddings';
+import { LOG_LEVEL } from '../config';
+import { getJournalEntryById, updateJournalEntryEmbedding } from '../database';
+import { extractFullText } from '../utils/entry-text';
+import { createLogger } from '../utils/logger';
+
+const queueLogger = createLogger('EmbeddingQueue', LOG_LEVEL);
+
+// Same pacing as the backfill script, to stay clear of the embeddings rate limit.
+const EMBEDDING_DELAY_MS = 100;
+
+const pending: Types.ObjectId[] = [];
+let worker: Promise<void> | undefined;
+let stopped = false;
+
+/**
+ * Embeds entries in the background, one at a time, so they become searchable
+ * through retrieval. The queue is in memory: entries left over at shutdown keep
+ * no embedding until `npm run backfill-embeddings` picks them up.
+ */
+export function queueEntryEmbeddings(entryIds: Types.ObjectId[]): void {
+    if (stopped) {
+        return;
+    }
+    // The worker reads the entry when its turn comes, so one queued embedding
+    // already covers every edit made before then.
+    pending.push(...entryIds.filter(entryId => !pending.some(queued => queued.equals(entryId))));
+    worker ??= processQueue().finally(() => {
+        worker = undefined;
+    });
+}
+
+/** Drops what has not started yet and waits for the entry being embedded right now. */
+export async function stopEmbeddingQueue(): Promise<void> {
+    stopped = true;
+    if (pending.length > 0) {
+        queueLogger.warn(`Dropping ${pending.length} queued embedding(s); run the backfill script to finish them`);
+        pending.length = 0;
+    }
+    await worker;
+}
+
+async function processQueue(): Promise<void> {
+    let entryId: Types.ObjectId | undefined;
+    while ((entryId = pending.shift())) {
+        try {
+            const entry = await getJournalEntryById(entryId);
+            if (entry) {
+                const embedding = await embedText(entry.fullText || extractFullText(entry));
+                await updateJournalEntryEmbedding(entryId, embedding);
+            }
+        } catch (error) {
+            queueLogger.error(`Failed to embed journal entry ${entryId}:`, error);
+        }
+        if (pending.length > 0) {
+            await new Promise(resolve => setTimeout(resolve, EMBEDDING_DELAY_MS));
+        }
+    }
+}
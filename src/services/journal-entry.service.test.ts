@@ -0,0 +1,96 @@
+import { Types } from 'mongoose';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../database', () => ({
+    JournalEntryStatus: { IN_PROGRESS: 'in_progress', COMPLETED: 'completed', DELETED: 'deleted' },
+    MessageType: { TEXT: 'text', VOICE: 'voice', IMAGE: 'image', VIDEO: 'video' },
+    addMessageToJournalEntry: vi.fn(),
+    getJournalEntryById: vi.fn(),
+    markConversationMessagesDeleted: vi.fn(),
+    markJournalEntryDeleted: vi.fn(),
+    restoreConversationMessages: vi.fn(),
+    restoreDeletedJournalEntry: vi.fn(),
+    updateJournalEntryFullText: vi.fn()
+}));
+
+vi.mock('./embedding-queue', () => ({
+    queueEntryEmbeddings: vi.fn()
+}));
+
+import {
+    getJournalEntryById,
+    IJournalEntry,
+    markConversationMessagesDeleted,
+    markJournalEntryDeleted,
+    restoreConversationMessages,
+    restoreDeletedJournalEntry,
+    updateJournalEntryFullText
+} from '../database';
+import { queueEntryEmbeddings } from './embedding-queue';
+import { appendMessageToEntry, deleteJournalEntry, restoreJournalEntry } from './journal-entry.service';
+
+const entryId = new Types.ObjectId();
+
+function entry(status: string): IJournalEntry {
+    return {
+        _id: entryId,
+        status,
+        messages: [
+            { type: 'text', text: 'Morning run.' },
+            { type: 'voice', transcription: 'Legs were heavy.' }
+        ]
+    } as unknown as IJournalEntry;
+}
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe('appendMessageToEntry', () => {
+    it('refreshes the full text and re-embeds a completed entry', async () => {
+        vi.mocked(getJournalEntryById).mockResolvedValue(entry('completed'));
+
+        await appendMessageToEntry(entryId, new Types.ObjectId());
+
+        expect(updateJournalEntryFullText).toHaveBeenCalledWith(entryId, 'Morning run.\n\nLegs were heavy.');
+        expect(queueEntryEmbeddings).toHaveBeenCalledWith([entryId]);
+    });
+
+    it('leaves embedding an entry in progress to when it is finished', async () => {
+        vi.mocked(getJournalEntryById).mockResolvedValue(entry('in_progress'));
+
+        await appendMessageToEntry(entryId, new Types.ObjectId());
+
+        expect(updateJournalEntryFullText).toHaveBeenCalled();
+        expect(queueEntryEmbeddings).not.toHaveBeenCalled();
+    });
+});
+
+describe('deleteJournalEntry', () => {
+    it('marks the entry and its messages with the same deletion time', async () => {
+        vi.mocked(markJournalEntryDeleted).mockResolvedValue(entry('deleted'));
+
+        expect(await deleteJournalEntry(entryId)).toBe(true);
+
+        const deletedAt = vi.mocked(markJournalEntryDeleted).mock.calls[0][1];
+        expect(markConversationMessagesDeleted).toHaveBeenCalledWith(entryId, deletedAt);
+    });
+
+    it('leaves the messages alone when the entry was not completed', async () => {
+        vi.mocked(markJournalEntryDeleted).mockResolvedValue(null);
+
+        expect(await deleteJournalEntry(entryId)).toBe(false);
+        expect(markConversationMessagesDeleted).not.toHaveBeenCalled();
+    });
+});
+
+describe('restoreJournalEntry', () => {
+    it('restores the messages and then the entry', async () => {
+        vi.mocked(restoreDeletedJournalEntry).mockResolvedValue(entry('completed'));
+
+        expect(await restoreJournalEntry(entryId)).toBe(true);
+        expect(vi.mocked(restoreConversationMessages).mock.invocationCallOrder[0]).toBeLessThan(
+            vi.mocked(restoreDeletedJournalEntry).mock.invocationCallOrder[0]
+        );
+    });
+});
@@ -2,13 +2,21 @@ import { Types } from 'mongoose';
 import {
     addMessageToJournalEntry,
     getJournalEntryById,
+    JournalEntryStatus,
+    markConversationMessagesDeleted,
+    markJournalEntryDeleted,
+    restoreConversationMessages,
+    restoreDeletedJournalEntry,
     updateJournalEntryFullText
 } from '../database';
 import { extractFullText } from '../utils/entry-text';
+import { queueEntryEmbeddings } from './embedding-queue';
 
 /**
  * Links a saved message to its journal entry and refreshes the entry's
- * denormalized full text used for search and AI context.
+ * denormalized full text used for search and AI context. Calling it again for
+ * a message the entry already holds only refreshes, e.g. after the message
+ * was corrected.
  */
 export async function appendMessageToEntry(
     entryId: Types.ObjectId,
@@ -18,5 +26,33 @@ export async function appendMessageToEntry(
     const updatedEntry = await getJournalEntryById(entryId);
     if (updatedEntry) {
         await updateJournalEntryFullText(entryId, extractFullText(updatedEntry));
+        // A completed entry is already searchable, so its embedding must follow the
+        // new text. Entries in progress are embedded once, when they are finished.
+        if (updatedEntry.status === JournalEntryStatus.COMPLETED) {
+            queueEntryEmbeddings([entryId]);
+        }
     }
 }
+
+/**
+ * Soft-deletes a completed entry together with its messages (an entry's
+ * messages use the entry id as their conversation). Returns false if the
+ * entry was not completed.
+ */
+export async function deleteJournalEntry(entryId: Types.ObjectId): Promise<boolean> {
+    const deletedAt = new Date();
+    const entry = await markJournalEntryDeleted(entryId, deletedAt);
+    if (!entry) {
+        return false;
+    }
+    await markConversationMessagesDeleted(entryId, deletedAt);
+    return true;
+}
+
+/** Undoes `deleteJournalEntry`; returns false if the entry is not (or no longer) deleted. */
+export async function restoreJournalEntry(entryId: Types.ObjectId): Promise<boolean> {
+    // Messages first: an entry restored without them would briefly show up empty.
+    await restoreConversationMessages(entryId);
+    const entry = await restoreDeletedJournalEntry(entryId);
+    return entry !== null;
+}
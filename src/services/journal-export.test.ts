@@ -0,0 +1,135 @@
+import { existsSync, promises as fs } from 'fs';
+import { Types } from 'mongoose';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../config', () => ({
+    LOG_LEVEL: 0
+}));
+
+vi.mock('../database', () => ({
+    MessageType: { TEXT: 'text', VOICE: 'voice', IMAGE: 'image', VIDEO: 'video', AUDIO: 'audio' },
+    countUserJournalEntries: vi.fn(),
+    streamUserJournalEntries: vi.fn()
+}));
+
+import { countUserJournalEntries, IJournalEntry, IUser, streamUserJournalEntries } from '../database';
+import { Language } from '../utils/localization';
+import {
+    exportLabels,
+    renderEntryHtml,
+    renderEntryMarkdown,
+    toExportedEntry,
+    withJournalExport
+} from './journal-export';
+
+const user = {
+    _id: new Types.ObjectId(),
+    telegramId: 42,
+    firstName: 'Ada',
+    language: Language.ENGLISH,
+    timezone: 'Europe/Berlin'
+} as unknown as IUser;
+
+const entry = {
+    _id: new Types.ObjectId('65f000000000000000a1b2c3'),
+    createdAt: new Date('2026-07-17T19:30:00.000Z'),
+    updatedAt: new Date('2026-07-17T19:45:00.000Z'),
+    messages: [
+        { type: 'text', text: 'Walked <home> by the river.', createdAt: new Date('2026-07-17T19:30:00.000Z') },
+        { type: 'voice', transcription: 'Felt calm.', createdAt: new Date('2026-07-17T19:31:00.000Z') }
+    ],
+    analysis: 'A quiet, grounded evening.',
+    aiQuestions: ['What made it calm?'],
+    aiInsights: '• Nature helps'
+} as unknown as IJournalEntry;
+
+const labels = exportLabels(Language.ENGLISH);
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(streamUserJournalEntries).mockImplementation(async function* () {
+        yield entry;
+    });
+});
+
+describe('renderEntryMarkdown', () => {
+    it('renders messages, transcriptions, and AI output in local time', () => {
+        expect(renderEntryMarkdown(entry, labels, 'Europe/Berlin')).toBe(
+            [
+                '# 2026-07-17 21:30',
+                '',
+                'Walked <home> by the river.',
+                '',
+                '**Voice:** Felt calm.',
+                '',
+                '## Analysis',
+                '',
+                'A quiet, grounded evening.',
+                '',
+                '## Insights',
+                '',
+                '• Nature helps',
+                '',
+                '## Questions for reflection',
+                '',
+                '- What made it calm?',
+                ''
+            ].join('\n')
+        );
+    });
+
+    it('uses the user language for headings', () => {
+        expect(renderEntryMarkdown(entry, exportLabels(Language.RUSSIAN), 'UTC')).toContain('## Анализ');
+    });
+});
+
+describe('renderEntryHtml', () => {
+    it('escapes user content', () => {
+        const html = renderEntryHtml(entry, labels, 'Europe/Berlin');
+        expect(html).toContain('<p>Walked &lt;home&gt; by the river.</p>');
+        expect(html).toContain('<p><b>Voice:</b> Felt calm.</p>');
+    });
+});
+
+describe('toExportedEntry', () => {
+    it('keeps timestamps in UTC for machines', () => {
+        expect(toExportedEntry(entry)).toMatchObject({
+            id: '65f000000000000000a1b2c3',
+            createdAt: '2026-07-17T19:30:00.000Z',
+            messages: [{ type: 'text' }, { type: 'voice', transcription: 'Felt calm.' }],
+            aiQuestions: ['What made it calm?']
+        });
+    });
+});
+
+describe('withJournalExport', () => {
+    it('returns null without building anything when there are no entries', async () => {
+        vi.mocked(countUserJournalEntries).mockResolvedValue(0);
+        const send = vi.fn();
+
+        expect(await withJournalExport(user, send)).toBeNull();
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    it('hands over a zip with every format and deletes it afterwards', async () => {
+        vi.mocked(countUserJournalEntries).mockResolvedValue(1);
+        let exportedPath = '';
+
+        await withJournalExport(user, async file => {
+            exportedPath = file.path;
+            expect(file.fileName).toMatch(/^journal-\d{4}-\d{2}-\d{2}\.zip$/);
+            expect(file.entryCount).toBe(1);
+
+            const archive = await fs.readFile(file.path);
+            expect(file.size).toBe(archive.length);
+            expect(archive.subarray(0, 4).toString('binary')).toBe('PK\x03\x04');
+            const names = archive.toString('latin1');
+            expect(names).toContain('entries/2026-07-17_2130_a1b2c3.md');
+            expect(names).toContain('journal.json');
+            expect(names).toContain('journal.html');
+        });
+
+        expect(exportedPath).not.toBe('');
+        expect(existsSync(exportedPath)).toBe(false);
+    });
+});
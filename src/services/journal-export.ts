@@ -0,0 +1,289 @@
+import { createWriteStream, promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Types } from 'mongoose';
+import { ZipFile } from 'yazl';
+import {
+    countUserJournalEntries,
+    IJournalEntry,
+    IMessage,
+    IMessageFileMetadata,
+    IUser,
+    MessageType,
+    streamUserJournalEntries
+} from '../database';
+import { LOG_LEVEL } from '../config';
+import { getMessageContent } from '../utils/entry-text';
+import { escapeHtml } from '../utils/html';
+import { Language, getText } from '../utils/localization';
+import { createLogger } from '../utils/logger';
+import { formatZonedDateTime, userTimezone, zonedDateKey } from '../utils/timezone';
+
+const exportLogger = createLogger('JournalExport', LOG_LEVEL);
+
+const TEMP_DIR = path.join(os.tmpdir(), 'journal-bot');
+
+/** Bumped whenever the shape of journal.json changes incompatibly. */
+export const EXPORT_FORMAT_VERSION = 1;
+
+export interface ExportedMessage {
+    type: MessageType;
+    text?: string;
+    transcription?: string;
+    imageDescription?: string;
+    fileMetadata?: IMessageFileMetadata;
+    createdAt: string;
+}
+
+export interface ExportedEntry {
+    id: string;
+    title?: string;
+    createdAt: string;
+    updatedAt: string;
+    messages: ExportedMessage[];
+    analysis?: string;
+    aiQuestions: string[];
+    aiInsights?: string;
+}
+
+export interface JournalExportFile {
+    path: string;
+    fileName: string;
+    entryCount: number;
+    size: number;
+}
+
+/** Headings used inside the exported files, in the user's language. */
+export interface ExportLabels {
+    title: string;
+    analysis: string;
+    insights: string;
+    questions: string;
+    voice: string;
+    video: string;
+    audio: string;
+    photo: string;
+}
+
+export function exportLabels(language: Language): ExportLabels {
+    return {
+        title: getText('exportTitle', language),
+        analysis: getText('exportAnalysis', language),
+        insights: getText('exportInsights', language),
+        questions: getText('exportQuestions', language),
+        voice: getText('exportVoice', language),
+        video: getText('exportVideo', language),
+        audio: getText('exportAudio', language),
+        photo: getText('exportPhoto', language)
+    };
+}
+
+/**
+ * Builds a zip of the user's completed entries (one Markdown file per entry,
+ * journal.json, and a single journal.html for reading or printing), hands it
+ * to `send`, and always removes the temp file afterwards. Returns null without
+ * calling `send` when there is nothing to export.
+ */
+export async function withJournalExport<T>(
+    user: IUser,
+    send: (file: JournalExportFile) => Promise<T>
+): Promise<T | null> {
+    const userId = user._id as unknown as Types.ObjectId;
+    const entryCount = await countUserJournalEntries(userId);
+    if (entryCount === 0) {
+        return null;
+    }
+
+    await fs.mkdir(TEMP_DIR, { recursive: true });
+    const fileName = `journal-${zonedDateKey(new Date(), userTimezone(user))}.zip`;
+    const filePath = path.join(TEMP_DIR, `${Date.now()}_${user.telegramId}_${fileName}`);
+    try {
+        await writeArchive(user, filePath);
+        const { size } = await fs.stat(filePath);
+        return await send({ path: filePath, fileName, entryCount, size });
+    } finally {
+        await fs.unlink(filePath).catch(error =>
+            exportLogger.warn(`Failed to delete temp file ${filePath}:`, error)
+        );
+    }
+}
+
+/**
+ * Streams the archive to disk. Entries are read from a cursor, once per output
+ * format, so memory use does not grow with the size of the journal.
+ */
+async function writeArchive(user: IUser, filePath: string): Promise<void> {
+    const zip = new ZipFile();
+    const output = zip.outputStream as Readable;
+    // A failing lazy entry stream is reported on the zip file, not on its output.
+    zip.on('error', error => output.destroy(error));
+    const written = pipeline(output, createWriteStream(filePath));
+
+    try {
+        const userId = user._id as unknown as Types.ObjectId;
+        const timezone = userTimezone(user);
+        const labels = exportLabels(user.language || Language.ENGLISH);
+
+        for await (const entry of streamUserJournalEntries(userId)) {
+            zip.addBuffer(
+                Buffer.from(renderEntryMarkdown(entry, labels, timezone)),
+                `entries/${entryFileName(entry, timezone)}`,
+                { mtime: new Date(entry.createdAt) }
+            );
+        }
+        zip.addReadStreamLazy('journal.json', callback =>
+            callback(null, Readable.from(renderJson(user, userId), { objectMode: false }))
+        );
+        zip.addReadStreamLazy('journal.html', callback =>
+            callback(null, Readable.from(renderHtml(user, userId, labels, timezone), { objectMode: false }))
+        );
+    } catch (error) {
+        output.destroy(error as Error);
+        await written.catch(() => undefined);
+        throw error;
+    }
+
+    zip.end();
+    await written;
+}
+
+/** e.g. `2026-07-17_2130_a1b2c3.md`: sorts chronologically and stays unique. */
+function entryFileName(entry: IJournalEntry, timezone: string): string {
+    const timestamp = formatZonedDateTime(new Date(entry.createdAt), timezone).replace(' ', '_').replace(':', '');
+    return `${timestamp}_${String(entry._id).slice(-6)}.md`;
+}
+
+export function toExportedEntry(entry: IJournalEntry): ExportedEntry {
+    return {
+        id: String(entry._id),
+        title: entry.title,
+        createdAt: new Date(entry.createdAt).toISOString(),
+        updatedAt: new Date(entry.updatedAt).toISOString(),
+        messages: (entry.messages as IMessage[]).map(message => ({
+            type: message.type,
+            text: message.text,
+            transcription: message.transcription,
+            imageDescription: message.imageDescription,
+            fileMetadata: message.fileMetadata,
+            createdAt: new Date(message.createdAt).toISOString()
+        })),
+        analysis: entry.analysis,
+        aiQuestions: entry.aiQuestions ?? [],
+        aiInsights: entry.aiInsights
+    };
+}
+
+function messageLabel(message: IMessage, labels: ExportLabels): string | null {
+    if (message.type === MessageType.VOICE) {
+        return labels.voice;
+    }
+    if (message.type === MessageType.VIDEO) {
+        return labels.video;
+    }
+    if (message.type === MessageType.AUDIO) {
+        return labels.audio;
+    }
+    if (message.type === MessageType.IMAGE) {
+        return labels.photo;
+    }
+    return null;
+}
+
+export function renderEntryMarkdown(entry: IJournalEntry, labels: ExportLabels, timezone: string): string {
+    const date = formatZonedDateTime(new Date(entry.createdAt), timezone);
+    const lines = [`# ${entry.title ? `${entry.title} (${date})` : date}`, ''];
+
+    for (const message of entry.messages as IMessage[]) {
+        const content = getMessageContent(message);
+        if (!content) {
+            continue;
+        }
+        const label = messageLabel(message, labels);
+        lines.push(label ? `**${label}:** ${content}` : content, '');
+    }
+
+    if (entry.analysis) {
+        lines.push(`## ${labels.analysis}`, '', entry.analysis, '');
+    }
+    if (entry.aiInsights) {
+        lines.push(`## ${labels.insights}`, '', entry.aiInsights, '');
+    }
+    if (entry.aiQuestions?.length) {
+        lines.push(`## ${labels.questions}`, '', ...entry.aiQuestions.map(question => `- ${question}`), '');
+    }
+
+    return lines.join('\n');
+}
+
+// The entries array is streamed, so the envelope around it is written by hand.
+async function* renderJson(user: IUser, userId: Types.ObjectId): AsyncGenerator<Buffer> {
+    const envelope = JSON.stringify({
+        formatVersion: EXPORT_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        user: {
+            name: user.name || user.firstName,
+            language: user.language,
+            timezone: userTimezone(user)
+        }
+    });
+    yield Buffer.from(`${envelope.slice(0, -1)},"entries":[\n`);
+
+    let first = true;
+    for await (const entry of streamUserJournalEntries(userId)) {
+        yield Buffer.from(`${first ? '' : ',\n'}${JSON.stringify(toExportedEntry(entry))}`);
+        first = false;
+    }
+    yield Buffer.from('\n]}\n');
+}
+
+const HTML_STYLE = `body { font-family: Georgia, serif; max-width: 42rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+article { border-top: 1px solid #ddd; padding-top: 1rem; margin-top: 2rem; page-break-inside: avoid; }
+p { white-space: pre-wrap; }
+h2 { font-size: 1.2rem; }
+h3 { font-size: 1rem; color: #555; }`;
+
+async function* renderHtml(
+    user: IUser,
+    userId: Types.ObjectId,
+    labels: ExportLabels,
+    timezone: string
+): AsyncGenerator<Buffer> {
+    const title = escapeHtml(`${labels.title}: ${user.name || user.firstName}`);
+    yield Buffer.from(
+        `<!DOCTYPE html>\n<html lang="${user.language || Language.ENGLISH}">\n<head>\n<meta charset="utf-8">\n` +
+            `<title>${title}</title>\n<style>\n${HTML_STYLE}\n</style>\n</head>\n<body>\n<h1>${title}</h1>\n`
+    );
+    for await (const entry of streamUserJournalEntries(userId)) {
+        yield Buffer.from(renderEntryHtml(entry, labels, timezone));
+    }
+    yield Buffer.from('</body>\n</html>\n');
+}
+
+export function renderEntryHtml(entry: IJournalEntry, labels: ExportLabels, timezone: string): string {
+    const date = formatZonedDateTime(new Date(entry.createdAt), timezone);
+    const parts = [`<article>\n<h2>${escapeHtml(entry.title ? `${entry.title} (${date})` : date)}</h2>`];
+
+    for (const message of entry.messages as IMessage[]) {
+        const content = getMessageContent(message);
+        if (!content) {
+            continue;
+        }
+        const label = messageLabel(message, labels);
+        parts.push(`<p>${label ? `<b>${escapeHtml(label)}:</b> ` : ''}${escapeHtml(content)}</p>`);
+    }
+
+    if (entry.analysis) {
+        parts.push(`<h3>${escapeHtml(labels.analysis)}</h3>\n<p>${escapeHtml(entry.analysis)}</p>`);
+    }
+    if (entry.aiInsights) {
+        parts.push(`<h3>${escapeHtml(labels.insights)}</h3>\n<p>${escapeHtml(entry.aiInsights)}</p>`);
+    }
+    if (entry.aiQuestions?.length) {
+        const items = entry.aiQuestions.map(question => `<li>${escapeHtml(question)}</li>`).join('\n');
+        parts.push(`<h3>${escapeHtml(labels.questions)}</h3>\n<ul>\n${items}\n</ul>`);
+    }
+
+    return `${parts.join('\n')}\n</article>\n`;
+}
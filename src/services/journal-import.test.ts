@@ -0,0 +1,135 @@
+import { createWriteStream, promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import { ZipFile } from 'yazl';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../config', () => ({
+    LOG_LEVEL: 0
+}));
+
+vi.mock('../database', () => ({}));
+
+vi.mock('./embedding-queue', () => ({
+    queueEntryEmbeddings: vi.fn()
+}));
+
+import { cleanDayOneText, ImportError, parseImportDate, parseImportFiles, readImportFiles } from './journal-import';
+
+const tempFiles: string[] = [];
+
+async function writeZip(files: Record<string, string>): Promise<string> {
+    const zipPath = path.join(os.tmpdir(), `journal-import-test-${Date.now()}-${tempFiles.length}.zip`);
+    tempFiles.push(zipPath);
+    const zip = new ZipFile();
+    for (const [name, content] of Object.entries(files)) {
+        zip.addBuffer(Buffer.from(content), name);
+    }
+    zip.end();
+    await pipeline(zip.outputStream, createWriteStream(zipPath));
+    return zipPath;
+}
+
+afterEach(async () => {
+    await Promise.all(tempFiles.splice(0).map(file => fs.unlink(file)));
+});
+
+describe('parseImportDate', () => {
+    it.each([
+        ['2024-01-15T09:30:00Z', 'Europe/Berlin', '2024-01-15T09:30:00.000Z'],
+        ['2024-01-15 09:30', 'Europe/Berlin', '2024-01-15T08:30:00.000Z'],
+        ['2024-01-15 0930 Trip.md', 'Europe/Berlin', '2024-01-15T08:30:00.000Z'],
+        ['2024-01-15.md', 'America/New_York', '2024-01-15T17:00:00.000Z']
+    ])('parses %j in %s', (text, timezone, expected) => {
+        expect(parseImportDate(text, timezone)?.toISOString()).toBe(expected);
+    });
+
+    it.each(['notes.md', '2024-13-01.md'])('rejects %j', text => {
+        expect(parseImportDate(text, 'UTC')).toBeNull();
+    });
+});
+
+describe('cleanDayOneText', () => {
+    it('unescapes punctuation and drops photo references', () => {
+        expect(cleanDayOneText('Ran 5\\.5 km\\!\n![](dayone-moment://ABC123)')).toBe('Ran 5.5 km!');
+    });
+});
+
+describe('parseImportFiles', () => {
+    it('reads a Day One export, oldest entry first, with titles from headings and tags', () => {
+        const content = JSON.stringify({
+            metadata: { version: '1.0' },
+            entries: [
+                { uuid: 'B', creationDate: '2024-02-01T20:00:00Z', text: 'Second', tags: ['Work', 'work ', 'Family'] },
+                { uuid: 'A', creationDate: '2024-01-01T20:00:00Z', text: '# New year\nFirst' },
+                { uuid: 'C', creationDate: '2024-03-01T20:00:00Z' }
+            ]
+        });
+
+        expect(parseImportFiles([{ path: 'Journal.json', content }], 'UTC')).toEqual({
+            entries: [
+                { source: 'dayone', sourceId: 'A', createdAt: new Date('2024-01-01T20:00:00Z'), title: 'New year', text: 'First' },
+                { source: 'dayone', sourceId: 'B', createdAt: new Date('2024-02-01T20:00:00Z'), tags: ['work', 'family'], text: 'Second' }
+            ],
+            invalid: 0
+        });
+    });
+
+    it('reads Journey entries stored as HTML', () => {
+        const content = JSON.stringify({
+            id: '1700000000000-abc',
+            date_journal: 1700000000000,
+            text: '<p>Tea &amp; rain</p><p>Quiet<br>day</p>'
+        });
+
+        expect(parseImportFiles([{ path: '1700000000000-abc.json', content }], 'UTC').entries).toEqual([
+            { source: 'journey', sourceId: '1700000000000-abc', createdAt: new Date(1700000000000), text: 'Tea & rain\n\nQuiet\nday' }
+        ]);
+    });
+
+    it('dates Markdown by front matter, then by file name, and counts undated files', () => {
+        const result = parseImportFiles(
+            [
+                { path: 'notes/2024-01-15.md', content: '# Lake\nCold water.' },
+                { path: 'notes/trip.md', content: '---\ndate: 2024-01-10\ntitle: "Trip"\n---\nPacked bags.' },
+                { path: 'notes/ideas.md', content: 'Undated thoughts.' }
+            ],
+            'UTC'
+        );
+
+        expect(result.invalid).toBe(1);
+        expect(result.entries).toEqual([
+            { source: 'markdown', sourceId: 'notes/trip.md', createdAt: new Date('2024-01-10T12:00:00Z'), title: 'Trip', text: 'Packed bags.' },
+            { source: 'markdown', sourceId: 'notes/2024-01-15.md', createdAt: new Date('2024-01-15T12:00:00Z'), title: 'Lake', text: 'Cold water.' }
+        ]);
+    });
+
+    it('ignores JSON it does not recognize', () => {
+        expect(parseImportFiles([{ path: 'data.json', content: '{"foo":1}' }], 'UTC')).toEqual({ entries: [], invalid: 0 });
+    });
+});
+
+describe('readImportFiles', () => {
+    it('reads the text members of a zip and skips attachments', async () => {
+        const zipPath = await writeZip({
+            'Journal.json': '{"entries":[]}',
+            'photos/abc.jpeg': 'binary',
+            '__MACOSX/._Journal.json': 'fork'
+        });
+
+        expect(await readImportFiles(zipPath, 'export.zip')).toEqual([{ path: 'Journal.json', content: '{"entries":[]}' }]);
+    });
+
+    it('rejects a file that is not a zip', async () => {
+        const fakePath = path.join(os.tmpdir(), `journal-import-test-${Date.now()}.zip`);
+        tempFiles.push(fakePath);
+        await fs.writeFile(fakePath, 'not a zip');
+
+        await expect(readImportFiles(fakePath, 'export.zip')).rejects.toThrow(ImportError);
+    });
+
+    it('rejects unsupported file types', async () => {
+        await expect(readImportFiles('/dev/null', 'photo.jpeg')).rejects.toMatchObject({ reason: 'unsupported' });
+    });
+});
@@ -0,0 +1,357 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Types } from 'mongoose';
+import * as yauzl from 'yauzl';
+import { z } from 'zod';
+import {
+    addMessageToJournalEntry,
+    createImportedJournalEntry,
+    IUser,
+    saveImportedTextMessage
+} from '../database';
+import { LOG_LEVEL } from '../config';
+import { createLogger } from '../utils/logger';
+import { normalizeTags } from '../utils/tags';
+import { userTimezone, zonedTimeToUtc } from '../utils/timezone';
+import { queueEntryEmbeddings } from './embedding-queue';
+
+const importLogger = createLogger('JournalImport', LOG_LEVEL);
+
+// Journals are text; photos and audio inside an export are skipped, so this
+// only bounds what is read into memory, not the size of the upload.
+const MAX_IMPORT_TEXT_BYTES = 50 * 1024 * 1024;
+
+const TEXT_EXTENSIONS = new Set(['.json', '.md', '.markdown', '.txt']);
+
+export type ImportSource = 'dayone' | 'journey' | 'markdown';
+
+/** Why an upload could not be imported; each maps to a message for the user. */
+export type ImportFailureReason = 'unsupported' | 'too_large' | 'empty';
+
+export class ImportError extends Error {
+    constructor(readonly reason: ImportFailureReason, message: string) {
+        super(message);
+        this.name = 'ImportError';
+    }
+}
+
+/** A text file from the upload: the file itself, or one member of a zip. */
+export interface ImportFile {
+    path: string;
+    content: string;
+}
+
+export interface ParsedEntry {
+    source: ImportSource;
+    /** Stable id within the source, so a re-import finds the same entry again. */
+    sourceId: string;
+    createdAt: Date;
+    title?: string;
+    tags?: string[];
+    text: string;
+}
+
+export interface ParseResult {
+    entries: ParsedEntry[];
+    /** Recognized files that could not become an entry (e.g. Markdown without a date). */
+    invalid: number;
+}
+
+export interface ImportResult {
+    imported: number;
+    duplicates: number;
+    invalid: number;
+}
+
+/**
+ * Imports an uploaded export (Day One JSON zip, Journey zip, or Markdown files,
+ * zipped or single) as completed entries and queues them for embedding.
+ */
+export async function importJournalFile(user: IUser, filePath: string, fileName: string): Promise<ImportResult> {
+    const files = await readImportFiles(filePath, fileName);
+    const { entries, invalid } = parseImportFiles(files, userTimezone(user));
+    if (entries.length === 0) {
+        throw new ImportError(invalid > 0 ? 'empty' : 'unsupported', `No journal entries found in ${fileName}`);
+    }
+
+    const userId = user._id as unknown as Types.ObjectId;
+    const importedIds: Types.ObjectId[] = [];
+    let duplicates = 0;
+
+    for (const entry of entries) {
+        const importKey = `${entry.source}:${entry.sourceId}`;
+        const created = await createImportedJournalEntry(userId, {
+            importKey,
+            createdAt: entry.createdAt,
+            title: entry.title,
+            tags: entry.tags,
+            fullText: entry.text
+        });
+        if (!created) {
+            duplicates += 1;
+            continue;
+        }
+
+        const entryId = created._id as Types.ObjectId;
+        const message = await saveImportedTextMessage(
+            userId,
+            entryId,
+            importedMessageId(importKey),
+            entry.text,
+            entry.createdAt
+        );
+        await addMessageToJournalEntry(entryId, message._id as Types.ObjectId);
+        importedIds.push(entryId);
+    }
+
+    queueEntryEmbeddings(importedIds);
+    importLogger.info(
+        `Imported ${importedIds.length} entries for user ${user.telegramId} (${duplicates} duplicates, ${invalid} invalid)`
+    );
+    return { imported: importedIds.length, duplicates, invalid };
+}
+
+/**
+ * Imported messages never passed through Telegram, but messages are unique per
+ * (user, telegramMessageId). A negative id derived from the import key cannot
+ * collide with a real message id and stays the same across re-imports.
+ */
+function importedMessageId(importKey: string): number {
+    return -createHash('sha256').update(importKey).digest().readUIntBE(0, 6);
+}
+
+/** Reads the text files of an upload: the members of a zip, or the file itself. */
+export async function readImportFiles(filePath: string, fileName: string): Promise<ImportFile[]> {
+    const extension = path.extname(fileName).toLowerCase();
+    if (extension === '.zip') {
+        return readZipTextFiles(filePath);
+    }
+    if (!TEXT_EXTENSIONS.has(extension)) {
+        throw new ImportError('unsupported', `Unsupported import file type: ${fileName}`);
+    }
+    const { size } = await fs.stat(filePath);
+    if (size > MAX_IMPORT_TEXT_BYTES) {
+        throw new ImportError('too_large', `Import file is ${size} bytes`);
+    }
+    return [{ path: fileName, content: stripBom(await fs.readFile(filePath, 'utf8')) }];
+}
+
+async function readZipTextFiles(filePath: string): Promise<ImportFile[]> {
+    let zip: yauzl.ZipFile;
+    try {
+        zip = await yauzl.openPromise(filePath, { lazyEntries: true, autoClose: false });
+    } catch (error) {
+        throw new ImportError('unsupported', `Not a readable zip file: ${(error as Error).message}`);
+    }
+
+    const files: ImportFile[] = [];
+    let totalBytes = 0;
+
+    const readEntry = async (entry: yauzl.Entry): Promise<void> => {
+        const extension = path.extname(entry.fileName).toLowerCase();
+        // Skip directories, macOS resource forks, and non-text attachments.
+        if (entry.fileName.endsWith('/') || entry.fileName.includes('__MACOSX/') || !TEXT_EXTENSIONS.has(extension)) {
+            return;
+        }
+        totalBytes += entry.uncompressedSize;
+        if (totalBytes > MAX_IMPORT_TEXT_BYTES) {
+            throw new ImportError('too_large', `Zip holds more than ${MAX_IMPORT_TEXT_BYTES} bytes of text`);
+        }
+        const chunks: Buffer[] = [];
+        for await (const chunk of await zip.openReadStreamPromise(entry)) {
+            chunks.push(chunk as Buffer);
+        }
+        files.push({ path: entry.fileName, content: stripBom(Buffer.concat(chunks).toString('utf8')) });
+    };
+
+    try {
+        await new Promise<void>((resolve, reject) => {
+            zip.on('error', reject);
+            zip.on('end', resolve);
+            zip.on('entry', (entry: yauzl.Entry) => {
+                readEntry(entry).then(() => zip.readEntry(), reject);
+            });
+            zip.readEntry();
+        });
+    } finally {
+        zip.close();
+    }
+    return files;
+}
+
+function stripBom(text: string): string {
+    return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+const dayOneExportSchema = z.object({
+    entries: z.array(z.object({
+        uuid: z.string(),
+        creationDate: z.string(),
+        text: z.string().optional(),
+        tags: z.array(z.string()).optional()
+    }))
+});
+
+const journeyEntrySchema = z.object({
+    id: z.string(),
+    date_journal: z.number(),
+    text: z.string().optional(),
+    tags: z.array(z.string()).optional()
+});
+
+/** Recognizes each file's format and turns it into entries, oldest first. */
+export function parseImportFiles(files: ImportFile[], timezone: string): ParseResult {
+    const entries: ParsedEntry[] = [];
+    let invalid = 0;
+
+    for (const file of files) {
+        const extension = path.extname(file.path).toLowerCase();
+        if (extension === '.json') {
+            entries.push(...parseJsonFile(file));
+            continue;
+        }
+
+        const entry = parseMarkdownFile(file, timezone);
+        if (entry) {
+            entries.push(entry);
+        } else {
+            invalid += 1;
+        }
+    }
+
+    return {
+        entries: entries.filter(entry => entry.text.length > 0).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+        invalid
+    };
+}
+
+function parseJsonFile(file: ImportFile): ParsedEntry[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(file.content);
+    } catch {
+        return [];
+    }
+
+    const dayOne = dayOneExportSchema.safeParse(data);
+    if (dayOne.success) {
+        return dayOne.data.entries.map(entry => ({
+            source: 'dayone' as const,
+            sourceId: entry.uuid,
+            createdAt: new Date(entry.creationDate),
+            tags: normalizeTags(entry.tags),
+            ...splitTitle(cleanDayOneText(entry.text ?? ''))
+        })).filter(entry => !isNaN(entry.createdAt.getTime()));
+    }
+
+    const journey = journeyEntrySchema.safeParse(data);
+    if (journey.success) {
+        return [{
+            source: 'journey',
+            sourceId: journey.data.id,
+            createdAt: new Date(journey.data.date_journal),
+            tags: normalizeTags(journey.data.tags),
+            ...splitTitle(journeyText(journey.data.text ?? ''))
+        }];
+    }
+
+    return [];
+}
+
+/** Day One escapes Markdown punctuation and references photos by moment id. */
+export function cleanDayOneText(text: string): string {
+    return text
+        .replace(/!\[[^\]]*\]\(dayone-moment:[^)]*\)/g, '')
+        .replace(/\\([\\`*_{}[\]()#+\-.!])/g, '$1')
+        .trim();
+}
+
+/** Older Journey versions store entries as HTML, newer ones as Markdown. */
+function journeyText(text: string): string {
+    if (!/<\/?(p|br|div)\b/i.test(text)) {
+        return text.trim();
+    }
+    return text
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div)>/gi, '\n\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * A Markdown or text file is one entry. Its date comes from `date:` in YAML
+ * front matter or from the file name (`2024-01-15.md`, `2024-01-15 0930 Trip.md`);
+ * a file with neither is not importable.
+ */
+function parseMarkdownFile(file: ImportFile, timezone: string): ParsedEntry | null {
+    let body = file.content;
+    const frontMatter: Record<string, string> = {};
+
+    const frontMatterMatch = body.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+    if (frontMatterMatch) {
+        for (const line of frontMatterMatch[1].split(/\r?\n/)) {
+            const field = line.match(/^(\w+):\s*(.*)$/);
+            if (field) {
+                frontMatter[field[1].toLowerCase()] = field[2].trim().replace(/^["']|["']$/g, '');
+            }
+        }
+        body = body.slice(frontMatterMatch[0].length);
+    }
+
+    const createdAt =
+        (frontMatter.date && parseImportDate(frontMatter.date, timezone)) ||
+        parseImportDate(path.basename(file.path), timezone);
+    if (!createdAt) {
+        return null;
+    }
+
+    const { title, text } = splitTitle(body.trim());
+    return {
+        source: 'markdown',
+        sourceId: file.path,
+        createdAt,
+        title: frontMatter.title || title,
+        text
+    };
+}
+
+/**
+ * Parses a date written by a person or an app. A full ISO timestamp with an
+ * offset is exact; a bare date or date and time is local to the user. A bare
+ * date lands at noon, so it stays on the same day whatever the zone.
+ */
+export function parseImportDate(text: string, timezone: string): Date | null {
+    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(text.trim())) {
+        const date = new Date(text.trim());
+        return isNaN(date.getTime()) ? null : date;
+    }
+
+    const match = text.match(/(\d{4})-(\d{2})-(\d{2})(?:[ T_](\d{2})[:.-]?(\d{2}))?/);
+    if (!match) {
+        return null;
+    }
+    const [year, month, day] = [match[1], match[2], match[3]].map(Number);
+    const hour = match[4] !== undefined ? Number(match[4]) : 12;
+    const minute = match[5] !== undefined ? Number(match[5]) : 0;
+    if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59) {
+        return null;
+    }
+    return zonedTimeToUtc(year, month, day, hour, minute, timezone);
+}
+
+/** Uses a leading `# Heading` as the entry title. */
+function splitTitle(text: string): { title?: string; text: string } {
+    const match = text.match(/^#\s+(.+)\r?\n?/);
+    if (!match) {
+        return { text };
+    }
+    return { title: match[1].trim(), text: text.slice(match[0].length).trim() };
+}
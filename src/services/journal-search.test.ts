@@ -0,0 +1,85 @@
+import { Types } from 'mongoose';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../config', () => ({
+    LOG_LEVEL: 0
+}));
+
+vi.mock('../database', () => ({
+    searchUserJournalEntries: vi.fn()
+}));
+
+vi.mock('../ai/embeddings', () => ({
+    cosineSimilarity: vi.fn(),
+    embedText: vi.fn()
+}));
+
+import { cosineSimilarity, embedText } from '../ai/embeddings';
+import { JournalSearchHit, searchUserJournalEntries } from '../database';
+import { parseSearchQuery, searchJournal } from './journal-search';
+
+const userId = new Types.ObjectId();
+
+function hit(textScore: number, embedding?: number[]): JournalSearchHit {
+    return { _id: new Types.ObjectId(), createdAt: new Date('2024-03-01'), textScore, embedding };
+}
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(embedText).mockResolvedValue([1]);
+    vi.mocked(cosineSimilarity).mockImplementation((_query, candidate) => candidate[0] ?? 0);
+});
+
+describe('parseSearchQuery', () => {
+    it('takes a bare month as the whole local month', () => {
+        expect(parseSearchQuery('Anna 2024-03', 'Europe/Berlin')).toEqual({
+            text: 'Anna',
+            from: new Date('2024-02-29T23:00:00.000Z'),
+            to: new Date('2024-03-31T22:00:00.000Z')
+        });
+    });
+
+    it('reads from: and to: bounds, including the last day', () => {
+        expect(parseSearchQuery('run from:2024-01-10 to:2024-01-20', 'UTC')).toEqual({
+            text: 'run',
+            from: new Date('2024-01-10T00:00:00.000Z'),
+            to: new Date('2024-01-21T00:00:00.000Z')
+        });
+    });
+
+    it('keeps tokens that are not valid dates as words', () => {
+        expect(parseSearchQuery('room 2024-13 call', 'UTC')).toEqual({ text: 'room 2024-13 call' });
+    });
+});
+
+describe('searchJournal', () => {
+    it('requires every word and re-ranks text matches by meaning', async () => {
+        const mentionsOnly = hit(2, [0.1]);
+        const aboutIt = hit(1.5, [0.9]);
+        const notEmbedded = hit(1);
+        vi.mocked(searchUserJournalEntries).mockResolvedValue([mentionsOnly, aboutIt, notEmbedded]);
+
+        const ids = await searchJournal(userId, { text: 'Anna "park"' });
+
+        expect(searchUserJournalEntries).toHaveBeenCalledWith(userId, { text: '"Anna" "park"' }, 100);
+        expect(embedText).toHaveBeenCalledWith('Anna "park"');
+        expect(ids).toEqual([aboutIt._id, mentionsOnly._id, notEmbedded._id]);
+    });
+
+    it('keeps the text search order when the query cannot be embedded', async () => {
+        const first = hit(2, [0.1]);
+        const second = hit(1, [0.9]);
+        vi.mocked(searchUserJournalEntries).mockResolvedValue([first, second]);
+        vi.mocked(embedText).mockRejectedValue(new Error('rate limited'));
+
+        expect(await searchJournal(userId, { text: 'Anna' })).toEqual([first._id, second._id]);
+    });
+
+    it('lists a date range newest first without embedding anything', async () => {
+        const hits = [hit(0), hit(0)];
+        vi.mocked(searchUserJournalEntries).mockResolvedValue(hits);
+
+        expect(await searchJournal(userId, { text: '', from: new Date('2024-03-01') })).toEqual(hits.map(h => h._id));
+        expect(embedText).not.toHaveBeenCalled();
+    });
+});
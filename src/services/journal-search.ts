@@ -0,0 +1,107 @@
+import { Types } from 'mongoose';
+import { cosineSimilarity, embedText } from '../ai/embeddings';
+import { LOG_LEVEL } from '../config';
+import { JournalSearchHit, searchUserJournalEntries } from '../database';
+import { createLogger } from '../utils/logger';
+import { zonedTimeToUtc } from '../utils/timezone';
+
+const searchLogger = createLogger('JournalSearch', LOG_LEVEL);
+
+// Text matches fetched for re-ranking; more would only re-rank the long tail.
+const SEARCH_CANDIDATES = 100;
+export const MAX_SEARCH_RESULTS = 50;
+
+export interface JournalSearchQuery {
+    /** Words to look for; empty when only a date range was given. */
+    text: string;
+    from?: Date;
+    /** Exclusive upper bound. */
+    to?: Date;
+}
+
+/**
+ * Splits a search such as `Anna 2024-03` or `run from:2024-01-01 to:2024-01-31`
+ * into words and a date range on the user's clock. A bare `YYYY-MM` or
+ * `YYYY-MM-DD` is the whole month or day; `to:` includes the day it names.
+ */
+export function parseSearchQuery(input: string, timezone: string): JournalSearchQuery {
+    const words: string[] = [];
+    const query: JournalSearchQuery = { text: '' };
+
+    for (const token of input.trim().split(/\s+/).filter(Boolean)) {
+        const range = token.match(/^(from:|to:)?(\d{4})-(\d{2})(?:-(\d{2}))?$/i);
+        const [year, month, day] = range ? [range[2], range[3], range[4]].map(Number) : [];
+        if (!range || month < 1 || month > 12 || (range[4] !== undefined && (day < 1 || day > 31))) {
+            words.push(token);
+            continue;
+        }
+
+        const start = zonedTimeToUtc(year, month, day || 1, 0, 0, timezone);
+        const end = range[4] !== undefined
+            ? zonedTimeToUtc(year, month, day + 1, 0, 0, timezone)
+            : zonedTimeToUtc(year, month + 1, 1, 0, 0, timezone);
+        const prefix = range[1]?.toLowerCase();
+        if (prefix !== 'to:') {
+            query.from = start;
+        }
+        if (prefix !== 'from:') {
+            query.to = end;
+        }
+    }
+
+    query.text = words.join(' ');
+    return query;
+}
+
+/**
+ * Finds entries containing every word by Mongo text search within the date
+ * range, then re-ranks the matches by blending the text score with the
+ * embedding similarity to the query, so entries that are about the words rank
+ * above ones merely mentioning them. Without words, returns the range newest first.
+ */
+export async function searchJournal(userId: Types.ObjectId, query: JournalSearchQuery): Promise<Types.ObjectId[]> {
+    const hits = await searchUserJournalEntries(
+        userId,
+        { text: requireAllWords(query.text), from: query.from, to: query.to },
+        SEARCH_CANDIDATES
+    );
+    if (!query.text || hits.length < 2) {
+        return hits.slice(0, MAX_SEARCH_RESULTS).map(hit => hit._id);
+    }
+    return (await rerankHits(hits, query.text)).slice(0, MAX_SEARCH_RESULTS).map(hit => hit._id);
+}
+
+/** `$text` matches any of the words; quoting each one makes every word required. */
+function requireAllWords(text: string): string {
+    return text
+        .split(' ')
+        .map(word => word.replace(/"/g, ''))
+        .filter(word => word.length > 0)
+        .map(word => `"${word}"`)
+        .join(' ');
+}
+
+async function rerankHits(hits: JournalSearchHit[], text: string): Promise<JournalSearchHit[]> {
+    let queryEmbedding: number[];
+    try {
+        queryEmbedding = await embedText(text);
+    } catch (error) {
+        searchLogger.warn('Failed to embed search query; keeping text search order:', error);
+        return hits;
+    }
+
+    const maxTextScore = Math.max(...hits.map(hit => hit.textScore));
+    const score = (hit: JournalSearchHit): number => {
+        const textScore = maxTextScore > 0 ? hit.textScore / maxTextScore : 0;
+        // Entries still waiting for an embedding rank on their text score alone.
+        if (!hit.embedding || hit.embedding.length !== queryEmbedding.length) {
+            return textScore / 2;
+        }
+        return (textScore + cosineSimilarity(queryEmbedding, hit.embedding)) / 2;
+    };
+
+    return hits
+        .map(hit => ({ hit, score: score(hit) }))
+        .sort((a, b) => b.score - a.score)
+        .map(result => result.hit);
+}
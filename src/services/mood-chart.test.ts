@@ -0,0 +1,38 @@
+import { PNG } from 'pngjs';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../database', () => ({
+    MIN_MOOD: 1,
+    MAX_MOOD: 5
+}));
+
+import { renderMoodChart } from './mood-chart';
+import { MoodBucket } from './mood-trends';
+
+function buckets(averages: (number | null)[]): MoodBucket[] {
+    return averages.map((average, index) => ({
+        label: `${String(index + 1).padStart(2, '0')}/24`,
+        average,
+        count: average === null ? 0 : 1
+    }));
+}
+
+describe('renderMoodChart', () => {
+    it('renders a PNG with both trends drawn in color', () => {
+        const image = PNG.sync.read(renderMoodChart(buckets([3, null, 4, 5]), buckets([1, 2])));
+
+        expect(image.width).toBe(800);
+        expect(image.height).toBe(540);
+
+        const colors = new Set<string>();
+        for (let offset = 0; offset < image.data.length; offset += 4) {
+            colors.add(`${image.data[offset]},${image.data[offset + 1]},${image.data[offset + 2]}`);
+        }
+        expect(colors).toContain('108,92,231');
+        expect(colors).toContain('0,168,150');
+    });
+
+    it('draws empty trends without failing', () => {
+        expect(() => renderMoodChart(buckets([null, null]), [])).not.toThrow();
+    });
+});
@@ -0,0 +1,161 @@
+import { PNG } from 'pngjs';
+import { MAX_MOOD, MIN_MOOD } from '../database';
+import { MoodBucket } from './mood-trends';
+
+/**
+ * Draws the /mood chart straight into a pixel buffer: two line charts, weekly
+ * above monthly, with the mood scale on the left and dates below. Titles and
+ * other words go in the photo caption, so the only glyphs needed are digits.
+ */
+
+type Color = [number, number, number];
+
+const WIDTH = 800;
+const PANEL_HEIGHT = 270;
+const MARGIN = { top: 24, right: 40, bottom: 40, left: 64 };
+
+const BACKGROUND: Color = [255, 255, 255];
+const GRID: Color = [230, 230, 236];
+const LABEL: Color = [120, 120, 130];
+const WEEKLY_LINE: Color = [108, 92, 231];
+const MONTHLY_LINE: Color = [0, 168, 150];
+
+const LINE_WIDTH = 3;
+const POINT_RADIUS = 5;
+
+// 3x5 pixel glyphs, drawn at FONT_SCALE.
+const GLYPHS: Record<string, string[]> = {
+    '0': ['111', '101', '101', '101', '111'],
+    '1': ['010', '110', '010', '010', '111'],
+    '2': ['111', '001', '111', '100', '111'],
+    '3': ['111', '001', '111', '001', '111'],
+    '4': ['101', '101', '111', '001', '001'],
+    '5': ['111', '100', '111', '001', '111'],
+    '6': ['111', '100', '111', '101', '111'],
+    '7': ['111', '001', '001', '001', '001'],
+    '8': ['111', '101', '111', '101', '111'],
+    '9': ['111', '101', '111', '001', '111'],
+    '/': ['001', '001', '010', '100', '100']
+};
+const FONT_SCALE = 3;
+const GLYPH_ADVANCE = 4 * FONT_SCALE;
+const GLYPH_HEIGHT = 5 * FONT_SCALE;
+
+class Canvas {
+    readonly png: PNG;
+
+    constructor(width: number, height: number, background: Color) {
+        this.png = new PNG({ width, height });
+        this.fillRect(0, 0, width, height, background);
+    }
+
+    setPixel(x: number, y: number, color: Color): void {
+        x = Math.round(x);
+        y = Math.round(y);
+        if (x < 0 || y < 0 || x >= this.png.width || y >= this.png.height) {
+            return;
+        }
+        const offset = (y * this.png.width + x) * 4;
+        this.png.data[offset] = color[0];
+        this.png.data[offset + 1] = color[1];
+        this.png.data[offset + 2] = color[2];
+        this.png.data[offset + 3] = 255;
+    }
+
+    fillRect(x: number, y: number, width: number, height: number, color: Color): void {
+        for (let row = y; row < y + height; row += 1) {
+            for (let column = x; column < x + width; column += 1) {
+                this.setPixel(column, row, color);
+            }
+        }
+    }
+
+    fillCircle(cx: number, cy: number, radius: number, color: Color): void {
+        for (let dy = -radius; dy <= radius; dy += 1) {
+            for (let dx = -radius; dx <= radius; dx += 1) {
+                if (dx * dx + dy * dy <= radius * radius) {
+                    this.setPixel(cx + dx, cy + dy, color);
+                }
+            }
+        }
+    }
+
+    /** A straight line of the given width, stamped point by point along its length. */
+    line(x1: number, y1: number, x2: number, y2: number, width: number, color: Color): void {
+        const steps = Math.max(Math.abs(x2 - x1), Math.abs(y2 - y1), 1);
+        for (let step = 0; step <= steps; step += 1) {
+            const x = x1 + ((x2 - x1) * step) / steps;
+            const y = y1 + ((y2 - y1) * step) / steps;
+            this.fillCircle(x, y, Math.floor(width / 2), color);
+        }
+    }
+
+    /** Draws digits and slashes centered on (cx, cy); other characters are skipped. */
+    text(value: string, cx: number, cy: number, color: Color): void {
+        const left = Math.round(cx - textWidth(value) / 2);
+        const top = Math.round(cy - GLYPH_HEIGHT / 2);
+        [...value].forEach((char, index) => {
+            GLYPHS[char]?.forEach((row, rowIndex) => {
+                [...row].forEach((pixel, columnIndex) => {
+                    if (pixel === '1') {
+                        this.fillRect(
+                            left + index * GLYPH_ADVANCE + columnIndex * FONT_SCALE,
+                            top + rowIndex * FONT_SCALE,
+                            FONT_SCALE,
+                            FONT_SCALE,
+                            color
+                        );
+                    }
+                });
+            });
+        });
+    }
+}
+
+function textWidth(value: string): number {
+    return value.length * GLYPH_ADVANCE - FONT_SCALE;
+}
+
+function drawPanel(canvas: Canvas, buckets: MoodBucket[], top: number, color: Color): void {
+    const left = MARGIN.left;
+    const plotTop = top + MARGIN.top;
+    const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+    const plotHeight = PANEL_HEIGHT - MARGIN.top - MARGIN.bottom;
+    const yOf = (mood: number) => plotTop + ((MAX_MOOD - mood) / (MAX_MOOD - MIN_MOOD)) * plotHeight;
+    const xOf = (index: number) => left + (buckets.length > 1 ? (index * plotWidth) / (buckets.length - 1) : plotWidth / 2);
+
+    for (let mood = MIN_MOOD; mood <= MAX_MOOD; mood += 1) {
+        canvas.fillRect(left, Math.round(yOf(mood)), plotWidth, 1, GRID);
+        canvas.text(String(mood), left / 2, yOf(mood), LABEL);
+    }
+
+    // Skip labels that would run into each other; the newest one is always shown.
+    const spacing = buckets.length > 1 ? plotWidth / (buckets.length - 1) : plotWidth;
+    const labelEvery = Math.ceil((textWidth(buckets[0]?.label ?? '') + 4 * FONT_SCALE) / spacing);
+    buckets.forEach((bucket, index) => {
+        if ((buckets.length - 1 - index) % labelEvery === 0) {
+            canvas.text(bucket.label, xOf(index), plotTop + plotHeight + MARGIN.bottom / 2, LABEL);
+        }
+    });
+
+    // Consecutive periods with entries are joined; a gap stays a gap.
+    buckets.forEach((bucket, index) => {
+        const previous = buckets[index - 1];
+        if (bucket.average !== null && previous !== undefined && previous.average !== null) {
+            canvas.line(xOf(index - 1), yOf(previous.average), xOf(index), yOf(bucket.average), LINE_WIDTH, color);
+        }
+    });
+    buckets.forEach((bucket, index) => {
+        if (bucket.average !== null) {
+            canvas.fillCircle(xOf(index), yOf(bucket.average), POINT_RADIUS, color);
+        }
+    });
+}
+
+/** Renders the weekly and monthly mood trends as one PNG image. */
+export function renderMoodChart(weekly: MoodBucket[], monthly: MoodBucket[]): Buffer {
+    const canvas = new Canvas(WIDTH, PANEL_HEIGHT * 2, BACKGROUND);
+    drawPanel(canvas, weekly, 0, WEEKLY_LINE);
+    drawPanel(canvas, monthly, PANEL_HEIGHT, MONTHLY_LINE);
+    return PNG.sync.write(canvas.png);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { monthlyMoodTrend, moodTrendStart, topEmotions, weeklyMoodTrend } from './mood-trends';
+
+// A Wednesday afternoon in Berlin.
+const now = new Date('2024-03-13T15:00:00.000Z');
+
+describe('weeklyMoodTrend', () => {
+    it('averages Monday-to-Sunday weeks on the user clock, preferring self-ratings', () => {
+        const weeks = weeklyMoodTrend(
+            [
+                // Sunday 23:30 in Berlin: the last day of the week before.
+                { createdAt: new Date('2024-03-10T22:30:00.000Z'), mood: 2 },
+                // Monday 00:30 in Berlin is still Sunday in UTC.
+                { createdAt: new Date('2024-03-10T23:30:00.000Z'), mood: 3, selfRatedMood: 5 },
+                { createdAt: new Date('2024-03-12T09:00:00.000Z'), mood: 4 }
+            ],
+            'Europe/Berlin',
+            now
+        );
+
+        expect(weeks).toHaveLength(12);
+        expect(weeks[11]).toEqual({ label: '11/03', average: 4.5, count: 2 });
+        expect(weeks[10]).toEqual({ label: '04/03', average: 2, count: 1 });
+        expect(weeks[0]).toEqual({ label: '25/12', average: null, count: 0 });
+    });
+});
+
+describe('monthlyMoodTrend', () => {
+    it('covers the last twelve months up to this one', () => {
+        const months = monthlyMoodTrend(
+            [
+                { createdAt: new Date('2023-04-02T10:00:00.000Z'), mood: 1 },
+                { createdAt: new Date('2024-03-01T10:00:00.000Z'), mood: 3 }
+            ],
+            'Europe/Berlin',
+            now
+        );
+
+        expect(months.map(month => month.label)).toEqual([
+            '04/23', '05/23', '06/23', '07/23', '08/23', '09/23', '10/23', '11/23', '12/23', '01/24', '02/24', '03/24'
+        ]);
+        expect(months[0].average).toBe(1);
+        expect(months[11].average).toBe(3);
+    });
+
+    it('starts loading entries at the oldest month shown', () => {
+        expect(moodTrendStart(now, 'Europe/Berlin')).toEqual(new Date('2023-03-31T22:00:00.000Z'));
+    });
+});
+
+describe('topEmotions', () => {
+    it('ranks emotions by how often they appear', () => {
+        const samples = [
+            { createdAt: now, emotions: ['tired', 'calm'] },
+            { createdAt: now, emotions: ['calm'] },
+            { createdAt: now }
+        ];
+
+        expect(topEmotions(samples, 1)).toEqual(['calm']);
+    });
+});
@@ -0,0 +1,121 @@
+import { getZonedParts, zonedTimeToUtc } from '../utils/timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TREND_WEEKS = 12;
+export const TREND_MONTHS = 12;
+
+/** The mood fields of a completed entry. */
+export interface MoodSample {
+    createdAt: Date;
+    mood?: number;
+    selfRatedMood?: number;
+    emotions?: string[];
+}
+
+/** The average mood of the entries in one week or month; null when there were none. */
+export interface MoodBucket {
+    /** `DD/MM` of the week's Monday, or `MM/YY` of the month. */
+    label: string;
+    average: number | null;
+    count: number;
+}
+
+/** The user's own rating wins over the inferred mood. */
+export function sampleMood(sample: MoodSample): number | undefined {
+    return sample.selfRatedMood ?? sample.mood;
+}
+
+/** The earliest entry date either trend looks at: the first day of the oldest month shown. */
+export function moodTrendStart(now: Date, timezone: string): Date {
+    const { year, month } = getZonedParts(now, timezone);
+    // A 12-week window always starts after the first day of the month 11 months back.
+    return zonedTimeToUtc(year, month - (TREND_MONTHS - 1), 1, 0, 0, timezone);
+}
+
+/** Average mood per week (Monday to Sunday on the user's clock), oldest first, ending with this week. */
+export function weeklyMoodTrend(samples: MoodSample[], timezone: string, now: Date): MoodBucket[] {
+    const currentWeek = localWeekStart(now, timezone);
+    const weekStarts = Array.from({ length: TREND_WEEKS }, (_, index) => currentWeek - (TREND_WEEKS - 1 - index) * 7);
+
+    return bucketSamples(
+        samples,
+        sample => localWeekStart(sample.createdAt, timezone),
+        weekStarts,
+        weekStart => {
+            const date = new Date(weekStart * DAY_MS);
+            return `${pad(date.getUTCDate())}/${pad(date.getUTCMonth() + 1)}`;
+        }
+    );
+}
+
+/** Average mood per calendar month on the user's clock, oldest first, ending with this month. */
+export function monthlyMoodTrend(samples: MoodSample[], timezone: string, now: Date): MoodBucket[] {
+    const currentMonth = localMonthIndex(now, timezone);
+    const months = Array.from({ length: TREND_MONTHS }, (_, index) => currentMonth - (TREND_MONTHS - 1 - index));
+
+    return bucketSamples(
+        samples,
+        sample => localMonthIndex(sample.createdAt, timezone),
+        months,
+        monthIndex => `${pad((monthIndex % 12) + 1)}/${pad(Math.floor(monthIndex / 12) % 100)}`
+    );
+}
+
+/** The most frequent emotions among the samples, most frequent first. */
+export function topEmotions(samples: MoodSample[], limit: number): string[] {
+    const counts = new Map<string, number>();
+    for (const emotion of samples.flatMap(sample => sample.emotions ?? [])) {
+        counts.set(emotion, (counts.get(emotion) ?? 0) + 1);
+    }
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([emotion]) => emotion);
+}
+
+function bucketSamples(
+    samples: MoodSample[],
+    keyOf: (sample: MoodSample) => number,
+    keys: number[],
+    labelOf: (key: number) => string
+): MoodBucket[] {
+    const totals = new Map<number, { sum: number; count: number }>();
+    for (const sample of samples) {
+        const mood = sampleMood(sample);
+        if (mood === undefined) {
+            continue;
+        }
+        const total = totals.get(keyOf(sample)) ?? { sum: 0, count: 0 };
+        total.sum += mood;
+        total.count += 1;
+        totals.set(keyOf(sample), total);
+    }
+
+    return keys.map(key => {
+        const total = totals.get(key);
+        return {
+            label: labelOf(key),
+            average: total ? total.sum / total.count : null,
+            count: total?.count ?? 0
+        };
+    });
+}
+
+/** Days since the epoch of the local Monday starting the week of an instant. */
+function localWeekStart(date: Date, timezone: string): number {
+    const { year, month, day } = getZonedParts(date, timezone);
+    const localDay = Date.UTC(year, month - 1, day) / DAY_MS;
+    const daysSinceMonday = (new Date(localDay * DAY_MS).getUTCDay() + 6) % 7;
+    return localDay - daysSinceMonday;
+}
+
+/** Months since year 0 of the local month of an instant. */
+function localMonthIndex(date: Date, timezone: string): number {
+    const { year, month } = getZonedParts(date, timezone);
+    return year * 12 + month - 1;
+}
+
+function pad(value: number): string {
+    return value.toString().padStart(2, '0');
+}
@@ -0,0 +1,134 @@
+import { Api, GrammyError, InlineKeyboard } from 'grammy';
+import { Types } from 'mongoose';
+import {
+    claimDueReminderJob,
+    countUserJournalEntriesSince,
+    finishReminderJob,
+    getUsersWithRemindersEnabled,
+    IReminderJob,
+    IUser,
+    ReminderJobStatus,
+    updateUserReminder
+} from '../database';
+import { LOG_LEVEL, REMINDER_POLL_INTERVAL_MS } from '../config';
+import { trackInFlight } from '../lifecycle';
+import { getTextForUser } from '../utils/localization';
+import { createLogger } from '../utils/logger';
+import { startOfZonedDay, userTimezone } from '../utils/timezone';
+import { scheduleNextReminder } from './reminder.service';
+
+const schedulerLogger = createLogger('ReminderScheduler', LOG_LEVEL);
+
+// A reminder that could not go out on time (e.g. the bot was down overnight)
+// is dropped rather than delivered at an odd hour.
+const MAX_DELIVERY_DELAY_MS = 2 * 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout | undefined;
+let currentTick: Promise<void> | undefined;
+
+/**
+ * Starts the polling loop that delivers due reminders. Jobs live in MongoDB,
+ * so nothing is lost on restart, and claiming is atomic, so several replicas
+ * can run the loop side by side.
+ */
+export function startReminderScheduler(api: Api): void {
+    if (timer) {
+        return;
+    }
+    runTick(() => ensureRemindersScheduled().then(() => deliverDueReminders(api)));
+    timer = setInterval(() => runTick(() => deliverDueReminders(api)), REMINDER_POLL_INTERVAL_MS);
+    schedulerLogger.info(`Reminder scheduler started (every ${REMINDER_POLL_INTERVAL_MS}ms)`);
+}
+
+/** Runs one pass unless the previous one is still going; shutdown waits for it. */
+function runTick(tick: () => Promise<void>): void {
+    if (currentTick) {
+        return;
+    }
+    currentTick = trackInFlight(tick()).finally(() => {
+        currentTick = undefined;
+    });
+}
+
+/** Stops polling and waits for the reminders being delivered right now. */
+export async function stopReminderScheduler(): Promise<void> {
+    clearInterval(timer);
+    timer = undefined;
+    await currentTick;
+}
+
+/**
+ * Gives every user with reminders on a pending job. Normally a no-op; it
+ * repairs the chain if a job was lost between sending and rescheduling.
+ */
+async function ensureRemindersScheduled(): Promise<void> {
+    try {
+        const users = await getUsersWithRemindersEnabled();
+        for (const user of users) {
+            await scheduleNextReminder(user);
+        }
+    } catch (error) {
+        schedulerLogger.error('Failed to schedule reminders on startup:', error);
+    }
+}
+
+async function deliverDueReminders(api: Api): Promise<void> {
+    try {
+        let job: IReminderJob | null;
+        while ((job = await claimDueReminderJob(new Date()))) {
+            await deliverReminder(api, job);
+        }
+    } catch (error) {
+        schedulerLogger.error('Failed to deliver due reminders:', error);
+    }
+}
+
+async function deliverReminder(api: Api, job: IReminderJob): Promise<void> {
+    const jobId = job._id as Types.ObjectId;
+    const user = job.user as IUser | null;
+    if (!user || !user.reminder?.enabled) {
+        await finishReminderJob(jobId, ReminderJobStatus.SKIPPED);
+        return;
+    }
+
+    const status = await sendReminder(api, job, user);
+    await finishReminderJob(jobId, status);
+    await scheduleNextReminder(user);
+}
+
+async function sendReminder(
+    api: Api,
+    job: IReminderJob,
+    user: IUser
+): Promise<ReminderJobStatus.SENT | ReminderJobStatus.SKIPPED | ReminderJobStatus.FAILED> {
+    const now = new Date();
+    if (now.getTime() - job.dueAt.getTime() > MAX_DELIVERY_DELAY_MS) {
+        return ReminderJobStatus.SKIPPED;
+    }
+
+    // Someone who already journaled today does not need a nudge.
+    const dayStart = startOfZonedDay(now, userTimezone(user));
+    if (await countUserJournalEntriesSince(user._id as unknown as Types.ObjectId, dayStart) > 0) {
+        return ReminderJobStatus.SKIPPED;
+    }
+
+    try {
+        await api.sendMessage(user.telegramId, getTextForUser('reminderNudge', user), {
+            parse_mode: 'HTML',
+            reply_markup: new InlineKeyboard()
+                .text(getTextForUser('reminderStartEntry', user), 'reminder_start_entry')
+                .text(getTextForUser('reminderLater', user), 'reminder_later')
+        });
+        return ReminderJobStatus.SENT;
+    } catch (error) {
+        // 403: the user blocked the bot. Further reminders would fail the same way.
+        if (error instanceof GrammyError && error.error_code === 403) {
+            schedulerLogger.info(`User ${user.telegramId} blocked the bot; turning reminders off`);
+            await updateUserReminder(user.telegramId, { enabled: false });
+            user.set('reminder.enabled', false);
+        } else {
+            schedulerLogger.error(`Failed to send reminder to user ${user.telegramId}:`, error);
+        }
+        return ReminderJobStatus.FAILED;
+    }
+}
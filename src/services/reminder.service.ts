@@ -0,0 +1,50 @@
+import { Types } from 'mongoose';
+import {
+    cancelPendingReminderJobs,
+    IUser,
+    ReminderJobStatus,
+    scheduleReminderJob
+} from '../database';
+import { nextOccurrence, userTimezone, zonedDateKey } from '../utils/timezone';
+
+// A day whose reminder already went out is skipped; more than this many in a
+// row means the stored settings are inconsistent, not that we should keep looking.
+const MAX_SCHEDULING_ATTEMPTS = 3;
+
+/**
+ * Makes sure the user's next daily reminder has a pending job. Idempotent:
+ * jobs are keyed by user and local date, so calling this again (on restart,
+ * after each send) never creates a second reminder for the same day.
+ */
+export async function scheduleNextReminder(user: IUser, after: Date = new Date()): Promise<void> {
+    const reminder = user.reminder;
+    if (!reminder?.enabled || !reminder.time) {
+        return;
+    }
+
+    const userId = user._id as unknown as Types.ObjectId;
+    const timezone = userTimezone(user);
+    let from = reminder.snoozedUntil && reminder.snoozedUntil > after ? reminder.snoozedUntil : after;
+
+    for (let attempt = 0; attempt < MAX_SCHEDULING_ATTEMPTS; attempt += 1) {
+        const dueAt = nextOccurrence(reminder.time, timezone, from);
+        const job = await scheduleReminderJob(userId, dueAt, `${userId}:${zonedDateKey(dueAt, timezone)}`);
+        if (job.status === ReminderJobStatus.PENDING) {
+            return;
+        }
+        from = dueAt;
+    }
+}
+
+/** Replaces the pending reminder after the user changed their reminder settings. */
+export async function rescheduleReminders(user: IUser): Promise<void> {
+    await cancelPendingReminderJobs(user._id as unknown as Types.ObjectId);
+    await scheduleNextReminder(user);
+}
+
+/** One extra reminder after a delay, on top of the daily one ("remind me later"). */
+export async function scheduleReminderLater(user: IUser, delayMs: number): Promise<void> {
+    const dueAt = new Date(Date.now() + delayMs);
+    const userId = user._id as unknown as Types.ObjectId;
+    await scheduleReminderJob(userId, dueAt, `${userId}:later:${dueAt.getTime()}`);
+}
@@ -0,0 +1,127 @@
+import { Api, GrammyError, InlineKeyboard } from 'grammy';
+import { Types } from 'mongoose';
+import {
+    claimRetrospective,
+    countUserJournalEntriesBetween,
+    getUserIdsWithEntriesSince,
+    getUsersByIds,
+    IUser,
+    releaseRetrospectiveClaim,
+    RetrospectivePeriod,
+    updateUserRetrospectives
+} from '../database';
+import { LOG_LEVEL, RETROSPECTIVE_CHECK_INTERVAL_MS } from '../config';
+import { trackInFlight } from '../lifecycle';
+import { getTextForUser } from '../utils/localization';
+import { createLogger } from '../utils/logger';
+import { userTimezone } from '../utils/timezone';
+import { createRetrospective, formatRetrospective, retrospectiveRange } from './retrospective.service';
+
+const schedulerLogger = createLogger('RetrospectiveScheduler', LOG_LEVEL);
+
+// Sent the morning after the period ends, on the user's clock.
+const DELIVERY_DELAY_MS = 9 * 60 * 60 * 1000;
+// A retrospective the bot could not send in time (e.g. it was down) is skipped, not sent days late.
+const MAX_DELIVERY_WINDOW_MS = 2 * 24 * 60 * 60 * 1000;
+// A single entry makes a thin retrospective; it is still there on demand.
+const MIN_ENTRIES = 2;
+// Users who wrote nothing in this long cannot be due for either kind.
+const ACTIVE_USER_WINDOW_MS = 32 * 24 * 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout | undefined;
+let currentTick: Promise<void> | undefined;
+// Set on shutdown so a pass stops between users instead of outliving the drain.
+let stopping = false;
+
+/**
+ * Starts the loop that sends each active user their weekly and monthly
+ * retrospectives. A retrospective is claimed in MongoDB before it is written,
+ * so restarts and several replicas never send one twice.
+ */
+export function startRetrospectiveScheduler(api: Api): void {
+    if (timer) {
+        return;
+    }
+    stopping = false;
+    runTick(() => deliverDueRetrospectives(api));
+    timer = setInterval(() => runTick(() => deliverDueRetrospectives(api)), RETROSPECTIVE_CHECK_INTERVAL_MS);
+    schedulerLogger.info(`Retrospective scheduler started (every ${RETROSPECTIVE_CHECK_INTERVAL_MS}ms)`);
+}
+
+/** Runs one pass unless the previous one is still going; shutdown waits for it. */
+function runTick(tick: () => Promise<void>): void {
+    if (currentTick) {
+        return;
+    }
+    currentTick = trackInFlight(tick()).finally(() => {
+        currentTick = undefined;
+    });
+}
+
+/** Stops the loop and waits for the retrospectives being written right now. */
+export async function stopRetrospectiveScheduler(): Promise<void> {
+    stopping = true;
+    clearInterval(timer);
+    timer = undefined;
+    await currentTick;
+}
+
+async function deliverDueRetrospectives(api: Api): Promise<void> {
+    try {
+        const now = new Date();
+        const users = await getUsersByIds(await getUserIdsWithEntriesSince(new Date(now.getTime() - ACTIVE_USER_WINDOW_MS)));
+        for (const user of users) {
+            if (stopping) {
+                schedulerLogger.info('Shutting down; the remaining retrospectives are left to the next pass');
+                return;
+            }
+            if (user.retrospectives?.weekly === true) {
+                await deliverIfDue(api, user, RetrospectivePeriod.WEEK, now);
+            }
+            if (user.retrospectives?.monthly === true) {
+                await deliverIfDue(api, user, RetrospectivePeriod.MONTH, now);
+            }
+        }
+    } catch (error) {
+        schedulerLogger.error('Failed to deliver due retrospectives:', error);
+    }
+}
+
+/** Sends the retrospective of the period that just ended, once, if it is time and there is enough to go on. */
+async function deliverIfDue(api: Api, user: IUser, period: RetrospectivePeriod, now: Date): Promise<void> {
+    const userId = user._id as unknown as Types.ObjectId;
+    const range = retrospectiveRange(period, userTimezone(user), now, 1);
+    const dueAt = range.end.getTime() + DELIVERY_DELAY_MS;
+    if (now.getTime() < dueAt || now.getTime() - dueAt > MAX_DELIVERY_WINDOW_MS) {
+        return;
+    }
+    if (await countUserJournalEntriesBetween(userId, range.start, range.end) < MIN_ENTRIES) {
+        return;
+    }
+    if (!(await claimRetrospective(userId, period, range.start, range.end))) {
+        return;
+    }
+
+    try {
+        const retrospective = await createRetrospective(user, range);
+        if (!retrospective) {
+            await releaseRetrospectiveClaim(userId, period, range.start);
+            return;
+        }
+        await api.sendMessage(user.telegramId, formatRetrospective(retrospective, user), {
+            parse_mode: 'HTML',
+            reply_markup: new InlineKeyboard().text(getTextForUser('retrospectivesAll', user), 'retros:0')
+        });
+    } catch (error) {
+        // 403: the user blocked the bot. The retrospective is kept for when they come back.
+        if (error instanceof GrammyError && error.error_code === 403) {
+            schedulerLogger.info(`User ${user.telegramId} blocked the bot; turning retrospectives off`);
+            await updateUserRetrospectives(user.telegramId, { weekly: false, monthly: false });
+            return;
+        }
+        schedulerLogger.error(`Failed to deliver the ${period} retrospective to user ${user.telegramId}:`, error);
+        // One that could not be written is tried again on a later pass while the window
+        // lasts; one that was written but not sent stays viewable from the history.
+        await releaseRetrospectiveClaim(userId, period, range.start);
+    }
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../database', () => ({
+    MAX_MOOD: 5,
+    RetrospectivePeriod: {
+        WEEK: 'week',
+        MONTH: 'month'
+    }
+}));
+
+vi.mock('../ai/retrospective-ai', () => ({
+    generateRetrospectiveReport: vi.fn()
+}));
+
+vi.mock('../utils/localization', () => ({
+    Language: {
+        ENGLISH: 'en',
+        RUSSIAN: 'ru'
+    },
+    getTextForUser: vi.fn()
+}));
+
+import { RetrospectivePeriod } from '../database';
+import { retrospectiveRange } from './retrospective.service';
+
+// A Wednesday afternoon in Berlin.
+const now = new Date('2024-03-13T15:00:00.000Z');
+
+describe('retrospectiveRange', () => {
+    it('spans Monday to Monday on the user clock', () => {
+        expect(retrospectiveRange(RetrospectivePeriod.WEEK, 'Europe/Berlin', now)).toEqual({
+            period: RetrospectivePeriod.WEEK,
+            start: new Date('2024-03-10T23:00:00.000Z'),
+            end: new Date('2024-03-17T23:00:00.000Z')
+        });
+    });
+
+    it('steps back whole weeks across a month boundary', () => {
+        const range = retrospectiveRange(RetrospectivePeriod.WEEK, 'Europe/Berlin', now, 2);
+
+        expect(range.start).toEqual(new Date('2024-02-25T23:00:00.000Z'));
+        expect(range.end).toEqual(new Date('2024-03-03T23:00:00.000Z'));
+    });
+
+    it('spans a calendar month, across a daylight saving change', () => {
+        const range = retrospectiveRange(RetrospectivePeriod.MONTH, 'Europe/Berlin', now);
+
+        expect(range.start).toEqual(new Date('2024-02-29T23:00:00.000Z'));
+        // Berlin moves to summer time on 31 March.
+        expect(range.end).toEqual(new Date('2024-03-31T22:00:00.000Z'));
+    });
+
+    it('steps back across a year boundary', () => {
+        const range = retrospectiveRange(RetrospectivePeriod.MONTH, 'Europe/Berlin', now, 3);
+
+        expect(range.start).toEqual(new Date('2023-11-30T23:00:00.000Z'));
+        expect(range.end).toEqual(new Date('2023-12-31T23:00:00.000Z'));
+    });
+});
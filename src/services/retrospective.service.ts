@@ -0,0 +1,128 @@
+import { Types } from 'mongoose';
+import { generateRetrospectiveReport } from '../ai/retrospective-ai';
+import {
+    getUserJournalEntriesBetween,
+    IJournalEntry,
+    IRetrospective,
+    IUser,
+    MAX_MOOD,
+    RetrospectivePeriod,
+    saveRetrospective
+} from '../database';
+import { extractFullText } from '../utils/entry-text';
+import { getTextForUser, Language } from '../utils/localization';
+import {
+    formatZonedDate,
+    formatZonedDateTime,
+    getZonedParts,
+    startOfZonedWeek,
+    userTimezone,
+    zonedTimeToUtc
+} from '../utils/timezone';
+import { sampleMood } from './mood-trends';
+
+// Enough of an entry to recall it by; the retrospective looks at the whole period, not the details.
+const MAX_ENTRY_SECTION_LENGTH = 4000;
+
+/** A week (Monday to Monday) or a calendar month on the user's clock; `end` is exclusive. */
+export interface RetrospectiveRange {
+    period: RetrospectivePeriod;
+    start: Date;
+    end: Date;
+}
+
+/** The week or month containing `now` (periodsBack 0), or one that many periods earlier. */
+export function retrospectiveRange(
+    period: RetrospectivePeriod,
+    timezone: string,
+    now: Date,
+    periodsBack = 0
+): RetrospectiveRange {
+    if (period === RetrospectivePeriod.WEEK) {
+        const { year, month, day } = getZonedParts(startOfZonedWeek(now, timezone), timezone);
+        const startDay = day - 7 * periodsBack;
+        return {
+            period,
+            start: zonedTimeToUtc(year, month, startDay, 0, 0, timezone),
+            end: zonedTimeToUtc(year, month, startDay + 7, 0, 0, timezone)
+        };
+    }
+
+    const { year, month } = getZonedParts(now, timezone);
+    return {
+        period,
+        start: zonedTimeToUtc(year, month - periodsBack, 1, 0, 0, timezone),
+        end: zonedTimeToUtc(year, month - periodsBack + 1, 1, 0, 0, timezone)
+    };
+}
+
+/**
+ * Writes the retrospective of a period from the user's entries in it and
+ * stores it, replacing an earlier one for the same period. Returns null when
+ * the user wrote nothing then.
+ */
+export async function createRetrospective(user: IUser, range: RetrospectiveRange): Promise<IRetrospective | null> {
+    const userId = user._id as unknown as Types.ObjectId;
+    const entries = await getUserJournalEntriesBetween(userId, range.start, range.end);
+    if (entries.length === 0) {
+        return null;
+    }
+
+    const timezone = userTimezone(user);
+    const report = await generateRetrospectiveReport(
+        entries.map(entry => entrySection(entry, timezone)),
+        formatRetrospectivePeriod(range.period, range.start, user),
+        user
+    );
+
+    const moods = entries.map(sampleMood).filter((mood): mood is number => mood !== undefined);
+    return saveRetrospective(userId, range.period, range.start, range.end, {
+        entryCount: entries.length,
+        ...report,
+        averageMood: moods.length > 0 ? moods.reduce((sum, mood) => sum + mood, 0) / moods.length : undefined
+    });
+}
+
+/** An entry as the retrospective sees it: a header line with what is known about it, then its text. */
+function entrySection(entry: IJournalEntry, timezone: string): string {
+    const header = [formatZonedDateTime(entry.createdAt, timezone)];
+    if (entry.title) {
+        header.push(entry.title);
+    }
+    const mood = sampleMood(entry);
+    if (mood !== undefined) {
+        const emotions = entry.emotions?.length ? ` (${entry.emotions.join(', ')})` : '';
+        header.push(`mood ${mood}/${MAX_MOOD}${emotions}`);
+    }
+    if (entry.people?.length) {
+        header.push(`people: ${entry.people.join(', ')}`);
+    }
+
+    const text = extractFullText(entry) || entry.fullText || '';
+    return `${header.join(' — ')}\n${text.slice(0, MAX_ENTRY_SECTION_LENGTH)}`;
+}
+
+/** "Week of 4 March" or "March 2024", in the user's language. */
+export function formatRetrospectivePeriod(period: RetrospectivePeriod, periodStart: Date, user: IUser): string {
+    const timezone = userTimezone(user);
+    const locale = user.language || Language.ENGLISH;
+    if (period === RetrospectivePeriod.WEEK) {
+        return getTextForUser('retrospectiveWeekOf', user, { date: formatZonedDate(periodStart, timezone, locale) });
+    }
+    return periodStart.toLocaleDateString(locale, { timeZone: timezone, month: 'long', year: 'numeric' });
+}
+
+/** The retrospective as a ready-to-send HTML message. */
+export function formatRetrospective(retrospective: IRetrospective, user: IUser): string {
+    const list = (items: string[] | undefined) => (items?.length ? items.map(item => `• ${item}`).join('\n') : '—');
+    return getTextForUser('retrospectiveReport', user, {
+        title: formatRetrospectivePeriod(retrospective.period, retrospective.periodStart, user),
+        entries: String(retrospective.entryCount),
+        mood: retrospective.averageMood !== undefined ? `${retrospective.averageMood.toFixed(1)}/${MAX_MOOD}` : '—',
+        overview: retrospective.overview || '—',
+        themes: list(retrospective.themes),
+        people: list(retrospective.people),
+        moodShift: retrospective.moodShift || '—',
+        openLoops: list(retrospective.openLoops)
+    });
+}
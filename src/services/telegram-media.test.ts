@@ -0,0 +1,234 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../config', () => ({
+    LOG_LEVEL: 0,
+    TELEGRAM_API_TOKEN: 'test-token',
+    FFMPEG_PATH: 'ffmpeg'
+}));
+
+vi.mock('../utils/ffmpeg', () => ({
+    convertToSpeechWav: vi.fn(),
+    analyzeSilences: vi.fn(),
+    cutAudio: vi.fn()
+}));
+
+vi.mock('../database', () => ({
+    MessageType: { TEXT: 'text', VOICE: 'voice', IMAGE: 'image', VIDEO: 'video', AUDIO: 'audio' }
+}));
+
+vi.mock('../ai/journal-ai', () => ({
+    describePhoto: vi.fn()
+}));
+
+vi.mock('../ai/transcription', () => ({
+    NoSpeechError: class NoSpeechError extends Error {},
+    transcribeAudio: vi.fn()
+}));
+
+import { Message } from 'grammy/types';
+import { analyzeSilences, convertToSpeechWav, cutAudio } from '../utils/ffmpeg';
+import { NoSpeechError, transcribeAudio } from '../ai/transcription';
+import { getAudioAttachment, planAudioChunks, stitchTranscripts, transcribeRecording } from './telegram-media';
+
+describe('getAudioAttachment', () => {
+    const base = { message_id: 1, date: 1760000000, chat: { id: 1, type: 'private', first_name: 'Ann' } };
+
+    it('keeps what Telegram says about a voice message', () => {
+        const message = {
+            ...base,
+            voice: { file_id: 'v1', file_unique_id: 'u1', duration: 12, mime_type: 'audio/ogg', file_size: 4096 }
+        };
+
+        expect(getAudioAttachment(message as Message)).toEqual({
+            type: 'voice',
+            fileId: 'v1',
+            extension: '.oga',
+            metadata: { mimeType: 'audio/ogg', fileSize: 4096, durationSeconds: 12 }
+        });
+    });
+
+    it('takes an audio file with its tags and the extension of its name', () => {
+        const message = {
+            ...base,
+            audio: {
+                file_id: 'a1',
+                file_unique_id: 'u2',
+                duration: 184,
+                file_name: 'Morning Walk.M4A',
+                mime_type: 'audio/mp4',
+                title: 'Morning walk',
+                performer: 'Ann'
+            }
+        };
+
+        expect(getAudioAttachment(message as Message)).toMatchObject({
+            type: 'audio',
+            fileId: 'a1',
+            extension: '.m4a',
+            metadata: { fileName: 'Morning Walk.M4A', title: 'Morning walk', performer: 'Ann', durationSeconds: 184 }
+        });
+    });
+
+    it('takes a document with an audio MIME type, going by the type without a name', () => {
+        const message = { ...base, document: { file_id: 'd1', file_unique_id: 'u3', mime_type: 'audio/mpeg' } };
+
+        expect(getAudioAttachment(message as Message)).toMatchObject({ type: 'audio', fileId: 'd1', extension: '.mp3' });
+    });
+
+    it('ignores documents that are not audio', () => {
+        const message = { ...base, document: { file_id: 'd2', file_unique_id: 'u4', mime_type: 'application/zip' } };
+
+        expect(getAudioAttachment(message as Message)).toBeNull();
+    });
+
+    it('records who a forwarded voice message came from', () => {
+        const message = {
+            ...base,
+            forward_origin: {
+                type: 'user',
+                date: 1750000000,
+                sender_user: { id: 2, is_bot: false, first_name: 'Boris', last_name: 'Petrov' }
+            },
+            voice: { file_id: 'v2', file_unique_id: 'u5', duration: 5 }
+        };
+
+        expect(getAudioAttachment(message as Message)?.metadata).toMatchObject({
+            forwardedFrom: 'Boris Petrov',
+            forwardedDate: new Date(1750000000 * 1000)
+        });
+    });
+});
+
+describe('planAudioChunks', () => {
+    it('keeps a short recording whole', () => {
+        expect(planAudioChunks({ durationSeconds: 42, silences: [] }, 300)).toEqual([
+            { startSeconds: 0, endSeconds: 42 }
+        ]);
+    });
+
+    it('cuts in the middle of the latest pause before the limit', () => {
+        const chunks = planAudioChunks({
+            durationSeconds: 700,
+            silences: [
+                { start: 100, end: 102 },
+                { start: 280, end: 284 },
+                { start: 301, end: 303 },
+                { start: 560, end: 561 }
+            ]
+        }, 300);
+
+        expect(chunks).toEqual([
+            { startSeconds: 0, endSeconds: 282 },
+            { startSeconds: 282, endSeconds: 560.5 },
+            { startSeconds: 560.5, endSeconds: 700 }
+        ]);
+    });
+
+    it('cuts hard at the limit when nobody pauses', () => {
+        expect(planAudioChunks({ durationSeconds: 650, silences: [] }, 300)).toEqual([
+            { startSeconds: 0, endSeconds: 300 },
+            { startSeconds: 300, endSeconds: 600 },
+            { startSeconds: 600, endSeconds: 650 }
+        ]);
+    });
+});
+
+describe('stitchTranscripts', () => {
+    it('leaves a single part unmarked', () => {
+        expect(stitchTranscripts([{ startSeconds: 0, text: 'Went to Riga.' }])).toBe('Went to Riga.');
+    });
+
+    it('marks each part with where it starts and skips parts without speech', () => {
+        expect(stitchTranscripts([
+            { startSeconds: 0, text: 'Went to Riga.' },
+            { startSeconds: 282, text: '' },
+            { startSeconds: 3725.5, text: 'Came back tired.' }
+        ])).toBe('[00:00] Went to Riga.\n\n[1:02:05] Came back tired.');
+    });
+});
+
+describe('transcribeRecording', () => {
+    let directory: string;
+    let recording: string;
+
+    beforeAll(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'telegram-media-test-'));
+        recording = path.join(directory, 'video.mp4');
+        await fs.writeFile(recording, 'video');
+    });
+
+    afterAll(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(convertToSpeechWav).mockResolvedValue();
+        vi.mocked(cutAudio).mockResolvedValue();
+    });
+
+    it('transcribes a short recording in one piece', async () => {
+        vi.mocked(analyzeSilences).mockResolvedValue({ durationSeconds: 60, silences: [] });
+        vi.mocked(transcribeAudio).mockResolvedValue('Went to Riga.');
+        const onProgress = vi.fn();
+
+        await expect(transcribeRecording(recording, { onProgress })).resolves.toBe('Went to Riga.');
+        expect(transcribeAudio).toHaveBeenCalledWith(expect.stringMatching(/audio\.wav$/u), undefined);
+        expect(cutAudio).not.toHaveBeenCalled();
+        expect(onProgress).not.toHaveBeenCalled();
+    });
+
+    it('transcribes a long recording chunk by chunk, reporting progress', async () => {
+        vi.mocked(analyzeSilences).mockResolvedValue({ durationSeconds: 1200, silences: [] });
+        vi.mocked(transcribeAudio)
+            .mockResolvedValueOnce('Went to Riga.')
+            .mockRejectedValueOnce(new NoSpeechError())
+            .mockRejectedValueOnce(new NoSpeechError())
+            .mockResolvedValueOnce('Came back tired.');
+        const onProgress = vi.fn();
+
+        await expect(transcribeRecording(recording, { onProgress })).resolves.toBe(
+            '[00:00] Went to Riga.\n\n[15:00] Came back tired.'
+        );
+        expect(onProgress.mock.calls).toEqual([[1, 4], [2, 4], [3, 4], [4, 4]]);
+        expect(vi.mocked(cutAudio).mock.calls.map(call => [call[3], call[4]])).toEqual([
+            [0, 300], [300, 300], [600, 300], [900, 300]
+        ]);
+    });
+
+    it('passes the vocabulary on to every chunk', async () => {
+        vi.mocked(analyzeSilences).mockResolvedValue({ durationSeconds: 400, silences: [] });
+        vi.mocked(transcribeAudio).mockResolvedValue('Anja called.');
+
+        await transcribeRecording(recording, { vocabulary: ['Anja'] });
+
+        expect(vi.mocked(transcribeAudio).mock.calls.map(call => call[1])).toEqual([['Anja'], ['Anja']]);
+    });
+
+    it('throws NoSpeechError when no chunk has speech', async () => {
+        vi.mocked(analyzeSilences).mockResolvedValue({ durationSeconds: 400, silences: [] });
+        vi.mocked(transcribeAudio).mockRejectedValue(new NoSpeechError());
+
+        await expect(transcribeRecording(recording)).rejects.toBeInstanceOf(NoSpeechError);
+    });
+
+    it('stops at the first chunk that fails', async () => {
+        vi.mocked(analyzeSilences).mockResolvedValue({ durationSeconds: 400, silences: [] });
+        vi.mocked(transcribeAudio).mockRejectedValue(new Error('HTTP 500'));
+
+        await expect(transcribeRecording(recording)).rejects.toThrow('HTTP 500');
+        expect(transcribeAudio).toHaveBeenCalledTimes(1);
+    });
+
+    it('transcribes the file as is when ffmpeg cannot read it', async () => {
+        vi.mocked(convertToSpeechWav).mockRejectedValue(new Error('ffmpeg failed: spawn ffmpeg ENOENT'));
+        vi.mocked(transcribeAudio).mockResolvedValue('Went to Riga.');
+
+        await expect(transcribeRecording(recording)).resolves.toBe('Went to Riga.');
+        expect(transcribeAudio).toHaveBeenCalledWith(recording, undefined);
+        expect(analyzeSilences).not.toHaveBeenCalled();
+    });
+});
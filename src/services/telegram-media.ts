@@ -1,10 +1,14 @@
 import { Context } from 'grammy';
+import { Message, MessageOrigin, PhotoSize, User } from 'grammy/types';
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { TELEGRAM_API_TOKEN, LOG_LEVEL } from '../config';
+import { TELEGRAM_API_TOKEN, LOG_LEVEL, FFMPEG_PATH } from '../config';
 import { createLogger } from '../utils/logger';
-import { transcribeAudio } from '../ai/transcription';
+import { AudioAnalysis, analyzeSilences, convertToSpeechWav, cutAudio } from '../utils/ffmpeg';
+import { NoSpeechError, transcribeAudio } from '../ai/transcription';
+import { IMessageFileMetadata, IUser, MessageType } from '../database';
+import { describePhoto } from '../ai/journal-ai';
 
 const mediaLogger = createLogger('TelegramMedia', LOG_LEVEL);
 
@@ -31,14 +35,22 @@ async function downloadTelegramFile(ctx: Context, fileId: string, extension: str
     return localFilePath;
 }
 
+/** Telegram's Bot API refuses to hand out files larger than this via getFile. */
+export const MAX_DOWNLOAD_SIZE = 20 * 1024 * 1024;
+
 /**
- * Downloads a Telegram media file, transcribes it, and always removes
- * the temp file — including on transcription failure.
+ * Downloads a Telegram file, runs `task` on the local copy, and always
+ * removes the temp file — including when the task fails.
  */
-async function transcribeTelegramFile(ctx: Context, fileId: string, extension: string): Promise<string> {
+export async function withDownloadedFile<T>(
+    ctx: Context,
+    fileId: string,
+    extension: string,
+    task: (localFilePath: string) => Promise<T>
+): Promise<T> {
     const localFilePath = await downloadTelegramFile(ctx, fileId, extension);
     try {
-        return await transcribeAudio(localFilePath);
+        return await task(localFilePath);
     } finally {
         await fs.unlink(localFilePath).catch(error =>
             mediaLogger.warn(`Failed to delete temp file ${localFilePath}:`, error)
@@ -46,12 +58,286 @@ async function transcribeTelegramFile(ctx: Context, fileId: string, extension: s
     }
 }
 
-export async function transcribeVoiceMessage(ctx: Context, fileId: string): Promise<string> {
-    return transcribeTelegramFile(ctx, fileId, '.oga');
+/**
+ * Recordings are transcribed in chunks of at most this length. Five minutes of
+ * 16 kHz mono WAV is under 10 MB, well inside the Whisper API's 25 MB limit,
+ * and gives the user a progress update every few moments.
+ */
+export const MAX_CHUNK_SECONDS = 300;
+
+// Extracting or cutting the audio of even a long recording takes seconds.
+const FFMPEG_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Called before each chunk of a recording that needed more than one. */
+export type TranscriptionProgressHandler = (part: number, total: number) => Promise<void>;
+
+export interface TranscriptionOptions {
+    onProgress?: TranscriptionProgressHandler;
+    /** The user's names and words, whose spelling the transcriber should use. */
+    vocabulary?: string[];
+}
+
+export interface AudioChunk {
+    startSeconds: number;
+    endSeconds: number;
+}
+
+export interface TranscriptPart {
+    startSeconds: number;
+    text: string;
+}
+
+/**
+ * Splits a recording into chunks of at most `maxChunkSeconds`, each cut in the
+ * middle of the latest pause that fits so no word is split in two. A stretch
+ * without any pause is cut hard at the limit.
+ */
+export function planAudioChunks(analysis: AudioAnalysis, maxChunkSeconds: number): AudioChunk[] {
+    const chunks: AudioChunk[] = [];
+    let start = 0;
+    while (analysis.durationSeconds - start > maxChunkSeconds) {
+        const limit = start + maxChunkSeconds;
+        const cuts = analysis.silences
+            .map(silence => (silence.start + silence.end) / 2)
+            .filter(middle => middle > start && middle <= limit);
+        const end = cuts.length > 0 ? cuts[cuts.length - 1] : limit;
+        chunks.push({ startSeconds: start, endSeconds: end });
+        start = end;
+    }
+    chunks.push({ startSeconds: start, endSeconds: analysis.durationSeconds });
+    return chunks;
+}
+
+function formatTimestamp(totalSeconds: number): string {
+    const seconds = Math.floor(totalSeconds);
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor(seconds % 3600 / 60);
+    const rest = String(seconds % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${String(minutes).padStart(2, '0')}:${rest}`;
+}
+
+/**
+ * Joins the transcripts of a recording's chunks, each marked with where it
+ * starts in the recording. A recording transcribed in one piece needs no marks.
+ */
+export function stitchTranscripts(parts: TranscriptPart[]): string {
+    const spoken = parts.filter(part => part.text.length > 0);
+    if (parts.length === 1) {
+        return spoken[0]?.text ?? '';
+    }
+    return spoken.map(part => `[${formatTimestamp(part.startSeconds)}] ${part.text}`).join('\n\n');
+}
+
+/**
+ * Transcribes a recording of any length: extracts its audio as 16 kHz mono
+ * WAV, splits that on pauses into chunks the transcriber accepts, and stitches
+ * their transcripts back together. Chunks without speech are left out; only
+ * a recording without any speech throws `NoSpeechError`.
+ */
+export async function transcribeRecording(
+    filePath: string,
+    { onProgress, vocabulary }: TranscriptionOptions = {}
+): Promise<string> {
+    await fs.mkdir(TEMP_DIR, { recursive: true });
+    const directory = await fs.mkdtemp(path.join(TEMP_DIR, 'chunks-'));
+    try {
+        const wavPath = path.join(directory, 'audio.wav');
+        try {
+            await convertToSpeechWav(FFMPEG_PATH, filePath, wavPath, FFMPEG_TIMEOUT_MS);
+        } catch (error) {
+            // Without ffmpeg short recordings still work, as they did before chunking.
+            mediaLogger.warn('Could not extract audio, transcribing the file as is:', error);
+            return await transcribeAudio(filePath, vocabulary);
+        }
+
+        const chunks = planAudioChunks(await analyzeSilences(FFMPEG_PATH, wavPath, FFMPEG_TIMEOUT_MS), MAX_CHUNK_SECONDS);
+        if (chunks.length === 1) {
+            return await transcribeAudio(wavPath, vocabulary);
+        }
+
+        mediaLogger.debug(`Transcribing ${filePath} in ${chunks.length} chunks`);
+        const parts: TranscriptPart[] = [];
+        for (const [index, chunk] of chunks.entries()) {
+            await onProgress?.(index + 1, chunks.length);
+            const chunkPath = path.join(directory, `chunk-${index}.wav`);
+            await cutAudio(
+                FFMPEG_PATH,
+                wavPath,
+                chunkPath,
+                chunk.startSeconds,
+                chunk.endSeconds - chunk.startSeconds,
+                FFMPEG_TIMEOUT_MS
+            );
+            try {
+                parts.push({ startSeconds: chunk.startSeconds, text: await transcribeAudio(chunkPath, vocabulary) });
+            } catch (error) {
+                if (!(error instanceof NoSpeechError)) {
+                    throw error;
+                }
+            } finally {
+                await fs.rm(chunkPath, { force: true });
+            }
+        }
+
+        const transcription = stitchTranscripts(parts);
+        if (!transcription) {
+            throw new NoSpeechError();
+        }
+        return transcription;
+    } finally {
+        await fs.rm(directory, { recursive: true, force: true }).catch(error =>
+            mediaLogger.warn(`Failed to delete temp directory ${directory}:`, error)
+        );
+    }
+}
+
+async function transcribeTelegramFile(
+    ctx: Context,
+    fileId: string,
+    extension: string,
+    options?: TranscriptionOptions
+): Promise<string> {
+    return withDownloadedFile(ctx, fileId, extension, filePath => transcribeRecording(filePath, options));
+}
+
+export async function transcribeVoiceMessage(
+    ctx: Context,
+    fileId: string,
+    options?: TranscriptionOptions
+): Promise<string> {
+    return transcribeTelegramFile(ctx, fileId, '.oga', options);
+}
+
+export async function transcribeVideoMessage(
+    ctx: Context,
+    fileId: string,
+    options?: TranscriptionOptions
+): Promise<string> {
+    return transcribeTelegramFile(ctx, fileId, '.mp4', options);
+}
+
+export async function transcribeAudioMessage(
+    ctx: Context,
+    attachment: AudioAttachment,
+    options?: TranscriptionOptions
+): Promise<string> {
+    return transcribeTelegramFile(ctx, attachment.fileId, attachment.extension, options);
+}
+
+/** An audio file in a message, whichever way Telegram delivered it. */
+export interface AudioAttachment {
+    type: MessageType.VOICE | MessageType.AUDIO;
+    fileId: string;
+    /** For the temp file; transcription backends go by it when ffmpeg is missing. */
+    extension: string;
+    metadata: IMessageFileMetadata;
+}
+
+// Audio documents without a file name only have their MIME type to go by.
+const AUDIO_EXTENSIONS: Record<string, string> = {
+    'audio/aac': '.aac',
+    'audio/flac': '.flac',
+    'audio/mp4': '.m4a',
+    'audio/mpeg': '.mp3',
+    'audio/ogg': '.ogg',
+    'audio/opus': '.opus',
+    'audio/wav': '.wav',
+    'audio/webm': '.webm',
+    'audio/x-m4a': '.m4a',
+    'audio/x-wav': '.wav'
+};
+
+function audioExtension(fileName: string | undefined, mimeType: string | undefined): string {
+    const extension = fileName ? path.extname(fileName).toLowerCase() : '';
+    return extension || AUDIO_EXTENSIONS[mimeType ?? ''] || '.mp3';
+}
+
+function personName(user: User): string {
+    return [user.first_name, user.last_name].filter(Boolean).join(' ');
+}
+
+function forwardMetadata(origin: MessageOrigin | undefined): IMessageFileMetadata {
+    if (!origin) {
+        return {};
+    }
+    const forwardedDate = new Date(origin.date * 1000);
+    switch (origin.type) {
+        case 'user':
+            return { forwardedFrom: personName(origin.sender_user), forwardedDate };
+        case 'hidden_user':
+            return { forwardedFrom: origin.sender_user_name, forwardedDate };
+        case 'chat':
+            return { forwardedFrom: origin.sender_chat.title, forwardedDate };
+        case 'channel':
+            return { forwardedFrom: origin.chat.title, forwardedDate };
+    }
+}
+
+/**
+ * Finds the audio in a voice message, an audio file or a document with an
+ * audio MIME type, forwarded or not, together with what Telegram told us about
+ * the file.
+ */
+export function getAudioAttachment(message: Message): AudioAttachment | null {
+    const forwarded = forwardMetadata(message.forward_origin);
+    if (message.voice) {
+        return {
+            type: MessageType.VOICE,
+            fileId: message.voice.file_id,
+            extension: '.oga',
+            metadata: {
+                mimeType: message.voice.mime_type,
+                fileSize: message.voice.file_size,
+                durationSeconds: message.voice.duration,
+                ...forwarded
+            }
+        };
+    }
+    if (message.audio) {
+        return {
+            type: MessageType.AUDIO,
+            fileId: message.audio.file_id,
+            extension: audioExtension(message.audio.file_name, message.audio.mime_type),
+            metadata: {
+                fileName: message.audio.file_name,
+                mimeType: message.audio.mime_type,
+                fileSize: message.audio.file_size,
+                durationSeconds: message.audio.duration,
+                title: message.audio.title,
+                performer: message.audio.performer,
+                ...forwarded
+            }
+        };
+    }
+    if (message.document?.mime_type?.startsWith('audio/')) {
+        return {
+            type: MessageType.AUDIO,
+            fileId: message.document.file_id,
+            extension: audioExtension(message.document.file_name, message.document.mime_type),
+            metadata: {
+                fileName: message.document.file_name,
+                mimeType: message.document.mime_type,
+                fileSize: message.document.file_size,
+                ...forwarded
+            }
+        };
+    }
+    return null;
+}
+
+/** The largest of the sizes Telegram offers for a photo; it lists them smallest first. */
+export function getLargestPhoto(sizes: PhotoSize[]): PhotoSize {
+    return sizes[sizes.length - 1];
 }
 
-export async function transcribeVideoMessage(ctx: Context, fileId: string): Promise<string> {
-    return transcribeTelegramFile(ctx, fileId, '.mp4');
+/** Describes a photo from a message with the vision model; see `describePhoto`. */
+export async function describePhotoMessage(
+    ctx: Context,
+    fileId: string,
+    caption: string | undefined,
+    user: IUser
+): Promise<string> {
+    return withDownloadedFile(ctx, fileId, '.jpg', localFilePath => describePhoto(localFilePath, caption, user));
 }
 
 /** Extracts the file id of a video or video note from a message, if present. */
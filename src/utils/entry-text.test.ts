@@ -5,7 +5,8 @@ vi.mock('../database', () => ({
         TEXT: 'text',
         VOICE: 'voice',
         IMAGE: 'image',
-        VIDEO: 'video'
+        VIDEO: 'video',
+        AUDIO: 'audio'
     }
 }));
 
@@ -24,6 +25,13 @@ describe('getMessageContent', () => {
         ['text message', message({ type: MessageType.TEXT, text: 'written' }), 'written'],
         ['voice message', message({ type: MessageType.VOICE, transcription: 'spoken' }), 'spoken'],
         ['video message', message({ type: MessageType.VIDEO, transcription: 'recorded' }), 'recorded'],
+        ['audio file', message({ type: MessageType.AUDIO, transcription: 'played' }), 'played'],
+        [
+            'photo with a caption',
+            message({ type: MessageType.IMAGE, text: 'Rex at the sea', imageDescription: 'A dog on a beach.' }),
+            'Rex at the sea\n\n[Photo: A dog on a beach.]'
+        ],
+        ['generated image', message({ type: MessageType.IMAGE, imagePrompt: 'a sunrise' }), ''],
         ['text without text', message({ type: MessageType.TEXT }), ''],
         ['voice without transcription', message({ type: MessageType.VOICE }), ''],
         ['unknown message type', message({ type: 'unknown' as MessageType }), '']
@@ -1,13 +1,21 @@
 import { IJournalEntry, IMessage, MessageType } from '../database';
 
-/** Returns the displayable content of a single message (text or transcription). */
+/**
+ * Returns the displayable content of a single message: its text, its
+ * transcription, or a photo's caption and what the photo shows.
+ */
 export function getMessageContent(message: IMessage): string {
     switch (message.type) {
         case MessageType.TEXT:
             return message.text || '';
         case MessageType.VOICE:
         case MessageType.VIDEO:
+        case MessageType.AUDIO:
             return message.transcription || '';
+        case MessageType.IMAGE:
+            return [message.text, message.imageDescription && `[Photo: ${message.imageDescription}]`]
+                .filter(Boolean)
+                .join('\n\n');
         default:
             return '';
     }
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseSilenceDetectOutput } from './ffmpeg';
+
+const OUTPUT = `Input #0, wav, from 'audio.wav':
+  Duration: 00:20:13.45, bitrate: 256 kb/s
+  Stream #0:0: Audio: pcm_s16le ([1][0][0][0] / 0x0001), 16000 Hz, 1 channels, s16, 256 kb/s
+[silencedetect @ 0x5581d0] silence_start: 0
+[silencedetect @ 0x5581d0] silence_end: 1.204 | silence_duration: 1.204
+[silencedetect @ 0x5581d0] silence_start: 297.51
+[silencedetect @ 0x5581d0] silence_end: 298.62 | silence_duration: 1.11
+[silencedetect @ 0x5581d0] silence_start: 1210.3
+size=N/A time=00:20:13.45 bitrate=N/A speed= 812x
+`;
+
+describe('parseSilenceDetectOutput', () => {
+    it('reads the duration and the detected silences', () => {
+        const analysis = parseSilenceDetectOutput(OUTPUT);
+
+        expect(analysis.durationSeconds).toBeCloseTo(1213.45);
+        expect(analysis.silences.slice(0, 2)).toEqual([
+            { start: 0, end: 1.204 },
+            { start: 297.51, end: 298.62 }
+        ]);
+    });
+
+    it('ends a trailing silence at the end of the recording', () => {
+        const analysis = parseSilenceDetectOutput(OUTPUT);
+
+        expect(analysis.silences[2].start).toBe(1210.3);
+        expect(analysis.silences[2].end).toBeCloseTo(1213.45);
+    });
+
+    it('throws when there is no duration to read', () => {
+        expect(() => parseSilenceDetectOutput('audio.wav: Invalid data found when processing input'))
+            .toThrow('ffmpeg reported no duration');
+    });
+});
@@ -0,0 +1,95 @@
+import { runCommand } from './process';
+
+// Quieter than this for at least this long counts as a pause between phrases.
+const SILENCE_NOISE_LEVEL = '-35dB';
+const MIN_SILENCE_SECONDS = 0.5;
+
+export interface Silence {
+    start: number;
+    end: number;
+}
+
+export interface AudioAnalysis {
+    durationSeconds: number;
+    silences: Silence[];
+}
+
+/**
+ * Extracts the audio track of any file ffmpeg can read as 16 kHz mono 16-bit
+ * WAV, the only input whisper.cpp takes and all a speech model needs.
+ */
+export async function convertToSpeechWav(
+    ffmpegPath: string,
+    inputPath: string,
+    outputPath: string,
+    timeoutMs: number
+): Promise<void> {
+    await runCommand(
+        ffmpegPath,
+        ['-nostdin', '-y', '-loglevel', 'error', '-i', inputPath, '-vn', '-ac', '1', '-ar', '16000', '-c:a', 'pcm_s16le', outputPath],
+        timeoutMs
+    );
+}
+
+/** The length of a recording and the pauses in it, from ffmpeg's silencedetect filter. */
+export async function analyzeSilences(ffmpegPath: string, inputPath: string, timeoutMs: number): Promise<AudioAnalysis> {
+    const { stderr } = await runCommand(
+        ffmpegPath,
+        [
+            '-nostdin', '-hide_banner', '-nostats', '-i', inputPath,
+            '-af', `silencedetect=noise=${SILENCE_NOISE_LEVEL}:d=${MIN_SILENCE_SECONDS}`,
+            '-f', 'null', '-'
+        ],
+        timeoutMs
+    );
+    return parseSilenceDetectOutput(stderr);
+}
+
+/**
+ * Reads the input duration and the silence_start / silence_end pairs that
+ * silencedetect logs. A recording that ends in silence logs no final
+ * silence_end, so that silence runs to the end.
+ */
+export function parseSilenceDetectOutput(output: string): AudioAnalysis {
+    const duration = /Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/u.exec(output);
+    if (!duration) {
+        throw new Error('ffmpeg reported no duration for the recording');
+    }
+    const durationSeconds = Number(duration[1]) * 3600 + Number(duration[2]) * 60 + Number(duration[3]);
+
+    const silences: Silence[] = [];
+    let silenceStart: number | undefined;
+    for (const match of output.matchAll(/silence_(start|end): (-?\d+(?:\.\d+)?)/gu)) {
+        const seconds = Math.max(0, Number(match[2]));
+        if (match[1] === 'start') {
+            silenceStart = seconds;
+        } else if (silenceStart !== undefined) {
+            silences.push({ start: silenceStart, end: seconds });
+            silenceStart = undefined;
+        }
+    }
+    if (silenceStart !== undefined) {
+        silences.push({ start: silenceStart, end: durationSeconds });
+    }
+    return { durationSeconds, silences };
+}
+
+/** Copies `durationSeconds` of a WAV file from `startSeconds` on into a new one. */
+export async function cutAudio(
+    ffmpegPath: string,
+    inputPath: string,
+    outputPath: string,
+    startSeconds: number,
+    durationSeconds: number,
+    timeoutMs: number
+): Promise<void> {
+    await runCommand(
+        ffmpegPath,
+        [
+            '-nostdin', '-y', '-loglevel', 'error',
+            '-ss', startSeconds.toFixed(3), '-t', durationSeconds.toFixed(3),
+            '-i', inputPath, '-c', 'copy', outputPath
+        ],
+        timeoutMs
+    );
+}
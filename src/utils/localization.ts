@@ -99,8 +99,8 @@ const defaultTexts: TextCollection = {
     [Language.RUSSIAN]: '<b>Привет, {name}!</b>\n\nУ тебя уже есть незавершенная запись. Хочешь продолжить с того места, где остановился(-ась)? Можешь добавить больше мыслей или выбрать один из вариантов ниже:'
   },
   newEntry: {
-    [Language.ENGLISH]: '<b>Let\'s create a new journal entry, {name}!</b> 📝✨\n\nShare whatever\'s on your mind - your thoughts, feelings, experiences... anything at all! You can send text, voice messages, or videos.\n\nI\'m here to listen and help you reflect. When you\'re ready, just choose one of the options below:',
-    [Language.RUSSIAN]: '<b>Давай создадим новую запись в дневнике, {name}!</b> 📝✨\n\nПоделись всем, что у тебя на уме - твоими мыслями, чувствами, опытом... чем угодно! Можешь отправлять текст, голосовые сообщения или видео.\n\nЯ здесь, чтобы выслушать и помочь тебе поразмышлять. Когда будешь готов(-а), просто выбери один из вариантов ниже:'
+    [Language.ENGLISH]: '<b>Let\'s create a new journal entry, {name}!</b> 📝✨\n\nShare whatever\'s on your mind - your thoughts, feelings, experiences... anything at all! You can send text, photos, voice messages, or videos.\n\nI\'m here to listen and help you reflect. When you\'re ready, just choose one of the options below:',
+    [Language.RUSSIAN]: '<b>Давай создадим новую запись в дневнике, {name}!</b> 📝✨\n\nПоделись всем, что у тебя на уме - твоими мыслями, чувствами, опытом... чем угодно! Можешь отправлять текст, фото, голосовые сообщения или видео.\n\nЯ здесь, чтобы выслушать и помочь тебе поразмышлять. Когда будешь готов(-а), просто выбери один из вариантов ниже:'
   },
   finishEntry: {
     [Language.ENGLISH]: '✅ Finish Entry',
@@ -124,6 +124,258 @@ const defaultTexts: TextCollection = {
     [Language.ENGLISH]: '<b>Here\'s your journaling history, {name}!</b> 📚\n\nTap on any entry to view it:',
     [Language.RUSSIAN]: '<b>Вот история твоего дневника, {name}!</b> 📚\n\nНажми на любую запись, чтобы просмотреть ее:'
   },
+  historyPageInfo: {
+    [Language.ENGLISH]: '<i>Page {page} of {pages} · {filter}</i>',
+    [Language.RUSSIAN]: '<i>Страница {page} из {pages} · {filter}</i>'
+  },
+  historyNoMatches: {
+    [Language.ENGLISH]: '<b>No entries match this filter.</b>',
+    [Language.RUSSIAN]: '<b>Нет записей, подходящих под этот фильтр.</b>'
+  },
+  historyJumpToMonth: {
+    [Language.ENGLISH]: '📅 Month',
+    [Language.RUSSIAN]: '📅 Месяц'
+  },
+  historyFilter: {
+    [Language.ENGLISH]: '🔎 Filter',
+    [Language.RUSSIAN]: '🔎 Фильтр'
+  },
+  historyFilterAll: {
+    [Language.ENGLISH]: 'All entries',
+    [Language.RUSSIAN]: 'Все записи'
+  },
+  historyFilterText: {
+    [Language.ENGLISH]: '📝 With text',
+    [Language.RUSSIAN]: '📝 С текстом'
+  },
+  historyFilterVoice: {
+    [Language.ENGLISH]: '🎙 With voice',
+    [Language.RUSSIAN]: '🎙 С голосовыми'
+  },
+  historyFilterVideo: {
+    [Language.ENGLISH]: '🎥 With video',
+    [Language.RUSSIAN]: '🎥 С видео'
+  },
+  historyFilterAudio: {
+    [Language.ENGLISH]: '🎵 With audio files',
+    [Language.RUSSIAN]: '🎵 С аудиофайлами'
+  },
+  historyFilterPhoto: {
+    [Language.ENGLISH]: '📷 With photos',
+    [Language.RUSSIAN]: '📷 С фото'
+  },
+  historyPickMonth: {
+    [Language.ENGLISH]: '<b>Jump to a month:</b>',
+    [Language.RUSSIAN]: '<b>Перейти к месяцу:</b>'
+  },
+  historyPickFilter: {
+    [Language.ENGLISH]: '<b>Show entries:</b>',
+    [Language.RUSSIAN]: '<b>Показать записи:</b>'
+  },
+  historyBackToList: {
+    [Language.ENGLISH]: '⬅️ Back',
+    [Language.RUSSIAN]: '⬅️ Назад'
+  },
+  
+  // Search
+  searchJournal: {
+    [Language.ENGLISH]: '🔍 Search',
+    [Language.RUSSIAN]: '🔍 Поиск'
+  },
+  searchIntro: {
+    [Language.ENGLISH]: '<b>What are you looking for?</b> 🔍\n\nSend a few words, e.g. <code>Anna</code>. Add a month like <code>2024-03</code>, a day like <code>2024-03-15</code>, or <code>from:2024-01-01</code> and <code>to:2024-02-15</code> to search a period.',
+    [Language.RUSSIAN]: '<b>Что ищем?</b> 🔍\n\nОтправь несколько слов, например <code>Анна</code>. Добавь месяц вроде <code>2024-03</code>, день вроде <code>2024-03-15</code> или <code>from:2024-01-01</code> и <code>to:2024-02-15</code>, чтобы искать за период.'
+  },
+  searchResults: {
+    [Language.ENGLISH]: '<b>Entries for “{query}”: {count}</b>\n\n<i>Page {page} of {pages}. Best matches first.</i>',
+    [Language.RUSSIAN]: '<b>Записи по запросу «{query}»: {count}</b>\n\n<i>Страница {page} из {pages}. Сначала самые подходящие.</i>'
+  },
+  searchNoResults: {
+    [Language.ENGLISH]: 'Nothing found for “{query}”. Try other words or a wider period.',
+    [Language.RUSSIAN]: 'По запросу «{query}» ничего не найдено. Попробуй другие слова или более широкий период.'
+  },
+  searchExpired: {
+    [Language.ENGLISH]: 'These results are no longer available. Please search again.',
+    [Language.RUSSIAN]: 'Эти результаты больше недоступны. Пожалуйста, повтори поиск.'
+  },
+  searchFailed: {
+    [Language.ENGLISH]: 'Sorry, the search didn\'t work this time. Please try again later.',
+    [Language.RUSSIAN]: 'Извини, поиск сейчас не сработал. Попробуй позже.'
+  },
+  
+  // Entry actions
+  entryAppend: {
+    [Language.ENGLISH]: '➕ Add more',
+    [Language.RUSSIAN]: '➕ Дополнить'
+  },
+  entryEditTitle: {
+    [Language.ENGLISH]: '🏷 Edit title',
+    [Language.RUSSIAN]: '🏷 Изменить заголовок'
+  },
+  entryRegenerateSummary: {
+    [Language.ENGLISH]: '🔄 New summary',
+    [Language.RUSSIAN]: '🔄 Новое резюме'
+  },
+  entryShowPhotos: {
+    [Language.ENGLISH]: '📷 Show photos',
+    [Language.RUSSIAN]: '📷 Показать фото'
+  },
+  entryDelete: {
+    [Language.ENGLISH]: '🗑 Delete',
+    [Language.RUSSIAN]: '🗑 Удалить'
+  },
+  entryAppendIntro: {
+    [Language.ENGLISH]: '<b>What would you like to add?</b> ✍️\n\nSend text, photos, voice messages, or videos. Tap <b>Done</b> when you\'re finished.',
+    [Language.RUSSIAN]: '<b>Что ты хочешь добавить?</b> ✍️\n\nОтправляй текст, фото, голосовые или видео. Нажми <b>Готово</b>, когда закончишь.'
+  },
+  entryEditDone: {
+    [Language.ENGLISH]: '✅ Done',
+    [Language.RUSSIAN]: '✅ Готово'
+  },
+  entryAppendDone: {
+    [Language.ENGLISH]: 'Entry updated ✨ Tap <b>New summary</b> if the summary no longer fits.',
+    [Language.RUSSIAN]: 'Запись обновлена ✨ Нажми <b>Новое резюме</b>, если резюме больше не подходит.'
+  },
+  entryTitleAsk: {
+    [Language.ENGLISH]: 'Send me the new title for this entry.',
+    [Language.RUSSIAN]: 'Отправь мне новый заголовок для этой записи.'
+  },
+  entryEditCancel: {
+    [Language.ENGLISH]: 'Cancel',
+    [Language.RUSSIAN]: 'Отмена'
+  },
+  entryTitleInvalid: {
+    [Language.ENGLISH]: 'Please send the title as text, up to {max} characters.',
+    [Language.RUSSIAN]: 'Пожалуйста, отправь заголовок текстом, не длиннее {max} символов.'
+  },
+  entryTitleChanged: {
+    [Language.ENGLISH]: '✅ Title updated.',
+    [Language.RUSSIAN]: '✅ Заголовок обновлен.'
+  },
+  entryTitleUnchanged: {
+    [Language.ENGLISH]: 'The title stays as it was.',
+    [Language.RUSSIAN]: 'Заголовок остался прежним.'
+  },
+  entrySummaryFailed: {
+    [Language.ENGLISH]: 'Sorry, I couldn\'t write a new summary. Please try again later.',
+    [Language.RUSSIAN]: 'Извини, не получилось написать новое резюме. Попробуй позже.'
+  },
+  entryDeleted: {
+    [Language.ENGLISH]: '🗑 Entry deleted. You can undo this within {days} days.',
+    [Language.RUSSIAN]: '🗑 Запись удалена. Это можно отменить в течение {days} дней.'
+  },
+  entryUndoDelete: {
+    [Language.ENGLISH]: '↩️ Undo',
+    [Language.RUSSIAN]: '↩️ Отменить'
+  },
+  entryRestored: {
+    [Language.ENGLISH]: '↩️ Entry restored.',
+    [Language.RUSSIAN]: '↩️ Запись восстановлена.'
+  },
+
+  // Mood
+  moodAskRating: {
+    [Language.ENGLISH]: '<b>🌡 How do you feel?</b> Rate your mood from 1 to 5:',
+    [Language.RUSSIAN]: '<b>🌡 Как ты себя чувствуешь?</b> Оцени настроение от 1 до 5:'
+  },
+  moodRated: {
+    [Language.ENGLISH]: 'Mood saved: {rating}/{max}',
+    [Language.RUSSIAN]: 'Настроение сохранено: {rating}/{max}'
+  },
+  moodNoData: {
+    [Language.ENGLISH]: "📈 There is no mood to chart yet, {name}. Finish an entry and rate how you feel, and /mood will show how it changes week by week.",
+    [Language.RUSSIAN]: '📈 Пока нечего показать, {name}. Заверши запись и оцени настроение — и /mood покажет, как оно меняется от недели к неделе.'
+  },
+  moodChartCaption: {
+    [Language.ENGLISH]: '📈 <b>Your mood</b>\nTop: weekly average over 12 weeks. Bottom: monthly average over 12 months. Your own ratings count over the estimated mood.\n\nThis week: <b>{week}</b>/{max} · This month: <b>{month}</b>/{max}',
+    [Language.RUSSIAN]: '📈 <b>Твоё настроение</b>\nСверху: среднее по неделям за 12 недель. Снизу: среднее по месяцам за 12 месяцев. Твои оценки важнее оценки по тексту.\n\nЭта неделя: <b>{week}</b>/{max} · Этот месяц: <b>{month}</b>/{max}'
+  },
+  moodTopEmotions: {
+    [Language.ENGLISH]: 'Felt most often in the last {days} days: <i>{emotions}</i>',
+    [Language.RUSSIAN]: 'Чаще всего за последние {days} дней: <i>{emotions}</i>'
+  },
+  moodChartFailed: {
+    [Language.ENGLISH]: "😔 I couldn't draw your mood chart. Please try again later.",
+    [Language.RUSSIAN]: '😔 Не получилось построить график настроения. Попробуй позже.'
+  },
+  
+  // Retrospectives
+  historyRetrospectives: {
+    [Language.ENGLISH]: '🗓 Retrospectives',
+    [Language.RUSSIAN]: '🗓 Ретроспективы'
+  },
+  retrospectivesTitle: {
+    [Language.ENGLISH]: '<b>🗓 Retrospectives</b>\n\nA look back over a week or a month: themes, people, how your mood moved and what is still open. Switch them on below to get one the morning after each week or month, or write one now.',
+    [Language.RUSSIAN]: '<b>🗓 Ретроспективы</b>\n\nВзгляд назад на неделю или месяц: темы, люди, как менялось настроение и что осталось незавершённым. Включи их ниже, чтобы получать утром после конца недели или месяца, — или напиши одну прямо сейчас.'
+  },
+  retrospectivesEmpty: {
+    [Language.ENGLISH]: '<i>No retrospectives yet.</i>',
+    [Language.RUSSIAN]: '<i>Ретроспектив пока нет.</i>'
+  },
+  retrospectivesPage: {
+    [Language.ENGLISH]: 'Page {page} of {pages}',
+    [Language.RUSSIAN]: 'Страница {page} из {pages}'
+  },
+  retrospectiveThisWeek: {
+    [Language.ENGLISH]: '✍️ This week',
+    [Language.RUSSIAN]: '✍️ Эта неделя'
+  },
+  retrospectiveLastWeek: {
+    [Language.ENGLISH]: '✍️ Last week',
+    [Language.RUSSIAN]: '✍️ Прошлая неделя'
+  },
+  retrospectiveThisMonth: {
+    [Language.ENGLISH]: '✍️ This month',
+    [Language.RUSSIAN]: '✍️ Этот месяц'
+  },
+  retrospectiveLastMonth: {
+    [Language.ENGLISH]: '✍️ Last month',
+    [Language.RUSSIAN]: '✍️ Прошлый месяц'
+  },
+  retrospectiveWeeklyOn: {
+    [Language.ENGLISH]: '✅ Weekly by message',
+    [Language.RUSSIAN]: '✅ Еженедельные в чат'
+  },
+  retrospectiveWeeklyOff: {
+    [Language.ENGLISH]: '⬜️ Weekly by message',
+    [Language.RUSSIAN]: '⬜️ Еженедельные в чат'
+  },
+  retrospectiveMonthlyOn: {
+    [Language.ENGLISH]: '✅ Monthly by message',
+    [Language.RUSSIAN]: '✅ Ежемесячные в чат'
+  },
+  retrospectiveMonthlyOff: {
+    [Language.ENGLISH]: '⬜️ Monthly by message',
+    [Language.RUSSIAN]: '⬜️ Ежемесячные в чат'
+  },
+  retrospectiveWeekOf: {
+    [Language.ENGLISH]: 'Week of {date}',
+    [Language.RUSSIAN]: 'Неделя с {date}'
+  },
+  retrospectiveReport: {
+    [Language.ENGLISH]: '<b>🗓 {title}</b>\n<i>{entries} entries · average mood {mood}</i>\n\n{overview}\n\n<b>Themes</b>\n{themes}\n\n<b>People</b>\n{people}\n\n<b>Mood</b>\n{moodShift}\n\n<b>Still open</b>\n{openLoops}',
+    [Language.RUSSIAN]: '<b>🗓 {title}</b>\n<i>Записей: {entries} · среднее настроение {mood}</i>\n\n{overview}\n\n<b>Темы</b>\n{themes}\n\n<b>Люди</b>\n{people}\n\n<b>Настроение</b>\n{moodShift}\n\n<b>Незавершённое</b>\n{openLoops}'
+  },
+  retrospectivesAll: {
+    [Language.ENGLISH]: '🗓 All retrospectives',
+    [Language.RUSSIAN]: '🗓 Все ретроспективы'
+  },
+  retrospectiveNoEntries: {
+    [Language.ENGLISH]: '🗓 There are no entries in that period, {name}, so there is nothing to look back on yet.',
+    [Language.RUSSIAN]: '🗓 За этот период нет записей, {name}, так что оглядываться пока не на что.'
+  },
+  retrospectiveInProgress: {
+    [Language.ENGLISH]: '⏳ I am still writing your retrospective. It will be here in a moment.',
+    [Language.RUSSIAN]: '⏳ Я ещё пишу твою ретроспективу. Она появится через минуту.'
+  },
+  retrospectiveNotFound: {
+    [Language.ENGLISH]: '🤔 That retrospective is no longer there.',
+    [Language.RUSSIAN]: '🤔 Этой ретроспективы больше нет.'
+  },
+  retrospectiveFailed: {
+    [Language.ENGLISH]: "😔 I couldn't write your retrospective. Please try again later.",
+    [Language.RUSSIAN]: '😔 Не получилось написать ретроспективу. Попробуй позже.'
+  },
   
   // Chat mode
   noChatEntries: {
@@ -162,6 +414,22 @@ const defaultTexts: TextCollection = {
     [Language.ENGLISH]: '🎥 <b>Video:</b> {transcription}',
     [Language.RUSSIAN]: '🎥 <b>Видео:</b> {transcription}'
   },
+  photoDescription: {
+    [Language.ENGLISH]: '📷 <b>Photo:</b> <i>{description}</i>',
+    [Language.RUSSIAN]: '📷 <b>Фото:</b> <i>{description}</i>'
+  },
+  audioTranscription: {
+    [Language.ENGLISH]: '🎵 <b>{audioName}:</b> {transcription}',
+    [Language.RUSSIAN]: '🎵 <b>{audioName}:</b> {transcription}'
+  },
+  entryPeople: {
+    [Language.ENGLISH]: '👥 <i>{people}</i>',
+    [Language.RUSSIAN]: '👥 <i>{people}</i>'
+  },
+  entryPlaces: {
+    [Language.ENGLISH]: '📍 <i>{places}</i>',
+    [Language.RUSSIAN]: '📍 <i>{places}</i>'
+  },
   
   // Go deeper
   deeperQuestions: {
@@ -196,6 +464,10 @@ const defaultTexts: TextCollection = {
     [Language.ENGLISH]: '<b>Good job, {name}! ✨ Entry saved.</b>\n\n<b>📝 Summary:</b>\n{summary}\n\n<b>💭 Something to reflect on:</b>\n<i>{question}</i>',
     [Language.RUSSIAN]: '<b>Отличная работа, {name}! ✨ Запись сохранена.</b>\n\n<b>📝 Краткое содержание:</b>\n{summary}\n\n<b>💭 Вопрос для размышления:</b>\n<i>{question}</i>'
   },
+  entryTags: {
+    [Language.ENGLISH]: '<b>🏷 Tags:</b> {tags}',
+    [Language.RUSSIAN]: '<b>🏷 Теги:</b> {tags}'
+  },
   
   // Settings
   settingsTitle: {
@@ -211,6 +483,262 @@ const defaultTexts: TextCollection = {
     [Language.RUSSIAN]: '↩️ Вернуться в главное меню'
   },
   
+  // Reminders
+  reminders: {
+    [Language.ENGLISH]: '⏰ Reminders',
+    [Language.RUSSIAN]: '⏰ Напоминания'
+  },
+  reminderStatusOn: {
+    [Language.ENGLISH]: '<b>Daily reminder is on</b>\n\nI\'ll nudge you every day at <b>{time}</b> ({timezone}) unless you\'ve already written an entry.',
+    [Language.RUSSIAN]: '<b>Ежедневное напоминание включено</b>\n\nЯ буду напоминать тебе каждый день в <b>{time}</b> ({timezone}), если ты еще не сделал(а) запись.'
+  },
+  reminderStatusSnoozed: {
+    [Language.ENGLISH]: '<b>Daily reminder is paused</b>\n\nReminders at <b>{time}</b> ({timezone}) resume on {date}.',
+    [Language.RUSSIAN]: '<b>Ежедневное напоминание на паузе</b>\n\nНапоминания в <b>{time}</b> ({timezone}) возобновятся {date}.'
+  },
+  reminderStatusOff: {
+    [Language.ENGLISH]: '<b>Daily reminder is off</b>\n\nPick a time and I\'ll remind you to write in your journal every day.',
+    [Language.RUSSIAN]: '<b>Ежедневное напоминание выключено</b>\n\nВыбери время, и я буду каждый день напоминать тебе о дневнике.'
+  },
+  reminderSetTime: {
+    [Language.ENGLISH]: '🕗 Set time',
+    [Language.RUSSIAN]: '🕗 Выбрать время'
+  },
+  reminderSnoozeWeek: {
+    [Language.ENGLISH]: '😴 Pause for a week',
+    [Language.RUSSIAN]: '😴 Пауза на неделю'
+  },
+  reminderDisable: {
+    [Language.ENGLISH]: '🔕 Turn off',
+    [Language.RUSSIAN]: '🔕 Выключить'
+  },
+  reminderAskTime: {
+    [Language.ENGLISH]: '<b>When should I remind you?</b>\n\nPick a time below or send your own in 24-hour format, e.g. <code>21:30</code>.',
+    [Language.RUSSIAN]: '<b>Когда тебе напоминать?</b>\n\nВыбери время ниже или отправь свое в 24-часовом формате, например <code>21:30</code>.'
+  },
+  reminderInvalidTime: {
+    [Language.ENGLISH]: 'I didn\'t recognize that time. Please send it as HH:MM, e.g. <code>21:30</code>.',
+    [Language.RUSSIAN]: 'Не получилось распознать время. Отправь его в формате ЧЧ:ММ, например <code>21:30</code>.'
+  },
+  reminderAskTimezone: {
+    [Language.ENGLISH]: '<b>One more thing: which timezone are you in?</b>\n\nShare your location, pick one below, or send its name, e.g. <code>America/Chicago</code>.',
+    [Language.RUSSIAN]: '<b>И последнее: в каком ты часовом поясе?</b>\n\nПоделись геопозицией, выбери пояс ниже или отправь его название, например <code>Asia/Novosibirsk</code>.'
+  },
+  reminderEnabled: {
+    [Language.ENGLISH]: '✅ Done! I\'ll remind you every day at <b>{time}</b> ({timezone}).',
+    [Language.RUSSIAN]: '✅ Готово! Я буду напоминать тебе каждый день в <b>{time}</b> ({timezone}).'
+  },
+  reminderSnoozed: {
+    [Language.ENGLISH]: '😴 Reminders paused. The next one comes on {date}.',
+    [Language.RUSSIAN]: '😴 Напоминания на паузе. Следующее придет {date}.'
+  },
+  reminderDisabled: {
+    [Language.ENGLISH]: '🔕 Reminders are off. You can turn them back on in Settings anytime.',
+    [Language.RUSSIAN]: '🔕 Напоминания выключены. Их можно снова включить в настройках в любой момент.'
+  },
+  reminderNudge: {
+    [Language.ENGLISH]: '<b>Hi {name}! ✨</b>\n\nHow was your day? Take a few minutes to write it down.',
+    [Language.RUSSIAN]: '<b>Привет, {name}! ✨</b>\n\nКак прошел твой день? Удели пару минут, чтобы записать его.'
+  },
+  reminderStartEntry: {
+    [Language.ENGLISH]: '✍️ Start entry',
+    [Language.RUSSIAN]: '✍️ Начать запись'
+  },
+  reminderLater: {
+    [Language.ENGLISH]: '⏳ In an hour',
+    [Language.RUSSIAN]: '⏳ Через час'
+  },
+  reminderLaterConfirmed: {
+    [Language.ENGLISH]: 'Okay, I\'ll remind you again in an hour.',
+    [Language.RUSSIAN]: 'Хорошо, напомню еще раз через час.'
+  },
+  
+  // Timezone
+  timezone: {
+    [Language.ENGLISH]: '🌍 Timezone',
+    [Language.RUSSIAN]: '🌍 Часовой пояс'
+  },
+  timezoneAsk: {
+    [Language.ENGLISH]: '<b>Your timezone: {timezone}</b>\n\nIt decides where your days begin and end. Share your location, pick one below, or send its name, e.g. <code>America/Chicago</code>.',
+    [Language.RUSSIAN]: '<b>Твой часовой пояс: {timezone}</b>\n\nОт него зависит, где начинаются и заканчиваются твои дни. Поделись геопозицией, выбери пояс ниже или отправь его название, например <code>Asia/Novosibirsk</code>.'
+  },
+  timezoneShareLocation: {
+    [Language.ENGLISH]: '📍 Share location',
+    [Language.RUSSIAN]: '📍 Поделиться геопозицией'
+  },
+  timezoneInvalid: {
+    [Language.ENGLISH]: 'I don\'t know that timezone. Please pick one below or send a name like <code>Europe/Berlin</code>.',
+    [Language.RUSSIAN]: 'Такой часовой пояс мне неизвестен. Выбери пояс ниже или отправь название вроде <code>Europe/Moscow</code>.'
+  },
+  timezoneLocationUnknown: {
+    [Language.ENGLISH]: 'I couldn\'t find a timezone for that spot. Please pick one below instead.',
+    [Language.RUSSIAN]: 'Не получилось определить часовой пояс по этой точке. Пожалуйста, выбери его ниже.'
+  },
+  timezoneChanged: {
+    [Language.ENGLISH]: '✅ Timezone set to <b>{timezone}</b>. Your local time is {now}.',
+    [Language.RUSSIAN]: '✅ Часовой пояс: <b>{timezone}</b>. Твое местное время: {now}.'
+  },
+  
+  // Transcription vocabulary
+  vocabulary: {
+    [Language.ENGLISH]: '📖 Vocabulary',
+    [Language.RUSSIAN]: '📖 Словарь'
+  },
+  vocabularyAsk: {
+    [Language.ENGLISH]: '<b>Your vocabulary</b>\n\nNames and words I should spell exactly as you write them when I transcribe your recordings: people, places, jargon.\n\n<b>Now:</b> {terms}\n\nSend up to {max} of them separated by commas to replace the list, or <code>-</code> to clear it.',
+    [Language.RUSSIAN]: '<b>Твой словарь</b>\n\nИмена и слова, которые я должен писать именно так, как пишешь ты, когда расшифровываю твои записи: люди, места, термины.\n\n<b>Сейчас:</b> {terms}\n\nОтправь до {max} слов через запятую, чтобы заменить список, или <code>-</code>, чтобы очистить его.'
+  },
+  vocabularyEmpty: {
+    [Language.ENGLISH]: 'empty',
+    [Language.RUSSIAN]: 'пусто'
+  },
+  vocabularyInvalid: {
+    [Language.ENGLISH]: 'That\'s too much for me to keep in mind. Please send up to {max} terms of at most {length} characters each.',
+    [Language.RUSSIAN]: 'Столько я не запомню. Пожалуйста, отправь до {max} слов, каждое не длиннее {length} символов.'
+  },
+  vocabularySaved: {
+    [Language.ENGLISH]: '✅ Saved. From now on I\'ll listen for: {terms}',
+    [Language.RUSSIAN]: '✅ Сохранено. Теперь я буду прислушиваться к словам: {terms}'
+  },
+  vocabularyCleared: {
+    [Language.ENGLISH]: '✅ Your vocabulary is cleared.',
+    [Language.RUSSIAN]: '✅ Словарь очищен.'
+  },
+  
+  // Export
+  exportJournal: {
+    [Language.ENGLISH]: '📦 Export Journal',
+    [Language.RUSSIAN]: '📦 Экспорт дневника'
+  },
+  exportReady: {
+    [Language.ENGLISH]: '<b>Your journal: {count} entries</b> 📦\n\nOne Markdown file per entry, <code>journal.json</code> for other apps, and <code>journal.html</code> to read in a browser or print.',
+    [Language.RUSSIAN]: '<b>Твой дневник: записей — {count}</b> 📦\n\nПо одному Markdown-файлу на запись, <code>journal.json</code> для других приложений и <code>journal.html</code>, чтобы читать в браузере или распечатать.'
+  },
+  exportNoEntries: {
+    [Language.ENGLISH]: '<b>{name}</b>, there is nothing to export yet. Write your first entry!',
+    [Language.RUSSIAN]: '<b>{name}</b>, пока нечего экспортировать. Сделай свою первую запись!'
+  },
+  exportInProgress: {
+    [Language.ENGLISH]: 'Your export is already being prepared, it will arrive shortly.',
+    [Language.RUSSIAN]: 'Экспорт уже готовится, скоро пришлю.'
+  },
+  exportTooLarge: {
+    [Language.ENGLISH]: 'Your journal is too large to send through Telegram (over 50 MB). Please contact support to get a copy.',
+    [Language.RUSSIAN]: 'Дневник слишком большой, чтобы отправить его через Telegram (больше 50 МБ). Напиши в поддержку, чтобы получить копию.'
+  },
+  exportFailed: {
+    [Language.ENGLISH]: 'Sorry, I couldn\'t prepare your export. Please try again later.',
+    [Language.RUSSIAN]: 'Извини, не получилось подготовить экспорт. Попробуй позже.'
+  },
+  exportTitle: {
+    [Language.ENGLISH]: 'Journal',
+    [Language.RUSSIAN]: 'Дневник'
+  },
+  exportAnalysis: {
+    [Language.ENGLISH]: 'Analysis',
+    [Language.RUSSIAN]: 'Анализ'
+  },
+  exportInsights: {
+    [Language.ENGLISH]: 'Insights',
+    [Language.RUSSIAN]: 'Инсайты'
+  },
+  exportQuestions: {
+    [Language.ENGLISH]: 'Questions for reflection',
+    [Language.RUSSIAN]: 'Вопросы для размышления'
+  },
+  exportVoice: {
+    [Language.ENGLISH]: 'Voice',
+    [Language.RUSSIAN]: 'Голос'
+  },
+  exportVideo: {
+    [Language.ENGLISH]: 'Video',
+    [Language.RUSSIAN]: 'Видео'
+  },
+  exportAudio: {
+    [Language.ENGLISH]: 'Audio',
+    [Language.RUSSIAN]: 'Аудио'
+  },
+  exportPhoto: {
+    [Language.ENGLISH]: 'Photo',
+    [Language.RUSSIAN]: 'Фото'
+  },
+  
+  // Import
+  importJournal: {
+    [Language.ENGLISH]: '📥 Import Journal',
+    [Language.RUSSIAN]: '📥 Импорт дневника'
+  },
+  importIntro: {
+    [Language.ENGLISH]: '<b>Bring your old journal along</b> 📥\n\nSend me the export file as a document:\n• <b>Day One</b>: the JSON export (.zip)\n• <b>Journey</b>: the export (.zip)\n• <b>Markdown</b>: a .zip of files named by date, e.g. <code>2024-01-15.md</code>, or a single file\n\nEntries keep their original dates, and importing the same file twice does not duplicate them.',
+    [Language.RUSSIAN]: '<b>Перенеси свой старый дневник</b> 📥\n\nОтправь мне файл экспорта как документ:\n• <b>Day One</b>: экспорт в JSON (.zip)\n• <b>Journey</b>: экспорт (.zip)\n• <b>Markdown</b>: .zip с файлами, названными по дате, например <code>2024-01-15.md</code>, или один файл\n\nЗаписи сохранят свои даты, а повторный импорт того же файла не создаст дубликатов.'
+  },
+  importSendFile: {
+    [Language.ENGLISH]: 'Please send the export as a file (📎 → File), or go back to the main menu.',
+    [Language.RUSSIAN]: 'Пожалуйста, отправь экспорт файлом (📎 → Файл) или вернись в главное меню.'
+  },
+  importTooLarge: {
+    [Language.ENGLISH]: 'This file is too large for me (the limit is 20 MB). Try an export without photos.',
+    [Language.RUSSIAN]: 'Этот файл слишком большой (лимит — 20 МБ). Попробуй экспорт без фотографий.'
+  },
+  importUnsupported: {
+    [Language.ENGLISH]: 'I don\'t recognize this file. I can read Day One and Journey exports and Markdown files.',
+    [Language.RUSSIAN]: 'Не могу распознать этот файл. Я понимаю экспорт из Day One и Journey, а также Markdown-файлы.'
+  },
+  importNoDatedEntries: {
+    [Language.ENGLISH]: 'I couldn\'t find a date for any of these files. Name them like <code>2024-01-15.md</code> or add <code>date: 2024-01-15</code> at the top.',
+    [Language.RUSSIAN]: 'Не удалось найти дату ни для одного файла. Назови их вроде <code>2024-01-15.md</code> или добавь <code>date: 2024-01-15</code> в начало.'
+  },
+  importFailed: {
+    [Language.ENGLISH]: 'Sorry, something went wrong while importing. Please try again later.',
+    [Language.RUSSIAN]: 'Извини, при импорте что-то пошло не так. Попробуй позже.'
+  },
+  importDone: {
+    [Language.ENGLISH]: '<b>Import finished</b> ✨\n\nNew entries: {imported}\nAlready in your journal: {duplicates}\nSkipped without a date: {invalid}\n\nI\'ll be able to search the new entries in chat within a few minutes.',
+    [Language.RUSSIAN]: '<b>Импорт завершен</b> ✨\n\nНовых записей: {imported}\nУже были в дневнике: {duplicates}\nПропущено без даты: {invalid}\n\nЧерез несколько минут я смогу искать по новым записям в чате.'
+  },
+  
+  // Account deletion
+  deleteAccountWarning: {
+    [Language.ENGLISH]: '<b>Delete your account?</b> 🗑\n\nThis permanently erases everything I keep about you: every journal entry, your voice and video transcriptions, chats about your journal, your profile, and your reminders. It cannot be undone.\n\nYou may want to export your journal first.',
+    [Language.RUSSIAN]: '<b>Удалить аккаунт?</b> 🗑\n\nЭто навсегда сотрет все, что я о тебе храню: каждую запись в дневнике, расшифровки голосовых и видео, обсуждения дневника, твой профиль и напоминания. Отменить это будет нельзя.\n\nВозможно, сначала стоит экспортировать дневник.'
+  },
+  deleteAccountExportFirst: {
+    [Language.ENGLISH]: '📦 Export my journal first',
+    [Language.RUSSIAN]: '📦 Сначала экспортировать дневник'
+  },
+  deleteAccountContinue: {
+    [Language.ENGLISH]: 'Continue',
+    [Language.RUSSIAN]: 'Продолжить'
+  },
+  deleteAccountCancel: {
+    [Language.ENGLISH]: 'Cancel',
+    [Language.RUSSIAN]: 'Отмена'
+  },
+  deleteAccountConfirm: {
+    [Language.ENGLISH]: '<b>Are you absolutely sure?</b>\n\nYour account and your whole journal will be deleted right away.',
+    [Language.RUSSIAN]: '<b>Ты точно уверен?</b>\n\nТвой аккаунт и весь дневник будут удалены сразу же.'
+  },
+  deleteAccountConfirmButton: {
+    [Language.ENGLISH]: '🗑 Yes, delete everything',
+    [Language.RUSSIAN]: '🗑 Да, удалить все'
+  },
+  deleteAccountExpired: {
+    [Language.ENGLISH]: 'This confirmation has expired. Send /deleteme to start again.',
+    [Language.RUSSIAN]: 'Это подтверждение устарело. Отправь /deleteme, чтобы начать заново.'
+  },
+  deleteAccountCancelled: {
+    [Language.ENGLISH]: 'Nothing was deleted. Glad you\'re staying! 🌱',
+    [Language.RUSSIAN]: 'Ничего не удалено. Рад, что ты остаешься! 🌱'
+  },
+  deleteAccountFailed: {
+    [Language.ENGLISH]: 'Sorry, I couldn\'t delete your account. Please try again later.',
+    [Language.RUSSIAN]: 'Извини, не получилось удалить аккаунт. Попробуй позже.'
+  },
+  deleteAccountDone: {
+    [Language.ENGLISH]: 'Your account and all your data have been deleted. Take care, {name} 🤍\n\nIf you ever want to come back, just send /start.',
+    [Language.RUSSIAN]: 'Твой аккаунт и все данные удалены. Береги себя, {name} 🤍\n\nЕсли захочешь вернуться, просто отправь /start.'
+  },
+  
   // Analyze Today
   analyzeTodayIntro: {
     [Language.ENGLISH]: '<b>Let\'s analyze your day, {name}!</b> 📊\n\nI\'ll look at your entries from today and share some insights.',
@@ -234,12 +762,64 @@ const defaultTexts: TextCollection = {
     [Language.ENGLISH]: 'Sorry, I had trouble processing your video. Could you try sending a text message instead?',
     [Language.RUSSIAN]: 'Извини, у меня возникли проблемы с обработкой твоего видео. Не мог бы ты попробовать отправить текстовое сообщение?'
   },
+  errorFileTooLarge: {
+    [Language.ENGLISH]: 'This file is too large for me to download (the limit is 20 MB). Could you send a shorter recording?',
+    [Language.RUSSIAN]: 'Этот файл слишком большой, я не могу его скачать (лимит — 20 МБ). Можешь прислать запись покороче?'
+  },
   
   // Transcription
   transcriptionText: {
     [Language.ENGLISH]: '<b>Text:</b>\n\n<code>{transcription}</code>',
     [Language.RUSSIAN]: '<b>Текст:</b>\n\n<code>{transcription}</code>'
   },
+  transcriptionTextContinued: {
+    [Language.ENGLISH]: '<code>{transcription}</code>',
+    [Language.RUSSIAN]: '<code>{transcription}</code>'
+  },
+  photoDescriptionText: {
+    [Language.ENGLISH]: '📷 <b>On the photo:</b>\n\n<i>{description}</i>',
+    [Language.RUSSIAN]: '📷 <b>На фото:</b>\n\n<i>{description}</i>'
+  },
+  transcribingPart: {
+    [Language.ENGLISH]: '⏳ Transcribing part {part} of {total}…',
+    [Language.RUSSIAN]: '⏳ Расшифровываю часть {part} из {total}…'
+  },
+  fixTranscription: {
+    [Language.ENGLISH]: '✏️ Fix transcription',
+    [Language.RUSSIAN]: '✏️ Исправить расшифровку'
+  },
+  transcriptionFixAsk: {
+    [Language.ENGLISH]: '<b>Send me the corrected text</b> ✏️\n\nThis is what I heard; tap it to copy:\n\n<code>{transcription}</code>',
+    [Language.RUSSIAN]: '<b>Пришли исправленный текст</b> ✏️\n\nВот что я услышал, нажми, чтобы скопировать:\n\n<code>{transcription}</code>'
+  },
+  transcriptionFixCancel: {
+    [Language.ENGLISH]: '✖️ Keep it as is',
+    [Language.RUSSIAN]: '✖️ Оставить как есть'
+  },
+  transcriptionFixTextOnly: {
+    [Language.ENGLISH]: 'Please send the corrected text as a text message.',
+    [Language.RUSSIAN]: 'Пожалуйста, пришли исправленный текст обычным сообщением.'
+  },
+  transcriptionFixed: {
+    [Language.ENGLISH]: '✅ Transcription fixed.',
+    [Language.RUSSIAN]: '✅ Расшифровка исправлена.'
+  },
+  transcriptionFixCanceled: {
+    [Language.ENGLISH]: 'Okay, the transcription stays as it was.',
+    [Language.RUSSIAN]: 'Хорошо, расшифровка осталась прежней.'
+  },
+  transcriptionFixUnavailable: {
+    [Language.ENGLISH]: 'This transcription can no longer be fixed.',
+    [Language.RUSSIAN]: 'Эту расшифровку больше нельзя исправить.'
+  },
+  transcriptionFixTooLong: {
+    [Language.ENGLISH]: 'This transcription is too long to fix here: a Telegram message holds up to 4096 characters, so the corrected text wouldn\'t fit in one.',
+    [Language.RUSSIAN]: 'Эта расшифровка слишком длинная, чтобы исправить её здесь: в сообщение Telegram помещается до 4096 символов, и исправленный текст не уместится в одно.'
+  },
+  transcriptionFixFailed: {
+    [Language.ENGLISH]: 'Sorry, I couldn\'t save the corrected text. Please try again later.',
+    [Language.RUSSIAN]: 'Извини, не получилось сохранить исправленный текст. Попробуй позже.'
+  },
   
   // Chat follow-ups
   anythingElse: {
@@ -257,6 +837,22 @@ const defaultTexts: TextCollection = {
   askMeAnything: {
     [Language.ENGLISH]: '<b>{name}</b>, you can ask me anything about your journal entries! Send me a text, voice message, or video with your question. Or type \'❌ Exit Chat Mode\' if you want to return to the main menu.',
     [Language.RUSSIAN]: '<b>{name}</b>, ты можешь спросить меня о чем угодно касательно твоих записей в дневнике! Отправь мне текст, голосовое сообщение или видео с твоим вопросом. Или напиши \'❌ Выйти из режима обсуждения\', если хочешь вернуться в главное меню.'
+  },
+  chatBasedOn: {
+    [Language.ENGLISH]: '📎 <i>Based on these entries:</i>',
+    [Language.RUSSIAN]: '📎 <i>На основе этих записей:</i>'
+  },
+  followUpAsked: {
+    [Language.ENGLISH]: '❓ <i>{question}</i>',
+    [Language.RUSSIAN]: '❓ <i>{question}</i>'
+  },
+  followUpExpired: {
+    [Language.ENGLISH]: '⌛️ That question is no longer saved, {name}. Just type it and I\'ll answer.',
+    [Language.RUSSIAN]: '⌛️ Этот вопрос больше не сохранён, {name}. Просто напиши его, и я отвечу.'
+  },
+  followUpEntryInProgress: {
+    [Language.ENGLISH]: '✍️ You\'re in the middle of an entry. Finish or cancel it first, then tap the question again.',
+    [Language.RUSSIAN]: '✍️ Ты сейчас пишешь запись. Сначала заверши или отмени её, а потом снова нажми на вопрос.'
   }
 };
 
@@ -310,7 +906,28 @@ async function initializeDefaultTexts(): Promise<void> {
         'goDeeper', 'cancelEntry'
       ],
       journalHistory: [
-        'noEntries', 'journalHistory'
+        'noEntries', 'journalHistory', 'historyPageInfo', 'historyNoMatches', 'historyJumpToMonth',
+        'historyFilter', 'historyFilterAll', 'historyFilterText', 'historyFilterVoice', 'historyFilterVideo', 'historyFilterAudio', 'historyFilterPhoto',
+        'historyPickMonth', 'historyPickFilter', 'historyBackToList'
+      ],
+      search: [
+        'searchJournal', 'searchIntro', 'searchResults', 'searchNoResults', 'searchExpired', 'searchFailed'
+      ],
+      entryActions: [
+        'entryAppend', 'entryEditTitle', 'entryRegenerateSummary', 'entryDelete', 'entryShowPhotos', 'entryAppendIntro',
+        'entryEditDone', 'entryAppendDone', 'entryTitleAsk', 'entryEditCancel', 'entryTitleInvalid',
+        'entryTitleChanged', 'entryTitleUnchanged', 'entrySummaryFailed', 'entryDeleted',
+        'entryUndoDelete', 'entryRestored'
+      ],
+      mood: [
+        'moodAskRating', 'moodRated', 'moodNoData', 'moodChartCaption', 'moodTopEmotions', 'moodChartFailed'
+      ],
+      retrospectives: [
+        'historyRetrospectives', 'retrospectivesTitle', 'retrospectivesEmpty', 'retrospectivesPage',
+        'retrospectiveThisWeek', 'retrospectiveLastWeek', 'retrospectiveThisMonth', 'retrospectiveLastMonth',
+        'retrospectiveWeeklyOn', 'retrospectiveWeeklyOff', 'retrospectiveMonthlyOn', 'retrospectiveMonthlyOff',
+        'retrospectiveWeekOf', 'retrospectiveReport', 'retrospectivesAll', 'retrospectiveNoEntries',
+        'retrospectiveInProgress', 'retrospectiveNotFound', 'retrospectiveFailed'
       ],
       chatMode: [
         'noChatEntries', 'chatIntro', 'exitChatMode'
@@ -319,7 +936,7 @@ async function initializeDefaultTexts(): Promise<void> {
         'entryCanceled', 'exitedChatMode'
       ],
       entryView: [
-        'journalEntry', 'voiceTranscription', 'videoTranscription'
+        'journalEntry', 'voiceTranscription', 'videoTranscription', 'audioTranscription', 'photoDescription', 'entryPeople', 'entryPlaces'
       ],
       goDeeper: [
         'deeperQuestions', 'thoughtsOnQuestions'
@@ -328,22 +945,54 @@ async function initializeDefaultTexts(): Promise<void> {
         'noActiveEntry', 'entryNotFound', 'questionsToThinkAbout', 'shareThoughts'
       ],
       finishEntry: [
-        'entrySaved'
+        'entrySaved', 'entryTags'
       ],
       settings: [
         'settingsTitle', 'changeLanguage', 'backToMainMenu'
       ],
+      reminders: [
+        'reminders', 'reminderStatusOn', 'reminderStatusSnoozed', 'reminderStatusOff',
+        'reminderSetTime', 'reminderSnoozeWeek', 'reminderDisable', 'reminderAskTime',
+        'reminderInvalidTime', 'reminderAskTimezone',
+        'reminderEnabled', 'reminderSnoozed', 'reminderDisabled', 'reminderNudge',
+        'reminderStartEntry', 'reminderLater', 'reminderLaterConfirmed'
+      ],
+      timezone: [
+        'timezone', 'timezoneAsk', 'timezoneShareLocation', 'timezoneInvalid',
+        'timezoneLocationUnknown', 'timezoneChanged'
+      ],
+      vocabulary: [
+        'vocabulary', 'vocabularyAsk', 'vocabularyEmpty', 'vocabularyInvalid', 'vocabularySaved', 'vocabularyCleared'
+      ],
+      export: [
+        'exportJournal', 'exportReady', 'exportNoEntries', 'exportInProgress', 'exportTooLarge',
+        'exportFailed', 'exportTitle', 'exportAnalysis', 'exportInsights', 'exportQuestions',
+        'exportVoice', 'exportVideo', 'exportAudio', 'exportPhoto'
+      ],
+      import: [
+        'importJournal', 'importIntro', 'importSendFile', 'importTooLarge', 'importUnsupported',
+        'importNoDatedEntries', 'importFailed', 'importDone'
+      ],
+      deleteAccount: [
+        'deleteAccountWarning', 'deleteAccountExportFirst', 'deleteAccountContinue', 'deleteAccountCancel',
+        'deleteAccountConfirm', 'deleteAccountConfirmButton', 'deleteAccountExpired', 'deleteAccountCancelled',
+        'deleteAccountFailed', 'deleteAccountDone'
+      ],
       analyzeToday: [
         'analyzeTodayIntro', 'noTodayEntries', 'todayAnalysis'
       ],
       errorMessages: [
-        'errorProcessingVoice', 'errorProcessingVideo'
+        'errorProcessingVoice', 'errorProcessingVideo', 'errorFileTooLarge'
       ],
       transcription: [
-        'transcriptionText'
+        'transcriptionText', 'transcriptionTextContinued', 'transcribingPart', 'photoDescriptionText', 'fixTranscription',
+        'transcriptionFixAsk', 'transcriptionFixCancel', 'transcriptionFixTextOnly', 'transcriptionFixed',
+        'transcriptionFixCanceled', 'transcriptionFixUnavailable', 'transcriptionFixTooLong',
+        'transcriptionFixFailed'
       ],
       chatFollowUps: [
-        'anythingElse', 'anyOtherQuestions', 'gotMoreQuestions', 'askMeAnything'
+        'anythingElse', 'anyOtherQuestions', 'gotMoreQuestions', 'askMeAnything', 'chatBasedOn', 'followUpAsked', 'followUpExpired',
+        'followUpEntryInProgress'
       ]
     };
     
@@ -0,0 +1,35 @@
+import { execFile } from 'child_process';
+import * as path from 'path';
+
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+const ERROR_OUTPUT_LENGTH = 500;
+
+export interface CommandOutput {
+    stdout: string;
+    stderr: string;
+}
+
+/**
+ * Runs a program without a shell and resolves with its output. A non-zero
+ * exit, a missing program or a timeout rejects with the end of its stderr,
+ * which is where ffmpeg and whisper.cpp explain what went wrong.
+ */
+export function runCommand(command: string, args: string[], timeoutMs: number): Promise<CommandOutput> {
+    return new Promise((resolve, reject) => {
+        execFile(
+            command,
+            args,
+            { timeout: timeoutMs, maxBuffer: MAX_OUTPUT_BYTES, killSignal: 'SIGKILL' },
+            (error, stdout, stderr) => {
+                if (error) {
+                    const details = error.killed
+                        ? `timed out after ${timeoutMs} ms`
+                        : stderr.trim().slice(-ERROR_OUTPUT_LENGTH) || error.message;
+                    reject(new Error(`${path.basename(command)} failed: ${details}`));
+                    return;
+                }
+                resolve({ stdout, stderr });
+            }
+        );
+    });
+}
@@ -0,0 +1,11 @@
+import { timingSafeEqual } from 'crypto';
+
+/** Constant-time string comparison for secrets received over HTTP. */
+export function safeEquals(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    if (bufferA.length !== bufferB.length) {
+        return false;
+    }
+    return timingSafeEqual(bufferA, bufferB);
+}
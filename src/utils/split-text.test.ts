@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { splitText } from './split-text';
+
+describe('splitText', () => {
+    it('keeps text that fits in one piece', () => {
+        expect(splitText(' Went to Riga. ', 20)).toEqual(['Went to Riga.']);
+    });
+
+    it('cuts between paragraphs before lines and words', () => {
+        expect(splitText('[00:00] Went to Riga.\n\n[05:00] Came back tired.', 30)).toEqual([
+            '[00:00] Went to Riga.',
+            '[05:00] Came back tired.'
+        ]);
+    });
+
+    it('cuts between words when a paragraph is too long', () => {
+        expect(splitText('one two three four', 9)).toEqual(['one two', 'three', 'four']);
+    });
+
+    it('cuts a word without spaces at the limit, keeping emoji whole', () => {
+        expect(splitText('abcdefgh', 3)).toEqual(['abc', 'def', 'gh']);
+        expect(splitText('ab😀cd', 3)).toEqual(['ab', '😀c', 'd']);
+    });
+
+    it('has no pieces for blank text', () => {
+        expect(splitText('  \n ', 10)).toEqual([]);
+    });
+});
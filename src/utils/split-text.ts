@@ -0,0 +1,33 @@
+// Cut points in order of preference: between paragraphs, lines, then words.
+const SEPARATORS = ['\n\n', '\n', ' '];
+
+/**
+ * Splits text into pieces of at most `maxLength` characters (UTF-16 code
+ * units, as Telegram counts them), e.g. to send it as several messages. Text
+ * without a separator in reach is cut mid-word, but never inside an emoji.
+ */
+export function splitText(text: string, maxLength: number): string[] {
+    const pieces: string[] = [];
+    let rest = text.trim();
+    while (rest.length > maxLength) {
+        // One more character, so a separator right after a full piece still counts.
+        const window = rest.slice(0, maxLength + 1);
+        let cut = 0;
+        for (const separator of SEPARATORS) {
+            cut = window.lastIndexOf(separator);
+            if (cut > 0) {
+                break;
+            }
+        }
+        if (cut <= 0) {
+            const highSurrogate = /[\uD800-\uDBFF]/u.test(rest[maxLength - 1]);
+            cut = highSurrogate ? maxLength - 1 : maxLength;
+        }
+        pieces.push(rest.slice(0, cut).trimEnd());
+        rest = rest.slice(cut).trimStart();
+    }
+    if (rest) {
+        pieces.push(rest);
+    }
+    return pieces;
+}
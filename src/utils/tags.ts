@@ -0,0 +1,9 @@
+/** Tags are matched exactly when browsing, so "Work" and "work " must become one tag. */
+export function normalizeTags(tags: string[] | undefined): string[] | undefined {
+    const normalized = [...new Set((tags ?? []).map(tag => tag.trim().toLowerCase()).filter(tag => tag.length > 0))];
+    return normalized.length > 0 ? normalized : undefined;
+}
+
+export function formatTags(tags: string[]): string {
+    return tags.map(tag => `#${tag}`).join(' ');
+}
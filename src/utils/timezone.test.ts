@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import {
+    canonicalTimezone,
+    endOfZonedDay,
+    formatZonedDateTime,
+    formatZonedShortDate,
+    getZonedParts,
+    isValidTimezone,
+    nextOccurrence,
+    parseTimeOfDay,
+    startOfZonedDay,
+    startOfZonedWeek,
+    timezoneFromLocation,
+    userTimezone,
+    zonedDateKey,
+    zonedTimeToUtc
+} from './timezone';
+
+describe('isValidTimezone', () => {
+    it.each([
+        ['Europe/Berlin', true],
+        ['UTC', true],
+        ['Mars/Olympus_Mons', false],
+        ['', false]
+    ])('treats %j as valid: %s', (timezone, expected) => {
+        expect(isValidTimezone(timezone)).toBe(expected);
+    });
+});
+
+describe('canonicalTimezone', () => {
+    it('normalizes the spelling of a known zone', () => {
+        expect(canonicalTimezone('europe/berlin')).toBe('Europe/Berlin');
+    });
+
+    it('returns null for an unknown zone', () => {
+        expect(canonicalTimezone('Europe/Atlantis')).toBeNull();
+    });
+});
+
+describe('userTimezone', () => {
+    it.each([
+        [{ timezone: 'Asia/Tokyo' }, 'Asia/Tokyo'],
+        [{}, 'UTC'],
+        [{ timezone: 'Europe/Atlantis' }, 'UTC']
+    ])('resolves %j to %s', (user, expected) => {
+        expect(userTimezone(user)).toBe(expected);
+    });
+});
+
+describe('timezoneFromLocation', () => {
+    it('finds the zone of a city', () => {
+        expect(timezoneFromLocation(55.7558, 37.6173)).toBe('Europe/Moscow');
+    });
+
+    it('returns null in the open ocean', () => {
+        expect(timezoneFromLocation(0, -30)).toBeNull();
+    });
+
+    it('returns null for impossible coordinates', () => {
+        expect(timezoneFromLocation(120, 0)).toBeNull();
+    });
+});
+
+describe('getZonedParts', () => {
+    it('returns the wall clock in the zone', () => {
+        expect(getZonedParts(new Date('2026-07-17T22:30:00.000Z'), 'Asia/Tokyo')).toEqual({
+            year: 2026,
+            month: 7,
+            day: 18,
+            hour: 7,
+            minute: 30
+        });
+    });
+});
+
+describe('zonedTimeToUtc', () => {
+    it.each([
+        ['winter time', 1, 15, '2026-01-15T19:00:00.000Z'],
+        ['summer time', 7, 15, '2026-07-15T18:00:00.000Z']
+    ])('respects %s', (_case, month, day, expected) => {
+        expect(zonedTimeToUtc(2026, month, day, 20, 0, 'Europe/Berlin').toISOString()).toBe(expected);
+    });
+
+    it('rolls over past the end of the month', () => {
+        expect(zonedTimeToUtc(2026, 1, 32, 0, 0, 'UTC').toISOString()).toBe('2026-02-01T00:00:00.000Z');
+    });
+});
+
+describe('startOfZonedDay', () => {
+    it('returns local midnight, which may be the previous UTC day', () => {
+        expect(startOfZonedDay(new Date('2026-07-17T02:00:00.000Z'), 'America/New_York').toISOString())
+            .toBe('2026-07-16T04:00:00.000Z');
+    });
+});
+
+describe('startOfZonedWeek', () => {
+    it('returns the local Monday midnight; a Sunday belongs to the week before', () => {
+        expect(startOfZonedWeek(new Date('2026-07-19T16:00:00.000Z'), 'Asia/Tokyo').toISOString())
+            .toBe('2026-07-19T15:00:00.000Z');
+        expect(startOfZonedWeek(new Date('2026-07-19T12:00:00.000Z'), 'Asia/Tokyo').toISOString())
+            .toBe('2026-07-12T15:00:00.000Z');
+    });
+});
+
+describe('endOfZonedDay', () => {
+    it('returns the next local midnight, even on a 23-hour DST day', () => {
+        expect(endOfZonedDay(new Date('2026-03-29T10:00:00.000Z'), 'Europe/Berlin').toISOString())
+            .toBe('2026-03-29T22:00:00.000Z');
+    });
+});
+
+describe('formatZonedDateTime', () => {
+    it('formats the local wall clock', () => {
+        expect(formatZonedDateTime(new Date('2026-07-17T22:30:00.000Z'), 'Asia/Tokyo')).toBe('2026-07-18 07:30');
+    });
+});
+
+describe('formatZonedShortDate', () => {
+    it('formats the local date day first with a short month', () => {
+        expect(formatZonedShortDate(new Date('2026-07-17T22:30:00.000Z'), 'Asia/Tokyo', 'en')).toBe('18 Jul');
+        expect(formatZonedShortDate(new Date('2026-07-17T22:30:00.000Z'), 'Asia/Tokyo', 'ru')).toBe('18 июл.');
+    });
+});
+
+describe('zonedDateKey', () => {
+    it('uses the local calendar date', () => {
+        expect(zonedDateKey(new Date('2026-07-17T23:30:00.000Z'), 'Europe/Moscow')).toBe('2026-07-18');
+    });
+});
+
+describe('parseTimeOfDay', () => {
+    it.each([
+        ['20:00', { hour: 20, minute: 0 }],
+        ['7:05', { hour: 7, minute: 5 }],
+        ['07.30', { hour: 7, minute: 30 }],
+        ['24:00', null],
+        ['12:60', null],
+        ['noon', null]
+    ])('parses %j', (text, expected) => {
+        expect(parseTimeOfDay(text)).toEqual(expected);
+    });
+});
+
+describe('nextOccurrence', () => {
+    it('returns today when the time is still ahead', () => {
+        expect(nextOccurrence('20:00', 'Europe/Berlin', new Date('2026-07-17T10:00:00.000Z')).toISOString())
+            .toBe('2026-07-17T18:00:00.000Z');
+    });
+
+    it('returns tomorrow when the time has passed', () => {
+        expect(nextOccurrence('20:00', 'Europe/Berlin', new Date('2026-07-17T18:00:00.000Z')).toISOString())
+            .toBe('2026-07-18T18:00:00.000Z');
+    });
+
+    it('follows the DST switch', () => {
+        expect(nextOccurrence('09:00', 'Europe/Berlin', new Date('2026-03-28T12:00:00.000Z')).toISOString())
+            .toBe('2026-03-29T07:00:00.000Z');
+    });
+});
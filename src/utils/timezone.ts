@@ -0,0 +1,197 @@
+import tzLookup from '@photostructure/tz-lookup';
+
+/**
+ * IANA timezone arithmetic on top of Intl, without a date library.
+ * A "local" date or time below always means wall-clock time in the given zone.
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const MINUTE_MS = 60 * 1000;
+
+export interface ZonedParts {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric'
+        });
+        formatters.set(timezone, formatter);
+    }
+    return formatter;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+    try {
+        formatterFor(timezone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** The canonical spelling of a zone name ("europe/berlin" → "Europe/Berlin"), or null if unknown. */
+export function canonicalTimezone(timezone: string): string | null {
+    if (!isValidTimezone(timezone)) {
+        return null;
+    }
+    return formatterFor(timezone).resolvedOptions().timeZone;
+}
+
+/**
+ * The zone to use for a user's dates. A stored name that this runtime's ICU
+ * data no longer knows falls back to the default instead of throwing.
+ */
+export function userTimezone(user: { timezone?: string }): string {
+    return user.timezone && isValidTimezone(user.timezone) ? user.timezone : DEFAULT_TIMEZONE;
+}
+
+/** The zone at a point on the map, from Telegram's location sharing; null over open sea. */
+export function timezoneFromLocation(latitude: number, longitude: number): string | null {
+    try {
+        const timezone = tzLookup(latitude, longitude);
+        // Oceans resolve to fixed-offset "Etc/GMT±N" zones, which are no use for a person.
+        return timezone.startsWith('Etc/') ? null : timezone;
+    } catch {
+        return null;
+    }
+}
+
+/** Wall-clock date and time of an instant in a timezone. */
+export function getZonedParts(date: Date, timezone: string): ZonedParts {
+    const parts: Record<string, number> = {};
+    for (const part of formatterFor(timezone).formatToParts(date)) {
+        if (part.type !== 'literal') {
+            parts[part.type] = parseInt(part.value, 10);
+        }
+    }
+    return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+/** Minutes the zone is ahead of UTC at the given instant. */
+function offsetMinutes(date: Date, timezone: string): number {
+    const parts = getZonedParts(date, timezone);
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+    return Math.round((asUtc - Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS) / MINUTE_MS);
+}
+
+/**
+ * The instant a local wall-clock time occurs in a zone. The offset is checked
+ * twice because a DST switch between the guess and the result moves it.
+ * Out-of-range fields roll over like Date.UTC does (day 32 is next month).
+ */
+export function zonedTimeToUtc(
+    year: number,
+    month: number,
+    day: number,
+    hour: number,
+    minute: number,
+    timezone: string
+): Date {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+    let result = wallClock - offsetMinutes(new Date(wallClock), timezone) * MINUTE_MS;
+    result = wallClock - offsetMinutes(new Date(result), timezone) * MINUTE_MS;
+    return new Date(result);
+}
+
+/** The instant the local day containing `date` begins. */
+export function startOfZonedDay(date: Date, timezone: string): Date {
+    const { year, month, day } = getZonedParts(date, timezone);
+    return zonedTimeToUtc(year, month, day, 0, 0, timezone);
+}
+
+/** The instant the local day after the one containing `date` begins. */
+export function endOfZonedDay(date: Date, timezone: string): Date {
+    const { year, month, day } = getZonedParts(date, timezone);
+    return zonedTimeToUtc(year, month, day + 1, 0, 0, timezone);
+}
+
+/** The instant the local Monday of the week containing `date` begins. */
+export function startOfZonedWeek(date: Date, timezone: string): Date {
+    const { year, month, day } = getZonedParts(date, timezone);
+    const daysSinceMonday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+    return zonedTimeToUtc(year, month, day - daysSinceMonday, 0, 0, timezone);
+}
+
+/** The local calendar date of an instant, as YYYY-MM-DD. */
+export function zonedDateKey(date: Date, timezone: string): string {
+    const { year, month, day } = getZonedParts(date, timezone);
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/** Local date and time as "YYYY-MM-DD HH:MM", unambiguous for prompts and logs. */
+export function formatZonedDateTime(date: Date, timezone: string): string {
+    const { hour, minute } = getZonedParts(date, timezone);
+    return `${zonedDateKey(date, timezone)} ${formatTimeOfDay(hour, minute)}`;
+}
+
+/** Human-readable local date, e.g. "17 July" in English or "17 июля" in Russian. */
+export function formatZonedDate(date: Date, timezone: string, locale: string): string {
+    return date.toLocaleDateString(locale, { timeZone: timezone, day: 'numeric', month: 'long' });
+}
+
+/**
+ * Short local date for buttons, day first in every language, e.g. "17 Jul" in
+ * English or "17 июл." in Russian; English alone would put the month first.
+ */
+export function formatZonedShortDate(date: Date, timezone: string, locale: string): string {
+    const parts = new Intl.DateTimeFormat(locale, { timeZone: timezone, day: 'numeric', month: 'short' }).formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(candidate => candidate.type === type)?.value;
+    return `${part('day')} ${part('month')}`;
+}
+
+/** Parses a 24-hour "HH:MM" (or "H:MM") time; returns null for anything else. */
+export function parseTimeOfDay(text: string): { hour: number; minute: number } | null {
+    const match = text.trim().match(/^(\d{1,2})[:.](\d{2})$/);
+    if (!match) {
+        return null;
+    }
+    const hour = parseInt(match[1], 10);
+    const minute = parseInt(match[2], 10);
+    if (hour > 23 || minute > 59) {
+        return null;
+    }
+    return { hour, minute };
+}
+
+export function formatTimeOfDay(hour: number, minute: number): string {
+    return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+}
+
+/** First instant strictly after `after` at which the local clock shows `time` ("HH:MM"). */
+export function nextOccurrence(time: string, timezone: string, after: Date): Date {
+    const parsed = parseTimeOfDay(time);
+    if (!parsed) {
+        throw new Error(`Invalid time of day: ${time}`);
+    }
+    const today = getZonedParts(after, timezone);
+    for (let dayOffset = 0; ; dayOffset += 1) {
+        const candidate = zonedTimeToUtc(
+            today.year,
+            today.month,
+            today.day + dayOffset,
+            parsed.hour,
+            parsed.minute,
+            timezone
+        );
+        if (candidate > after) {
+            return candidate;
+        }
+    }
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_VOCABULARY_TERMS, parseVocabulary } from './vocabulary';
+
+describe('parseVocabulary', () => {
+    it('splits on commas and lines, keeping the spelling', () => {
+        expect(parseVocabulary('Anja, Jūrmala\n Kubernetes ,,\nAnja')).toEqual(['Anja', 'Jūrmala', 'Kubernetes']);
+    });
+
+    it('returns an empty list for nothing but separators', () => {
+        expect(parseVocabulary(' , \n')).toEqual([]);
+    });
+
+    it('rejects too many or too long terms', () => {
+        const many = Array.from({ length: MAX_VOCABULARY_TERMS + 1 }, (_, index) => `term${index}`).join(',');
+
+        expect(parseVocabulary(many)).toBeNull();
+        expect(parseVocabulary('x'.repeat(41))).toBeNull();
+    });
+});
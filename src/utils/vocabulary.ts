@@ -0,0 +1,16 @@
+// Whisper only reads the last 224 tokens of its prompt, which this stays around.
+export const MAX_VOCABULARY_TERMS = 30;
+export const MAX_VOCABULARY_TERM_LENGTH = 40;
+
+/**
+ * Reads the names and words a user wants transcribed as written, one per line
+ * or separated by commas. Case is kept: it is the spelling that matters.
+ * Returns null when a term is too long or there are too many.
+ */
+export function parseVocabulary(text: string): string[] | null {
+    const terms = [...new Set(text.split(/[,\n]/u).map(term => term.trim()).filter(term => term.length > 0))];
+    if (terms.length > MAX_VOCABULARY_TERMS || terms.some(term => term.length > MAX_VOCABULARY_TERM_LENGTH)) {
+        return null;
+    }
+    return terms;
+}